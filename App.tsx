@@ -1,63 +1,154 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { MatchList } from './components/MatchList';
 import { Dashboard } from './components/Dashboard';
-import { MatchInfo } from './types';
-import { getInPlayEvents, getMatchDetails } from './services/api';
-import { KeyRound, ShieldCheck, RefreshCw } from 'lucide-react';
+import { SessionList } from './components/SessionList';
+import { ProviderLogin } from './components/ProviderLogin';
+import { CalibrationReport } from './components/CalibrationReport';
+import { WatchlistPanel } from './components/WatchlistPanel';
+import { AlertRulesEditor } from './components/AlertRulesEditor';
+import { AlertToasts } from './components/AlertToasts';
+import { ApiUsageScreen } from './components/ApiUsageScreen';
+import { BetLedger } from './components/BetLedger';
+import { StorageScreen } from './components/StorageScreen';
+import { ApiScoreProfilesScreen } from './components/ApiScoreProfilesScreen';
+import { AISettingsScreen } from './components/AISettingsScreen';
+import { NotificationSettingsScreen } from './components/NotificationSettingsScreen';
+import { LanguageSwitcher } from './components/LanguageSwitcher';
+import { OfflineBanner } from './components/OfflineBanner';
+import { DataProvider, DataProviderConfig, MatchInfo, MatchSession, MatchSessionSummary, WatchedMatchSummary } from './types';
+import { createProvider, isLiveProvider, loadProviderConfig, saveProviderConfig } from './services/dataProviders';
+import { listSessions, loadSession, deleteSession } from './services/sessionRecorder';
+import { resolvePredictions } from './services/predictionJournal';
+import { loadWatchlist, toggleWatched, monitorWatchlist } from './services/watchlist';
+import { getBudgetPauseReason } from './services/apiUsage';
+import { trackOpenBets } from './services/betTracker';
+import { parseSessionBundle, importSessionBundle, bundleOverwritesMatch } from './services/sessionBundle';
+import { applyRetention, loadRetentionPolicy } from './services/matchStore';
+import { Locale, getLocale, subscribeLocale, t } from './services/i18n';
+import { isDeviceOffline, isOffline, subscribeConnection } from './services/offlineCache';
+import { subscribeToAlerts } from './services/alertRules';
+import { notify, alertEvent } from './services/notifications';
+import { RefreshCw, History, Target, Bell, Gauge, Wallet, Upload, HardDrive, Calculator, Bot, Send } from 'lucide-react';
+
+// Header shown while a replay starts: the first recorded details, or a stub built from the session summary
+const sessionToMatch = (session: MatchSession): MatchInfo => {
+  const firstDetails = session.snapshots.find(s => s.details)?.details;
+  return firstDetails || {
+    id: session.matchId,
+    league: { name: session.league },
+    home: { name: session.home },
+    away: { name: session.away },
+    ss: '0-0',
+    time: '0',
+  };
+};
 
 const App = () => {
   const REFRESH_INTERVAL_MS = 60000; // Increased to 60s refresh interval for the match list
 
-  const [token, setToken] = useState('');
-  const [hasToken, setHasToken] = useState(false);
+  const [providerConfig, setProviderConfig] = useState<DataProviderConfig | null>(null);
+  const [provider, setProvider] = useState<DataProvider | null>(null);
   const [currentMatch, setCurrentMatch] = useState<MatchInfo | null>(null);
   const [events, setEvents] = useState<MatchInfo[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [replaySession, setReplaySession] = useState<MatchSession | null>(null);
+  const [sessions, setSessions] = useState<MatchSessionSummary[]>([]);
+  const [showSessions, setShowSessions] = useState(false);
+  const [showReport, setShowReport] = useState(false);
+  const [showAlerts, setShowAlerts] = useState(false);
+  const [showUsage, setShowUsage] = useState(false);
+  const [showLedger, setShowLedger] = useState(false);
+  const [showStorage, setShowStorage] = useState(false);
+  const [showApiProfiles, setShowApiProfiles] = useState(false);
+  const [showAISettings, setShowAISettings] = useState(false);
+  const [showNotifications, setShowNotifications] = useState(false);
+  const [watchPausedReason, setWatchPausedReason] = useState<string | null>(null);
+  const [watchIds, setWatchIds] = useState<string[]>(() => loadWatchlist());
+  const [watchSummaries, setWatchSummaries] = useState<WatchedMatchSummary[]>([]);
+  // Only here to re-render the whole tree when the language changes; strings come from t()
+  const [, setLocaleState] = useState<Locale>(getLocale);
+
+  useEffect(() => subscribeLocale(setLocaleState), []);
+
+  // Fired alerts (Dashboard or watchlist) also go out to the webhook channels that want them, as
+  // long as they come from a live feed rather than demo data or a recorded session
+  useEffect(() => subscribeToAlerts(alert => {
+    if (provider && isLiveProvider(provider)) notify(alertEvent(alert));
+  }), [provider]);
+
+  // The polling interval outlives renders, so the background monitor reads these through refs
+  const watchIdsRef = useRef(watchIds);
+  const activeMatchIdRef = useRef<string | null>(null);
+  useEffect(() => { watchIdsRef.current = watchIds; }, [watchIds]);
+  useEffect(() => { activeMatchIdRef.current = currentMatch?.id || null; }, [currentMatch]);
+
+  // Drop stored matches the retention policy no longer keeps (opening the store also migrates old localStorage data)
+  useEffect(() => {
+    applyRetention(loadRetentionPolicy(), loadWatchlist())
+      .then(deleted => { if (deleted > 0) console.log(`Retention removed ${deleted} stored matches.`); });
+  }, []);
 
-  // Load token from local storage on mount
+  // Restore the data provider chosen at the last login
   useEffect(() => {
-    const savedToken = localStorage.getItem('b365_token');
-    if (savedToken) {
-      setToken(savedToken);
-      setHasToken(true);
+    const savedConfig = loadProviderConfig();
+    if (savedConfig) {
+      setProviderConfig(savedConfig);
+      setProvider(createProvider(savedConfig));
     }
   }, []);
 
   // Callable function to fetch events
   const fetchEventsData = useCallback(async () => {
+    if (!provider) return;
     setLoading(true);
     setError(null);
     try {
-      const data = await getInPlayEvents(token);
+      const data = await provider.getInPlayEvents();
       setEvents(data);
+      // An offline answer is the last known list: matches missing from it have not really finished,
+      // so nothing is settled and the watchlist waits for the connection
+      const offline = isOffline();
+      if (!offline) {
+        // Settle logged predictions for every live match, not just the one open in the Dashboard
+        resolvePredictions(data);
+        // Settle bets on matches that have left the in-play list
+        trackOpenBets(data, provider.kind);
+      }
+      // Background analysis of starred matches; not awaited, its odds call may wait on the rate limit.
+      // Non-essential, so it stops once the B365 budget is used up.
+      const pauseReason = offline ? t('offline.watchPaused') : provider.kind === 'b365' ? getBudgetPauseReason() : null;
+      setWatchPausedReason(pauseReason);
+      if (watchIdsRef.current.length > 0 && !pauseReason) {
+        monitorWatchlist(provider, data, watchIdsRef.current, activeMatchIdRef.current)
+          .then(setWatchSummaries)
+          .catch(err => console.error('Watchlist monitoring failed:', err));
+      }
       // If demo mode is active and it returned empty, set a specific message
-      if (token === 'DEMO_MODE' && data.length === 0) {
-        setError('Chế độ Demo: Không tìm thấy trận đấu giả lập. Có thể do lỗi tải dữ liệu demo.');
-      } else if (data.length === 0 && token !== 'DEMO_MODE') {
-        setError('Không tìm thấy trận đấu trực tiếp. Vui lòng kiểm tra Token API của bạn hoặc thử lại sau.');
+      if (provider.kind === 'fixtures' && data.length === 0) {
+        setError(t('app.demoEmpty'));
+      } else if (data.length === 0 && provider.kind === 'b365') {
+        setError(t('app.b365Empty'));
+      } else if (data.length === 0) {
+        setError(t('app.providerEmpty', { provider: provider.label }));
       }
     } catch (err: any) {
       if (err.message.includes('429')) {
-         setError("Giới hạn tần suất của Proxy đã đạt. Vui lòng kiểm tra cấu hình Rate Limiter của Cloudflare Worker và thử lại sau 20-40 giây.");
-      } else if (err.message.includes('Lỗi mạng hoặc CORS')) {
-        // Display the full detailed message from services/api.ts
-        setError(err.message); 
-      }
-      else {
-        setError(err.message || 'Đã xảy ra lỗi không xác định.');
+         setError(t('app.rateLimited'));
+      } else {
+        setError(err.message || t('app.unknownError'));
       }
       setEvents([]);
     } finally {
       setLoading(false);
     }
-  }, [token]);
+  }, [provider]);
 
 
-  // Fetch events only once when hasToken becomes true, and set up interval
+  // Fetch events only once when a provider is chosen, and set up interval
   useEffect(() => {
-    if (!hasToken) return;
+    if (!provider) return;
     
     let isMounted = true;
     // Fix: Explicitly type intervalId as number for browser environments
@@ -68,7 +159,8 @@ const App = () => {
         await fetchEventsData(); // Initial fetch
         // Fix: Cast the return value of setInterval to number
         intervalId = window.setInterval(() => {
-          if (isMounted) {
+          // Without a connection a tick would only re-serve the cached list; after a failed request it is what retries
+          if (isMounted && !isDeviceOffline()) {
             fetchEventsData(); // Subsequent fetches
           }
         }, REFRESH_INTERVAL_MS);
@@ -77,116 +169,251 @@ const App = () => {
 
     startFetching();
 
+    // Refresh as soon as the connection is back instead of waiting for the next tick
+    let wasOffline = isDeviceOffline();
+    const unsubscribe = subscribeConnection(() => {
+      if (isMounted && wasOffline && !isDeviceOffline()) fetchEventsData();
+      wasOffline = isDeviceOffline();
+    });
+
     return () => {
       isMounted = false;
+      unsubscribe();
       // Ensure intervalId is cleared, check if it's defined
       if (intervalId !== undefined) {
         clearInterval(intervalId);
       }
     };
-  }, [hasToken, fetchEventsData, REFRESH_INTERVAL_MS]); // Added REFRESH_INTERVAL_MS to dependencies
+  }, [provider, fetchEventsData, REFRESH_INTERVAL_MS]); // Added REFRESH_INTERVAL_MS to dependencies
 
 
-  const handleTokenSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (token.length > 5) {
-      localStorage.setItem('b365_token', token);
-      setHasToken(true);
-    }
+  const handleConnect = (newProvider: DataProvider, config: DataProviderConfig) => {
+    saveProviderConfig(config);
+    setProviderConfig(config);
+    setProvider(newProvider);
   };
 
   const handleSelectMatch = async (id: string) => {
+    if (!provider) return;
     // Optimistic selection from list
     const matchFromList = events.find(e => e.id === id);
     if (matchFromList) setCurrentMatch(matchFromList);
     
     // Fetch full details (if needed separately)
     // Note: getMatchDetails also uses the rate limit, so this won't spam the API
-    const details = await getMatchDetails(token, id);
+    const details = await provider.getMatchDetails(id);
     if (details) setCurrentMatch(details);
   };
 
+  // A toast can fire on any screen; tapping it jumps straight to the match
+  const handleAlertSelect = (id: string) => {
+    setShowReport(false);
+    setShowAlerts(false);
+    setShowNotifications(false);
+    setShowUsage(false);
+    setShowLedger(false);
+    setShowStorage(false);
+    setShowApiProfiles(false);
+    setShowAISettings(false);
+    setReplaySession(null);
+    handleSelectMatch(id);
+  };
+
+  const handleToggleWatch = (id: string) => {
+    const next = toggleWatched(watchIds, id);
+    setWatchIds(next);
+    setWatchSummaries(prev => prev.filter(s => next.includes(s.matchId)));
+  };
+
+  const toggleSessions = () => {
+    if (!showSessions) listSessions().then(setSessions);
+    setShowSessions(s => !s);
+  };
+
+  const handleReplaySession = async (matchId: string) => {
+    const session = await loadSession(matchId);
+    if (session) setReplaySession(session);
+  };
+
+  const handleDeleteSession = async (matchId: string) => {
+    await deleteSession(matchId);
+    setSessions(await listSessions());
+  };
+
+  // An imported bundle lands in the session list and opens straight into replay. It replaces what is
+  // kept for the same match, so that needs a confirmation first.
+  const handleImportBundle = async (file: File) => {
+    try {
+      const bundle = parseSessionBundle(await file.text());
+      const match = `${bundle.match.home} vs ${bundle.match.away}`;
+      if (await bundleOverwritesMatch(bundle) && !window.confirm(t('app.importOverwrite', { match }))) return;
+      await importSessionBundle(bundle);
+      setSessions(await listSessions());
+      const session = await loadSession(bundle.match.id);
+      if (session) setReplaySession(session);
+    } catch (err: any) {
+      window.alert(t('app.importFailed', { error: err.message }));
+    }
+  };
+
   const handleLogout = () => {
-    setHasToken(false);
-    localStorage.removeItem('b365_token');
+    setProvider(null);
+    saveProviderConfig(null);
     setEvents([]);
     setError(null);
     setCurrentMatch(null);
-    setToken('');
   }
 
-  if (!hasToken) {
-    return (
-      <div className="min-h-screen flex flex-col items-center justify-center p-6 bg-gradient-to-br from-slate-900 to-slate-800 text-white">
-        <div className="bg-white/10 p-4 rounded-full mb-6 backdrop-blur-md">
-            <ShieldCheck className="w-12 h-12 text-blue-400" />
-        </div>
-        <h1 className="text-2xl font-bold mb-2">Pro Analytics Access</h1>
-        <p className="text-gray-400 text-center mb-8 text-sm">Enter your B365 API Token to access real-time match data and analysis tools.</p>
-        
-        <form onSubmit={handleTokenSubmit} className="w-full max-w-sm space-y-4">
-          <div className="relative">
-            <KeyRound className="absolute left-3 top-3.5 text-gray-500 w-5 h-5" />
-            <input 
-              type="text" 
-              value={token}
-              onChange={(e) => setToken(e.target.value)}
-              placeholder="Paste API Token here..." 
-              className="w-full pl-10 pr-4 py-3 rounded-xl bg-white/5 border border-white/10 focus:border-blue-400 focus:ring-1 focus:ring-blue-400 outline-none text-white placeholder-gray-500 transition-all"
-            />
-          </div>
-          <button 
-            type="submit" 
-            disabled={token.length < 5}
-            className="w-full bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold py-3 rounded-xl transition-all shadow-lg shadow-blue-900/50"
-          >
-            Authenticate
-          </button>
-          <div className="text-center mt-4">
-             <a href="#" onClick={(e) => { e.preventDefault(); setToken("DEMO_MODE"); setHasToken(true); }} className="text-xs text-gray-500 underline">Try Demo Mode</a>
-          </div>
-        </form>
-      </div>
+  if (!provider) {
+    return <ProviderLogin initialConfig={providerConfig} onConnect={handleConnect} />;
+  }
+
+  const withToasts = (screen: React.ReactNode) => (
+    <>
+      {screen}
+      <AlertToasts onSelectMatch={handleAlertSelect} />
+    </>
+  );
+
+  if (showReport) {
+    return withToasts(<CalibrationReport onBack={() => setShowReport(false)} />);
+  }
+
+  if (showLedger) {
+    return withToasts(<BetLedger onBack={() => setShowLedger(false)} />);
+  }
+
+  if (showUsage) {
+    return withToasts(<ApiUsageScreen onBack={() => setShowUsage(false)} />);
+  }
+
+  if (showStorage) {
+    return withToasts(<StorageScreen watchIds={watchIds} onBack={() => setShowStorage(false)} />);
+  }
+
+  if (showApiProfiles) {
+    return withToasts(<ApiScoreProfilesScreen onBack={() => setShowApiProfiles(false)} />);
+  }
+
+  if (showAISettings) {
+    return withToasts(<AISettingsScreen onBack={() => setShowAISettings(false)} />);
+  }
+
+  if (showAlerts) {
+    return withToasts(<AlertRulesEditor onBack={() => setShowAlerts(false)} />);
+  }
+
+  if (showNotifications) {
+    return withToasts(<NotificationSettingsScreen onBack={() => setShowNotifications(false)} />);
+  }
+
+  if (replaySession) {
+    return withToasts(
+      <Dashboard
+        key={`replay-${replaySession.matchId}`}
+        provider={provider}
+        match={sessionToMatch(replaySession)}
+        replaySession={replaySession}
+        onBack={() => { setReplaySession(null); listSessions().then(setSessions); }}
+      />
     );
   }
 
   if (currentMatch) {
-    return (
+    return withToasts(
+      // Keyed by match: a toast can switch matches under an open Dashboard, which must start over
       <Dashboard 
-        token={token} 
+        key={currentMatch.id}
+        provider={provider} 
         match={currentMatch} 
         onBack={() => setCurrentMatch(null)} 
       />
     );
   }
 
-  return (
+  return withToasts(
     <div className="min-h-screen bg-gray-50 max-w-md mx-auto shadow-2xl overflow-hidden">
       <div className="bg-white px-5 py-4 sticky top-0 z-10 border-b border-gray-100 flex justify-between items-center">
-        <h1 className="text-xl font-black text-slate-800 tracking-tight">Live Matches</h1>
+        <div>
+          <h1 className="text-xl font-black text-slate-800 tracking-tight">{t('app.title')}</h1>
+          <div className="text-[10px] font-semibold text-gray-400 uppercase tracking-wider">{provider.label}</div>
+        </div>
         <div className="flex items-center space-x-3">
-            <button onClick={fetchEventsData} disabled={loading} className="p-2 -mr-2 text-gray-600 hover:bg-gray-100 rounded-full disabled:opacity-50 disabled:cursor-not-allowed">
+            <button onClick={() => setShowLedger(true)} className="p-2 text-gray-600 hover:bg-gray-100 rounded-full" aria-label={t('app.betLedger')}>
+              <Wallet className="w-5 h-5" />
+            </button>
+            <button onClick={() => setShowReport(true)} className="p-2 text-gray-600 hover:bg-gray-100 rounded-full" aria-label={t('app.accuracy')}>
+              <Target className="w-5 h-5" />
+            </button>
+            {provider.kind === 'b365' && (
+              <button onClick={() => setShowUsage(true)} className="p-2 text-gray-600 hover:bg-gray-100 rounded-full" aria-label={t('app.apiUsage')}>
+                <Gauge className="w-5 h-5" />
+              </button>
+            )}
+            <button onClick={() => setShowStorage(true)} className="p-2 text-gray-600 hover:bg-gray-100 rounded-full" aria-label={t('app.storage')}>
+              <HardDrive className="w-5 h-5" />
+            </button>
+            <button onClick={() => setShowApiProfiles(true)} className="p-2 text-gray-600 hover:bg-gray-100 rounded-full" aria-label={t('app.apiProfiles')}>
+              <Calculator className="w-5 h-5" />
+            </button>
+            <button onClick={() => setShowAISettings(true)} className="p-2 text-gray-600 hover:bg-gray-100 rounded-full" aria-label={t('app.aiModel')}>
+              <Bot className="w-5 h-5" />
+            </button>
+            <button onClick={() => setShowAlerts(true)} className="p-2 text-gray-600 hover:bg-gray-100 rounded-full" aria-label={t('app.alertRules')}>
+              <Bell className="w-5 h-5" />
+            </button>
+            <button onClick={() => setShowNotifications(true)} className="p-2 text-gray-600 hover:bg-gray-100 rounded-full" aria-label={t('app.notifications')}>
+              <Send className="w-5 h-5" />
+            </button>
+            <button onClick={toggleSessions} className={`p-2 rounded-full ${showSessions ? 'bg-indigo-50 text-indigo-600' : 'text-gray-600 hover:bg-gray-100'}`} aria-label={t('app.sessions')}>
+              <History className="w-5 h-5" />
+            </button>
+            <button onClick={fetchEventsData} disabled={loading} className="p-2 -mr-2 text-gray-600 hover:bg-gray-100 rounded-full disabled:opacity-50 disabled:cursor-not-allowed" aria-label={t('app.refresh')}>
               <RefreshCw className={`w-5 h-5 ${loading ? 'animate-spin' : ''}`} />
             </button>
-            <button onClick={handleLogout} className="text-xs text-red-500 font-medium">Logout</button>
+            <LanguageSwitcher />
+            <button onClick={handleLogout} className="text-xs text-red-500 font-medium">{t('app.logout')}</button>
         </div>
       </div>
       
+      <OfflineBanner />
       <div className="p-4">
+        {showSessions && (
+          <div className="mb-4">
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-xs font-bold text-gray-400 uppercase tracking-wider">{t('app.recordedSessions')}</h2>
+              <label className="text-xs font-bold text-indigo-600 flex items-center gap-1 cursor-pointer">
+                <Upload className="w-3.5 h-3.5" /> {t('app.import')}
+                <input
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleImportBundle(file);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+            </div>
+            <SessionList sessions={sessions} onReplay={handleReplaySession} onDelete={handleDeleteSession} />
+          </div>
+        )}
         {error && (
             <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4 mb-4 rounded-md" role="alert">
-                <p className="font-bold">Lỗi</p>
+                <p className="font-bold">{t('app.error')}</p>
                 {/* Render the error message directly */}
                 <p>{error}</p>
-                <p className="mt-2 text-xs text-red-600">
-                  Vui lòng kiểm tra Token API của bạn hoặc thử lại sau vài phút nếu đây là lỗi giới hạn tần suất.
-                </p>
+                <p className="mt-2 text-xs text-red-600">{t('app.errorHint')}</p>
             </div>
         )}
+        <WatchlistPanel summaries={watchSummaries} watchCount={watchIds.length} pausedReason={watchPausedReason} onSelectMatch={handleSelectMatch} />
         <MatchList 
           events={events} 
           onSelectMatch={handleSelectMatch} 
           isLoading={loading && events.length === 0 && !error} 
+          watchIds={watchIds}
+          onToggleWatch={handleToggleWatch}
         />
       </div>
     </div>
@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { AIPredictionResponse } from '../types';
+import {
+  LLMConfig, LLMBackendKind, loadLLMConfig, saveLLMConfig, createPredictor, DEFAULT_MODELS, DEFAULT_OPENAI_BASE_URL,
+} from '../services/llmPredictors';
+import { GoalPredictionInput } from '../services/llmPrompt';
+import { EMPTY_STATS } from '../services/analysis';
+import {
+  AISchedulerSettings, AITrigger, TRIGGER_LABELS, loadSchedulerSettings, saveSchedulerSettings, getSchedulerUsage,
+} from '../services/aiScheduler';
+import { MessageKey, t, confidenceLabel } from '../services/i18n';
+import { ArrowLeft, Bot, Play, Timer } from 'lucide-react';
+
+interface AISettingsScreenProps {
+  onBack: () => void;
+}
+
+const BACKENDS: { kind: LLMBackendKind; label: string; hint: MessageKey }[] = [
+  { kind: 'gemini', label: 'Gemini', hint: 'aiSettings.hint.gemini' },
+  { kind: 'openai', label: 'OpenAI-compatible', hint: 'aiSettings.hint.openai' },
+  { kind: 'mock', label: 'Mock', hint: 'aiSettings.hint.mock' },
+];
+
+// A mid-second-half, goalless, fairly busy match for trying a backend out; team names are filled in per language
+const SAMPLE_INPUT: GoalPredictionInput = {
+  matchId: 'test',
+  minute: 67,
+  homeTeam: '',
+  awayTeam: '',
+  homeScore: 0,
+  awayScore: 0,
+  stats: { ...EMPTY_STATS, attacks: [72, 55], dangerous_attacks: [48, 30], on_target: [5, 2], off_target: [6, 4], corners: [6, 3] },
+  homeApi: 31.6,
+  awayApi: 15.1,
+  latestOverOdds: { handicap: '0.5', over: 1.85, under: 1.95 },
+  latestHomeOdds: { handicap: '-0.25', home: 1.9, away: 1.9 },
+  apiMomentum: 12.4,
+  shotCluster: 93,
+  pressure: 3.6,
+  teamPressure: null,
+};
+
+export const AISettingsScreen: React.FC<AISettingsScreenProps> = ({ onBack }) => {
+  const [config, setConfig] = useState<LLMConfig>(() => loadLLMConfig());
+  const [isTesting, setIsTesting] = useState(false);
+  const [testResult, setTestResult] = useState<{ prediction: AIPredictionResponse | null; ms: number } | null>(null);
+  const [scheduler, setScheduler] = useState<AISchedulerSettings>(() => loadSchedulerSettings());
+
+  const updateConfig = (patch: Partial<LLMConfig>) => {
+    const next = { ...config, ...patch };
+    setConfig(next);
+    saveLLMConfig(next);
+    setTestResult(null);
+  };
+
+  // Switching backend resets the model to that backend's default, the other fields stay
+  const selectBackend = (kind: LLMBackendKind) => {
+    if (kind === config.kind) return;
+    updateConfig({ kind, model: DEFAULT_MODELS[kind], baseUrl: kind === 'openai' ? config.baseUrl || DEFAULT_OPENAI_BASE_URL : config.baseUrl });
+  };
+
+  const inputClass = "px-2 py-1.5 rounded-lg border border-gray-200 text-xs bg-white outline-none focus:border-blue-400";
+
+  const updateScheduler = (patch: Partial<AISchedulerSettings>) => {
+    const next = { ...scheduler, ...patch };
+    setScheduler(next);
+    saveSchedulerSettings(next);
+  };
+
+  // Number fields only accept whole numbers from `min` up
+  const numberField = (label: MessageKey, key: 'shotClusterThreshold' | 'minGapSeconds' | 'perMatchBudget' | 'perDayBudget', min: number) => (
+    <label className="text-xs text-gray-600 flex items-center justify-between gap-2">
+      {t(label)}
+      <input
+        type="number"
+        min={min}
+        value={scheduler[key]}
+        onChange={(e) => { const value = Number(e.target.value); if (Number.isInteger(value) && value >= min) updateScheduler({ [key]: value }); }}
+        className={`${inputClass} w-20 text-right`}
+      />
+    </label>
+  );
+
+  const handleTest = async () => {
+    setIsTesting(true);
+    const startedAt = Date.now();
+    const prediction = await createPredictor(config).predict({ ...SAMPLE_INPUT, homeTeam: t('aiSettings.sampleHome'), awayTeam: t('aiSettings.sampleAway') });
+    setTestResult({ prediction, ms: Date.now() - startedAt });
+    setIsTesting(false);
+  };
+
+  const backend = BACKENDS.find(b => b.kind === config.kind) || BACKENDS[0];
+
+  return (
+    <div className="min-h-screen bg-gray-50 max-w-md mx-auto shadow-2xl overflow-hidden pb-10">
+      <div className="bg-white px-4 py-3 sticky top-0 z-10 border-b border-gray-100 flex items-center gap-3">
+        <button onClick={onBack} className="p-2 -ml-2 text-gray-600 hover:bg-gray-100 rounded-full">
+          <ArrowLeft className="w-6 h-6" />
+        </button>
+        <h1 className="text-base font-black text-slate-800 tracking-tight">{t('aiSettings.title')}</h1>
+      </div>
+
+      <div className="p-4 space-y-4">
+        <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100 space-y-3">
+          <h3 className="text-sm font-bold text-gray-700 flex items-center gap-2"><Bot className="w-4 h-4 text-blue-500" />{t('aiSettings.source')}</h3>
+          <div className="flex gap-1 bg-gray-100 p-0.5 rounded-lg">
+            {BACKENDS.map(b => (
+              <button
+                key={b.kind}
+                onClick={() => selectBackend(b.kind)}
+                className={`flex-1 text-[11px] font-bold px-2 py-1 rounded-md ${config.kind === b.kind ? 'bg-white text-slate-800 shadow-sm' : 'text-gray-500'}`}
+              >
+                {b.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-[11px] text-gray-400">{t(backend.hint)}</p>
+
+          {config.kind !== 'mock' && (
+            <>
+              <label className="text-xs text-gray-600 flex items-center justify-between gap-2">
+                {t('calibration.model')}
+                <input value={config.model} onChange={(e) => updateConfig({ model: e.target.value.trim() })} className={`${inputClass} w-48`} />
+              </label>
+              {config.kind === 'openai' && (
+                <label className="text-xs text-gray-600 flex items-center justify-between gap-2">
+                  Base URL
+                  <input value={config.baseUrl || ''} placeholder={DEFAULT_OPENAI_BASE_URL} onChange={(e) => updateConfig({ baseUrl: e.target.value.trim() })} className={`${inputClass} w-48`} />
+                </label>
+              )}
+              <label className="text-xs text-gray-600 flex items-center justify-between gap-2">
+                {t('aiSettings.apiKey')}
+                <input type="password" value={config.apiKey || ''} placeholder={config.kind === 'openai' ? t('aiSettings.optional') : 'API_KEY'} onChange={(e) => updateConfig({ apiKey: e.target.value.trim() || undefined })} className={`${inputClass} w-48`} />
+              </label>
+              <label className="text-xs text-gray-600 flex items-center justify-between gap-2">
+                Temperature
+                <input type="number" min={0} max={2} step={0.1} value={config.temperature} onChange={(e) => { const value = Number(e.target.value); if (value >= 0 && value <= 2) updateConfig({ temperature: value }); }} className={`${inputClass} w-20 text-right`} />
+              </label>
+              <p className="text-[11px] text-gray-400">{t('aiSettings.keyStored')}</p>
+            </>
+          )}
+        </div>
+
+        <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100 space-y-3">
+          <h3 className="text-sm font-bold text-gray-700 flex items-center gap-2"><Timer className="w-4 h-4 text-blue-500" />{t('aiSettings.scheduler')}</h3>
+          <label className="text-xs text-gray-600 flex items-center gap-2">
+            <input type="checkbox" checked={scheduler.enabled} onChange={(e) => updateScheduler({ enabled: e.target.checked })} />
+            {t('aiSettings.schedulerEnabled')}
+          </label>
+          {scheduler.enabled && (
+            <>
+              <div className="grid grid-cols-2 gap-x-3 gap-y-1.5">
+                {(Object.keys(TRIGGER_LABELS) as AITrigger[]).map(trigger => (
+                  <label key={trigger} className="text-xs text-gray-600 flex items-center gap-2">
+                    <input type="checkbox" checked={scheduler.triggers[trigger]} onChange={(e) => updateScheduler({ triggers: { ...scheduler.triggers, [trigger]: e.target.checked } })} />
+                    {t(TRIGGER_LABELS[trigger])}
+                  </label>
+                ))}
+              </div>
+              {numberField('aiSettings.shotClusterThreshold', 'shotClusterThreshold', 1)}
+              {numberField('aiSettings.minGapSeconds', 'minGapSeconds', 0)}
+            </>
+          )}
+          {numberField('aiSettings.perMatchBudget', 'perMatchBudget', 1)}
+          {numberField('aiSettings.perDayBudget', 'perDayBudget', 1)}
+          <p className="text-[11px] text-gray-400">
+            {t('aiSettings.usage', { used: getSchedulerUsage('').dayCount, budget: scheduler.perDayBudget })}
+          </p>
+        </div>
+
+        <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100 space-y-2">
+          <button onClick={handleTest} disabled={isTesting} className="w-full bg-slate-800 text-white rounded-lg py-2 text-xs font-bold flex items-center justify-center gap-1.5 disabled:opacity-50">
+            <Play className="w-3.5 h-3.5" /> {isTesting ? t('aiSettings.testing') : t('aiSettings.test')}
+          </button>
+          {testResult && (
+            testResult.prediction ? (
+              <div className="text-xs text-gray-600 space-y-1">
+                <div className="flex justify-between">
+                  <span>{t('aiSettings.result.probability')}</span>
+                  <span className="font-bold text-slate-800">{testResult.prediction.goal_probability}% · {confidenceLabel(testResult.prediction.confidence_level)}</span>
+                </div>
+                {testResult.prediction.horizons && (
+                  <div className="flex justify-between">
+                    <span>{t('aiSettings.result.horizons')}</span>
+                    <span className="font-bold text-slate-800">{testResult.prediction.horizons.m10}% · {testResult.prediction.horizons.m15}% · {testResult.prediction.horizons.full_time}%</span>
+                  </div>
+                )}
+                {testResult.prediction.next_goal && (
+                  <div className="flex justify-between">
+                    <span>{t('aiSettings.result.nextGoal')}</span>
+                    <span className="font-bold text-slate-800">{testResult.prediction.next_goal.home}% · {testResult.prediction.next_goal.away}% · {testResult.prediction.next_goal.none}%</span>
+                  </div>
+                )}
+                <div className="flex justify-between">
+                  <span>{t('aiSettings.result.responseTime')}</span>
+                  <span className="font-bold text-slate-800">{(testResult.ms / 1000).toFixed(1)}s</span>
+                </div>
+                {testResult.prediction.reasoning && <p className="text-gray-500 pt-1">{testResult.prediction.reasoning}</p>}
+              </div>
+            ) : (
+              <div className="text-xs text-red-500 text-center">{t('aiSettings.result.invalid')}</div>
+            )
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
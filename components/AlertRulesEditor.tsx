@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { AlertCondition, AlertHistoryEntry, AlertOperator, AlertRule, AlertSignal } from '../types';
+import {
+  loadAlertRules, saveAlertRules, loadAlertHistory, clearAlertHistory,
+  SIGNAL_DEFINITIONS, OPERATORS, describeCondition,
+} from '../services/alertRules';
+import { t } from '../services/i18n';
+import { ArrowLeft, Plus, Trash2, Bell, BellOff, History } from 'lucide-react';
+
+interface AlertRulesEditorProps {
+  onBack: () => void;
+}
+
+const NEW_CONDITION: AlertCondition = { signal: 'apiMomentum', operator: '>', value: 15 };
+
+export const AlertRulesEditor: React.FC<AlertRulesEditorProps> = ({ onBack }) => {
+  const [rules, setRules] = useState<AlertRule[]>(() => loadAlertRules());
+  const [history, setHistory] = useState<AlertHistoryEntry[]>(() => loadAlertHistory().slice().reverse());
+  const [draftName, setDraftName] = useState('');
+  const [draftConditions, setDraftConditions] = useState<AlertCondition[]>([NEW_CONDITION]);
+
+  const updateRules = (next: AlertRule[]) => {
+    setRules(next);
+    saveAlertRules(next);
+  };
+
+  const updateDraftCondition = (index: number, patch: Partial<AlertCondition>) => {
+    setDraftConditions(prev => prev.map((c, i) => (i === index ? { ...c, ...patch } : c)));
+  };
+
+  const handleSaveRule = () => {
+    if (!draftName.trim() || draftConditions.length === 0) return;
+    const rule: AlertRule = {
+      id: `rule-${Date.now()}`,
+      name: draftName.trim(),
+      enabled: true,
+      conditions: draftConditions.map(c => (SIGNAL_DEFINITIONS[c.signal].usesWindow ? { ...c, window: c.window ?? 3 } : c)),
+    };
+    updateRules([...rules, rule]);
+    setDraftName('');
+    setDraftConditions([NEW_CONDITION]);
+  };
+
+  const handleClearHistory = () => {
+    clearAlertHistory();
+    setHistory([]);
+  };
+
+  const inputClass = "px-2 py-1.5 rounded-lg border border-gray-200 text-xs bg-white outline-none focus:border-blue-400";
+
+  return (
+    <div className="min-h-screen bg-gray-50 max-w-md mx-auto shadow-2xl overflow-hidden pb-10">
+      <div className="bg-white px-4 py-3 sticky top-0 z-10 border-b border-gray-100 flex items-center gap-3">
+        <button onClick={onBack} className="p-2 -ml-2 text-gray-600 hover:bg-gray-100 rounded-full">
+          <ArrowLeft className="w-6 h-6" />
+        </button>
+        <h1 className="text-base font-black text-slate-800 tracking-tight">{t('alerts.title')}</h1>
+      </div>
+
+      <div className="p-4 space-y-4">
+        <div className="space-y-2">
+          {rules.length === 0 && <div className="text-xs text-gray-400 text-center py-2">{t('alerts.noRules')}</div>}
+          {rules.map(rule => (
+            <div key={rule.id} className={`bg-white rounded-xl p-3 shadow-sm border ${rule.enabled ? 'border-gray-100' : 'border-gray-100 opacity-60'}`}>
+              <div className="flex items-center justify-between">
+                <div className="font-bold text-sm text-gray-900">{rule.name}</div>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => updateRules(rules.map(r => (r.id === rule.id ? { ...r, enabled: !r.enabled } : r)))}
+                    className="p-1.5 text-gray-500 hover:bg-gray-100 rounded-full"
+                    aria-label={rule.enabled ? t('alerts.disable') : t('alerts.enable')}
+                  >
+                    {rule.enabled ? <Bell className="w-4 h-4 text-amber-500" /> : <BellOff className="w-4 h-4" />}
+                  </button>
+                  <button onClick={() => updateRules(rules.filter(r => r.id !== rule.id))} className="p-1.5 text-gray-400 hover:text-red-500 rounded-full" aria-label={t('common.delete')}>
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+              <div className="text-xs text-gray-500 mt-1">{rule.conditions.map(describeCondition).join(` ${t('alerts.and')} `)}</div>
+            </div>
+          ))}
+        </div>
+
+        <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100 space-y-3">
+          <h3 className="text-sm font-bold text-gray-700">{t('alerts.newRule')}</h3>
+          <input
+            value={draftName}
+            onChange={(e) => setDraftName(e.target.value)}
+            placeholder={t('alerts.namePlaceholder')}
+            className={`${inputClass} w-full text-sm`}
+          />
+          {draftConditions.map((condition, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-1.5">
+              {index > 0 && <span className="text-[10px] font-bold text-gray-400 w-full">{t('alerts.and')}</span>}
+              <select value={condition.signal} onChange={(e) => updateDraftCondition(index, { signal: e.target.value as AlertSignal })} className={inputClass}>
+                {(Object.keys(SIGNAL_DEFINITIONS) as AlertSignal[]).map(signal => (
+                  <option key={signal} value={signal}>{t(SIGNAL_DEFINITIONS[signal].label)}</option>
+                ))}
+              </select>
+              {SIGNAL_DEFINITIONS[condition.signal].usesWindow && (
+                <input type="number" min={1} value={condition.window ?? 3} onChange={(e) => updateDraftCondition(index, { window: Number(e.target.value) })} className={`${inputClass} w-12`} title={t('alerts.window')} />
+              )}
+              <select value={condition.operator} onChange={(e) => updateDraftCondition(index, { operator: e.target.value as AlertOperator })} className={inputClass}>
+                {OPERATORS.map(op => <option key={op} value={op}>{op === 'between' ? t('alerts.operator.between') : op}</option>)}
+              </select>
+              <input type="number" step="any" value={condition.value} onChange={(e) => updateDraftCondition(index, { value: Number(e.target.value) })} className={`${inputClass} w-16`} />
+              {condition.operator === 'between' && (
+                <input type="number" step="any" value={condition.value2 ?? condition.value} onChange={(e) => updateDraftCondition(index, { value2: Number(e.target.value) })} className={`${inputClass} w-16`} />
+              )}
+              {draftConditions.length > 1 && (
+                <button onClick={() => setDraftConditions(prev => prev.filter((_, i) => i !== index))} className="p-1 text-gray-400 hover:text-red-500" aria-label={t('alerts.removeCondition')}>
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+          ))}
+          <div className="flex justify-between">
+            <button onClick={() => setDraftConditions(prev => [...prev, NEW_CONDITION])} className="text-xs font-bold text-blue-600 flex items-center gap-1">
+              <Plus className="w-3.5 h-3.5" /> {t('alerts.addCondition')}
+            </button>
+            <button onClick={handleSaveRule} disabled={!draftName.trim()} className="text-xs font-bold bg-blue-600 text-white px-3 py-1.5 rounded-lg disabled:opacity-50">
+              {t('alerts.saveRule')}
+            </button>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-bold text-gray-700 flex items-center gap-2"><History className="w-4 h-4 text-slate-500" />{t('alerts.history')}</h3>
+            {history.length > 0 && <button onClick={handleClearHistory} className="text-xs text-gray-400 hover:text-red-500">{t('common.delete')}</button>}
+          </div>
+          {history.length === 0 ? (
+            <div className="text-xs text-gray-400 text-center py-2">{t('alerts.noHistory')}</div>
+          ) : (
+            <div className="max-h-72 overflow-y-auto no-scrollbar divide-y divide-gray-100">
+              {history.map(entry => (
+                <div key={entry.id} className="py-1.5 text-xs">
+                  <div className="flex justify-between">
+                    <span className="font-bold text-gray-800">{entry.ruleName}</span>
+                    <span className="text-gray-400">{new Date(entry.firedAt).toLocaleString()}</span>
+                  </div>
+                  <div className="text-gray-500">{entry.minute}' · {entry.home} {entry.ss} {entry.away}</div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
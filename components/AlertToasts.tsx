@@ -0,0 +1,43 @@
+import React, { useEffect, useState } from 'react';
+import { AlertHistoryEntry } from '../types';
+import { subscribeToAlerts } from '../services/alertRules';
+import { t } from '../services/i18n';
+import { BellRing, X } from 'lucide-react';
+
+interface AlertToastsProps {
+  onSelectMatch: (id: string) => void;
+}
+
+const TOAST_DURATION_MS = 10000;
+
+export const AlertToasts: React.FC<AlertToastsProps> = ({ onSelectMatch }) => {
+  const [toasts, setToasts] = useState<AlertHistoryEntry[]>([]);
+
+  useEffect(() => subscribeToAlerts(alert => {
+    setToasts(prev => [...prev, alert]);
+    window.setTimeout(() => setToasts(prev => prev.filter(t => t.id !== alert.id)), TOAST_DURATION_MS);
+  }), []);
+
+  const dismiss = (id: string) => setToasts(prev => prev.filter(t => t.id !== id));
+
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="fixed top-3 left-1/2 -translate-x-1/2 w-full max-w-sm px-3 z-50 space-y-2">
+      {toasts.map(toast => (
+        <div key={toast.id} className="bg-slate-900 text-white rounded-xl shadow-2xl p-3 flex items-start gap-3 border border-amber-400/40">
+          <BellRing className="w-5 h-5 text-amber-400 flex-shrink-0 mt-0.5" />
+          <button onClick={() => { dismiss(toast.id); onSelectMatch(toast.matchId); }} className="flex-grow text-left min-w-0">
+            <div className="text-sm font-bold truncate">{toast.ruleName}</div>
+            <div className="text-xs text-gray-300 truncate">
+              {toast.minute}' · {toast.home} {toast.ss} {toast.away}
+            </div>
+          </button>
+          <button onClick={() => dismiss(toast.id)} className="text-gray-400 hover:text-white" aria-label={t('common.close')}>
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -1 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import {
+  loadDisciplineSettings,
+  enabledChecklist,
+  hasRecentAlert,
+  checkBeforeBet,
+  recordOverride,
+  checklistItemLabel,
+  SIGNAL_RULE_ITEM_ID,
+} from '../services/discipline';
+import { t } from '../services/i18n';
+import { ShieldCheck, Lock, AlertTriangle } from 'lucide-react';
 
+interface AntiEmotionChecklistProps {
+  matchId: string;
+  stake: number;
+  summary: string; // The bet about to be logged, e.g. "Tài 2.5 @1.90 · 10"
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const MIN_REASON_LENGTH = 5;
+
+const formatRemaining = (ms: number) => {
+  const minutes = Math.floor(ms / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Shown between tapping a price and logging the bet. The bet goes through only once every
+ * checklist item is ticked and no cooldown is running; skipping either needs a written reason,
+ * which is kept in the override log.
+ */
+export const AntiEmotionChecklist: React.FC<AntiEmotionChecklistProps> = ({ matchId, stake, summary, onConfirm, onCancel }) => {
+  const [items] = useState(() => enabledChecklist(loadDisciplineSettings()));
+  const [gate] = useState(() => checkBeforeBet(stake));
+  const [checked, setChecked] = useState<Record<string, boolean>>(() =>
+    hasRecentAlert(matchId) ? { [SIGNAL_RULE_ITEM_ID]: true } : {}
+  );
+  const [cooldownOverridden, setCooldownOverridden] = useState(false);
+  const [reason, setReason] = useState('');
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!gate.cooldown) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [gate.cooldown]);
+
+  const locked = !!gate.cooldown && gate.cooldown.until > now && !cooldownOverridden;
+  const unchecked = items.filter(item => !checked[item.id]);
+  const reasonValid = reason.trim().length >= MIN_REASON_LENGTH;
+
+  const handleCooldownOverride = () => {
+    recordOverride({ matchId, kind: 'cooldown', detail: gate.cooldown!.reason, reason: reason.trim() });
+    setCooldownOverridden(true);
+    setReason('');
+  };
+
+  const handleChecklistOverride = () => {
+    recordOverride({ matchId, kind: 'checklist', detail: unchecked.map(checklistItemLabel).join('; '), reason: reason.trim() });
+    onConfirm();
+  };
+
+  const reasonInput = (
+    <textarea
+      value={reason}
+      onChange={(e) => setReason(e.target.value)}
+      rows={2}
+      placeholder={t('discipline.reasonPlaceholder')}
+      className="w-full px-2 py-1.5 rounded-lg border border-gray-200 text-xs"
+    />
+  );
+
+  if (locked) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-xs space-y-2">
+        <div className="font-bold text-red-700 flex items-center gap-1.5"><Lock className="w-3.5 h-3.5" />{t('discipline.locked', { remaining: formatRemaining(gate.cooldown!.until - now) })}</div>
+        <div className="text-red-600">{gate.cooldown!.reason}</div>
+        {reasonInput}
+        <div className="flex gap-2">
+          <button onClick={onCancel} className="flex-1 bg-white border border-gray-200 rounded-lg py-1.5 font-bold text-gray-600">{t('discipline.takeBreak')}</button>
+          <button onClick={handleCooldownOverride} disabled={!reasonValid} className="flex-1 bg-red-600 text-white rounded-lg py-1.5 font-bold disabled:opacity-40">{t('discipline.override.cooldown')}</button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-slate-50 border border-gray-200 rounded-lg p-3 text-xs space-y-2">
+      <div className="font-bold text-slate-700 flex items-center gap-1.5"><ShieldCheck className="w-3.5 h-3.5 text-emerald-600" />{t('discipline.checkBefore', { summary })}</div>
+      {gate.signals.length > 0 && (
+        <div className="text-amber-700 flex items-start gap-1.5">
+          <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" />
+          <span>{gate.signals.map(s => s.message).join(' ')}</span>
+        </div>
+      )}
+      {items.map(item => (
+        <label key={item.id} className="flex items-center gap-2 text-gray-700">
+          <input type="checkbox" checked={!!checked[item.id]} onChange={(e) => setChecked(prev => ({ ...prev, [item.id]: e.target.checked }))} />
+          {checklistItemLabel(item)}
+        </label>
+      ))}
+      {unchecked.length > 0 && reasonInput}
+      <div className="flex gap-2">
+        <button onClick={onCancel} className="flex-1 bg-white border border-gray-200 rounded-lg py-1.5 font-bold text-gray-600">{t('common.cancel')}</button>
+        {unchecked.length === 0 ? (
+          <button onClick={onConfirm} className="flex-1 bg-emerald-600 text-white rounded-lg py-1.5 font-bold">{t('discipline.logBet')}</button>
+        ) : (
+          <button onClick={handleChecklistOverride} disabled={!reasonValid} className="flex-1 bg-amber-500 text-white rounded-lg py-1.5 font-bold disabled:opacity-40">{t('discipline.logAnyway')}</button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,208 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ApiScoreProfile, ApiScoreWeights, StoredMatch } from '../types';
+import {
+  loadProfiles, loadActiveProfileId, setActiveProfile, createProfile, updateProfile, deleteProfile,
+} from '../services/apiScoreProfiles';
+import { calculateAPIScore } from '../services/analysis';
+import { listMatches } from '../services/matchStore';
+import { buildTimelineLayout, clockFromKey } from '../services/matchClock';
+import { timelineAxisProps, renderPeriodMarkers } from './TimelineAxis';
+import { MessageKey, t } from '../services/i18n';
+import { ArrowLeft, Copy, Trash2, LineChart as LineChartIcon } from 'lucide-react';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, Tooltip, Legend } from 'recharts';
+
+interface ApiScoreProfilesScreenProps {
+  onBack: () => void;
+}
+
+const WEIGHT_FIELDS: { key: keyof ApiScoreWeights; label: MessageKey }[] = [
+  { key: 'shots', label: 'momentum.shots' },
+  { key: 'onTarget', label: 'profiles.weight.onTarget' },
+  { key: 'corners', label: 'stats.corners' },
+  { key: 'dangerousAttacks', label: 'momentum.dangerousAttacks' },
+  { key: 'attacks', label: 'stats.attacks' },
+  { key: 'yellowCards', label: 'profiles.weight.yellowCards' },
+  { key: 'redCards', label: 'profiles.weight.redCards' },
+];
+
+const LINE_COLORS = ['#2563eb', '#ea580c', '#16a34a', '#a855f7', '#0891b2', '#db2777', '#64748b'];
+
+export const ApiScoreProfilesScreen: React.FC<ApiScoreProfilesScreenProps> = ({ onBack }) => {
+  const [profiles, setProfiles] = useState<ApiScoreProfile[]>(() => loadProfiles());
+  const [activeId, setActiveId] = useState(() => loadActiveProfileId());
+  const [selectedId, setSelectedId] = useState(() => loadActiveProfileId());
+  const [matches, setMatches] = useState<StoredMatch[]>([]);
+  const [compareMatchId, setCompareMatchId] = useState('');
+  const [side, setSide] = useState<0 | 1>(0);
+
+  useEffect(() => {
+    listMatches().then(records => {
+      const recorded = records
+        .filter(r => Object.keys(r.statsHistory).length > 1)
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+      setMatches(recorded);
+      if (recorded.length > 0) setCompareMatchId(id => id || recorded[0].matchId);
+    });
+  }, []);
+
+  const selected = profiles.find(p => p.id === selectedId) || profiles[0];
+
+  const handleActivate = (id: string) => {
+    setActiveProfile(id);
+    setActiveId(id);
+  };
+
+  const handleCopy = (profile: ApiScoreProfile) => {
+    const next = createProfile(profiles, t('profiles.copyName', { name: profile.name }), profile.weights);
+    setProfiles(next);
+    setSelectedId(next[next.length - 1].id);
+  };
+
+  const handleDelete = (id: string) => {
+    setProfiles(deleteProfile(profiles, id));
+    setActiveId(loadActiveProfileId());
+    if (selectedId === id) setSelectedId(profiles[0].id);
+  };
+
+  const handleWeight = (key: keyof ApiScoreWeights, value: string) => {
+    const number = Number(value);
+    if (isNaN(number)) return;
+    setProfiles(updateProfile(profiles, selected.id, { weights: { ...selected.weights, [key]: number } }));
+  };
+
+  // One line per profile over the recorded stats of the chosen match
+  const compareMatch = matches.find(m => m.matchId === compareMatchId);
+  const comparison = useMemo(() => {
+    if (!compareMatch) return null;
+    const minutes = Object.keys(compareMatch.statsHistory).map(Number).sort((a, b) => a - b);
+    const timeline = buildTimelineLayout(minutes.map(minute => clockFromKey(minute)));
+    const data = minutes.map(minute => {
+      const point: Record<string, number> = { minute, x: timeline.minuteToX(minute) };
+      profiles.forEach(p => { point[p.id] = Math.round(calculateAPIScore(compareMatch.statsHistory[minute], side, p.weights) * 10) / 10; });
+      return point;
+    });
+    return { timeline, data };
+  }, [compareMatch, profiles, side]);
+
+  const inputClass = "px-2 py-1.5 rounded-lg border border-gray-200 text-xs bg-white outline-none focus:border-blue-400";
+
+  return (
+    <div className="min-h-screen bg-gray-50 max-w-md mx-auto shadow-2xl overflow-hidden pb-10">
+      <div className="bg-white px-4 py-3 sticky top-0 z-10 border-b border-gray-100 flex items-center gap-3">
+        <button onClick={onBack} className="p-2 -ml-2 text-gray-600 hover:bg-gray-100 rounded-full">
+          <ArrowLeft className="w-6 h-6" />
+        </button>
+        <h1 className="text-base font-black text-slate-800 tracking-tight">{t('profiles.title')}</h1>
+      </div>
+
+      <div className="p-4 space-y-4">
+        <div className="space-y-2">
+          {profiles.map(profile => (
+            <div
+              key={profile.id}
+              onClick={() => setSelectedId(profile.id)}
+              className={`bg-white rounded-xl p-3 shadow-sm border flex items-center gap-3 cursor-pointer ${profile.id === selected.id ? 'border-blue-300' : 'border-gray-100'}`}
+            >
+              <input
+                type="radio"
+                checked={profile.id === activeId}
+                onChange={() => handleActivate(profile.id)}
+                onClick={(e) => e.stopPropagation()}
+                aria-label={t('profiles.use')}
+              />
+              <div className="flex-grow min-w-0">
+                <div className="font-bold text-sm text-gray-900 truncate">{profile.name}</div>
+                <div className="text-[11px] text-gray-400">{profile.id === activeId ? t('profiles.active') : profile.builtIn ? t('profiles.builtIn') : t('profiles.custom')}</div>
+              </div>
+              <button onClick={(e) => { e.stopPropagation(); handleCopy(profile); }} className="p-1.5 text-gray-400 hover:bg-gray-100 rounded-full" aria-label={t('profiles.copy')}>
+                <Copy className="w-4 h-4" />
+              </button>
+              {!profile.builtIn && (
+                <button onClick={(e) => { e.stopPropagation(); handleDelete(profile.id); }} className="p-1.5 text-gray-400 hover:text-red-500 rounded-full" aria-label={t('common.delete')}>
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100 space-y-2">
+          <input
+            value={selected.name}
+            disabled={selected.builtIn}
+            onChange={(e) => setProfiles(updateProfile(profiles, selected.id, { name: e.target.value }))}
+            className={`${inputClass} w-full font-bold text-sm disabled:bg-gray-50`}
+          />
+          {selected.builtIn && <p className="text-[11px] text-gray-400">{t('profiles.builtInReadOnly')}</p>}
+          <div className="grid grid-cols-2 gap-2">
+            {WEIGHT_FIELDS.map(field => (
+              <label key={field.key} className="text-xs text-gray-600 flex items-center justify-between gap-2">
+                {t(field.label)}
+                <input
+                  type="number"
+                  step={0.1}
+                  value={selected.weights[field.key]}
+                  disabled={selected.builtIn}
+                  onChange={(e) => handleWeight(field.key, e.target.value)}
+                  className={`${inputClass} w-16 text-right disabled:bg-gray-50`}
+                />
+              </label>
+            ))}
+          </div>
+          <p className="text-[11px] text-gray-400">{t('profiles.appliesTo')}</p>
+        </div>
+
+        <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100">
+          <h3 className="text-sm font-bold text-gray-700 mb-2 flex items-center gap-2"><LineChartIcon className="w-4 h-4 text-blue-500" />{t('profiles.compare')}</h3>
+          {matches.length === 0 ? (
+            <div className="text-xs text-gray-400 text-center py-4">{t('profiles.noMatches')}</div>
+          ) : (
+            <>
+              <div className="flex gap-2 mb-2">
+                <select value={compareMatchId} onChange={(e) => setCompareMatchId(e.target.value)} className={`${inputClass} flex-1 min-w-0`}>
+                  {matches.map(m => <option key={m.matchId} value={m.matchId}>{m.home} - {m.away}</option>)}
+                </select>
+                <div className="flex gap-1 bg-gray-100 p-0.5 rounded-lg">
+                  {[t('common.home'), t('common.away')].map((label, index) => (
+                    <button
+                      key={label}
+                      onClick={() => setSide(index as 0 | 1)}
+                      className={`text-[11px] font-bold px-2 py-1 rounded-md ${side === index ? 'bg-white text-slate-800 shadow-sm' : 'text-gray-500'}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {comparison && (
+                <div className="h-64 w-full">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={comparison.data} margin={{ top: 10, right: 10, bottom: 0, left: -15 }}>
+                      <XAxis {...timelineAxisProps(comparison.timeline)} />
+                      <YAxis yAxisId="left" tick={{ fontSize: 10, fill: '#9ca3af' }} tickLine={false} axisLine={{ stroke: '#e5e7eb' }} width={45} />
+                      <Tooltip labelFormatter={(x) => `${comparison.timeline.label(Number(x))}'`} />
+                      <Legend wrapperStyle={{ fontSize: '12px', paddingTop: '10px' }} />
+                      {renderPeriodMarkers(comparison.timeline, 'left')}
+                      {profiles.map((profile, index) => (
+                        <Line
+                          key={profile.id}
+                          yAxisId="left"
+                          type="monotone"
+                          dataKey={profile.id}
+                          name={profile.name}
+                          stroke={LINE_COLORS[index % LINE_COLORS.length]}
+                          strokeWidth={profile.id === activeId ? 2.5 : 1.5}
+                          dot={false}
+                        />
+                      ))}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
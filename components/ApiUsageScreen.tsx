@@ -0,0 +1,137 @@
+import React, { useMemo, useState } from 'react';
+import { ApiBudget, ApiCallRecord } from '../types';
+import {
+  loadApiUsage, clearApiUsage, loadApiBudget, saveApiBudget, summarizeApiUsage, getBudgetPauseReason,
+} from '../services/apiUsage';
+import { t } from '../services/i18n';
+import { ArrowLeft, Gauge, Trash2, PauseCircle } from 'lucide-react';
+import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip, Legend, ReferenceLine, CartesianGrid } from 'recharts';
+
+interface ApiUsageScreenProps {
+  onBack: () => void;
+}
+
+const RECENT_CALLS = 30;
+
+const formatTime = (ts: number) => new Date(ts).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export const ApiUsageScreen: React.FC<ApiUsageScreenProps> = ({ onBack }) => {
+  const [log, setLog] = useState<ApiCallRecord[]>(() => loadApiUsage());
+  const [budget, setBudget] = useState<ApiBudget>(() => loadApiBudget());
+
+  const summary = useMemo(() => summarizeApiUsage(log), [log]);
+  const pauseReason = useMemo(() => getBudgetPauseReason(), [log, budget]);
+  const chartData = summary.hourly.map(h => ({ ...h, hour: `${new Date(h.hourStart).getHours()}h` }));
+  const recent = log.slice(-RECENT_CALLS).reverse();
+
+  const updateBudget = (patch: Partial<ApiBudget>) => {
+    const next = { ...budget, ...patch };
+    setBudget(next);
+    saveApiBudget(next);
+  };
+
+  const handleClear = () => {
+    if (!window.confirm(t('apiUsage.confirmClear'))) return;
+    clearApiUsage();
+    setLog([]);
+  };
+
+  const StatCard = ({ label, value, warn }: { label: string; value: string; warn?: boolean }) => (
+    <div className="bg-white rounded-xl p-3 shadow-sm border border-gray-100">
+      <div className={`text-xl font-black ${warn ? 'text-red-600' : 'text-slate-800'}`}>{value}</div>
+      <div className="text-[10px] text-gray-400 uppercase">{label}</div>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50 max-w-md mx-auto shadow-2xl overflow-hidden pb-10">
+      <div className="bg-white px-4 py-3 sticky top-0 z-10 border-b border-gray-100 flex items-center justify-between">
+        <button onClick={onBack} className="p-2 -ml-2 text-gray-600 hover:bg-gray-100 rounded-full">
+          <ArrowLeft className="w-6 h-6" />
+        </button>
+        <h1 className="text-base font-black text-slate-800 tracking-tight">{t('apiUsage.title')}</h1>
+        <button onClick={handleClear} disabled={log.length === 0} className="p-2 -mr-2 text-gray-400 hover:text-red-500 disabled:opacity-30" aria-label={t('calibration.clear')}>
+          <Trash2 className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-4">
+        {pauseReason && (
+          <div className="bg-amber-50 border border-amber-200 text-amber-800 rounded-xl p-3 text-xs flex gap-2">
+            <PauseCircle className="w-4 h-4 flex-shrink-0" />
+            <span>{pauseReason} {t('apiUsage.pausedUntilBelow')}</span>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-3">
+          <StatCard label={t('apiUsage.lastHour')} value={`${summary.lastHourUpstream}/${budget.hourlyCap}`} warn={summary.lastHourUpstream >= budget.hourlyCap} />
+          <StatCard label={t('apiUsage.today')} value={`${summary.todayUpstream}/${budget.dailyCap}`} warn={summary.todayUpstream >= budget.dailyCap} />
+          <StatCard label={t('apiUsage.projected')} value={`${summary.projectedDaily}`} warn={summary.projectedDaily > budget.dailyCap} />
+          <StatCard label={t('apiUsage.cacheHitRate')} value={isNaN(summary.cacheHitRate) ? '-' : `${Math.round(summary.cacheHitRate * 100)}%`} />
+        </div>
+
+        <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100">
+          <h3 className="text-sm font-bold text-gray-700 mb-2 flex items-center gap-2"><Gauge className="w-4 h-4 text-blue-500" />{t('apiUsage.hourly')}</h3>
+          <div className="h-56 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData} margin={{ top: 10, right: 10, bottom: 0, left: -20 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#f3f4f6" />
+                <XAxis dataKey="hour" tick={{ fontSize: 9, fill: '#9ca3af' }} interval={3} />
+                <YAxis tick={{ fontSize: 10, fill: '#9ca3af' }} allowDecimals={false} />
+                <Tooltip />
+                <Legend wrapperStyle={{ fontSize: '12px', paddingTop: '10px' }} />
+                <ReferenceLine y={budget.hourlyCap} stroke="#ef4444" strokeDasharray="4 4" />
+                <Bar dataKey="misses" name={t('apiUsage.upstreamCalls')} stackId="calls" fill="#2563eb" />
+                <Bar dataKey="hits" name="Cache HIT" stackId="calls" fill="#93c5fd" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="text-xs text-gray-500 mt-1">{t('apiUsage.avgLatency', { ms: summary.avgLatencyMs })}</div>
+        </div>
+
+        <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100 space-y-2">
+          <h3 className="text-sm font-bold text-gray-700">{t('apiUsage.budget')}</h3>
+          <p className="text-xs text-gray-500">{t('apiUsage.budgetHint')}</p>
+          <label className="flex items-center justify-between text-xs text-gray-600">
+            {t('apiUsage.perHour')}
+            <input type="number" min={1} value={budget.hourlyCap} onChange={(e) => updateBudget({ hourlyCap: Number(e.target.value) || 1 })} className="w-24 px-2 py-1.5 rounded-lg border border-gray-200 text-right" />
+          </label>
+          <label className="flex items-center justify-between text-xs text-gray-600">
+            {t('apiUsage.perDay')}
+            <input type="number" min={1} value={budget.dailyCap} onChange={(e) => updateBudget({ dailyCap: Number(e.target.value) || 1 })} className="w-24 px-2 py-1.5 rounded-lg border border-gray-200 text-right" />
+          </label>
+        </div>
+
+        <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100">
+          <h3 className="text-sm font-bold text-gray-700 mb-2">{t('apiUsage.recent')}</h3>
+          {recent.length === 0 ? (
+            <div className="text-xs text-gray-400 text-center py-2">{t('apiUsage.noCalls')}</div>
+          ) : (
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-gray-400 text-left">
+                  <th className="font-medium py-1">{t('apiUsage.time')}</th>
+                  <th className="font-medium">Endpoint</th>
+                  <th className="font-medium">Cache</th>
+                  <th className="font-medium text-right">ms</th>
+                  <th className="font-medium text-right">HTTP</th>
+                </tr>
+              </thead>
+              <tbody>
+                {recent.map((r, i) => (
+                  <tr key={`${r.timestamp}-${i}`} className="border-t border-gray-100">
+                    <td className="py-1 text-gray-500">{formatTime(r.timestamp)}</td>
+                    <td className="text-gray-700">{r.endpoint}{r.eventId ? ` #${r.eventId}` : ''}</td>
+                    <td className={r.cache === 'HIT' ? 'text-blue-400' : 'text-blue-700 font-bold'}>{r.cache || '-'}</td>
+                    <td className="text-right text-gray-500">{r.latencyMs}</td>
+                    <td className={`text-right ${r.status === 0 || r.status >= 400 ? 'text-red-500 font-bold' : 'text-gray-500'}`}>{r.status || 'ERR'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,141 @@
+import React, { useMemo, useState } from 'react';
+import { Bet } from '../types';
+import { loadBets, deleteBet, buildLedger, LedgerRow } from '../services/betTracker';
+import { SIGNAL_LABELS, RESULT_LABELS, describeBet } from './BetSlip';
+import { DisciplinePanel } from './DisciplinePanel';
+import { MessageKey, t } from '../services/i18n';
+import { ArrowLeft, Wallet, Trash2 } from 'lucide-react';
+
+interface BetLedgerProps {
+  onBack: () => void;
+}
+
+type Grouping = 'match' | 'league' | 'signal';
+
+const GROUPINGS: { key: Grouping; label: MessageKey; groupBy: (bet: Bet) => string }[] = [
+  { key: 'match', label: 'ledger.group.match', groupBy: bet => `${bet.home} vs ${bet.away}` },
+  { key: 'league', label: 'ledger.group.league', groupBy: bet => bet.league },
+  { key: 'signal', label: 'ledger.group.signal', groupBy: bet => t(SIGNAL_LABELS[bet.signal]) },
+];
+
+const profitColor = (profit: number) => (profit > 0 ? 'text-green-600' : profit < 0 ? 'text-red-500' : 'text-gray-500');
+const formatProfit = (profit: number) => `${profit > 0 ? '+' : ''}${profit.toFixed(2)}`;
+
+export const BetLedger: React.FC<BetLedgerProps> = ({ onBack }) => {
+  const [bets, setBets] = useState<Bet[]>(() => loadBets());
+  const [grouping, setGrouping] = useState<Grouping>('match');
+
+  const [total] = useMemo(() => buildLedger(bets, () => 'all'), [bets]);
+  const rows = useMemo<LedgerRow[]>(
+    () => buildLedger(bets, GROUPINGS.find(g => g.key === grouping)!.groupBy),
+    [bets, grouping]
+  );
+  const recent = useMemo(() => [...bets].sort((a, b) => b.placedAt - a.placedAt), [bets]);
+
+  const handleDelete = (id: string) => {
+    if (!window.confirm(t('ledger.confirmDelete'))) return;
+    deleteBet(id);
+    setBets(loadBets());
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 max-w-md mx-auto shadow-2xl overflow-hidden pb-10">
+      <div className="bg-white px-4 py-3 sticky top-0 z-10 border-b border-gray-100 flex items-center gap-3">
+        <button onClick={onBack} className="p-2 -ml-2 text-gray-600 hover:bg-gray-100 rounded-full">
+          <ArrowLeft className="w-6 h-6" />
+        </button>
+        <h1 className="text-base font-black text-slate-800 tracking-tight">{t('ledger.title')}</h1>
+      </div>
+
+      <div className="p-4 space-y-4">
+        {!total ? (
+          <div className="text-xs text-gray-400 text-center py-6">{t('ledger.empty')}</div>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-3">
+              <div className="bg-white rounded-xl p-3 shadow-sm border border-gray-100">
+                <div className={`text-xl font-black ${profitColor(total.profit)}`}>{formatProfit(total.profit)}</div>
+                <div className="text-[10px] text-gray-400 uppercase">{t('ledger.profit')}</div>
+              </div>
+              <div className="bg-white rounded-xl p-3 shadow-sm border border-gray-100">
+                <div className="text-xl font-black text-slate-800">{total.roi === null ? '-' : `${total.roi}%`}</div>
+                <div className="text-[10px] text-gray-400 uppercase">ROI</div>
+              </div>
+              <div className="bg-white rounded-xl p-3 shadow-sm border border-gray-100">
+                <div className="text-xl font-black text-slate-800">{total.bets}</div>
+                <div className="text-[10px] text-gray-400 uppercase">{t('ledger.openCount', { count: total.open })}</div>
+              </div>
+            </div>
+
+            <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100">
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-bold text-gray-700 flex items-center gap-2"><Wallet className="w-4 h-4 text-emerald-600" />{t('ledger.profitBy')}</h3>
+                <div className="flex gap-1 bg-gray-100 p-0.5 rounded-lg">
+                  {GROUPINGS.map(g => (
+                    <button key={g.key} onClick={() => setGrouping(g.key)} className={`text-[11px] font-bold px-2 py-1 rounded-md ${grouping === g.key ? 'bg-white text-slate-800 shadow-sm' : 'text-gray-500'}`}>
+                      {t(g.label)}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-gray-400 text-left">
+                    <th className="font-medium py-1"></th>
+                    <th className="font-medium text-right">{t('ledger.bets')}</th>
+                    <th className="font-medium text-right">{t('ledger.staked')}</th>
+                    <th className="font-medium text-right">{t('ledger.profit')}</th>
+                    <th className="font-medium text-right">ROI</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => (
+                    <tr key={row.key} className="border-t border-gray-100">
+                      <td className="py-1.5 text-gray-700 max-w-[140px] truncate">{row.key}</td>
+                      <td className="text-right text-gray-500">{row.bets}{row.open > 0 ? ` (${row.open})` : ''}</td>
+                      <td className="text-right text-gray-500">{row.staked}</td>
+                      <td className={`text-right font-bold ${profitColor(row.profit)}`}>{formatProfit(row.profit)}</td>
+                      <td className="text-right text-gray-500">{row.roi === null ? '-' : `${row.roi}%`}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100">
+              <h3 className="text-sm font-bold text-gray-700 mb-2">{t('ledger.allBets')}</h3>
+              <div className="divide-y divide-gray-100">
+                {recent.map(bet => (
+                  <div key={bet.id} className="py-1.5 text-xs flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <div className="text-gray-800 truncate">{bet.home} vs {bet.away}</div>
+                      <div className="text-gray-500">{bet.minute}' ({bet.ssAtPlacement}) · {describeBet(bet)} · {bet.stake} · {t(SIGNAL_LABELS[bet.signal])}</div>
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      {bet.settlement ? (
+                        <span className={`font-bold ${profitColor(bet.settlement.profit)}`}>
+                          {t(RESULT_LABELS[bet.settlement.result])} {formatProfit(bet.settlement.profit)}
+                        </span>
+                      ) : (
+                        bet.unverified && bet.lastSeen ? (
+                          <span className="text-amber-600" title={t('ledger.unverifiedHint')}>{t('ledger.unverified', { minute: bet.lastSeen.minute, ss: bet.lastSeen.ss })}</span>
+                        ) : (
+                          <span className="text-gray-400">{bet.lastSeen ? `${bet.lastSeen.minute}' ${bet.lastSeen.ss}` : t('ledger.open')}</span>
+                        )
+                      )}
+                      <button onClick={() => handleDelete(bet.id)} className="text-gray-300 hover:text-red-500" aria-label={t('ledger.deleteBet')}>
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+
+        <DisciplinePanel />
+      </div>
+    </div>
+  );
+};
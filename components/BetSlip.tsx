@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { Bet, BetResult, BetSide, BetSignal, DataProviderKind, MatchInfo } from '../types';
+import { OverOddsPoint, HomeOddsPoint } from '../services/analysis';
+import { loadBets, placeBet, deleteBet, loadDefaultStake, saveDefaultStake } from '../services/betTracker';
+import { AntiEmotionChecklist } from './AntiEmotionChecklist';
+import { MessageKey, t } from '../services/i18n';
+import { Wallet, Undo2 } from 'lucide-react';
+
+interface BetSlipProps {
+  match: MatchInfo;
+  providerKind: DataProviderKind;
+  minute: number;
+  latestOver: OverOddsPoint | null;
+  latestHome: HomeOddsPoint | null;
+  defaultSignal: BetSignal;
+}
+
+export const SIGNAL_LABELS: Record<BetSignal, MessageKey> = {
+  gemini: 'bets.signal.ai',
+  local: 'bets.signal.local',
+  alert: 'bets.signal.alert',
+  manual: 'bets.signal.manual',
+};
+
+export const RESULT_LABELS: Record<BetResult, MessageKey> = {
+  win: 'bets.result.win',
+  'half-win': 'bets.result.halfWin',
+  push: 'bets.result.push',
+  'half-loss': 'bets.result.halfLoss',
+  loss: 'bets.result.loss',
+};
+
+const SIDE_LABELS: Record<BetSide, MessageKey> = { home: 'bets.side.home', away: 'bets.side.away', over: 'bets.side.over', under: 'bets.side.under' };
+
+export const describeBet = (bet: Bet) => `${t(SIDE_LABELS[bet.side])} ${bet.line > 0 && bet.market === '1_2' ? '+' : ''}${bet.line} @${bet.price.toFixed(2)}`;
+
+type Quote = { handicap: string; price: number };
+
+/**
+ * A tap on a price opens the discipline checklist; once it passes, the bet is logged at the
+ * line and price quoted when the price was tapped, with the remembered stake.
+ */
+export const BetSlip: React.FC<BetSlipProps> = ({ match, providerKind, minute, latestOver, latestHome, defaultSignal }) => {
+  const [stake, setStake] = useState(() => loadDefaultStake());
+  const [signal, setSignal] = useState<BetSignal>(defaultSignal);
+  const [bets, setBets] = useState<Bet[]>(() => loadBets().filter(b => b.matchId === match.id));
+  const [pending, setPending] = useState<{ side: BetSide; quote: Quote } | null>(null);
+
+  const refresh = () => setBets(loadBets().filter(b => b.matchId === match.id));
+
+  const quoteFor = (side: BetSide): Quote | null => {
+    switch (side) {
+      case 'over': return latestOver && { handicap: latestOver.handicap, price: latestOver.over };
+      case 'under': return latestOver && { handicap: latestOver.handicap, price: latestOver.under };
+      case 'home': return latestHome && { handicap: latestHome.handicap, price: latestHome.home };
+      case 'away': return latestHome && { handicap: latestHome.handicap, price: latestHome.away };
+    }
+  };
+
+  const handleTap = (side: BetSide) => {
+    const quote = quoteFor(side);
+    if (quote) setPending({ side, quote });
+  };
+
+  const handlePlace = () => {
+    if (!pending) return;
+    const { side, quote } = pending;
+    placeBet({
+      matchId: match.id,
+      league: match.league.name,
+      home: match.home.name,
+      away: match.away.name,
+      market: side === 'over' || side === 'under' ? '1_3' : '1_2',
+      handicap: quote.handicap,
+      side,
+      price: quote.price,
+      stake,
+      minute,
+      ssAtPlacement: match.ss || '0-0',
+      signal,
+      provider: providerKind,
+    });
+    setPending(null);
+    refresh();
+  };
+
+  const handleStakeChange = (value: number) => {
+    setStake(value);
+    if (value > 0) saveDefaultStake(value);
+  };
+
+  const handleUndo = (id: string) => {
+    deleteBet(id);
+    refresh();
+  };
+
+  if (!latestOver && !latestHome && bets.length === 0) return null;
+
+  const priceButton = (side: BetSide, label: string) => {
+    const price = quoteFor(side)?.price;
+    return (
+      <button
+        onClick={() => handleTap(side)}
+        disabled={!price || !(stake > 0) || !!pending}
+        className="flex-1 bg-slate-50 hover:bg-blue-50 border border-gray-200 rounded-lg py-1.5 text-xs disabled:opacity-40"
+      >
+        <div className="text-gray-500">{label}</div>
+        <div className="font-black text-slate-800">{price ? price.toFixed(2) : '-'}</div>
+      </button>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100">
+      <h3 className="text-sm font-bold text-gray-700 mb-2 flex items-center gap-2"><Wallet className="w-4 h-4 text-emerald-600" />{t('bets.slipTitle')}</h3>
+      <div className="flex gap-2 mb-2 text-xs">
+        <label className="flex items-center gap-1 text-gray-500">
+          {t('bets.stake')}
+          <input type="number" min={1} value={stake} disabled={!!pending} onChange={(e) => handleStakeChange(Number(e.target.value))} className="w-16 px-2 py-1 rounded-lg border border-gray-200 text-right" />
+        </label>
+        <select value={signal} onChange={(e) => setSignal(e.target.value as BetSignal)} className="flex-grow px-2 py-1 rounded-lg border border-gray-200 bg-white">
+          {(Object.keys(SIGNAL_LABELS) as BetSignal[]).map(s => <option key={s} value={s}>{t(SIGNAL_LABELS[s])}</option>)}
+        </select>
+      </div>
+      {pending && (
+        <div className="mb-2">
+          <AntiEmotionChecklist
+            matchId={match.id}
+            stake={stake}
+            summary={`${t(SIDE_LABELS[pending.side])} ${pending.quote.handicap} @${pending.quote.price.toFixed(2)} · ${stake}`}
+            onConfirm={handlePlace}
+            onCancel={() => setPending(null)}
+          />
+        </div>
+      )}
+      {latestOver && (
+        <div className="flex gap-2 mb-2">
+          {priceButton('over', `${t('bets.side.over')} ${latestOver.handicap}`)}
+          {priceButton('under', `${t('bets.side.under')} ${latestOver.handicap}`)}
+        </div>
+      )}
+      {latestHome && (
+        <div className="flex gap-2">
+          {priceButton('home', `${t('bets.side.home')} ${latestHome.handicap}`)}
+          {priceButton('away', t('bets.side.away'))}
+        </div>
+      )}
+      {bets.length > 0 && (
+        <div className="mt-3 divide-y divide-gray-100 text-xs">
+          {bets.map(bet => (
+            <div key={bet.id} className="flex items-center justify-between py-1.5">
+              <span className="text-gray-700">{bet.minute}' · {describeBet(bet)} · {bet.stake}</span>
+              {bet.settlement ? (
+                <span className={`font-bold ${bet.settlement.profit > 0 ? 'text-green-600' : bet.settlement.profit < 0 ? 'text-red-500' : 'text-gray-500'}`}>
+                  {t(RESULT_LABELS[bet.settlement.result])} {bet.settlement.profit > 0 ? '+' : ''}{bet.settlement.profit}
+                </span>
+              ) : (
+                <button onClick={() => handleUndo(bet.id)} className="text-gray-400 hover:text-red-500 flex items-center gap-1" aria-label={t('bets.undo')}>
+                  <Undo2 className="w-3.5 h-3.5" /> {t('common.cancel')}
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,164 @@
+import React, { useMemo, useState } from 'react';
+import { PredictionJournalEntry, PredictionSource } from '../types';
+import { loadJournal, clearJournal, buildSourceReport, SourceReport, PREDICTION_HORIZON_MINUTES } from '../services/predictionJournal';
+import { MessageKey, t, confidenceLabel } from '../services/i18n';
+import { ArrowLeft, Target, Trash2 } from 'lucide-react';
+import { ResponsiveContainer, ComposedChart, Line, XAxis, YAxis, Tooltip, Legend, ReferenceLine, CartesianGrid } from 'recharts';
+
+interface CalibrationReportProps {
+  onBack: () => void;
+}
+
+const SOURCE_STYLES: Record<PredictionSource, { label: MessageKey; color: string }> = {
+  gemini: { label: 'calibration.source.ai', color: '#2563eb' },
+  local: { label: 'calibration.source.local', color: '#16a34a' },
+};
+
+const formatPct = (value: number | null) => (value === null ? '-' : `${value.toFixed(1)}%`);
+
+// AI entries logged before the backend was configurable were all Gemini
+const LEGACY_AI_MODEL = 'gemini';
+
+// Mock answers are no longer journaled; ones logged earlier are left out of the figures
+const MOCK_MODEL = 'mock';
+
+export const CalibrationReport: React.FC<CalibrationReportProps> = ({ onBack }) => {
+  const [entries, setEntries] = useState<PredictionJournalEntry[]>(() => loadJournal().filter(e => e.model !== MOCK_MODEL));
+
+  const reports = useMemo<SourceReport[]>(
+    () => (['gemini', 'local'] as PredictionSource[]).map(source => buildSourceReport(entries, source)),
+    [entries]
+  );
+
+  // The AI source split by backend and model, so models can be compared on the same matches
+  const modelReports = useMemo(() => {
+    const aiEntries = entries.filter(e => e.source === 'gemini');
+    const models = [...new Set(aiEntries.map(e => e.model || LEGACY_AI_MODEL))];
+    return models.map(model => ({
+      model,
+      report: buildSourceReport(aiEntries.filter(e => (e.model || LEGACY_AI_MODEL) === model), 'gemini'),
+    }));
+  }, [entries]);
+
+  const handleClear = () => {
+    if (!window.confirm(t('calibration.confirmClear'))) return;
+    clearJournal();
+    setEntries([]);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 max-w-md mx-auto shadow-2xl overflow-hidden pb-10">
+      <div className="bg-white px-4 py-3 sticky top-0 z-10 border-b border-gray-100 flex items-center justify-between">
+        <button onClick={onBack} className="p-2 -ml-2 text-gray-600 hover:bg-gray-100 rounded-full">
+          <ArrowLeft className="w-6 h-6" />
+        </button>
+        <h1 className="text-base font-black text-slate-800 tracking-tight">{t('calibration.title')}</h1>
+        <button onClick={handleClear} disabled={entries.length === 0} className="p-2 -mr-2 text-gray-400 hover:text-red-500 disabled:opacity-30" aria-label={t('calibration.clear')}>
+          <Trash2 className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-4">
+        <p className="text-xs text-gray-500">
+          {t('calibration.intro', { minutes: PREDICTION_HORIZON_MINUTES })}
+        </p>
+
+        <div className="grid grid-cols-2 gap-3">
+          {reports.map(report => (
+            <div key={report.source} className="bg-white rounded-xl p-3 shadow-sm border border-gray-100">
+              <div className="text-xs font-bold uppercase tracking-wider mb-2" style={{ color: SOURCE_STYLES[report.source].color }}>
+                {t(SOURCE_STYLES[report.source].label)}
+              </div>
+              <div className="text-2xl font-black text-slate-800">{report.brierScore === null ? '-' : report.brierScore.toFixed(3)}</div>
+              <div className="text-[10px] text-gray-400 uppercase">Brier</div>
+              <div className="mt-2 text-xs text-gray-500">
+                {t('calibration.resolvedPending', { resolved: report.resolved, pending: report.pending })}
+              </div>
+              <div className="text-xs text-gray-500">{t('calibration.baseRate', { rate: formatPct(report.baseRate) })}</div>
+            </div>
+          ))}
+        </div>
+
+        <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100">
+          <h3 className="text-sm font-bold text-gray-700 mb-2 flex items-center gap-2"><Target className="w-4 h-4 text-emerald-500" />{t('calibration.reliability')}</h3>
+          <div className="h-64 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart margin={{ top: 10, right: 10, bottom: 0, left: -15 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#f3f4f6" />
+                <XAxis type="number" dataKey="predicted" name={t('calibration.predicted')} unit="%" domain={[0, 100]} ticks={[0, 20, 40, 60, 80, 100]} tick={{ fontSize: 10, fill: '#9ca3af' }} />
+                <YAxis type="number" dataKey="observed" name={t('calibration.observed')} unit="%" domain={[0, 100]} tick={{ fontSize: 10, fill: '#9ca3af' }} />
+                <Tooltip formatter={(value: number) => `${value.toFixed(1)}%`} />
+                <Legend wrapperStyle={{ fontSize: '12px', paddingTop: '10px' }} />
+                <ReferenceLine segment={[{ x: 0, y: 0 }, { x: 100, y: 100 }]} stroke="#d1d5db" strokeDasharray="4 4" />
+                {reports.map(report => (
+                  <Line
+                    key={report.source}
+                    data={report.bins}
+                    dataKey="observed"
+                    name={t(SOURCE_STYLES[report.source].label)}
+                    stroke={SOURCE_STYLES[report.source].color}
+                    strokeWidth={2}
+                    dot={{ r: 3 }}
+                  />
+                ))}
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        {modelReports.length > 1 && (
+          <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100">
+            <h3 className="text-sm font-bold text-gray-700 mb-3">{t('calibration.byModel')}</h3>
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-gray-400 uppercase">
+                  <th className="text-left font-semibold pb-2">{t('calibration.model')}</th>
+                  <th className="text-right font-semibold pb-2">Brier</th>
+                  <th className="text-right font-semibold pb-2">{t('calibration.resolved')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {modelReports.map(({ model, report }) => (
+                  <tr key={model} className="border-t border-gray-100">
+                    <td className="py-1.5 font-medium text-gray-600 max-w-[160px] truncate">{model}</td>
+                    <td className="py-1.5 text-right font-bold text-gray-800">{report.brierScore === null ? '-' : report.brierScore.toFixed(3)}</td>
+                    <td className="py-1.5 text-right text-gray-500">{report.resolved}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100">
+          <h3 className="text-sm font-bold text-gray-700 mb-3">{t('calibration.hitRateByConfidence')}</h3>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-gray-400 uppercase">
+                <th className="text-left font-semibold pb-2">{t('calibration.confidence')}</th>
+                {reports.map(report => (
+                  <th key={report.source} className="text-right font-semibold pb-2">{t(SOURCE_STYLES[report.source].label)}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {reports[0].byConfidence.map((row, index) => (
+                <tr key={row.level} className="border-t border-gray-100">
+                  <td className="py-1.5 font-medium text-gray-600">{confidenceLabel(row.level)}</td>
+                  {reports.map(report => {
+                    const cell = report.byConfidence[index];
+                    return (
+                      <td key={report.source} className="py-1.5 text-right font-bold text-gray-800">
+                        {formatPct(cell.hitRate)} <span className="font-normal text-gray-400">({cell.count})</span>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,58 +1,102 @@
 
 import React, { useEffect, useState, useMemo, useCallback, useRef } from 'react';
-import { MatchInfo, PreGoalAnalysis, OddsItem, ProcessedStats, AIPredictionResponse, OddsData } from '../types';
-import { parseStats, getMatchDetails, getMatchOdds, getGeminiGoalPrediction } from '../services/api';
+import { MatchInfo, PreGoalAnalysis, OddsItem, ProcessedStats, AIPredictionResponse, OddsData, MatchSession, SessionSnapshot, DataProvider, MatchEvent, Highlight, AllHighlights } from '../types';
+import { parseStats } from '../services/api';
+import { createPredictor } from '../services/llmPredictors';
+import { GoalPredictionInput } from '../services/llmPrompt';
+import { loadSchedulerSettings, detectTriggers, decideScheduledCall, checkManualCall, recordAICall, getSchedulerUsage, inputsKey, AITrigger, SchedulerObservation, TRIGGER_LABELS } from '../services/aiScheduler';
+import { recordSnapshot, loadSession } from '../services/sessionRecorder';
+import { isLiveProvider } from '../services/dataProviders';
+import { loadMatch, saveStatsHistory, saveHighlights, matchMeta } from '../services/matchStore';
+import { calculateAPIScore, computeFactors, computeTeamPressure, buildPressureSeries, toOverOddsHistory, toHomeOddsHistory, buildOverMarketChartData, buildHomeMarketChartData, OverOddsPoint, HomeOddsPoint } from '../services/analysis';
+import { predictLocalGoalProbability } from '../services/goalModel';
+import { logPrediction, resolvePredictions } from '../services/predictionJournal';
+import { deriveMatchEvents } from '../services/matchEvents';
+import { evaluateAlertRules } from '../services/alertRules';
+import { notify, highlightEvent } from '../services/notifications';
+import { getBudgetPauseReason } from '../services/apiUsage';
+import { ConnectionStatus, getConnectionStatus, isDeviceOffline, isOffline, subscribeConnection } from '../services/offlineCache';
+import { mergeOddsData, historyToOddsData, mergeArchivedStats } from '../services/matchHistory';
+import { buildImpliedOverSeries, buildImpliedHomeSeries } from '../services/marketAnalytics';
+import { clockAt, clockFromKey, clockFromTimer, clockKey, formatClock, MatchClock, announcedAddedTime, buildTimelineLayout, formatMatchClock, TimelineLayout } from '../services/matchClock';
 import { ArrowLeft, RefreshCw, Siren, TrendingUp, Info } from 'lucide-react';
 import { ResponsiveContainer, ComposedChart, Scatter, XAxis, YAxis, Tooltip, Cell, Line, Legend } from 'recharts';
 import { LiveStatsTable } from './LiveStatsTable'; // Import the new component
+import { ReplayControls } from './ReplayControls';
+import { EventTimeline, EVENT_LABELS } from './EventTimeline';
+import { ImpliedMarketChart } from './ImpliedMarketChart';
+import { MomentumChart } from './MomentumChart';
+import { ProbabilityLadder } from './ProbabilityLadder';
+import { BetSlip } from './BetSlip';
+import { SessionExport } from './SessionExport';
+import { OfflineBanner } from './OfflineBanner';
+import { timelineAxisProps, renderPeriodMarkers } from './TimelineAxis';
+import { t, confidenceLabel } from '../services/i18n';
 
-// --- Types for Highlights and Shots ---
-interface Highlight {
-    minute: number;
-    level: 'weak' | 'medium' | 'strong';
-    label: string;
-}
-interface AllHighlights {
-    overUnder: Highlight[];
-    homeOdds: Highlight[];
-}
+// --- Types for Shots ---
 interface ShotEvent {
     minute: number;
     type: 'on' | 'off';
 }
 
 interface DashboardProps {
-  token: string;
+  provider: DataProvider;
   match: MatchInfo;
   onBack: () => void;
+  // When set, the Dashboard replays this recorded session instead of polling the API
+  replaySession?: MatchSession;
 }
 
-const CustomTooltip = ({ active, payload, label }: any) => {
+const EMPTY_HIGHLIGHTS: AllHighlights = { overUnder: [], homeOdds: [] };
+
+const mergeHighlightList = (base: Highlight[], extra: Highlight[]) =>
+    [...base, ...extra.filter(h => !base.some(b => b.minute === h.minute && b.level === h.level))];
+
+const highlightKey = (h: Highlight) => `${h.minute}:${h.level}`;
+
+const mergeHighlights = (base: AllHighlights, extra: AllHighlights): AllHighlights => ({
+    overUnder: mergeHighlightList(base.overUnder, extra.overUnder),
+    homeOdds: mergeHighlightList(base.homeOdds, extra.homeOdds),
+});
+
+// Never shown as such: until the first AI answer the local model takes the headline
+const INITIAL_ANALYSIS: PreGoalAnalysis = {
+  score: 0,
+  level: 'low',
+  factors: { apiMomentum: 0, shotCluster: 0, pressure: 0 },
+};
+
+// Replay waits the recorded gap between snapshots divided by the speed, capped so long pauses don't stall playback
+const MAX_REPLAY_GAP_MS = 5000;
+
+const getMatchMinute = (m: MatchInfo) => parseInt(m.timer?.tm?.toString() || m.time || "0");
+
+const CustomTooltip = ({ active, payload, label, timeline }: any) => {
   if (active && payload && payload.length) {
-    const minute = label;
+    const minute = timeline ? timeline.label(label) : label;
     const marketData = payload.find(p => p.dataKey === 'handicap')?.payload;
     const homeApiData = payload.find(p => p.dataKey === 'homeApi');
     const awayApiData = payload.find(p => p.dataKey === 'awayApi');
 
     return (
         <div className="bg-slate-800 text-white text-xs p-2 rounded shadow-lg border border-slate-700">
-            <p className="font-bold">Phút: {minute}'</p>
+            <p className="font-bold">{t('dashboard.tooltip.minute', { minute })}</p>
             {marketData && (
                 <>
                     <p>HDP: {typeof marketData.handicap === 'number' ? marketData.handacap.toFixed(2) : '-'}</p>
                     {marketData.over !== undefined && (
-                        <p className="text-gray-400">Tỷ lệ Tài: {typeof marketData.over === 'number' ? marketData.over.toFixed(3) : '-'}</p>
+                        <p className="text-gray-400">{t('dashboard.tooltip.over')}: {typeof marketData.over === 'number' ? marketData.over.toFixed(3) : '-'}</p>
                     )}
                     {marketData.home !== undefined && (
-                         <p className="text-gray-400">Tỷ lệ Đội nhà: {typeof marketData.home === 'number' ? marketData.home.toFixed(3) : '-'}</p>
+                         <p className="text-gray-400">{t('dashboard.tooltip.home')}: {typeof marketData.home === 'number' ? marketData.home.toFixed(3) : '-'}</p>
                     )}
                 </>
             )}
             {homeApiData && homeApiData.value !== undefined && (
-                 <p style={{ color: homeApiData.stroke }}>API Đội nhà: {homeApiData.value.toFixed(1)}</p>
+                 <p style={{ color: homeApiData.stroke }}>{t('dashboard.homeApi')}: {homeApiData.value.toFixed(1)}</p>
             )}
              {awayApiData && awayApiData.value !== undefined && (
-                 <p style={{ color: awayApiData.stroke }}>API Đội khách: {awayApiData.value.toFixed(1)}</p>
+                 <p style={{ color: awayApiData.stroke }}>{t('dashboard.awayApi')}: {awayApiData.value.toFixed(1)}</p>
             )}
         </div>
     );
@@ -62,23 +106,12 @@ const CustomTooltip = ({ active, payload, label }: any) => {
 
 const OddsColorLegent = () => (
     <div className="flex items-center justify-center space-x-2 mt-3 text-xs text-gray-500">
-        <span>Tỷ lệ thấp</span>
+        <span>{t('dashboard.lowOdds')}</span>
         <div className="w-24 h-2 rounded-full bg-gradient-to-r from-green-400 via-yellow-400 to-red-500"></div>
-        <span>Tỷ lệ cao</span>
+        <span>{t('dashboard.highOdds')}</span>
     </div>
 );
 
-// --- API Calculation ---
-const calculateAPIScore = (stats: ProcessedStats | undefined, sideIndex: 0 | 1): number => {
-    if (!stats) return 0;
-    const onTarget = stats.on_target[sideIndex];
-    const offTarget = stats.off_target[sideIndex];
-    const shots = onTarget + offTarget;
-    const corners = stats.corners[sideIndex];
-    const dangerous = stats.dangerous_attacks[sideIndex];
-    return (shots * 1.0) + (onTarget * 3.0) + (corners * 0.7) + (dangerous * 0.1);
-};
-
 // --- Overlay Components ---
 const OverlayContainer = ({ children }: { children?: React.ReactNode }) => {
     const containerRef = useRef<HTMLDivElement>(null);
@@ -101,7 +134,39 @@ const OverlayContainer = ({ children }: { children?: React.ReactNode }) => {
     );
 };
 
-const HighlightBands = ({ highlights, containerWidth }: { highlights: Highlight[], containerWidth?: number }) => {
+const EventMarkers = ({ events, homeName, awayName, timeline, containerWidth }: { events: MatchEvent[], homeName: string, awayName: string, timeline: TimelineLayout, containerWidth?: number }) => {
+    if (!containerWidth || events.length === 0) return null;
+
+    const calculateLeft = (clock: MatchClock) => {
+        const yAxisLeftWidth = 45;
+        const yAxisRightWidth = 35;
+        const chartAreaWidth = containerWidth - yAxisLeftWidth - yAxisRightWidth;
+        return yAxisLeftWidth + (timeline.toX(clock) / timeline.end) * chartAreaWidth;
+    };
+
+    // Stack events of the same minute upwards from just above the x-axis
+    const stackIndex: Record<number, number> = {};
+
+    return <>
+        {events.map((event, i) => {
+            const clock = clockAt(event.minute, event.added || 0);
+            const index = stackIndex[clockKey(clock)] || 0;
+            stackIndex[clockKey(clock)] = index + 1;
+            return (
+                <div
+                    key={i}
+                    className={`event-marker event-${event.type}`}
+                    style={{ left: `${calculateLeft(clock)}px`, bottom: `${44 + index * 20}px` }}
+                    title={`${formatClock(clock)} ${t(EVENT_LABELS[event.type])} - ${event.team === 'home' ? homeName : awayName}`}
+                >
+                    {event.type === 'goal' ? 'G' : event.type === 'corner' ? 'C' : ''}
+                </div>
+            );
+        })}
+    </>;
+};
+
+const HighlightBands = ({ highlights, timeline, containerWidth }: { highlights: Highlight[], timeline: TimelineLayout, containerWidth?: number }) => {
     if (!containerWidth || highlights.length === 0) return null;
     
     const calculateLeft = (minute: number) => {
@@ -109,7 +174,7 @@ const HighlightBands = ({ highlights, containerWidth }: { highlights: Highlight[
         const yAxisRightWidth = 35;
         const chartAreaWidth = containerWidth - yAxisLeftWidth - yAxisRightWidth;
         const leftOffset = yAxisLeftWidth;
-        return leftOffset + (minute / 90) * chartAreaWidth;
+        return leftOffset + (timeline.minuteToX(minute) / timeline.end) * chartAreaWidth;
     };
 
     const getHighlightColor = (level: Highlight['level']) => {
@@ -137,7 +202,7 @@ const HighlightBands = ({ highlights, containerWidth }: { highlights: Highlight[
     </>;
 };
 
-const ShotBalls = ({ shots, containerWidth }: { shots: ShotEvent[], containerWidth?: number }) => {
+const ShotBalls = ({ shots, timeline, containerWidth }: { shots: ShotEvent[], timeline: TimelineLayout, containerWidth?: number }) => {
     if (!containerWidth || shots.length === 0) return null;
     
     const calculateLeft = (minute: number) => {
@@ -145,7 +210,7 @@ const ShotBalls = ({ shots, containerWidth }: { shots: ShotEvent[], containerWid
         const yAxisRightWidth = 35;
         const chartAreaWidth = containerWidth - yAxisLeftWidth - yAxisRightWidth;
         const leftOffset = yAxisLeftWidth;
-        return leftOffset + (minute / 90) * chartAreaWidth - 10; // Center the ball (20px wide)
+        return leftOffset + (timeline.minuteToX(minute) / timeline.end) * chartAreaWidth - 10; // Center the ball (20px wide)
     };
 
     const shotsByMinute = shots.reduce((acc, shot) => {
@@ -161,7 +226,7 @@ const ShotBalls = ({ shots, containerWidth }: { shots: ShotEvent[], containerWid
                     key={`${minute}-${index}`} 
                     className={`ball-icon ${type === 'on' ? 'ball-on' : 'ball-off'}`}
                     style={{ left: `${calculateLeft(Number(minute))}px`, top: `${-10 + index * 24}px` }}
-                    title={`Shot ${type}-target at ${minute}'`}
+                    title={t(type === 'on' ? 'dashboard.shotOn' : 'dashboard.shotOff', { minute })}
                 >
                     ⚽
                 </div>
@@ -170,128 +235,159 @@ const ShotBalls = ({ shots, containerWidth }: { shots: ShotEvent[], containerWid
     </>;
 };
 
-export const Dashboard: React.FC<DashboardProps> = ({ token, match, onBack }) => {
+export const Dashboard: React.FC<DashboardProps> = ({ provider, match, onBack, replaySession }) => {
   // AUTO_REFRESH_INTERVAL_MS is for match details and odds (every 40s)
   const AUTO_REFRESH_INTERVAL_MS = 40000; // 40 seconds for individual match auto-refresh
 
-  // AI_PREDICTION_INTERVAL_MS for Gemini prediction (every 10 minutes)
-  const AI_PREDICTION_INTERVAL_MS = 10 * 60 * 1000; // 10 minutes
-
   const [liveMatch, setLiveMatch] = useState<MatchInfo>(match);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [connection, setConnection] = useState<ConnectionStatus>(getConnectionStatus);
   const [isAIPredicting, setIsAIPredicting] = useState(false); // New state for AI prediction loading
-  const [oddsHistory, setOddsHistory] = useState<{ minute: number; over: number; under: number; handicap: string }[]>([]);
+  // Settings are read when the Dashboard opens; changing the backend takes effect on the next match
+  const predictor = useMemo(() => createPredictor(), []);
+  const schedulerSettings = useMemo(() => loadSchedulerSettings(), []);
+  const [aiStatus, setAIStatus] = useState<string | null>(null); // Last scheduler call or skip, shown under the headline
+  const aiInFlightRef = useRef(false);
+  const lastObservationRef = useRef<SchedulerObservation | null>(null);
+  const pendingTriggersRef = useRef<AITrigger[]>([]); // Fired but not yet answered by a call
+  const [oddsHistory, setOddsHistory] = useState<OverOddsPoint[]>([]);
   // Fix: Update type definition for homeOddsHistory to include 'away'
-  const [homeOddsHistory, setHomeOddsHistory] = useState<{ minute: number; home: number; away: number; handicap: string }[]>([]);
+  const [homeOddsHistory, setHomeOddsHistory] = useState<HomeOddsPoint[]>([]);
   const [statsHistory, setStatsHistory] = useState<Record<number, ProcessedStats>>({});
-  const [highlights, setHighlights] = useState<AllHighlights>({ overUnder: [], homeOdds: [] });
+  const [highlights, setHighlights] = useState<AllHighlights>(EMPTY_HIGHLIGHTS);
   const [shotEvents, setShotEvents] = useState<ShotEvent[]>([]);
-  const [analysis, setAnalysis] = useState<PreGoalAnalysis>({
-    score: 0,
-    // Fix: Initialize with a valid Vietnamese confidence level
-    level: 'thấp', // Default in Vietnamese, will be updated by AI
-    factors: { apiMomentum: 0, shotCluster: 0, pressure: 0 },
-    reasoning: "Phân tích AI sẽ xuất hiện trong giây lát." // Initial reasoning in Vietnamese
-  });
+  const [detailsHistory, setDetailsHistory] = useState<MatchInfo[]>([]); // Every details snapshot, in order, for event diffs
+  const [analysis, setAnalysis] = useState<PreGoalAnalysis>(INITIAL_ANALYSIS);
+  const [hasAIPrediction, setHasAIPrediction] = useState(false);
+  // Latest values for handleRefresh, which stays stable so only the interval drives polling
+  const liveMatchRef = useRef(liveMatch);
+  liveMatchRef.current = liveMatch;
+  const analysisRef = useRef(analysis);
+  analysisRef.current = analysis;
+
+  // --- Replay State ---
+  const isReplay = !!replaySession;
+  const [replayIndex, setReplayIndex] = useState(0); // Number of snapshots already applied
+  const [isReplayPlaying, setIsReplayPlaying] = useState(false);
+  const [replaySpeed, setReplaySpeed] = useState(4);
   
   const stats = useMemo(() => parseStats(liveMatch.stats), [liveMatch.stats]);
 
+  // Every odds item seen for this match (archive + polls); B365 itself only returns a trailing window
+  const seenOddsRef = useRef<OddsData | null>(null);
+
   // --- Persistence Effects ---
+  // Replays start from an empty state and never touch the live match's saved history.
+  // The match store is async: what it returns is merged under anything the first poll already
+  // added, and nothing is written back until it has loaded, so a slow read cannot clobber it.
+  const storeLoadedRef = useRef(false);
+  const announcedHighlightsRef = useRef(new Set<string>()); // See Notifications below
+  const sendingHighlightsRef = useRef(new Set<string>());
+
   useEffect(() => {
-    const savedHistory = localStorage.getItem(`statsHistory_${match.id}`);
-    if (savedHistory) setStatsHistory(JSON.parse(savedHistory)); else setStatsHistory({});
-    
-    const savedHighlights = localStorage.getItem(`highlights_${match.id}`);
-    if (savedHighlights) setHighlights(JSON.parse(savedHighlights)); else setHighlights({ overUnder: [], homeOdds: [] });
-  }, [match.id]);
+    seenOddsRef.current = null;
+    storeLoadedRef.current = false;
+    announcedHighlightsRef.current = new Set();
+    setStatsHistory({});
+    setHighlights(EMPTY_HIGHLIGHTS);
+    setDetailsHistory([]);
+    if (isReplay) return;
+
+    let isMounted = true;
+    // Earlier snapshots of this match come from its recorded session
+    Promise.all([loadSession(match.id), loadMatch(match.id)]).then(([recorded, stored]) => {
+        if (!isMounted) return;
+        const recordedDetails = recorded ? recorded.snapshots.filter(s => s.details).map(s => s.details!) : [];
+        setDetailsHistory(prev => [...recordedDetails, ...prev]);
+        if (stored) {
+            setStatsHistory(prev => ({ ...stored.statsHistory, ...prev }));
+            setHighlights(prev => mergeHighlights(stored.highlights, prev));
+            stored.highlights.overUnder.forEach(h => announcedHighlightsRef.current.add(highlightKey(h)));
+        }
+        storeLoadedRef.current = true;
+    });
+    return () => { isMounted = false; };
+  }, [match.id, isReplay]);
 
   useEffect(() => {
-     if (Object.keys(statsHistory).length > 0) {
-        localStorage.setItem(`statsHistory_${match.id}`, JSON.stringify(statsHistory));
+     if (!isReplay && storeLoadedRef.current && Object.keys(statsHistory).length > 0) {
+        saveStatsHistory(matchMeta(match), statsHistory);
      }
-  }, [statsHistory, match.id]);
+  }, [statsHistory, match, isReplay]);
 
   useEffect(() => {
-    if (highlights.overUnder.length > 0 || highlights.homeOdds.length > 0) {
-        localStorage.setItem(`highlights_${match.id}`, JSON.stringify(highlights));
+    if (!isReplay && storeLoadedRef.current && (highlights.overUnder.length > 0 || highlights.homeOdds.length > 0)) {
+        saveHighlights(matchMeta(match), highlights);
     }
-  }, [highlights, match.id]);
+  }, [highlights, match, isReplay]);
 
-  const marketChartData = useMemo(() => {
-    const dataByHandicap: Record<string, { minute: number; over: number; under: number; handicap: string; }[]> = {};
-    oddsHistory.forEach(p => {
-        if (!dataByHandicap[p.handicap]) dataByHandicap[p.handicap] = [];
-        dataByHandicap[p.handicap].push(p);
-    });
-    const finalData: any[] = [];
-    for (const handicapKey in dataByHandicap) {
-        const points = dataByHandicap[handicapKey];
-        const coloredPoints = points.map((point, index) => {
-            let color = '#f87171', colorName = 'red';
-            if (index > 0) {
-                const diff = point.over - points[index - 1].over;
-                if (diff < -0.02) { color = '#facc15'; colorName = 'yellow'; }
-                else if (Math.abs(diff) <= 0.02) { color = '#4ade80'; colorName = 'green'; }
-            }
-            return { ...point, handicap: parseFloat(point.handicap), color, colorName, highlight: false };
-        });
-        for (let i = 0; i <= coloredPoints.length - 3; i++) {
-            const [b1, b2, b3] = [coloredPoints[i], coloredPoints[i+1], coloredPoints[i+2]];
-            if (b3.minute - b1.minute < 5 && (b1.colorName === 'yellow' || b1.colorName === 'green') && b1.colorName === b2.colorName && b2.colorName === b3.colorName && !b1.highlight) {
-                b1.highlight = b2.highlight = b3.highlight = true;
-            }
-        }
-        finalData.push(...coloredPoints);
+  // --- Notifications ---
+  // Live feeds only: a highlight added by runPatternDetection goes out to the webhook channels that
+  // want its level. Highlights restored from the match store were announced when they happened.
+  // Only the newest unannounced highlight is sent, and it counts as announced once every channel
+  // took it; after a failure it is tried again on the next refresh (channels that already got it
+  // skip it through their dedupe window).
+  useEffect(() => {
+    if (isReplay || !isLiveProvider(provider) || isOffline()) return;
+    const fresh = highlights.overUnder.filter(h => !announcedHighlightsRef.current.has(highlightKey(h)));
+    if (fresh.length === 0) return;
+    fresh.slice(0, -1).forEach(h => announcedHighlightsRef.current.add(highlightKey(h)));
+    const latest = fresh[fresh.length - 1];
+    const key = highlightKey(latest);
+    if (sendingHighlightsRef.current.has(key)) return;
+    sendingHighlightsRef.current.add(key);
+    notify(highlightEvent(liveMatch, latest.minute, latest.level, analysis.score, analysis.reasoning, oddsHistory, homeOddsHistory))
+      .then(entries => { if (entries.every(entry => entry.ok)) announcedHighlightsRef.current.add(key); })
+      .finally(() => sendingHighlightsRef.current.delete(key));
+  }, [highlights, liveMatch, isReplay, provider]);
+
+  // --- Snapshot Application ---
+  // Live polls and replay both go through these, so a replay rebuilds exactly what was shown live.
+  const applyDetails = useCallback((details: MatchInfo) => {
+    setLiveMatch(details);
+    setDetailsHistory(prev => [...prev, details]);
+    if (details.timer?.tm && details.stats) {
+        // Keyed by clock, so stoppage time keeps its own entries instead of overwriting the next period's
+        const key = clockKey(clockFromTimer(details));
+        const currentParsedStats = parseStats(details.stats);
+        setStatsHistory(prev => ({ ...prev, [key]: currentParsedStats }));
     }
-    return finalData;
-  }, [oddsHistory]);
-
-  const homeMarketChartData = useMemo(() => {
-    const dataByHandicap: Record<string, { minute: number; home: number; away: number; handicap: string; }[]> = {};
-    homeOddsHistory.forEach(p => {
-        if (!dataByHandicap[p.handicap]) dataByHandicap[p.handicap] = [];
-        dataByHandicap[p.handicap].push(p);
+  }, []);
+
+  const applyOdds = useCallback((odds: OddsData) => {
+    const merged = mergeOddsData(seenOddsRef.current, odds);
+    seenOddsRef.current = merged;
+    const newHistory = toOverOddsHistory(merged);
+    if (newHistory) setOddsHistory(newHistory);
+    const newHomeHistory = toHomeOddsHistory(merged);
+    if (newHomeHistory) setHomeOddsHistory(newHomeHistory);
+  }, []);
+
+  // --- Server-side Archive ---
+  // Live only: seed the timeline with whatever the Worker archived before this match was opened here
+  useEffect(() => {
+    if (isReplay || !provider.getMatchHistory) return;
+    let isMounted = true;
+    provider.getMatchHistory(match.id).then(history => {
+        if (!isMounted || !history) return;
+        applyOdds(historyToOddsData(history));
+        setStatsHistory(prev => mergeArchivedStats(history, prev));
     });
-    const finalData: any[] = [];
-    for (const handicapKey in dataByHandicap) {
-        const points = dataByHandicap[handicapKey];
-        const coloredPoints = points.map((point, index) => {
-            let color = '#f87171', colorName = 'red';
-            const handicapValue = parseFloat(point.handicap);
-            if (index > 0) {
-                const diff = point.home - points[index - 1].home;
-                if (handicapValue < 0) {
-                    if (diff < -0.02) { color = '#facc15'; colorName = 'yellow'; }
-                    else if (Math.abs(diff) <= 0.02) { color = '#4ade80'; colorName = 'green'; }
-                } else {
-                    if (diff > 0.02) { color = '#facc15'; colorName = 'yellow'; }
-                    else if (Math.abs(diff) <= 0.02) { color = '#4ade80'; colorName = 'green'; }
-                }
-            }
-            return { ...point, handicap: handicapValue, color, colorName, highlight: false };
-        });
-        for (let i = 0; i <= coloredPoints.length - 3; i++) {
-            const [b1, b2, b3] = [coloredPoints[i], coloredPoints[i+1], coloredPoints[i+2]];
-            if (b3.minute - b1.minute < 5 && (b1.colorName === 'yellow' || b1.colorName === 'green') && b1.colorName === b2.colorName && b2.colorName === b3.colorName && !b1.highlight) {
-                b1.highlight = b2.highlight = b3.highlight = true;
-            }
-        }
-        finalData.push(...coloredPoints);
-    }
-    return finalData;
-  }, [homeOddsHistory]);
+    return () => { isMounted = false; };
+  }, [match.id, provider, isReplay, applyOdds]);
+
+  const marketChartData = useMemo(() => buildOverMarketChartData(oddsHistory), [oddsHistory]);
+
+  const homeMarketChartData = useMemo(() => buildHomeMarketChartData(homeOddsHistory), [homeOddsHistory]);
 
   // Simplified runPatternDetection to only update highlights based on AI score
-  const runPatternDetection = useCallback(async (aiScore: number, aiLevel: PreGoalAnalysis['level']) => {
-    const currentMinute = parseInt(liveMatch.timer?.tm?.toString() || liveMatch.time || "0");
+  const runPatternDetection = useCallback((aiScore: number, aiLevel: PreGoalAnalysis['level'], currentMinute: number) => {
     if (!currentMinute || currentMinute < 10) return;
 
     let highlightLevel: Highlight['level'] | null = null;
-    // Fix: Use Vietnamese strings for comparison
-    // Map Vietnamese levels to internal highlight levels
-    if (aiLevel === 'rất cao') highlightLevel = 'strong';
-    else if (aiLevel === 'cao') highlightLevel = 'medium';
-    else if (aiLevel === 'trung bình') highlightLevel = 'weak';
+    if (aiLevel === 'very_high') highlightLevel = 'strong';
+    else if (aiLevel === 'high') highlightLevel = 'medium';
+    else if (aiLevel === 'medium') highlightLevel = 'weak';
     
     if (highlightLevel) {
         const newHighlight: Highlight = { minute: currentMinute, level: highlightLevel, label: `${aiScore}%` };
@@ -306,184 +402,171 @@ export const Dashboard: React.FC<DashboardProps> = ({ token, match, onBack }) =>
             return prev;
         });
     }
-  }, [liveMatch.id, liveMatch.timer, liveMatch.time]);
-
-  // Separate function to fetch Gemini AI prediction
-  const fetchGeminiPrediction = useCallback(async () => {
-    setIsAIPredicting(true); // Start AI loading
-    let currentParsedStats: ProcessedStats | undefined;
-    
-    try {
-        // Ensure we have the latest match details for AI prediction
-        // This is crucial as the main refresh might not have completed very recently.
-        const latestDetails = await getMatchDetails(token, liveMatch.id);
-        if (!latestDetails) {
-            console.warn("Could not get latest match details for AI prediction.");
-            setAnalysis(prev => ({ ...prev, reasoning: "Không thể lấy chi tiết trận đấu mới nhất cho phân tích AI." }));
-            return;
-        }
+  }, []);
 
-        // Update liveMatch state for UI and get current parsed stats
-        setLiveMatch(latestDetails); 
-        currentParsedStats = parseStats(latestDetails.stats);
-        const currentTime = latestDetails.timer?.tm;
-        if (currentTime && latestDetails.stats) {
-            setStatsHistory(prev => ({ ...prev, [currentTime]: currentParsedStats }));
-        }
+  // Prompt inputs from the given details plus the odds and stats history already in state
+  const buildPredictionInput = useCallback((details: MatchInfo) => {
+    const currentParsedStats = parseStats(details.stats);
+    const currentMinute = getMatchMinute(details);
+    const [homeScore, awayScore] = (details.ss || "0-0").split("-").map(part => parseInt(part) || 0);
+    const currentLatestOverOdds = oddsHistory.length > 0 ? oddsHistory[oddsHistory.length - 1] : null;
+    const currentLatestHomeOdds = homeOddsHistory.length > 0 ? homeOddsHistory[homeOddsHistory.length - 1] : null;
 
-        // Also get latest odds for AI
-        const latestOddsData = await getMatchOdds(token, liveMatch.id); 
-        if (latestOddsData) {
-          const overMarkets = latestOddsData.results?.odds?.['1_3'];
-          if (overMarkets) {
-              const newHistory = overMarkets
-                  .filter(m => m.time_str && m.over_od && m.under_od && m.handicap)
-                  .map(m => ({ minute: parseInt(m.time_str), over: parseFloat(m.over_od!), under: parseFloat(m.under_od!), handicap: m.handicap! }))
-                  .sort((a, b) => a.minute - b.minute);
-              setOddsHistory(newHistory);
-          }
-          const homeMarkets = latestOddsData.results?.odds?.['1_2'];
-          if (homeMarkets) {
-              // Fix: Include 'away' in the mapped object for homeOddsHistory
-              const newHomeHistory = homeMarkets
-                  .filter(m => m.time_str && m.home_od && m.away_od && m.handicap)
-                  .map(m => ({ minute: parseInt(m.time_str), home: parseFloat(m.home_od!), away: parseFloat(m.away_od!), handicap: m.handicap! }))
-                  .sort((a,b) => a.minute - b.minute);
-              setHomeOddsHistory(newHomeHistory);
-          }
-        }
+    // Recalculate traditional factors based on the latest available data
+    const factors = computeFactors(statsHistory, currentParsedStats, currentMinute, marketChartData, homeMarketChartData);
+    const input: GoalPredictionInput = {
+        matchId: liveMatch.id, // Use initial liveMatch.id as it's stable
+        minute: currentMinute,
+        homeTeam: details.home.name || "Home",
+        awayTeam: details.away.name || "Away",
+        homeScore,
+        awayScore,
+        stats: currentParsedStats,
+        homeApi: calculateAPIScore(currentParsedStats, 0),
+        awayApi: calculateAPIScore(currentParsedStats, 1),
+        latestOverOdds: currentLatestOverOdds,
+        latestHomeOdds: currentLatestHomeOdds,
+        apiMomentum: factors.apiMomentum,
+        shotCluster: factors.shotCluster,
+        pressure: factors.pressure,
+        teamPressure: computeTeamPressure(statsHistory, currentParsedStats, currentMinute),
+    };
+    return { input, factors };
+  }, [liveMatch.id, oddsHistory, homeOddsHistory, statsHistory, marketChartData, homeMarketChartData]);
 
-        // Now, prepare data for Gemini prediction
-        const currentMinute = parseInt(latestDetails?.timer?.tm?.toString() || latestDetails?.time || "0");
-        const homeScore = parseInt((latestDetails?.ss || "0-0").split("-")[0]);
-        const awayScore = parseInt((latestDetails?.ss || "0-0").split("-")[1]);
-        const homeTeamName = latestDetails?.home.name || "Home";
-        const awayTeamName = latestDetails?.away.name || "Away";
-
-        // Use the latest odds from state (which might have just been updated by getMatchOdds above)
-        const currentLatestOverOdds = oddsHistory.length > 0 ? oddsHistory[oddsHistory.length - 1] : null;
-        const currentLatestHomeOdds = homeOddsHistory.length > 0 ? homeOddsHistory[homeOddsHistory.length - 1] : null;
-
-        // Recalculate traditional factors based on the latest available data
-        const allTimes = Object.keys(statsHistory).map(Number).sort((a,b)=>a-b);
-        const getAPIMomentumAt = (minute: number, window: number) => {
-            if (!currentParsedStats) return 0;
-            const currentTotal = calculateAPIScore(currentParsedStats, 0) + calculateAPIScore(currentParsedStats, 1);
-            const pastMinute = Math.max(0, minute - window);
-            const pastTimes = allTimes.filter(t => t <= pastMinute);
-            const pastTime = pastTimes.length > 0 ? Math.max(...pastTimes) : (allTimes[0] || 0);
-            const pastStats = statsHistory[pastTime] || { attacks:[0,0], dangerous_attacks:[0,0], on_target:[0,0], off_target:[0,0], corners:[0,0], yellowcards:[0,0], redcards:[0,0] };
-            const pastTotal = calculateAPIScore(pastStats, 0) + calculateAPIScore(pastStats, 1);
-            return currentTotal - pastTotal;
-        };
-        const getShotClusterScore = (minute: number, window: number) => {
-            const minT = Math.max(0, minute - window + 1);
-            let score = 0;
-            allTimes.filter(t => t >= minT && t <= minute).forEach(t => {
-                const s = statsHistory[t];
-                if (s) score += (s.on_target[0] + s.on_target[1]) * 3.0 + (s.off_target[0] + s.off_target[1]) * 1.0;
-            });
-            return score;
-        };
-        const getBubbleIntensity = (chartData: any[], minute: number, range: number) => {
-            const minT = Math.max(0, minute - range);
-            return chartData.filter(b => b.minute >= minT && b.minute <= minute && (b.colorName==='green' || b.colorName==='yellow' || b.highlight))
-                            .reduce((acc, b) => acc + (b.highlight ? 1.6 : 1.0), 0);
-        };
-        const apiMomentum = getAPIMomentumAt(currentMinute, 5);
-        const shotCluster = getShotClusterScore(currentMinute, 5);
-        const pressure = getBubbleIntensity(marketChartData, currentMinute, 3) + getBubbleIntensity(homeMarketChartData, currentMinute, 3);
-        
-        // Calculate homeApiScore and awayApiScore from currentParsedStats directly
-        const homeApiScore = currentParsedStats ? calculateAPIScore(currentParsedStats, 0) : 0;
-        const awayApiScore = currentParsedStats ? calculateAPIScore(currentParsedStats, 1) : 0;
-
-        try {
-            const aiPrediction = await getGeminiGoalPrediction(
-                liveMatch.id, // Use initial liveMatch.id as it's stable
-                currentMinute,
-                homeTeamName,
-                awayTeamName,
-                homeScore,
-                awayScore,
-                currentParsedStats,
-                homeApiScore,
-                awayApiScore,
-                currentLatestOverOdds, 
-                currentLatestHomeOdds, 
-                apiMomentum,
-                shotCluster,
-                pressure
-            );
+  // One AI call, manual or scheduled. The call is charged to the scheduler budget before it is made.
+  const runAIPrediction = useCallback(async (
+    details: MatchInfo,
+    oddsData: OddsData | null,
+    input: GoalPredictionInput,
+    factors: PreGoalAnalysis['factors'],
+    trigger: string,
+  ) => {
+    aiInFlightRef.current = true;
+    setIsAIPredicting(true); // Start AI loading
+    recordAICall(liveMatch.id, inputsKey(input));
+    pendingTriggersRef.current = [];
+    const usage = getSchedulerUsage(liveMatch.id);
+    setAIStatus(t('dashboard.ai.used', {
+        trigger,
+        match: usage.matchCount,
+        matchBudget: schedulerSettings.perMatchBudget,
+        day: usage.dayCount,
+        dayBudget: schedulerSettings.perDayBudget,
+    }));
+    try {
+        const aiPrediction = await predictor.predict(input);
 
-            if (aiPrediction) {
-                setAnalysis({
-                    score: aiPrediction.goal_probability,
-                    level: aiPrediction.confidence_level,
-                    factors: { apiMomentum, shotCluster, pressure }, // Keep traditional factors visible
+        if (aiPrediction) {
+            const newAnalysis: PreGoalAnalysis = {
+                score: aiPrediction.goal_probability,
+                level: aiPrediction.confidence_level,
+                factors, // Keep traditional factors visible
+                reasoning: aiPrediction.reasoning,
+                horizons: aiPrediction.horizons,
+                nextGoal: aiPrediction.next_goal,
+                expectedRemainingGoals: aiPrediction.expected_remaining_goals,
+            };
+            setAnalysis(newAnalysis);
+            setHasAIPrediction(true);
+            runPatternDetection(aiPrediction.goal_probability, aiPrediction.confidence_level, input.minute); // Update highlights based on AI
+            // The mock backend's numbers are synthetic and would skew the AI calibration figures
+            if (predictor.kind !== 'mock') {
+                logPrediction({
+                    matchId: liveMatch.id,
+                    source: 'gemini',
+                    model: predictor.label,
+                    minute: input.minute,
+                    scoreAtPrediction: details.ss || '0-0',
+                    inputs: {
+                        factors,
+                        overLine: input.latestOverOdds ? { handicap: input.latestOverOdds.handicap, over: input.latestOverOdds.over, under: input.latestOverOdds.under } : null,
+                        homeApi: input.homeApi,
+                        awayApi: input.awayApi,
+                    },
+                    probability: aiPrediction.goal_probability,
+                    confidence: aiPrediction.confidence_level,
                     reasoning: aiPrediction.reasoning,
                 });
-                runPatternDetection(aiPrediction.goal_probability, aiPrediction.confidence_level); // Update highlights based on AI
-            } else {
-                console.warn("Gemini AI prediction failed, analysis not updated.");
-                setAnalysis(prev => ({
-                    ...prev,
-                    reasoning: prev.reasoning || "Phân tích AI không khả dụng.",
-                }));
             }
-        } catch (error) {
-            console.error("Error fetching Gemini prediction:", error);
+            if (isLiveProvider(provider)) recordSnapshot(liveMatch, details === liveMatch ? null : details, oddsData, newAnalysis);
+        } else {
+            console.warn(`AI prediction (${predictor.label}) failed, analysis not updated.`);
+            if (isLiveProvider(provider) && details !== liveMatch) recordSnapshot(liveMatch, details, oddsData);
             setAnalysis(prev => ({
                 ...prev,
-                reasoning: `Lỗi khi gọi AI: ${error instanceof Error ? error.message : String(error)}.`,
+                reasoning: prev.reasoning || t('dashboard.ai.unavailable'),
             }));
         }
+    } catch (error) {
+        console.error("Error fetching AI prediction:", error);
+        setAnalysis(prev => ({
+            ...prev,
+            reasoning: t('dashboard.ai.error', { error: error instanceof Error ? error.message : String(error) }),
+        }));
     } finally {
+        aiInFlightRef.current = false;
         setIsAIPredicting(false); // End AI loading
     }
-  }, [token, liveMatch.id, liveMatch.timer, liveMatch.time, liveMatch.home.name, liveMatch.away.name, liveMatch.ss, oddsHistory, homeOddsHistory, statsHistory, marketChartData, homeMarketChartData, runPatternDetection]);
+  }, [predictor, provider, schedulerSettings, liveMatch, runPatternDetection]);
+
+  // Manual AI refresh (TrendingUp button): fetches fresh details and odds first, skips the scheduler's
+  // triggers, gap and unchanged-input check, but not its budgets
+  const fetchAIPrediction = useCallback(async () => {
+    // An AI refresh costs two B365 calls on top of the regular polling
+    if (provider.kind === 'b365' && getBudgetPauseReason()) return;
+    const allowed = checkManualCall(liveMatch.id, schedulerSettings);
+    if ('reason' in allowed) {
+        setAIStatus(allowed.reason);
+        return;
+    }
+    aiInFlightRef.current = true;
+    setIsAIPredicting(true);
+
+    try {
+        // Ensure we have the latest match details for AI prediction
+        // This is crucial as the main refresh might not have completed very recently.
+        const latestDetails = await provider.getMatchDetails(liveMatch.id);
+        if (!latestDetails) {
+            console.warn("Could not get latest match details for AI prediction.");
+            setAnalysis(prev => ({ ...prev, reasoning: t('dashboard.ai.noDetails') }));
+            return;
+        }
+        // Update liveMatch state for UI
+        applyDetails(latestDetails);
+
+        // Also get latest odds for AI
+        const latestOddsData = await provider.getMatchOdds(liveMatch.id);
+        if (latestOddsData) applyOdds(latestOddsData);
+
+        const { input, factors } = buildPredictionInput(latestDetails);
+        await runAIPrediction(latestDetails, latestOddsData, input, factors, t('dashboard.ai.manual'));
+    } finally {
+        aiInFlightRef.current = false;
+        setIsAIPredicting(false);
+    }
+  }, [provider, liveMatch.id, schedulerSettings, applyDetails, applyOdds, buildPredictionInput, runAIPrediction]);
 
 
   // handleRefresh now only fetches raw match data and odds. It does NOT call Gemini AI directly.
   const handleRefresh = useCallback(async () => {
     setIsRefreshing(true);
-    let updatedDetails: MatchInfo | null = null;
-    let currentParsedStats: ProcessedStats | undefined;
+    const liveMatch = liveMatchRef.current;
 
     try {
-        updatedDetails = await getMatchDetails(token, liveMatch.id);
-        if (updatedDetails) {
-            setLiveMatch(updatedDetails);
-            const currentTime = updatedDetails.timer?.tm;
-            if (currentTime && updatedDetails.stats) {
-                currentParsedStats = parseStats(updatedDetails.stats);
-                setStatsHistory(prev => ({ ...prev, [currentTime]: currentParsedStats }));
-            }
-        }
+        const updatedDetails = await provider.getMatchDetails(liveMatch.id);
+        if (updatedDetails) applyDetails(updatedDetails);
         
-        const updatedOdds = await getMatchOdds(token, liveMatch.id);
-        if (updatedOdds) {
-            const overMarkets = updatedOdds.results?.odds?.['1_3'];
-            if (overMarkets) {
-                const newHistory = overMarkets
-                    .filter(m => m.time_str && m.over_od && m.under_od && m.handicap)
-                    .map(m => ({ minute: parseInt(m.time_str), over: parseFloat(m.over_od!), under: parseFloat(m.under_od!), handicap: m.handicap! }))
-                    .sort((a, b) => a.minute - b.minute);
-                setOddsHistory(newHistory);
-            }
-            const homeMarkets = updatedOdds.results?.odds?.['1_2'];
-            if (homeMarkets) {
-                // Fix: Ensure 'away' is included when updating homeOddsHistory
-                const newHomeHistory = homeMarkets
-                    .filter(m => m.time_str && m.home_od && m.away_od && m.handicap)
-                    .map(m => ({ minute: parseInt(m.time_str), home: parseFloat(m.home_od!), away: parseFloat(m.away_od!), handicap: m.handicap! }))
-                    .sort((a,b) => a.minute - b.minute);
-                setHomeOddsHistory(newHomeHistory);
-            }
-        }
-        // runPatternDetection now uses the `analysis` state which is updated by `fetchGeminiPrediction`
+        const updatedOdds = await provider.getMatchOdds(liveMatch.id);
+        if (updatedOdds) applyOdds(updatedOdds);
+
+        // Keep the raw responses so this poll can be replayed later; cached answers were recorded when they
+        // were live, and demo data or a session being played back is not a recording of its own
+        if (isLiveProvider(provider) && !isOffline()) recordSnapshot(liveMatch, updatedDetails, updatedOdds);
+
+        // runPatternDetection now uses the `analysis` state which is updated by `fetchAIPrediction`
         // We still call it here to ensure highlights are updated even if AI prediction hasn't fired yet
-        runPatternDetection(analysis.score, analysis.level); 
+        runPatternDetection(analysisRef.current.score, analysisRef.current.level, getMatchMinute(updatedDetails || liveMatch)); 
 
     } catch (error) {
         console.error("Error during data refresh:", error);
@@ -491,10 +574,11 @@ export const Dashboard: React.FC<DashboardProps> = ({ token, match, onBack }) =>
     } finally {
         setIsRefreshing(false);
     }
-  }, [token, liveMatch.id, analysis.score, analysis.level, runPatternDetection]); 
+  }, [provider, applyDetails, applyOdds, runPatternDetection]); 
   
   // Main Data Fetching Effect (initial fetch and interval setup for raw data)
   useEffect(() => {
+    if (isReplay) return; // Replay feeds recorded snapshots instead of polling
     let isMounted = true;
     let intervalId: number | undefined; 
 
@@ -502,7 +586,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ token, match, onBack }) =>
       if (isMounted) {
         await handleRefresh(); // Initial refresh of match data
         intervalId = window.setInterval(() => {
-          if (isMounted) {
+          if (isMounted && !isDeviceOffline()) {
             handleRefresh();
           }
         }, AUTO_REFRESH_INTERVAL_MS);
@@ -511,44 +595,67 @@ export const Dashboard: React.FC<DashboardProps> = ({ token, match, onBack }) =>
 
     performFetchAndSetupInterval();
 
+    // Catch up as soon as the connection returns
+    let wasOffline = isDeviceOffline();
+    const unsubscribe = subscribeConnection(() => {
+      if (isMounted && wasOffline && !isDeviceOffline()) handleRefresh();
+      wasOffline = isDeviceOffline();
+    });
+
     return () => {
       isMounted = false;
+      unsubscribe();
       if (intervalId !== undefined) {
         clearInterval(intervalId); 
       }
     };
-  }, [liveMatch.id, token, handleRefresh, AUTO_REFRESH_INTERVAL_MS]);
-
-  // Removed: NEW Effect for Gemini AI Prediction Polling (every 10 minutes)
-  // useEffect(() => {
-  //     if (!token || !liveMatch.id) {
-  //         console.log("Skipping AI prediction polling setup: token or liveMatch.id missing.");
-  //         return;
-  //     }
-
-  //     let isMounted = true;
-  //     let aiIntervalId: number | undefined;
-
-  //     const startAIPredictionPolling = async () => {
-  //         if (isMounted) {
-  //             await fetchGeminiPrediction(); // Initial AI prediction fetch
-  //             aiIntervalId = window.setInterval(() => {
-  //                 if (isMounted) {
-  //                     fetchGeminiPrediction();
-  //                 }
-  //             }, AI_PREDICTION_INTERVAL_MS);
-  //         }
-  //     };
-
-  //     startAIPredictionPolling();
-
-  //     return () => {
-  //         isMounted = false;
-  //         if (aiIntervalId !== undefined) {
-  //             clearInterval(aiIntervalId);
-  //         }
-  //     };
-  // }, [token, liveMatch.id, fetchGeminiPrediction, AI_PREDICTION_INTERVAL_MS]); 
+  }, [liveMatch.id, provider, isReplay, handleRefresh, AUTO_REFRESH_INTERVAL_MS]);
+
+  // --- Replay ---
+  // Feeds one recorded snapshot through the same path a live poll (or AI refresh) took.
+  const applyRecordedSnapshot = useCallback((snapshot: SessionSnapshot) => {
+    if (snapshot.details) applyDetails(snapshot.details);
+    if (snapshot.odds) applyOdds(snapshot.odds);
+    const minute = getMatchMinute(snapshot.details || liveMatch);
+    if (snapshot.analysis) {
+        setAnalysis(snapshot.analysis);
+        setHasAIPrediction(true);
+        runPatternDetection(snapshot.analysis.score, snapshot.analysis.level, minute);
+    } else {
+        runPatternDetection(analysis.score, analysis.level, minute);
+    }
+  }, [liveMatch, analysis.score, analysis.level, applyDetails, applyOdds, runPatternDetection]);
+
+  useEffect(() => {
+    if (!replaySession || !isReplayPlaying) return;
+    const snapshots = replaySession.snapshots;
+    if (replayIndex >= snapshots.length) {
+        setIsReplayPlaying(false);
+        return;
+    }
+    const snapshot = snapshots[replayIndex];
+    const gap = replayIndex > 0 ? snapshot.timestamp - snapshots[replayIndex - 1].timestamp : 0;
+    const timeoutId = window.setTimeout(() => {
+        applyRecordedSnapshot(snapshot);
+        setReplayIndex(i => i + 1);
+    }, Math.min(gap / replaySpeed, MAX_REPLAY_GAP_MS));
+    return () => clearTimeout(timeoutId);
+  }, [replaySession, isReplayPlaying, replayIndex, replaySpeed, applyRecordedSnapshot]);
+
+  const restartReplay = useCallback(() => {
+    seenOddsRef.current = null;
+    setLiveMatch(match);
+    setStatsHistory({});
+    setHighlights(EMPTY_HIGHLIGHTS);
+    setOddsHistory([]);
+    setHomeOddsHistory([]);
+    setShotEvents([]);
+    setDetailsHistory([]);
+    setAnalysis(INITIAL_ANALYSIS);
+    setHasAIPrediction(false);
+    setReplayIndex(0);
+  }, [match]);
+
   
   // Effect to update shot events from stats history
   useEffect(() => {
@@ -573,11 +680,163 @@ export const Dashboard: React.FC<DashboardProps> = ({ token, match, onBack }) =>
 
 
   const scoreParts = (liveMatch.ss || "0-0").split("-");
+
+  const matchEvents = useMemo(() => deriveMatchEvents(detailsHistory), [detailsHistory]);
+
+  // --- Implied Market ---
+  // Odds items without their own score get it from the current score minus goals seen after that minute
+  const impliedOverSeries = useMemo(() => {
+    const goalsNow = (liveMatch.ss || '0-0').split('-').reduce((sum, part) => sum + (parseInt(part) || 0), 0);
+    const goalsAt = (minute: number) => goalsNow - matchEvents.filter(e => e.type === 'goal' && e.minute > minute).length;
+    return buildImpliedOverSeries(oddsHistory, goalsAt);
+  }, [oddsHistory, matchEvents, liveMatch.ss]);
+
+  const impliedHomeSeries = useMemo(() => buildImpliedHomeSeries(homeOddsHistory), [homeOddsHistory]);
+
+  // --- Local Goal Model ---
+  // Factors and the local probability are recomputed on every refresh, independent of the AI backend.
+  const liveFactors = useMemo(
+    () => computeFactors(statsHistory, stats, getMatchMinute(liveMatch), marketChartData, homeMarketChartData),
+    [statsHistory, stats, liveMatch, marketChartData, homeMarketChartData]
+  );
+
+  const localPrediction = useMemo(() => predictLocalGoalProbability({
+    minute: getMatchMinute(liveMatch),
+    homeScore: parseInt(scoreParts[0]) || 0,
+    awayScore: parseInt(scoreParts[1]) || 0,
+    redCards: stats.redcards,
+    overLine: oddsHistory.length > 0 ? oddsHistory[oddsHistory.length - 1] : null,
+    factors: liveFactors,
+    samples: Object.keys(statsHistory).length,
+  }), [liveMatch, stats, oddsHistory, liveFactors, statsHistory]);
+
+  // --- Prediction Journal ---
+  // Live only: log the local model once per minute and resolve open entries on every score/minute update.
+  useEffect(() => {
+    if (isReplay) return;
+    resolvePredictions([liveMatch]);
+  }, [liveMatch, isReplay]);
+
+  useEffect(() => {
+    const minute = getMatchMinute(liveMatch);
+    if (isReplay || !minute) return;
+    const latestOver = oddsHistory.length > 0 ? oddsHistory[oddsHistory.length - 1] : null;
+    logPrediction({
+        matchId: liveMatch.id,
+        source: 'local',
+        minute,
+        scoreAtPrediction: liveMatch.ss || '0-0',
+        inputs: {
+            factors: liveFactors,
+            overLine: latestOver ? { handicap: latestOver.handicap, over: latestOver.over, under: latestOver.under } : null,
+            homeApi: calculateAPIScore(stats, 0),
+            awayApi: calculateAPIScore(stats, 1),
+        },
+        probability: localPrediction.goal_probability,
+        confidence: localPrediction.confidence_level,
+        reasoning: localPrediction.reasoning,
+    });
+  }, [localPrediction, isReplay]);
+
+  // --- Alert Rules ---
+  // Live only, so replaying a session does not re-fire old alerts
+  useEffect(() => {
+    if (isReplay) return;
+    evaluateAlertRules({
+        matchId: liveMatch.id,
+        home: liveMatch.home.name,
+        away: liveMatch.away.name,
+        ss: liveMatch.ss || '0-0',
+        minute: getMatchMinute(liveMatch),
+        factors: liveFactors,
+        localProbability: localPrediction.goal_probability,
+        aiProbability: hasAIPrediction ? analysis.score : null,
+        redCards: stats.redcards[0] + stats.redcards[1],
+        overOddsHistory: oddsHistory,
+        homeOddsHistory,
+    });
+  }, [localPrediction, homeOddsHistory, hasAIPrediction, analysis, isReplay]);
+
+  useEffect(() => subscribeConnection(setConnection), []);
+
+  // Re-checked on every refresh; the regular polling itself is only paused while offline
+  const aiPausedReason = useMemo(
+    () => (connection.offline ? t('offline.aiUnavailable') : provider.kind === 'b365' ? getBudgetPauseReason() : null),
+    [liveMatch, provider, connection.offline]
+  );
+
+  // --- AI Scheduler ---
+  // Live feeds only (demo data and recorded sessions would spend real calls on old news): compares
+  // each refresh with the previous one and calls the AI backend when a trigger fires and the
+  // scheduler's gap, budgets and unchanged-input check allow it. A trigger held back by the gap, a
+  // call in flight or a pause stays pending and is tried again on the next refresh. The first
+  // details response only sets the baseline.
+  useEffect(() => {
+    if (isReplay || !isLiveProvider(provider) || detailsHistory.length === 0) return;
+    const latestOver = oddsHistory.length > 0 ? oddsHistory[oddsHistory.length - 1] : null;
+    const observation: SchedulerObservation = {
+        minute: getMatchMinute(liveMatch),
+        goals: (liveMatch.ss || '0-0').split('-').reduce((sum, part) => sum + (parseInt(part) || 0), 0),
+        redCards: stats.redcards[0] + stats.redcards[1],
+        shotCluster: liveFactors.shotCluster,
+        overLine: latestOver ? latestOver.handicap : null,
+    };
+    const fired = detectTriggers(lastObservationRef.current, observation, schedulerSettings);
+    lastObservationRef.current = observation;
+    const pending = pendingTriggersRef.current;
+    const triggers = [...pending, ...fired.filter(trigger => !pending.includes(trigger))];
+    pendingTriggersRef.current = triggers;
+    if (triggers.length === 0 || aiInFlightRef.current || aiPausedReason || !predictor.isAvailable()) return;
+
+    const label = triggers.map(trigger => t(TRIGGER_LABELS[trigger])).join(', ');
+    const { input, factors } = buildPredictionInput(liveMatch);
+    const decision = decideScheduledCall(liveMatch.id, triggers, inputsKey(input), schedulerSettings);
+    if ('reason' in decision) {
+        if (!decision.retry) pendingTriggersRef.current = [];
+        setAIStatus(t(decision.retry ? 'dashboard.ai.deferred' : 'dashboard.ai.skipped', { triggers: label, reason: decision.reason }));
+        return;
+    }
+    runAIPrediction(liveMatch, null, input, factors, t('dashboard.ai.auto', { triggers: label }));
+  }, [liveMatch, stats, liveFactors, oddsHistory, detailsHistory, isReplay, provider]);
+
+  // Without an AI answer (no key, failed call, or not asked yet) the local model takes the headline spot
+  const showLocalAsPrimary = !hasAIPrediction;
+  const headline: Omit<PreGoalAnalysis, 'factors'> = showLocalAsPrimary
+    ? {
+        score: localPrediction.goal_probability,
+        level: localPrediction.confidence_level,
+        reasoning: localPrediction.reasoning,
+        horizons: localPrediction.horizons,
+        expectedRemainingGoals: localPrediction.expected_remaining_goals,
+      }
+    : analysis;
   
+  // --- Timeline ---
+  // Periods and stoppage time seen in any series (or announced for the current period) get room on the x-axis
+  const timeline = useMemo(() => {
+      const current = clockFromTimer(liveMatch);
+      const clocks = [
+          current,
+          ...[...oddsHistory, ...homeOddsHistory].map(p => clockAt(p.minute, p.added || 0)),
+          ...Object.keys(statsHistory).map(key => clockFromKey(Number(key))),
+          ...matchEvents.map(e => clockAt(e.minute, e.added || 0)),
+      ];
+      return buildTimelineLayout(clocks, { period: current.period, minutes: announcedAddedTime(liveMatch) });
+  }, [liveMatch, oddsHistory, homeOddsHistory, statsHistory, matchEvents]);
+
   const apiChartData = useMemo(() => {
       const sortedMinutes = Object.keys(statsHistory).map(Number).sort((a, b) => a - b);
-      return sortedMinutes.map(minute => ({ minute, homeApi: calculateAPIScore(statsHistory[minute], 0), awayApi: calculateAPIScore(statsHistory[minute], 1) }));
-  }, [statsHistory]);
+      return sortedMinutes.map(minute => ({ minute, x: timeline.minuteToX(minute), homeApi: calculateAPIScore(statsHistory[minute], 0), awayApi: calculateAPIScore(statsHistory[minute], 1) }));
+  }, [statsHistory, timeline]);
+
+  const teamPressure = useMemo(
+      () => computeTeamPressure(statsHistory, stats, getMatchMinute(liveMatch)),
+      [statsHistory, stats, liveMatch]
+  );
+  const pressureSeries = useMemo(() => buildPressureSeries(statsHistory), [statsHistory]);
+
+  const overChartPoints = useMemo(() => marketChartData.map(p => ({ ...p, x: timeline.minuteToX(p.minute, p.added) })), [marketChartData, timeline]);
+  const homeChartPoints = useMemo(() => homeMarketChartData.map(p => ({ ...p, x: timeline.minuteToX(p.minute, p.added) })), [homeMarketChartData, timeline]);
   
   return (
     <div className="pb-10">
@@ -587,18 +846,20 @@ export const Dashboard: React.FC<DashboardProps> = ({ token, match, onBack }) =>
             <ArrowLeft className="w-6 h-6" />
           </button>
           <div className="flex flex-col items-center">
-             <span className="text-xs font-bold text-gray-400">PHÂN TÍCH TRỰC TIẾP</span>
-             <span className="text-red-500 font-bold flex items-center gap-1">
-                <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse"></div>
-                {liveMatch.timer?.tm || liveMatch.time}'
+             <span className="text-xs font-bold text-gray-400">{t(isReplay ? 'dashboard.replay' : 'dashboard.live')}</span>
+             <span className={`${isReplay ? 'text-indigo-500' : 'text-red-500'} font-bold flex items-center gap-1`}>
+                <div className={`w-2 h-2 rounded-full ${isReplay ? 'bg-indigo-500' : 'bg-red-500 animate-pulse'}`}></div>
+                {formatMatchClock(liveMatch)}
              </span>
           </div>
+          {isReplay ? <div className="w-10" /> : (
           <div className="flex items-center space-x-2">
             <button 
-              onClick={fetchGeminiPrediction} 
-              disabled={isAIPredicting} 
+              onClick={fetchAIPrediction} 
+              disabled={isAIPredicting || !predictor.isAvailable() || !!aiPausedReason} 
+              title={!predictor.isAvailable() ? t('dashboard.ai.noKey') : aiPausedReason || undefined}
               className="p-2 -mr-2 bg-blue-500 hover:bg-blue-600 text-white rounded-full flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed"
-              aria-label="Phân tích AI"
+              aria-label={t('dashboard.ai.analyse')}
             >
               {isAIPredicting ? <RefreshCw className="w-5 h-5 animate-spin" /> : <TrendingUp className="w-5 h-5" />}
             </button>
@@ -606,11 +867,25 @@ export const Dashboard: React.FC<DashboardProps> = ({ token, match, onBack }) =>
               <RefreshCw className={`w-5 h-5 ${isRefreshing ? 'animate-spin' : ''}`} />
             </button>
           </div>
+          )}
         </div>
+        {replaySession && (
+          <ReplayControls
+            position={replayIndex}
+            total={replaySession.snapshots.length}
+            currentTimestamp={replaySession.snapshots[Math.max(0, replayIndex - 1)]?.timestamp}
+            isPlaying={isReplayPlaying}
+            speed={replaySpeed}
+            onTogglePlay={() => setIsReplayPlaying(p => !p)}
+            onRestart={restartReplay}
+            onSpeedChange={setReplaySpeed}
+          />
+        )}
+        {!isReplay && <OfflineBanner />}
         <div className="flex justify-between items-center px-6 pb-4">
             <div className="flex flex-col items-center w-1/3">
                 <div className="font-bold text-lg text-center leading-tight mb-1">{liveMatch.home.name}</div>
-                <div className="text-xs text-gray-400">Đội nhà</div>
+                <div className="text-xs text-gray-400">{t('common.home')}</div>
             </div>
             <div className="flex items-center gap-3">
                 <span className="text-4xl font-black text-slate-800">{scoreParts[0]}</span>
@@ -619,46 +894,73 @@ export const Dashboard: React.FC<DashboardProps> = ({ token, match, onBack }) =>
             </div>
             <div className="flex flex-col items-center w-1/3">
                 <div className="font-bold text-lg text-center leading-tight mb-1">{liveMatch.away.name}</div>
-                <div className="text-xs text-gray-400">Đội khách</div>
+                <div className="text-xs text-gray-400">{t('common.away')}</div>
             </div>
         </div>
       </div>
 
       <div className="px-4 mt-4 space-y-4">
-        <div className={`rounded-2xl p-4 flex flex-col gap-2 shadow-sm border ${analysis.level === 'rất cao' ? 'bg-red-50 border-red-200' : 'bg-gray-50 border-gray-200'}`}>
+        <div className={`rounded-2xl p-4 flex flex-col gap-2 shadow-sm border ${headline.level === 'very_high' ? 'bg-red-50 border-red-200' : 'bg-gray-50 border-gray-200'}`}>
             <div className="flex items-center justify-between">
                 <div className="flex items-center gap-3">
-                    {/* Fix: Use Vietnamese strings for comparison */}
-                    <div className={`p-3 rounded-xl ${analysis.level === 'rất cao' ? 'bg-red-500 text-white' : 'bg-white text-gray-500'}`}><Siren className="w-6 h-6" /></div>
+                    <div className={`p-3 rounded-xl ${headline.level === 'very_high' ? 'bg-red-500 text-white' : 'bg-white text-gray-500'}`}><Siren className="w-6 h-6" /></div>
                     <div>
-                        <div className="text-xs font-bold text-gray-500 uppercase tracking-wider">Xác suất bàn thắng AI Gemini</div>
-                        <div className={`text-2xl font-black ${analysis.level === 'rất cao' ? 'text-red-600' : 'text-gray-800'}`}>{analysis.score}%</div>
+                        <div className="text-xs font-bold text-gray-500 uppercase tracking-wider">{showLocalAsPrimary ? t('dashboard.localHeadline') : t('dashboard.aiHeadline', { model: predictor.label })}</div>
+                        {!headline.horizons && <div className={`text-2xl font-black ${headline.level === 'very_high' ? 'text-red-600' : 'text-gray-800'}`}>{headline.score}%</div>}
                     </div>
                 </div>
                 <div className="text-right">
-                    <div className="text-xs text-gray-500">Độ tin cậy AI:</div>
-                    {/* Fix: Use Vietnamese strings for comparison */}
-                    <div className={`font-bold ${analysis.level === 'rất cao' ? 'text-red-600' : analysis.level === 'cao' ? 'text-orange-500' : analysis.level === 'trung bình' ? 'text-yellow-500' : 'text-gray-500'}`}>{analysis.level.toUpperCase()}</div>
+                    <div className="text-xs text-gray-500">{t(showLocalAsPrimary ? 'dashboard.confidence' : 'dashboard.aiConfidence')}</div>
+                    <div className={`font-bold ${headline.level === 'very_high' ? 'text-red-600' : headline.level === 'high' ? 'text-orange-500' : headline.level === 'medium' ? 'text-yellow-500' : 'text-gray-500'}`}>{confidenceLabel(headline.level).toUpperCase()}</div>
                 </div>
             </div>
-            {analysis.reasoning && (
+            {headline.horizons && (
+                <ProbabilityLadder
+                    m5={headline.score}
+                    horizons={headline.horizons}
+                    nextGoal={headline.nextGoal}
+                    expectedRemainingGoals={headline.expectedRemainingGoals}
+                    homeName={liveMatch.home.name}
+                    awayName={liveMatch.away.name}
+                />
+            )}
+            {!showLocalAsPrimary && (
+                <div className="flex justify-between text-xs text-gray-500 px-1">
+                    <span>{t('dashboard.localModel')}</span>
+                    <span className="font-bold text-gray-700">{localPrediction.goal_probability}% · {confidenceLabel(localPrediction.confidence_level)}</span>
+                </div>
+            )}
+            {headline.reasoning && (
                 <div className="bg-white p-3 rounded-xl border border-gray-100 text-xs text-gray-700 flex items-start gap-2 mt-2">
                     <Info className="w-4 h-4 text-gray-500 flex-shrink-0 mt-0.5" />
-                    <p className="flex-grow">{analysis.reasoning}</p>
+                    <p className="flex-grow">{headline.reasoning}</p>
                 </div>
             )}
+            {aiStatus && !isReplay && <div className="text-[11px] text-gray-400 px-1">AI · {aiStatus}</div>}
         </div>
 
         {/* Traditional Factors Section */}
         <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100">
-            <h3 className="text-sm font-bold text-gray-700 mb-3">Các yếu tố truyền thống</h3>
+            <h3 className="text-sm font-bold text-gray-700 mb-3">{t('dashboard.factors')}</h3>
             <div className="grid grid-cols-3 gap-x-4 gap-y-2 text-sm">
-                <StatItem label="Động lực" value={typeof analysis.factors.apiMomentum === 'number' ? analysis.factors.apiMomentum.toFixed(1) : '-'} color="text-indigo-600" />
-                <StatItem label="Cụm sút" value={typeof analysis.factors.shotCluster === 'number' ? analysis.factors.shotCluster.toFixed(1) : '-'} color="text-green-600" />
-                <StatItem label="Áp lực" value={typeof analysis.factors.pressure === 'number' ? analysis.factors.pressure.toFixed(1) : '-'} color="text-purple-600" />
+                <StatItem label={t('dashboard.momentum')} value={liveFactors.apiMomentum.toFixed(1)} color="text-indigo-600" />
+                <StatItem label={t('dashboard.shotCluster')} value={liveFactors.shotCluster.toFixed(1)} color="text-green-600" />
+                <StatItem label={t('dashboard.pressure')} value={liveFactors.pressure.toFixed(1)} color="text-purple-600" />
             </div>
         </div>
 
+        {/* Bets are only logged against live prices */}
+        {!isReplay && (
+          <BetSlip
+            match={liveMatch}
+            providerKind={provider.kind}
+            minute={getMatchMinute(liveMatch)}
+            latestOver={oddsHistory.length > 0 ? oddsHistory[oddsHistory.length - 1] : null}
+            latestHome={homeOddsHistory.length > 0 ? homeOddsHistory[homeOddsHistory.length - 1] : null}
+            defaultSignal={hasAIPrediction ? 'gemini' : 'local'}
+          />
+        )}
+
         {/* New Live Stats Table */}
         <LiveStatsTable
           liveMatch={liveMatch}
@@ -667,50 +969,60 @@ export const Dashboard: React.FC<DashboardProps> = ({ token, match, onBack }) =>
           apiChartData={apiChartData}
         />
 
+        <EventTimeline events={matchEvents} homeName={liveMatch.home.name} awayName={liveMatch.away.name} />
+
+        <MomentumChart series={pressureSeries} current={teamPressure} homeName={liveMatch.home.name} awayName={liveMatch.away.name} timeline={timeline} />
+
         {(marketChartData.length > 0 || apiChartData.length > 0) && (
           <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100">
-              <h3 className="text-sm font-bold text-gray-700 mb-2 flex items-center gap-2"><TrendingUp className="w-4 h-4 text-emerald-500" />Thị trường Tài/Xỉu (1_3) & Dòng thời gian API</h3>
+              <h3 className="text-sm font-bold text-gray-700 mb-2 flex items-center gap-2"><TrendingUp className="w-4 h-4 text-emerald-500" />{t('dashboard.overChart')}</h3>
               <div className="relative h-80 w-full">
                   <ResponsiveContainer width="100%" height="100%">
                       <ComposedChart margin={{ top: 10, right: 10, bottom: 0, left: -15 }}>
-                          <XAxis type="number" dataKey="minute" name="Phút" unit="'" domain={[0, 90]} ticks={[0, 15, 30, 45, 60, 75, 90]} tick={{ fontSize: 10, fill: '#9ca3af' }} tickLine={false} axisLine={{ stroke: '#e5e7eb' }} />
+                          <XAxis {...timelineAxisProps(timeline)} />
                           <YAxis yAxisId="left" dataKey="handicap" name="HDP" width={45} domain={['dataMin - 0.25', 'dataMax + 0.25']} tick={{ fontSize: 10, fill: '#9ca3af' }} tickLine={false} axisLine={{ stroke: '#e5e7eb' }} allowDecimals={true} tickCount={8} />
                           <YAxis yAxisId="right" orientation="right" tick={{ fontSize: 10, fill: '#9ca3af' }} tickLine={false} axisLine={{ stroke: '#e5e7eb' }} width={35} domain={['dataMin - 5', 'dataMax + 10']} />
-                          <Tooltip cursor={{ strokeDasharray: '3 3' }} content={<CustomTooltip />} />
+                          <Tooltip cursor={{ strokeDasharray: '3 3' }} content={<CustomTooltip timeline={timeline} />} />
+                          {renderPeriodMarkers(timeline, 'left')}
                           <Legend wrapperStyle={{ fontSize: '12px', paddingTop: '10px' }}/>
-                          <Scatter yAxisId="left" name="Thị trường" data={marketChartData} fill="#8884d8">{marketChartData.map((e, i) => ( <Cell key={`c-${i}`} fill={e.color} /> ))}</Scatter>
-                          <Line yAxisId="right" type="monotone" data={apiChartData} dataKey="homeApi" name="API Đội nhà" stroke="#2563eb" strokeWidth={2} dot={false} />
-                          <Line yAxisId="right" type="monotone" data={apiChartData} dataKey="awayApi" name="API Đội khách" stroke="#ea580c" strokeWidth={2} dot={false} />
+                          <Scatter yAxisId="left" name={t('dashboard.market')} data={overChartPoints} fill="#8884d8">{overChartPoints.map((e, i) => ( <Cell key={`c-${i}`} fill={e.color} /> ))}</Scatter>
+                          <Line yAxisId="right" type="monotone" data={apiChartData} dataKey="homeApi" name={t('dashboard.homeApi')} stroke="#2563eb" strokeWidth={2} dot={false} />
+                          <Line yAxisId="right" type="monotone" data={apiChartData} dataKey="awayApi" name={t('dashboard.awayApi')} stroke="#ea580c" strokeWidth={2} dot={false} />
                       </ComposedChart>
                   </ResponsiveContainer>
                   <OverlayContainer>
-                      <HighlightBands highlights={highlights.overUnder} />
-                      <ShotBalls shots={shotEvents} />
+                      <HighlightBands highlights={highlights.overUnder} timeline={timeline} />
+                      <ShotBalls shots={shotEvents} timeline={timeline} />
+                      <EventMarkers events={matchEvents} homeName={liveMatch.home.name} awayName={liveMatch.away.name} timeline={timeline} />
                   </OverlayContainer>
                   <OddsColorLegent />
               </div>
           </div>
         )}
 
+        <ImpliedMarketChart overSeries={impliedOverSeries} homeSeries={impliedHomeSeries} timeline={timeline} />
+
         {(homeMarketChartData.length > 0 || apiChartData.length > 0) && (
           <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100">
-              <h3 className="text-sm font-bold text-gray-700 mb-2 flex items-center gap-2"><TrendingUp className="w-4 h-4 text-purple-500" />Tỷ lệ Đội nhà (1_2) & Dòng thời gian API</h3>
+              <h3 className="text-sm font-bold text-gray-700 mb-2 flex items-center gap-2"><TrendingUp className="w-4 h-4 text-purple-500" />{t('dashboard.homeChart')}</h3>
               <div className="relative h-80 w-full">
                   <ResponsiveContainer width="100%" height="100%">
                       <ComposedChart margin={{ top: 10, right: 10, bottom: 0, left: -15 }}>
-                          <XAxis type="number" dataKey="minute" name="Phút" unit="'" domain={[0, 90]} ticks={[0, 15, 30, 45, 60, 75, 90]} tick={{ fontSize: 10, fill: '#9ca3af' }} tickLine={false} axisLine={{ stroke: '#e5e7eb' }} />
+                          <XAxis {...timelineAxisProps(timeline)} />
                           <YAxis yAxisId="left" dataKey="handicap" name="HDP" width={45} domain={['dataMin - 0.25', 'dataMax + 0.25']} tick={{ fontSize: 10, fill: '#9ca3af' }} tickLine={false} axisLine={{ stroke: '#e5e7eb' }} allowDecimals={true} tickCount={8} />
                           <YAxis yAxisId="right" orientation="right" tick={{ fontSize: 10, fill: '#9ca3af' }} tickLine={false} axisLine={{ stroke: '#e5e7eb' }} width={35} domain={['dataMin - 5', 'dataMax + 10']} />
-                          <Tooltip cursor={{ strokeDasharray: '3 3' }} content={<CustomTooltip />} />
+                          <Tooltip cursor={{ strokeDasharray: '3 3' }} content={<CustomTooltip timeline={timeline} />} />
+                          {renderPeriodMarkers(timeline, 'left')}
                           <Legend wrapperStyle={{ fontSize: '12px', paddingTop: '10px' }}/>
-                          <Scatter yAxisId="left" name="Thị trường" data={homeMarketChartData} fill="#8884d8">{homeMarketChartData.map((e, i) => ( <Cell key={`c-${i}`} fill={e.color} /> ))}</Scatter>
-                          <Line yAxisId="right" type="monotone" data={apiChartData} dataKey="homeApi" name="API Đội nhà" stroke="#2563eb" strokeWidth={2} dot={false} />
-                          <Line yAxisId="right" type="monotone" data={apiChartData} dataKey="awayApi" name="API Đội khách" stroke="#ea580c" strokeWidth={2} dot={false} />
+                          <Scatter yAxisId="left" name={t('dashboard.market')} data={homeChartPoints} fill="#8884d8">{homeChartPoints.map((e, i) => ( <Cell key={`c-${i}`} fill={e.color} /> ))}</Scatter>
+                          <Line yAxisId="right" type="monotone" data={apiChartData} dataKey="homeApi" name={t('dashboard.homeApi')} stroke="#2563eb" strokeWidth={2} dot={false} />
+                          <Line yAxisId="right" type="monotone" data={apiChartData} dataKey="awayApi" name={t('dashboard.awayApi')} stroke="#ea580c" strokeWidth={2} dot={false} />
                       </ComposedChart>
                   </ResponsiveContainer>
                    <OverlayContainer>
-                      <HighlightBands highlights={highlights.homeOdds} />
-                      <ShotBalls shots={shotEvents} />
+                      <HighlightBands highlights={highlights.homeOdds} timeline={timeline} />
+                      <ShotBalls shots={shotEvents} timeline={timeline} />
+                      <EventMarkers events={matchEvents} homeName={liveMatch.home.name} awayName={liveMatch.away.name} timeline={timeline} />
                   </OverlayContainer>
                   <OddsColorLegent />
               </div>
@@ -718,11 +1030,15 @@ export const Dashboard: React.FC<DashboardProps> = ({ token, match, onBack }) =>
         )}
         
         <div className="grid grid-cols-2 gap-3">
-            <StatBox label="Tấn công" home={stats.attacks[0]} away={stats.attacks[1]} />
-            <StatBox label="Nguy hiểm" home={stats.dangerous_attacks[0]} away={stats.dangerous_attacks[1]} highlight />
-            <StatBox label="Trúng đích" home={stats.on_target[0]} away={stats.on_target[1]} highlight />
-            <StatBox label="Phạt góc" home={stats.corners[0]} away={stats.corners[1]} />
+            <StatBox label={t('stats.attacks')} home={stats.attacks[0]} away={stats.attacks[1]} />
+            <StatBox label={t('stats.dangerous')} home={stats.dangerous_attacks[0]} away={stats.dangerous_attacks[1]} highlight />
+            <StatBox label={t('stats.onTarget')} home={stats.on_target[0]} away={stats.on_target[1]} highlight />
+            <StatBox label={t('stats.corners')} home={stats.corners[0]} away={stats.corners[1]} />
         </div>
+
+        <SessionExport
+          getState={() => ({ match: liveMatch, statsHistory, oddsHistory, homeOddsHistory, highlights })}
+        />
       </div>
     </div>
   );
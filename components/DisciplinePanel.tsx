@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { DisciplineOverride, DisciplineSettings } from '../types';
+import {
+  loadDisciplineSettings, saveDisciplineSettings, loadOverrides, clearOverrides, activeCooldown, checklistItemLabel,
+} from '../services/discipline';
+import { MessageKey, t } from '../services/i18n';
+import { ShieldCheck, Plus, Trash2, Lock } from 'lucide-react';
+
+const THRESHOLDS: { key: Exclude<keyof DisciplineSettings, 'checklist'>; label: MessageKey; step: number }[] = [
+  { key: 'maxConsecutiveLosses', label: 'discipline.threshold.maxConsecutiveLosses', step: 1 },
+  { key: 'maxStakeMultiple', label: 'discipline.threshold.maxStakeMultiple', step: 0.5 },
+  { key: 'maxBetsInWindow', label: 'discipline.threshold.maxBetsInWindow', step: 1 },
+  { key: 'windowMinutes', label: 'discipline.threshold.windowMinutes', step: 5 },
+  { key: 'cooldownMinutes', label: 'discipline.threshold.cooldownMinutes', step: 5 },
+];
+
+const OVERRIDE_LABELS: Record<DisciplineOverride['kind'], MessageKey> = {
+  checklist: 'discipline.override.checklist',
+  cooldown: 'discipline.override.cooldown',
+};
+
+/**
+ * Checklist and tilt thresholds for the pre-bet gate, plus the log of every override.
+ */
+export const DisciplinePanel: React.FC = () => {
+  const [settings, setSettings] = useState<DisciplineSettings>(() => loadDisciplineSettings());
+  const [overrides, setOverrides] = useState<DisciplineOverride[]>(() => loadOverrides().slice().reverse());
+  const [draftItem, setDraftItem] = useState('');
+  const [cooldown] = useState(() => activeCooldown());
+
+  const updateSettings = (next: DisciplineSettings) => {
+    setSettings(next);
+    saveDisciplineSettings(next);
+  };
+
+  const handleAddItem = () => {
+    if (!draftItem.trim()) return;
+    updateSettings({ ...settings, checklist: [...settings.checklist, { id: `item-${Date.now()}`, label: draftItem.trim(), enabled: true }] });
+    setDraftItem('');
+  };
+
+  const handleClearOverrides = () => {
+    if (!window.confirm(t('discipline.confirmClearOverrides'))) return;
+    clearOverrides();
+    setOverrides([]);
+  };
+
+  const inputClass = "px-2 py-1.5 rounded-lg border border-gray-200 text-xs bg-white outline-none focus:border-blue-400";
+
+  return (
+    <>
+      <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100 space-y-3">
+        <h3 className="text-sm font-bold text-gray-700 flex items-center gap-2"><ShieldCheck className="w-4 h-4 text-emerald-600" />{t('discipline.title')}</h3>
+        {cooldown && (
+          <div className="text-xs text-red-600 flex items-center gap-1.5">
+            <Lock className="w-3.5 h-3.5" />{t('discipline.lockedUntil', { time: new Date(cooldown.until).toLocaleTimeString(), reason: cooldown.reason })}
+          </div>
+        )}
+        <div className="space-y-1.5">
+          {settings.checklist.map(item => (
+            <div key={item.id} className="flex items-center justify-between gap-2 text-xs">
+              <label className={`flex items-center gap-2 ${item.enabled ? 'text-gray-700' : 'text-gray-400'}`}>
+                <input
+                  type="checkbox"
+                  checked={item.enabled}
+                  onChange={(e) => updateSettings({ ...settings, checklist: settings.checklist.map(i => (i.id === item.id ? { ...i, enabled: e.target.checked } : i)) })}
+                />
+                {checklistItemLabel(item)}
+              </label>
+              <button
+                onClick={() => updateSettings({ ...settings, checklist: settings.checklist.filter(i => i.id !== item.id) })}
+                className="text-gray-300 hover:text-red-500"
+                aria-label={t('discipline.removeItem')}
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <input value={draftItem} onChange={(e) => setDraftItem(e.target.value)} placeholder={t('discipline.addItemPlaceholder')} className={`${inputClass} flex-grow`} />
+            <button onClick={handleAddItem} className="px-2 rounded-lg bg-slate-800 text-white" aria-label={t('discipline.addItem')}>
+              <Plus className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          {THRESHOLDS.map(threshold => (
+            <label key={threshold.key} className="text-[11px] text-gray-500 flex flex-col gap-1">
+              {t(threshold.label)}
+              <input
+                type="number"
+                min={threshold.step}
+                step={threshold.step}
+                value={settings[threshold.key]}
+                onChange={(e) => {
+                  const value = Number(e.target.value);
+                  if (value > 0) updateSettings({ ...settings, [threshold.key]: value });
+                }}
+                className={inputClass}
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-sm font-bold text-gray-700">{t('discipline.overrideLog')}</h3>
+          {overrides.length > 0 && <button onClick={handleClearOverrides} className="text-[11px] text-gray-400 hover:text-red-500">{t('common.delete')}</button>}
+        </div>
+        {overrides.length === 0 ? (
+          <div className="text-xs text-gray-400 text-center py-2">{t('discipline.noOverrides')}</div>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {overrides.map(o => (
+              <div key={o.id} className="py-1.5 text-xs">
+                <div className="flex justify-between text-gray-500">
+                  <span className="font-bold text-amber-600">{t(OVERRIDE_LABELS[o.kind])}</span>
+                  <span>{new Date(o.at).toLocaleString()}</span>
+                </div>
+                <div className="text-gray-400">{o.detail}</div>
+                <div className="text-gray-800">"{o.reason}"</div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,52 @@
+import React from 'react';
+import { MatchEvent, MatchEventType } from '../types';
+import { MessageKey, t } from '../services/i18n';
+import { clockAt, formatClock } from '../services/matchClock';
+import { ListOrdered } from 'lucide-react';
+
+interface EventTimelineProps {
+  events: MatchEvent[];
+  homeName: string;
+  awayName: string;
+}
+
+export const EVENT_LABELS: Record<MatchEventType, MessageKey> = {
+  goal: 'events.goal',
+  yellowcard: 'events.yellowcard',
+  redcard: 'events.redcard',
+  corner: 'events.corner',
+};
+
+// Same marker look as the chart overlay, so the log and the charts read alike
+export const EventIcon = ({ type }: { type: MatchEventType }) => (
+  <span className={`event-marker relative transform-none event-${type}`}>
+    {type === 'goal' ? 'G' : type === 'corner' ? 'C' : ''}
+  </span>
+);
+
+export const EventTimeline: React.FC<EventTimelineProps> = ({ events, homeName, awayName }) => {
+  // Newest first
+  const ordered = [...events].reverse();
+
+  return (
+    <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100">
+      <h3 className="text-sm font-bold text-gray-700 mb-3 flex items-center gap-2"><ListOrdered className="w-4 h-4 text-slate-500" />{t('events.title')}</h3>
+      {ordered.length === 0 ? (
+        <div className="text-xs text-gray-400 text-center py-2">{t('events.empty')}</div>
+      ) : (
+        <div className="max-h-48 overflow-y-auto no-scrollbar divide-y divide-gray-100">
+          {ordered.map((event, index) => (
+            <div key={`${event.minute}+${event.added || 0}-${event.type}-${event.team}-${index}`} className={`flex items-center gap-3 py-1.5 text-xs ${event.team === 'away' ? 'flex-row-reverse text-right' : ''}`}>
+              <span className="font-mono font-bold text-gray-500 w-8 text-center">{formatClock(clockAt(event.minute, event.added || 0))}</span>
+              <EventIcon type={event.type} />
+              <span className="flex-grow">
+                <span className={`font-semibold ${event.team === 'home' ? 'text-blue-600' : 'text-orange-600'}`}>{event.team === 'home' ? homeName : awayName}</span>
+                <span className="text-gray-500"> · {t(EVENT_LABELS[event.type])}</span>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
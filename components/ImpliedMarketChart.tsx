@@ -0,0 +1,66 @@
+import React from 'react';
+import { ImpliedOverPoint, ImpliedHomePoint } from '../services/marketAnalytics';
+import { TimelineLayout } from '../services/matchClock';
+import { timelineAxisProps, renderPeriodMarkers } from './TimelineAxis';
+import { t } from '../services/i18n';
+import { Percent } from 'lucide-react';
+import { ResponsiveContainer, ComposedChart, Line, XAxis, YAxis, Tooltip, Legend, ReferenceLine } from 'recharts';
+
+interface ImpliedMarketChartProps {
+  overSeries: ImpliedOverPoint[];
+  homeSeries: ImpliedHomePoint[];
+  timeline: TimelineLayout;
+}
+
+/**
+ * Margin-free view of both markets. "Khả năng còn bàn" is derived from the goals the over/under
+ * market still expects, so it stays on one scale when the line moves; dashed verticals mark line changes.
+ */
+export const ImpliedMarketChart: React.FC<ImpliedMarketChartProps> = ({ overSeries, homeSeries, timeline }) => {
+  if (overSeries.length === 0 && homeSeries.length === 0) return null;
+
+  const overPoints = overSeries.map(p => ({ ...p, x: timeline.minuteToX(p.minute, p.added) }));
+  const homePoints = homeSeries.map(p => ({ ...p, x: timeline.minuteToX(p.minute, p.added) }));
+
+  const latestOver = overSeries[overSeries.length - 1];
+  const latestHome = homeSeries[homeSeries.length - 1];
+
+  return (
+    <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100">
+      <h3 className="text-sm font-bold text-gray-700 mb-2 flex items-center gap-2"><Percent className="w-4 h-4 text-sky-500" />{t('implied.title')}</h3>
+      <div className="grid grid-cols-3 gap-2 text-center mb-2">
+        <div>
+          <div className="text-lg font-black text-sky-600">{latestOver?.nextGoalProbability ?? '-'}{latestOver?.nextGoalProbability != null && '%'}</div>
+          <div className="text-[10px] text-gray-400 uppercase">{t('implied.nextGoal')}</div>
+        </div>
+        <div>
+          <div className="text-lg font-black text-slate-700">{latestOver?.expectedGoals ?? '-'}</div>
+          <div className="text-[10px] text-gray-400 uppercase">{t('implied.expectedGoals')}</div>
+        </div>
+        <div>
+          <div className="text-lg font-black text-slate-700">{latestOver ? `${latestOver.overround}%` : latestHome ? `${latestHome.overround}%` : '-'}</div>
+          <div className="text-[10px] text-gray-400 uppercase">{t('implied.margin')}</div>
+        </div>
+      </div>
+      <div className="h-64 w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart margin={{ top: 10, right: 10, bottom: 0, left: -15 }}>
+            <XAxis {...timelineAxisProps(timeline)} allowDuplicatedCategory={false} />
+            <YAxis yAxisId="left" unit="%" domain={[0, 100]} tick={{ fontSize: 10, fill: '#9ca3af' }} tickLine={false} axisLine={{ stroke: '#e5e7eb' }} width={45} />
+            <YAxis yAxisId="right" orientation="right" unit="%" domain={[0, 'dataMax + 2']} tick={{ fontSize: 10, fill: '#9ca3af' }} tickLine={false} axisLine={{ stroke: '#e5e7eb' }} width={35} />
+            <Tooltip formatter={(value: number, name: string) => [`${value}%`, name]} labelFormatter={(x) => `${timeline.label(Number(x))}'`} />
+            {renderPeriodMarkers(timeline, 'left')}
+            <Legend wrapperStyle={{ fontSize: '12px', paddingTop: '10px' }} />
+            {overPoints.filter(p => p.lineChanged).map(p => (
+              <ReferenceLine key={`over-line-${p.x}-${p.line}`} yAxisId="left" x={p.x} stroke="#cbd5e1" strokeDasharray="3 3" label={{ value: `${p.line}`, position: 'top', fontSize: 9, fill: '#64748b' }} />
+            ))}
+            <Line yAxisId="left" type="monotone" data={overPoints} dataKey="nextGoalProbability" name={t('implied.nextGoal')} stroke="#0284c7" strokeWidth={2} dot={false} connectNulls />
+            <Line yAxisId="left" type="stepAfter" data={overPoints} dataKey="overProbability" name={t('implied.over')} stroke="#7dd3fc" strokeWidth={1} strokeDasharray="4 2" dot={false} />
+            <Line yAxisId="left" type="stepAfter" data={homePoints} dataKey="homeProbability" name={t('implied.home')} stroke="#a855f7" strokeWidth={1} dot={false} />
+            <Line yAxisId="right" type="monotone" data={overPoints} dataKey="overround" name={t('implied.overUnderMargin')} stroke="#f59e0b" strokeWidth={1} dot={false} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
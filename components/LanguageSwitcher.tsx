@@ -0,0 +1,25 @@
+import React from 'react';
+import { LOCALES, getLocale, setLocale, t } from '../services/i18n';
+import { Languages } from 'lucide-react';
+
+interface LanguageSwitcherProps {
+  className?: string;
+}
+
+// Cycles through the available languages; App re-renders everything on a switch
+export const LanguageSwitcher: React.FC<LanguageSwitcherProps> = ({ className = 'text-gray-600 hover:bg-gray-100' }) => {
+  const index = LOCALES.findIndex(l => l.locale === getLocale());
+  const next = LOCALES[(index + 1) % LOCALES.length];
+
+  return (
+    <button
+      onClick={() => setLocale(next.locale)}
+      className={`p-2 rounded-full flex items-center gap-0.5 text-[10px] font-black ${className}`}
+      aria-label={t('common.language')}
+      title={t('common.language')}
+    >
+      <Languages className="w-4 h-4" />
+      {LOCALES[index].label}
+    </button>
+  );
+};
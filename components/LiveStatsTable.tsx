@@ -2,6 +2,8 @@
 
 import React, { useMemo } from 'react';
 import { MatchInfo, ProcessedStats } from '../types';
+import { getActiveProfile } from '../services/apiScoreProfiles';
+import { t } from '../services/i18n';
 
 interface LiveStatsTableProps {
   liveMatch: MatchInfo;
@@ -28,6 +30,8 @@ export const LiveStatsTable: React.FC<LiveStatsTableProps> = ({
     return homeOddsHistory[homeOddsHistory.length - 1]; // Get the last (latest) entry
   }, [homeOddsHistory]);
 
+  const profileName = useMemo(() => getActiveProfile().name, []);
+
   const latestApiScores = useMemo(() => {
     if (apiChartData.length === 0) return null;
     return apiChartData[apiChartData.length - 1]; // Get the last (latest) entry
@@ -35,14 +39,17 @@ export const LiveStatsTable: React.FC<LiveStatsTableProps> = ({
 
   return (
     <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100 mt-4">
-      <h3 className="text-sm font-bold text-gray-700 mb-3">Thống kê trực tiếp</h3>
+      <div className="flex items-baseline justify-between mb-3">
+        <h3 className="text-sm font-bold text-gray-700">{t('liveStats.title')}</h3>
+        <span className="text-[10px] text-gray-400">{t('liveStats.profile', { name: profileName })}</span>
+      </div>
       <div className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
-        <StatItem label="HDP Đội nhà" value={latestHomeOdds?.handicap ? parseFloat(latestHomeOdds.handicap).toFixed(2) : '-'} />
-        <StatItem label="HDP Tài/Xỉu" value={latestOdds?.handicap ? parseFloat(latestOdds.handicap).toFixed(2) : '-'} />
-        <StatItem label="Tỷ lệ Đội nhà" value={latestHomeOdds?.home ? latestHomeOdds.home.toFixed(3) : '-'} />
-        <StatItem label="Tỷ lệ Tài" value={latestOdds?.over ? latestOdds.over.toFixed(3) : '-'} />
-        <StatItem label="API Đội nhà" value={latestApiScores?.homeApi ? latestApiScores.homeApi.toFixed(1) : '-'} color="text-blue-600" />
-        <StatItem label="API Đội khách" value={latestApiScores?.awayApi ? latestApiScores.awayApi.toFixed(1) : '-'} color="text-orange-600" />
+        <StatItem label={t('liveStats.homeHandicap')} value={latestHomeOdds?.handicap ? parseFloat(latestHomeOdds.handicap).toFixed(2) : '-'} />
+        <StatItem label={t('liveStats.overUnderLine')} value={latestOdds?.handicap ? parseFloat(latestOdds.handicap).toFixed(2) : '-'} />
+        <StatItem label={t('liveStats.homeOdds')} value={latestHomeOdds?.home ? latestHomeOdds.home.toFixed(3) : '-'} />
+        <StatItem label={t('liveStats.overOdds')} value={latestOdds?.over ? latestOdds.over.toFixed(3) : '-'} />
+        <StatItem label={t('liveStats.homeApi')} value={latestApiScores?.homeApi ? latestApiScores.homeApi.toFixed(1) : '-'} color="text-blue-600" />
+        <StatItem label={t('liveStats.awayApi')} value={latestApiScores?.awayApi ? latestApiScores.awayApi.toFixed(1) : '-'} color="text-orange-600" />
       </div>
     </div>
   );
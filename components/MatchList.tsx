@@ -1,37 +1,201 @@
-import React from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { MatchInfo } from '../types';
-import { Clock, ChevronRight } from 'lucide-react';
+import {
+  MatchListFilters, MatchSort, ScoreState, LeaguePreferences, DEFAULT_FILTERS,
+  loadFilters, saveFilters, loadLeaguePreferences, toggleFavouriteLeague, toggleBlockedLeague,
+  filterMatches, sortMatches, hotnessScore,
+} from '../services/matchFilters';
+import { formatMatchClock } from '../services/matchClock';
+import { MessageKey, t } from '../services/i18n';
+import { Clock, ChevronRight, Star, Search, SlidersHorizontal, Flame, Heart, Ban, X } from 'lucide-react';
 
 interface MatchListProps {
   events: MatchInfo[];
   onSelectMatch: (id: string) => void;
   isLoading: boolean;
+  watchIds: string[];
+  onToggleWatch: (id: string) => void;
 }
 
-export const MatchList: React.FC<MatchListProps> = ({ events, onSelectMatch, isLoading }) => {
+const SORT_OPTIONS: { key: MatchSort; label: MessageKey }[] = [
+  { key: 'hotness', label: 'matchList.sort.hotness' },
+  { key: 'minute', label: 'matchList.sort.minute' },
+  { key: 'league', label: 'matchList.sort.league' },
+];
+
+const SCORE_STATES: { key: ScoreState; label: MessageKey }[] = [
+  { key: 'all', label: 'matchList.score.all' },
+  { key: 'level', label: 'matchList.score.level' },
+  { key: 'close', label: 'matchList.score.close' },
+  { key: 'goalless', label: 'matchList.score.goalless' },
+];
+
+const hotnessColor = (score: number) => (score >= 60 ? 'text-red-500' : score >= 35 ? 'text-orange-500' : 'text-gray-400');
+
+export const MatchList: React.FC<MatchListProps> = ({ events, onSelectMatch, isLoading, watchIds, onToggleWatch }) => {
+  const [filters, setFilters] = useState<MatchListFilters>(() => loadFilters());
+  const [prefs, setPrefs] = useState<LeaguePreferences>(() => loadLeaguePreferences());
+  const [showFilters, setShowFilters] = useState(false);
+
+  useEffect(() => { saveFilters(filters); }, [filters]);
+
+  const updateFilters = (patch: Partial<MatchListFilters>) => setFilters(prev => ({ ...prev, ...patch }));
+
+  const hotness = useMemo(() => new Map(events.map(e => [e.id, hotnessScore(e)])), [events]);
+  const leagues = useMemo(() => [...new Set(events.map(e => e.league.name))].sort(), [events]);
+  const visible = useMemo(
+    () => sortMatches(filterMatches(events, filters, prefs), filters.sort, prefs, hotness),
+    [events, filters, prefs, hotness]
+  );
+
+  const activeFilterCount = [
+    filters.minMinute !== DEFAULT_FILTERS.minMinute || filters.maxMinute !== DEFAULT_FILTERS.maxMinute,
+    filters.scoreState !== 'all',
+    !!filters.league,
+    filters.favouritesOnly,
+    !filters.hideEsoccer,
+  ].filter(Boolean).length;
+
   if (isLoading) {
-    return <div className="p-8 text-center text-gray-500 animate-pulse">Loading live matches...</div>;
+    return <div className="p-8 text-center text-gray-500 animate-pulse">{t('matchList.loading')}</div>;
   }
 
   if (events.length === 0) {
-    return <div className="p-8 text-center text-gray-500">No live matches found or check API Token.</div>;
+    return <div className="p-8 text-center text-gray-500">{t('matchList.empty')}</div>;
   }
 
+  const inputClass = "px-2 py-1.5 rounded-lg border border-gray-200 text-xs bg-white outline-none focus:border-blue-400";
+
   return (
     <div className="space-y-3 pb-20">
-      {events.map((event) => (
-        <div 
+      <div className="flex gap-2">
+        <div className="relative flex-grow">
+          <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            value={filters.query}
+            onChange={(e) => updateFilters({ query: e.target.value })}
+            placeholder={t('matchList.search')}
+            className="w-full pl-9 pr-8 py-2 rounded-xl border border-gray-200 text-sm bg-white outline-none focus:border-blue-400"
+          />
+          {filters.query && (
+            <button onClick={() => updateFilters({ query: '' })} className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-gray-400" aria-label={t('matchList.clearSearch')}>
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+        <button
+          onClick={() => setShowFilters(s => !s)}
+          className={`px-3 rounded-xl border flex items-center gap-1 text-xs font-bold ${showFilters || activeFilterCount > 0 ? 'bg-blue-50 border-blue-200 text-blue-600' : 'bg-white border-gray-200 text-gray-600'}`}
+          aria-label={t('matchList.filters')}
+        >
+          <SlidersHorizontal className="w-4 h-4" />
+          {activeFilterCount > 0 && activeFilterCount}
+        </button>
+      </div>
+
+      {showFilters && (
+        <div className="bg-white rounded-xl p-3 shadow-sm border border-gray-100 space-y-2 text-xs">
+          <div className="flex items-center gap-2 text-gray-600">
+            {t('matchList.minute')}
+            <input type="number" min={0} max={120} value={filters.minMinute} onChange={(e) => updateFilters({ minMinute: Number(e.target.value) || 0 })} className={`${inputClass} w-16 text-right`} />
+            –
+            <input type="number" min={0} max={120} value={filters.maxMinute} onChange={(e) => updateFilters({ maxMinute: Number(e.target.value) || 0 })} className={`${inputClass} w-16 text-right`} />
+          </div>
+          <div className="flex gap-2">
+            <select value={filters.scoreState} onChange={(e) => updateFilters({ scoreState: e.target.value as ScoreState })} className={`${inputClass} flex-1`}>
+              {SCORE_STATES.map(s => <option key={s.key} value={s.key}>{t(s.label)}</option>)}
+            </select>
+            <select value={filters.league} onChange={(e) => updateFilters({ league: e.target.value })} className={`${inputClass} flex-1 min-w-0`}>
+              <option value="">{t('matchList.allLeagues')}</option>
+              {leagues.map(l => <option key={l} value={l}>{l}</option>)}
+            </select>
+          </div>
+          <label className="flex items-center gap-2 text-gray-600">
+            <input type="checkbox" checked={filters.favouritesOnly} onChange={(e) => updateFilters({ favouritesOnly: e.target.checked })} />
+            {t('matchList.favouritesOnly')}
+          </label>
+          <label className="flex items-center gap-2 text-gray-600">
+            <input type="checkbox" checked={filters.hideEsoccer} onChange={(e) => updateFilters({ hideEsoccer: e.target.checked })} />
+            {t('matchList.hideEsoccer')}
+          </label>
+          {prefs.blocked.length > 0 && (
+            <div className="pt-1 border-t border-gray-100">
+              <div className="text-gray-400 mb-1">{t('matchList.blockedLeagues')}</div>
+              <div className="flex flex-wrap gap-1">
+                {prefs.blocked.map(league => (
+                  <button key={league} onClick={() => setPrefs(toggleBlockedLeague(prefs, league))} className="bg-gray-100 text-gray-600 rounded-md px-2 py-0.5 flex items-center gap-1">
+                    {league} <X className="w-3 h-3" />
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+          <button onClick={() => setFilters({ ...DEFAULT_FILTERS, query: filters.query, sort: filters.sort })} className="text-blue-600 font-bold">{t('matchList.resetFilters')}</button>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-gray-400">{t('matchList.count', { visible: visible.length, total: events.length })}</span>
+        <div className="flex gap-1 bg-gray-100 p-0.5 rounded-lg">
+          {SORT_OPTIONS.map(option => (
+            <button
+              key={option.key}
+              onClick={() => updateFilters({ sort: option.key })}
+              className={`text-[11px] font-bold px-2 py-1 rounded-md ${filters.sort === option.key ? 'bg-white text-slate-800 shadow-sm' : 'text-gray-500'}`}
+            >
+              {t(option.label)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {visible.length === 0 && <div className="p-6 text-center text-xs text-gray-400">{t('matchList.noneFit')}</div>}
+
+      {visible.map((event) => {
+        const isFavourite = prefs.favourites.includes(event.league.name);
+        const score = hotness.get(event.id) || 0;
+        return (
+        <div
           key={event.id}
           onClick={() => onSelectMatch(event.id)}
           className="bg-white rounded-xl p-4 shadow-sm border border-gray-100 active:bg-gray-50 transition-colors cursor-pointer"
         >
           <div className="flex justify-between items-start mb-3">
-            <span className="text-xs font-semibold text-blue-600 bg-blue-50 px-2 py-1 rounded-md truncate max-w-[70%]">
-              {event.league.name}
-            </span>
-            <div className="flex items-center text-red-500 text-xs font-bold">
-              <Clock className="w-3 h-3 mr-1" />
-              {event.timer?.tm || event.time || "0"}'
+            <div className="flex items-center gap-1 min-w-0 max-w-[70%]">
+              <span className="text-xs font-semibold text-blue-600 bg-blue-50 px-2 py-1 rounded-md truncate">
+                {event.league.name}
+              </span>
+              <button
+                onClick={(e) => { e.stopPropagation(); setPrefs(toggleFavouriteLeague(prefs, event.league.name)); }}
+                className="p-1 flex-shrink-0"
+                aria-label={t(isFavourite ? 'matchList.unfavourite' : 'matchList.favourite')}
+              >
+                <Heart className={`w-3.5 h-3.5 ${isFavourite ? 'fill-rose-500 text-rose-500' : 'text-gray-300'}`} />
+              </button>
+              <button
+                onClick={(e) => { e.stopPropagation(); setPrefs(toggleBlockedLeague(prefs, event.league.name)); }}
+                className="p-1 flex-shrink-0"
+                aria-label={t('matchList.block')}
+              >
+                <Ban className="w-3.5 h-3.5 text-gray-300" />
+              </button>
+            </div>
+            <div className="flex items-center gap-2">
+              <div className={`flex items-center text-xs font-bold ${hotnessColor(score)}`} title={t('matchList.hotness')}>
+                <Flame className="w-3 h-3 mr-0.5" />
+                {score}
+              </div>
+              <div className="flex items-center text-red-500 text-xs font-bold">
+                <Clock className="w-3 h-3 mr-1" />
+                {formatMatchClock(event)}
+              </div>
+              <button
+                onClick={(e) => { e.stopPropagation(); onToggleWatch(event.id); }}
+                className="p-1 -m-1"
+                aria-label={t(watchIds.includes(event.id) ? 'matchList.unwatch' : 'matchList.watch')}
+              >
+                <Star className={`w-4 h-4 ${watchIds.includes(event.id) ? 'fill-amber-400 text-amber-400' : 'text-gray-300'}`} />
+              </button>
             </div>
           </div>
 
@@ -39,7 +203,7 @@ export const MatchList: React.FC<MatchListProps> = ({ events, onSelectMatch, isL
             <div className="flex-1 text-right pr-3">
               <div className="font-bold text-gray-900 leading-tight">{event.home.name}</div>
             </div>
-            
+
             <div className="bg-gray-100 px-3 py-1 rounded-lg font-mono font-bold text-lg text-gray-800 tracking-widest">
               {event.ss || "0-0"}
             </div>
@@ -48,14 +212,15 @@ export const MatchList: React.FC<MatchListProps> = ({ events, onSelectMatch, isL
               <div className="font-bold text-gray-900 leading-tight">{event.away.name}</div>
             </div>
           </div>
-          
+
           <div className="mt-3 flex justify-center">
             <span className="text-xs text-gray-400 flex items-center">
-              Tap for Analysis <ChevronRight className="w-3 h-3 ml-1" />
+              {t('matchList.tapForAnalysis')} <ChevronRight className="w-3 h-3 ml-1" />
             </span>
           </div>
         </div>
-      ))}
+        );
+      })}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,86 @@
+import React from 'react';
+import { TeamPressure, TeamWindowStats } from '../services/analysis';
+import { TimelineLayout } from '../services/matchClock';
+import { timelineAxisProps, renderPeriodMarkers } from './TimelineAxis';
+import { MessageKey, t } from '../services/i18n';
+import { Activity } from 'lucide-react';
+import { ResponsiveContainer, ComposedChart, Bar, XAxis, YAxis, Tooltip, ReferenceLine } from 'recharts';
+
+interface MomentumChartProps {
+  series: { minute: number; home: number; away: number }[];
+  current: TeamPressure;
+  homeName: string;
+  awayName: string;
+  timeline: TimelineLayout;
+}
+
+const WINDOW_ROWS: { key: keyof TeamWindowStats; label: MessageKey }[] = [
+  { key: 'dangerousAttacks', label: 'momentum.dangerousAttacks' },
+  { key: 'shots', label: 'momentum.shots' },
+  { key: 'corners', label: 'stats.corners' },
+];
+
+/**
+ * Diverging momentum chart: the home pressure index grows up from the centre line, the away
+ * index grows down, one bar per recorded minute. Below it, the raw 5' and 10' counts per team.
+ */
+export const MomentumChart: React.FC<MomentumChartProps> = ({ series, current, homeName, awayName, timeline }) => {
+  if (series.length === 0) return null;
+
+  const points = series.map(p => ({ ...p, x: timeline.minuteToX(p.minute), awayDown: -p.away }));
+
+  return (
+    <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100">
+      <h3 className="text-sm font-bold text-gray-700 mb-2 flex items-center gap-2"><Activity className="w-4 h-4 text-blue-500" />{t('momentum.title')}</h3>
+      <div className="flex justify-between items-end mb-2">
+        <div>
+          <div className="text-2xl font-black text-blue-600">{current.index[0]}</div>
+          <div className="text-[10px] text-gray-400 uppercase truncate max-w-[120px]">{homeName}</div>
+        </div>
+        <div className="text-[10px] text-gray-400 text-center">{t('momentum.indexLine1')}<br />{t('momentum.indexLine2')}</div>
+        <div className="text-right">
+          <div className="text-2xl font-black text-orange-600">{current.index[1]}</div>
+          <div className="text-[10px] text-gray-400 uppercase truncate max-w-[120px]">{awayName}</div>
+        </div>
+      </div>
+      <div className="h-48 w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={points} stackOffset="sign" margin={{ top: 10, right: 10, bottom: 0, left: -15 }}>
+            <XAxis {...timelineAxisProps(timeline)} />
+            <YAxis yAxisId="left" domain={[-100, 100]} ticks={[-100, -50, 0, 50, 100]} tickFormatter={(v: number) => `${Math.abs(v)}`} tick={{ fontSize: 10, fill: '#9ca3af' }} tickLine={false} axisLine={{ stroke: '#e5e7eb' }} width={45} />
+            <Tooltip
+              formatter={(value: number, name: string) => [Math.abs(value), name]}
+              labelFormatter={(x) => `${timeline.label(Number(x))}'`}
+            />
+            {renderPeriodMarkers(timeline, 'left')}
+            <ReferenceLine yAxisId="left" y={0} stroke="#cbd5e1" />
+            <Bar yAxisId="left" dataKey="home" name={homeName} stackId="pressure" fill="#2563eb" barSize={4} />
+            <Bar yAxisId="left" dataKey="awayDown" name={awayName} stackId="pressure" fill="#ea580c" barSize={4} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+      <table className="w-full text-xs mt-3">
+        <thead>
+          <tr className="text-gray-400">
+            <th className="font-medium text-left py-1"></th>
+            <th className="font-medium text-right">{t('momentum.homeWindow', { minutes: 5 })}</th>
+            <th className="font-medium text-right">{t('momentum.homeWindow', { minutes: 10 })}</th>
+            <th className="font-medium text-right">{t('momentum.awayWindow', { minutes: 5 })}</th>
+            <th className="font-medium text-right">{t('momentum.awayWindow', { minutes: 10 })}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {WINDOW_ROWS.map(row => (
+            <tr key={row.key} className="border-t border-gray-100">
+              <td className="py-1.5 text-gray-600">{t(row.label)}</td>
+              <td className="text-right font-bold text-blue-600">{current.window5[0][row.key]}</td>
+              <td className="text-right text-gray-500">{current.window10[0][row.key]}</td>
+              <td className="text-right font-bold text-orange-600">{current.window5[1][row.key]}</td>
+              <td className="text-right text-gray-500">{current.window10[1][row.key]}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,237 @@
+import React, { useState } from 'react';
+import { AlertRule, Highlight } from '../types';
+import {
+  ChannelDelivery, ChannelFormat, FORMAT_LABELS, LEVEL_LABELS, NotificationChannel, NotificationFilter, NotificationLogEntry,
+  loadChannels, saveChannels, loadNotificationLog, clearNotificationLog, newChannel, sendToChannel, sampleEvent,
+} from '../services/notifications';
+import { loadAlertRules } from '../services/alertRules';
+import { MessageKey, t } from '../services/i18n';
+import { ArrowLeft, Plus, Trash2, Bell, BellOff, Send, History, CheckCircle2, XCircle } from 'lucide-react';
+
+interface NotificationSettingsScreenProps {
+  onBack: () => void;
+}
+
+const URL_HINTS: Record<ChannelFormat, MessageKey> = {
+  telegram: 'notify.hint.telegram',
+  discord: 'notify.hint.discord',
+  json: 'notify.hint.json',
+};
+
+const LEVELS: Highlight['level'][] = ['weak', 'medium', 'strong'];
+
+const inputClass = "px-2 py-1.5 rounded-lg border border-gray-200 text-xs bg-white outline-none focus:border-blue-400";
+
+interface ChannelCardProps {
+  channel: NotificationChannel;
+  rules: AlertRule[];
+  onChange: (patch: Partial<NotificationChannel>) => void;
+  onDelete: () => void;
+  onSent: () => void;
+}
+
+const ChannelCard: React.FC<ChannelCardProps> = ({ channel, rules, onChange, onDelete, onSent }) => {
+  const [isTesting, setIsTesting] = useState(false);
+  const [testResult, setTestResult] = useState<NotificationLogEntry | null>(null);
+
+  const updateFilter = (patch: Partial<NotificationFilter>) => onChange({ filter: { ...channel.filter, ...patch } });
+
+  const toggleRule = (ruleId: string) => {
+    const ruleIds = channel.filter.ruleIds.includes(ruleId)
+      ? channel.filter.ruleIds.filter(id => id !== ruleId)
+      : [...channel.filter.ruleIds, ruleId];
+    updateFilter({ ruleIds });
+  };
+
+  const handleTest = async () => {
+    setIsTesting(true);
+    setTestResult(await sendToChannel(channel, sampleEvent()));
+    setIsTesting(false);
+    onSent();
+  };
+
+  return (
+    <div className={`bg-white rounded-xl p-3 shadow-sm border border-gray-100 space-y-2 ${channel.enabled ? '' : 'opacity-60'}`}>
+      <div className="flex items-center gap-2">
+        <span className="text-[10px] font-black text-indigo-600 bg-indigo-50 rounded px-1.5 py-0.5">{FORMAT_LABELS[channel.format]}</span>
+        <input value={channel.name} onChange={(e) => onChange({ name: e.target.value })} className={`${inputClass} flex-grow font-bold`} />
+        <button
+          onClick={() => onChange({ enabled: !channel.enabled })}
+          className="p-1.5 text-gray-500 hover:bg-gray-100 rounded-full"
+          aria-label={channel.enabled ? t('alerts.disable') : t('alerts.enable')}
+        >
+          {channel.enabled ? <Bell className="w-4 h-4 text-amber-500" /> : <BellOff className="w-4 h-4" />}
+        </button>
+        <button onClick={onDelete} className="p-1.5 text-gray-400 hover:text-red-500 rounded-full" aria-label={t('common.delete')}>
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+
+      <input value={channel.url} onChange={(e) => onChange({ url: e.target.value })} placeholder={t(URL_HINTS[channel.format])} className={`${inputClass} w-full font-mono`} />
+      {channel.format === 'telegram' && (
+        <input value={channel.chatId} onChange={(e) => onChange({ chatId: e.target.value })} placeholder={t('notify.chatId')} className={`${inputClass} w-full font-mono`} />
+      )}
+      <label className="text-xs text-gray-600 flex items-center justify-between gap-2">
+        {t('notify.delivery')}
+        <select value={channel.delivery} onChange={(e) => onChange({ delivery: e.target.value as ChannelDelivery })} className={inputClass}>
+          <option value="worker">{t('notify.delivery.worker')}</option>
+          <option value="direct">{t('notify.delivery.direct')}</option>
+        </select>
+      </label>
+
+      <div>
+        <div className="text-[10px] font-bold text-gray-400 uppercase mb-1">{t('notify.template')}</div>
+        <textarea
+          value={channel.template}
+          onChange={(e) => onChange({ template: e.target.value })}
+          placeholder={t('notify.defaultTemplate')}
+          rows={4}
+          className={`${inputClass} w-full font-mono`}
+        />
+        <div className="text-[10px] text-gray-400">{t('notify.placeholders')}</div>
+      </div>
+
+      <div className="space-y-1.5 border-t border-gray-100 pt-2">
+        <div className="text-[10px] font-bold text-gray-400 uppercase">{t('notify.filters')}</div>
+        <label className="text-xs text-gray-600 flex items-center justify-between gap-2">
+          <span className="flex items-center gap-1.5">
+            <input type="checkbox" checked={channel.filter.highlights} onChange={(e) => updateFilter({ highlights: e.target.checked })} />
+            {t('notify.filter.highlights')}
+          </span>
+          <select value={channel.filter.minLevel} disabled={!channel.filter.highlights} onChange={(e) => updateFilter({ minLevel: e.target.value as Highlight['level'] })} className={inputClass}>
+            {LEVELS.map(level => <option key={level} value={level}>{t('notify.filter.fromLevel', { level: t(LEVEL_LABELS[level]) })}</option>)}
+          </select>
+        </label>
+        <label className="text-xs text-gray-600 flex items-center gap-1.5">
+          <input type="checkbox" checked={channel.filter.alerts} onChange={(e) => updateFilter({ alerts: e.target.checked })} />
+          {t(channel.filter.ruleIds.length === 0 ? 'notify.filter.allAlerts' : 'notify.filter.someAlerts')}
+        </label>
+        {channel.filter.alerts && rules.length > 0 && (
+          <div className="flex flex-wrap gap-1 pl-5">
+            {rules.map(rule => (
+              <button
+                key={rule.id}
+                onClick={() => toggleRule(rule.id)}
+                className={`text-[10px] font-bold px-2 py-0.5 rounded-full border ${channel.filter.ruleIds.includes(rule.id) ? 'bg-blue-600 text-white border-blue-600' : 'text-gray-500 border-gray-200'}`}
+              >
+                {rule.name}
+              </button>
+            ))}
+          </div>
+        )}
+        <label className="text-xs text-gray-600 flex items-center justify-between gap-2">
+          {t('notify.filter.minProbability')}
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={channel.filter.minProbability}
+            onChange={(e) => { const value = Number(e.target.value); if (value >= 0 && value <= 100) updateFilter({ minProbability: value }); }}
+            className={`${inputClass} w-20 text-right`}
+          />
+        </label>
+        <label className="text-xs text-gray-600 flex items-center gap-1.5">
+          <input type="checkbox" checked={channel.filter.watchlistOnly} onChange={(e) => updateFilter({ watchlistOnly: e.target.checked })} />
+          {t('notify.filter.watchlistOnly')}
+        </label>
+        <label className="text-xs text-gray-600 flex items-center justify-between gap-2">
+          {t('notify.dedupeMinutes')}
+          <input
+            type="number"
+            min={0}
+            value={channel.dedupeMinutes}
+            onChange={(e) => { const value = Number(e.target.value); if (Number.isInteger(value) && value >= 0) onChange({ dedupeMinutes: value }); }}
+            className={`${inputClass} w-20 text-right`}
+          />
+        </label>
+      </div>
+
+      <div className="flex items-center justify-between gap-2 border-t border-gray-100 pt-2">
+        <div className="text-[10px] min-w-0 truncate">
+          {testResult && (testResult.ok
+            ? <span className="text-green-600 font-bold">{t('notify.testSent')}</span>
+            : <span className="text-red-500" title={testResult.error}>{t('notify.testFailed', { error: testResult.error || '' })}</span>)}
+        </div>
+        <button onClick={handleTest} disabled={isTesting || !channel.url.trim()} className="text-xs font-bold bg-blue-600 text-white px-3 py-1.5 rounded-lg flex items-center gap-1 disabled:opacity-50 flex-shrink-0">
+          <Send className="w-3.5 h-3.5" /> {t('notify.test')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const NotificationSettingsScreen: React.FC<NotificationSettingsScreenProps> = ({ onBack }) => {
+  const [channels, setChannels] = useState<NotificationChannel[]>(() => loadChannels());
+  const [log, setLog] = useState<NotificationLogEntry[]>(() => loadNotificationLog().slice().reverse());
+  const [rules] = useState<AlertRule[]>(() => loadAlertRules());
+
+  const updateChannels = (next: NotificationChannel[]) => {
+    setChannels(next);
+    saveChannels(next);
+  };
+
+  const handleClearLog = () => {
+    clearNotificationLog();
+    setLog([]);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 max-w-md mx-auto shadow-2xl overflow-hidden pb-10">
+      <div className="bg-white px-4 py-3 sticky top-0 z-10 border-b border-gray-100 flex items-center gap-3">
+        <button onClick={onBack} className="p-2 -ml-2 text-gray-600 hover:bg-gray-100 rounded-full">
+          <ArrowLeft className="w-6 h-6" />
+        </button>
+        <h1 className="text-base font-black text-slate-800 tracking-tight">{t('notify.title')}</h1>
+      </div>
+
+      <div className="p-4 space-y-4">
+        <p className="text-xs text-gray-500">{t('notify.intro')}</p>
+
+        {channels.length === 0 && <div className="text-xs text-gray-400 text-center py-2">{t('notify.noChannels')}</div>}
+        {channels.map(channel => (
+          <ChannelCard
+            key={channel.id}
+            channel={channel}
+            rules={rules}
+            onChange={(patch) => updateChannels(channels.map(c => (c.id === channel.id ? { ...c, ...patch } : c)))}
+            onDelete={() => updateChannels(channels.filter(c => c.id !== channel.id))}
+            onSent={() => setLog(loadNotificationLog().slice().reverse())}
+          />
+        ))}
+
+        <div className="flex items-center justify-center gap-2">
+          {(Object.keys(FORMAT_LABELS) as ChannelFormat[]).map(format => (
+            <button key={format} onClick={() => updateChannels([...channels, newChannel(format)])} className="text-xs font-bold text-blue-600 bg-white border border-gray-100 shadow-sm rounded-lg px-3 py-1.5 flex items-center gap-1">
+              <Plus className="w-3.5 h-3.5" /> {FORMAT_LABELS[format]}
+            </button>
+          ))}
+        </div>
+
+        <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-bold text-gray-700 flex items-center gap-2"><History className="w-4 h-4 text-slate-500" />{t('notify.log')}</h3>
+            {log.length > 0 && <button onClick={handleClearLog} className="text-xs text-gray-400 hover:text-red-500">{t('common.delete')}</button>}
+          </div>
+          {log.length === 0 ? (
+            <div className="text-xs text-gray-400 text-center py-2">{t('notify.noLog')}</div>
+          ) : (
+            <div className="max-h-72 overflow-y-auto no-scrollbar divide-y divide-gray-100">
+              {log.map(entry => (
+                <div key={entry.id} className="py-1.5 text-xs">
+                  <div className="flex justify-between gap-2">
+                    <span className="font-bold text-gray-800 flex items-center gap-1 min-w-0 truncate">
+                      {entry.ok ? <CheckCircle2 className="w-3.5 h-3.5 text-green-500 flex-shrink-0" /> : <XCircle className="w-3.5 h-3.5 text-red-500 flex-shrink-0" />}
+                      {entry.title}
+                    </span>
+                    <span className="text-gray-400 flex-shrink-0">{new Date(entry.sentAt).toLocaleString()}</span>
+                  </div>
+                  <div className="text-gray-500 truncate">{entry.channelName}{entry.error ? ` · ${entry.error}` : ''}</div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,26 @@
+import React, { useEffect, useState } from 'react';
+import { ConnectionStatus, getConnectionStatus, subscribeConnection } from '../services/offlineCache';
+import { t } from '../services/i18n';
+import { WifiOff, RefreshCw } from 'lucide-react';
+
+const formatTime = (ts: number) => new Date(ts).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+// Shown while the data on screen comes from the offline cache, until a live answer replaces it
+export const OfflineBanner: React.FC = () => {
+  const [status, setStatus] = useState<ConnectionStatus>(getConnectionStatus);
+
+  useEffect(() => subscribeConnection(setStatus), []);
+
+  if (!status.offline && status.staleSince === null) return null;
+
+  const stale = status.staleSince !== null ? t('offline.staleSince', { time: formatTime(status.staleSince) }) : t('offline.noData');
+
+  return (
+    <div className="bg-amber-50 border-b border-amber-200 text-amber-800 px-4 py-2 text-xs flex items-center gap-2" role="status">
+      {status.offline ? <WifiOff className="w-4 h-4 flex-shrink-0" /> : <RefreshCw className="w-4 h-4 flex-shrink-0 animate-spin" />}
+      <div>
+        <span className="font-bold">{t(status.offline ? 'offline.title' : 'offline.reconnecting')}</span> · {stale}
+      </div>
+    </div>
+  );
+};
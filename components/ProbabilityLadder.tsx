@@ -0,0 +1,65 @@
+import React from 'react';
+import { GoalHorizons, NextGoalOdds } from '../types';
+import { t } from '../services/i18n';
+
+interface ProbabilityLadderProps {
+  m5: number;
+  horizons: GoalHorizons;
+  nextGoal?: NextGoalOdds;
+  expectedRemainingGoals?: number;
+  homeName: string;
+  awayName: string;
+}
+
+const barColor = (probability: number) =>
+  probability >= 60 ? 'bg-red-500' : probability >= 40 ? 'bg-orange-400' : probability >= 20 ? 'bg-yellow-400' : 'bg-gray-300';
+
+/**
+ * The goal probability over 5', 10', 15' and to full time as one bar per rung, then who is
+ * likely to score next and the goals still expected. Rungs never go down, the validator sees to that.
+ */
+export const ProbabilityLadder: React.FC<ProbabilityLadderProps> = ({ m5, horizons, nextGoal, expectedRemainingGoals, homeName, awayName }) => {
+  const rungs = [
+    { label: "5'", value: m5 },
+    { label: "10'", value: horizons.m10 },
+    { label: "15'", value: horizons.m15 },
+    { label: t('ladder.fullTime'), value: horizons.full_time },
+  ];
+
+  return (
+    <div className="bg-white p-3 rounded-xl border border-gray-100 space-y-1.5">
+      {rungs.map(rung => (
+        <div key={rung.label} className="flex items-center gap-2 text-xs">
+          <span className="w-14 text-gray-500">{rung.label}</span>
+          <div className="flex-grow h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div className={`h-full rounded-full ${barColor(rung.value)}`} style={{ width: `${rung.value}%` }} />
+          </div>
+          <span className="w-9 text-right font-bold text-gray-800">{rung.value}%</span>
+        </div>
+      ))}
+
+      {nextGoal && (
+        <div className="pt-1.5">
+          <div className="text-[10px] text-gray-400 uppercase mb-1">{t('ladder.nextGoal')}</div>
+          <div className="flex h-2 rounded-full overflow-hidden">
+            <div className="bg-blue-600" style={{ width: `${nextGoal.home}%` }} />
+            <div className="bg-gray-200" style={{ width: `${nextGoal.none}%` }} />
+            <div className="bg-orange-600" style={{ width: `${nextGoal.away}%` }} />
+          </div>
+          <div className="flex justify-between text-[11px] mt-1">
+            <span className="text-blue-600 font-bold truncate max-w-[110px]">{homeName} {nextGoal.home}%</span>
+            <span className="text-gray-400">{t('ladder.noGoal')} {nextGoal.none}%</span>
+            <span className="text-orange-600 font-bold truncate max-w-[110px]">{nextGoal.away}% {awayName}</span>
+          </div>
+        </div>
+      )}
+
+      {expectedRemainingGoals !== undefined && (
+        <div className="flex justify-between text-xs text-gray-500 pt-1">
+          <span>{t('ladder.expectedRemaining')}</span>
+          <span className="font-bold text-gray-800">{expectedRemainingGoals.toFixed(2)}</span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,173 @@
+import React, { useState, useEffect } from 'react';
+import { DataProvider, DataProviderConfig, DataProviderKind, MatchSession, MatchSessionSummary } from '../types';
+import { createProvider, createSessionProvider, DEFAULT_LOCAL_FEED_URL } from '../services/dataProviders';
+import { listSessions, loadSession } from '../services/sessionRecorder';
+import { MessageKey, t } from '../services/i18n';
+import { LanguageSwitcher } from './LanguageSwitcher';
+import { KeyRound, ShieldCheck, Server, FileJson } from 'lucide-react';
+
+interface ProviderLoginProps {
+  initialConfig: DataProviderConfig | null;
+  onConnect: (provider: DataProvider, config: DataProviderConfig) => void;
+}
+
+// B365 is a brand name and stays as it is in every language
+const PROVIDER_OPTIONS: { kind: DataProviderKind; label: MessageKey | null }[] = [
+  { kind: 'b365', label: null },
+  { kind: 'fixtures', label: 'login.kind.fixtures' },
+  { kind: 'session', label: 'login.kind.session' },
+  { kind: 'http', label: 'login.kind.http' },
+];
+
+export const ProviderLogin: React.FC<ProviderLoginProps> = ({ initialConfig, onConnect }) => {
+  const [kind, setKind] = useState<DataProviderKind>(initialConfig?.kind || 'b365');
+  const [clientKey, setClientKey] = useState(initialConfig?.clientKey || '');
+  const [baseUrl, setBaseUrl] = useState(initialConfig?.baseUrl || DEFAULT_LOCAL_FEED_URL);
+  const [recordedId, setRecordedId] = useState('');
+  const [uploadedSession, setUploadedSession] = useState<MatchSession | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const [recordedSessions, setRecordedSessions] = useState<MatchSessionSummary[]>([]);
+  const [recordedSession, setRecordedSession] = useState<MatchSession | null>(null);
+
+  useEffect(() => {
+    listSessions().then(setRecordedSessions);
+  }, []);
+
+  useEffect(() => {
+    if (!recordedId) {
+      setRecordedSession(null);
+      return;
+    }
+    let isMounted = true;
+    loadSession(recordedId).then(session => { if (isMounted) setRecordedSession(session); });
+    return () => { isMounted = false; };
+  }, [recordedId]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileError(null);
+    try {
+      const session: MatchSession = JSON.parse(await file.text());
+      if (!Array.isArray(session.snapshots)) throw new Error('missing snapshots');
+      setUploadedSession(session);
+      setRecordedId('');
+    } catch (err) {
+      setUploadedSession(null);
+      setFileError(t('login.badFile', { error: err instanceof Error ? err.message : String(err) }));
+    }
+  };
+
+  const sessionToPlay = uploadedSession || recordedSession;
+
+  const canSubmit =
+    kind === 'b365' ||
+    kind === 'fixtures' ||
+    (kind === 'http' && baseUrl.length > 0) ||
+    (kind === 'session' && !!sessionToPlay);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    if (kind === 'session') {
+      if (sessionToPlay) onConnect(createSessionProvider(sessionToPlay), { kind });
+      return;
+    }
+    const config: DataProviderConfig = kind === 'b365' ? { kind, clientKey: clientKey || undefined } : kind === 'http' ? { kind, baseUrl } : { kind };
+    const provider = createProvider(config);
+    if (provider) onConnect(provider, config);
+  };
+
+  const inputClass = "w-full pl-10 pr-4 py-3 rounded-xl bg-white/5 border border-white/10 focus:border-blue-400 focus:ring-1 focus:ring-blue-400 outline-none text-white placeholder-gray-500 transition-all";
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center p-6 bg-gradient-to-br from-slate-900 to-slate-800 text-white relative">
+      <div className="absolute top-4 right-4">
+        <LanguageSwitcher className="text-gray-400 hover:text-white hover:bg-white/10" />
+      </div>
+      <div className="bg-white/10 p-4 rounded-full mb-6 backdrop-blur-md">
+          <ShieldCheck className="w-12 h-12 text-blue-400" />
+      </div>
+      <h1 className="text-2xl font-bold mb-2">{t('login.title')}</h1>
+      <p className="text-gray-400 text-center mb-8 text-sm">{t('login.subtitle')}</p>
+
+      <form onSubmit={handleSubmit} className="w-full max-w-sm space-y-4">
+        <div className="grid grid-cols-4 gap-1 bg-white/5 p-1 rounded-xl">
+          {PROVIDER_OPTIONS.map(option => (
+            <button
+              key={option.kind}
+              type="button"
+              onClick={() => setKind(option.kind)}
+              className={`text-xs font-bold py-2 rounded-lg transition-all ${kind === option.kind ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'}`}
+            >
+              {option.label ? t(option.label) : 'B365'}
+            </button>
+          ))}
+        </div>
+
+        {kind === 'b365' && (
+          <div className="space-y-2">
+            <div className="relative">
+              <KeyRound className="absolute left-3 top-3.5 text-gray-500 w-5 h-5" />
+              <input
+                type="password"
+                value={clientKey}
+                onChange={(e) => setClientKey(e.target.value)}
+                placeholder={t('login.clientKey')}
+                className={inputClass}
+              />
+            </div>
+            <p className="text-xs text-gray-400 text-center">{t('login.b365Hint')}</p>
+          </div>
+        )}
+
+        {kind === 'fixtures' && (
+          <p className="text-xs text-gray-400 text-center">{t('login.fixturesHint')}</p>
+        )}
+
+        {kind === 'http' && (
+          <div className="relative">
+            <Server className="absolute left-3 top-3.5 text-gray-500 w-5 h-5" />
+            <input
+              type="url"
+              value={baseUrl}
+              onChange={(e) => setBaseUrl(e.target.value)}
+              placeholder={DEFAULT_LOCAL_FEED_URL}
+              className={inputClass}
+            />
+          </div>
+        )}
+
+        {kind === 'session' && (
+          <div className="space-y-3">
+            <select
+              value={recordedId}
+              onChange={(e) => { setRecordedId(e.target.value); setUploadedSession(null); }}
+              className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/10 outline-none text-white"
+            >
+              <option value="">{t('login.recordedSession')}</option>
+              {recordedSessions.map(s => (
+                <option key={s.matchId} value={s.matchId}>{s.home} vs {s.away} ({s.snapshotCount})</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+              <FileJson className="w-4 h-4" />
+              <span>{uploadedSession ? `${uploadedSession.home} vs ${uploadedSession.away}` : t('login.loadFile')}</span>
+              <input type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+            </label>
+            {fileError && <p className="text-xs text-red-400">{fileError}</p>}
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={!canSubmit}
+          className="w-full bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold py-3 rounded-xl transition-all shadow-lg shadow-blue-900/50"
+        >
+          {t(kind === 'b365' ? 'login.authenticate' : 'login.connect')}
+        </button>
+      </form>
+    </div>
+  );
+};
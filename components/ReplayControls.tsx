@@ -0,0 +1,64 @@
+import React from 'react';
+import { t } from '../services/i18n';
+import { Play, Pause, RotateCcw } from 'lucide-react';
+
+interface ReplayControlsProps {
+  position: number; // Snapshots applied so far
+  total: number;
+  currentTimestamp?: number;
+  isPlaying: boolean;
+  speed: number;
+  onTogglePlay: () => void;
+  onRestart: () => void;
+  onSpeedChange: (speed: number) => void;
+}
+
+const REPLAY_SPEEDS = [1, 4, 16, 64];
+
+export const ReplayControls: React.FC<ReplayControlsProps> = ({
+  position,
+  total,
+  currentTimestamp,
+  isPlaying,
+  speed,
+  onTogglePlay,
+  onRestart,
+  onSpeedChange,
+}) => {
+  const progressPct = total === 0 ? 0 : (position / total) * 100;
+
+  return (
+    <div className="px-4 pb-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <button onClick={onRestart} className="p-2 text-gray-600 hover:bg-gray-100 rounded-full" aria-label={t('replay.restart')}>
+            <RotateCcw className="w-4 h-4" />
+          </button>
+          <button onClick={onTogglePlay} disabled={total === 0} className="p-2 bg-indigo-500 hover:bg-indigo-600 text-white rounded-full disabled:opacity-50" aria-label={isPlaying ? t('replay.pause') : t('replay.play')}>
+            {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          </button>
+          <span className="text-xs text-gray-500 font-mono">{position}/{total}</span>
+        </div>
+        <div className="flex items-center space-x-1">
+          {REPLAY_SPEEDS.map(s => (
+            <button
+              key={s}
+              onClick={() => onSpeedChange(s)}
+              className={`text-xs font-bold px-2 py-1 rounded-md ${s === speed ? 'bg-indigo-100 text-indigo-700' : 'text-gray-500 hover:bg-gray-100'}`}
+            >
+              {s}x
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="flex items-center gap-2">
+        <div className="h-1.5 flex-grow bg-gray-100 rounded-full overflow-hidden">
+          <div className="h-full bg-indigo-500 transition-all duration-300" style={{ width: `${progressPct}%` }}></div>
+        </div>
+        {currentTimestamp && (
+          <span className="text-[10px] text-gray-400 font-mono">{new Date(currentTimestamp).toLocaleTimeString()}</span>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,38 @@
+import React from 'react';
+import { buildSessionBundle, bundleToCsvFiles, bundleBaseName, downloadFile, DashboardState } from '../services/sessionBundle';
+import { t } from '../services/i18n';
+import { Download } from 'lucide-react';
+
+interface SessionExportProps {
+  getState: () => DashboardState; // Read on click, so the export matches what is on screen
+}
+
+export const SessionExport: React.FC<SessionExportProps> = ({ getState }) => {
+  const handleJson = async () => {
+    const bundle = await buildSessionBundle(getState());
+    downloadFile(`${bundleBaseName(bundle)}.json`, JSON.stringify(bundle, null, 2), 'application/json');
+  };
+
+  const handleCsv = async () => {
+    const bundle = await buildSessionBundle(getState());
+    const prefix = bundleBaseName(bundle);
+    const files = bundleToCsvFiles(bundle);
+    if (Object.keys(files).length === 0) {
+      window.alert(t('export.empty'));
+      return;
+    }
+    // A BOM so spreadsheet apps read the Vietnamese team names as UTF-8
+    Object.entries(files).forEach(([name, content]) => downloadFile(`${prefix}_${name}`, `\uFEFF${content}`, 'text/csv;charset=utf-8'));
+  };
+
+  return (
+    <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100">
+      <h3 className="text-sm font-bold text-gray-700 mb-1 flex items-center gap-2"><Download className="w-4 h-4 text-slate-500" />{t('export.title')}</h3>
+      <p className="text-xs text-gray-400 mb-3">{t('export.hint')}</p>
+      <div className="flex gap-2">
+        <button onClick={handleJson} className="flex-1 bg-slate-800 text-white rounded-lg py-2 text-xs font-bold">{t('export.json')}</button>
+        <button onClick={handleCsv} className="flex-1 bg-white border border-gray-200 text-slate-700 rounded-lg py-2 text-xs font-bold">{t('export.csv')}</button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,37 @@
+import React from 'react';
+import { MatchSessionSummary } from '../types';
+import { t } from '../services/i18n';
+import { PlayCircle, Trash2 } from 'lucide-react';
+
+interface SessionListProps {
+  sessions: MatchSessionSummary[];
+  onReplay: (matchId: string) => void;
+  onDelete: (matchId: string) => void;
+}
+
+export const SessionList: React.FC<SessionListProps> = ({ sessions, onReplay, onDelete }) => {
+  if (sessions.length === 0) {
+    return <div className="p-4 text-center text-xs text-gray-400">{t('sessions.empty')}</div>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {sessions.map((session) => (
+        <div key={session.matchId} className="bg-white rounded-xl p-3 shadow-sm border border-gray-100 flex items-center justify-between">
+          <button onClick={() => onReplay(session.matchId)} className="flex items-center gap-3 text-left flex-grow min-w-0">
+            <PlayCircle className="w-6 h-6 text-indigo-500 flex-shrink-0" />
+            <div className="min-w-0">
+              <div className="font-bold text-sm text-gray-900 truncate">{session.home} vs {session.away}</div>
+              <div className="text-xs text-gray-400 truncate">
+                {session.league} · {new Date(session.startedAt).toLocaleString()} · {t('sessions.snapshots', { count: session.snapshotCount })}
+              </div>
+            </div>
+          </button>
+          <button onClick={() => onDelete(session.matchId)} className="p-2 -mr-1 text-gray-400 hover:text-red-500" aria-label={t('sessions.delete')}>
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
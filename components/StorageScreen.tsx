@@ -0,0 +1,141 @@
+import React, { useEffect, useState, useCallback } from 'react';
+import { RetentionPolicy } from '../types';
+import { getStorageUsage, StorageUsage, loadRetentionPolicy, saveRetentionPolicy, applyRetention } from '../services/matchStore';
+import { t } from '../services/i18n';
+import { ArrowLeft, HardDrive, Trash2 } from 'lucide-react';
+
+interface StorageScreenProps {
+  watchIds: string[];
+  onBack: () => void;
+}
+
+const formatBytes = (bytes: number | null) => {
+  if (bytes === null) return '-';
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+};
+
+// Browsers cap localStorage at about 5MB per origin
+const LOCAL_STORAGE_QUOTA = 5 * 1024 * 1024;
+
+export const StorageScreen: React.FC<StorageScreenProps> = ({ watchIds, onBack }) => {
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [policy, setPolicy] = useState<RetentionPolicy>(() => loadRetentionPolicy());
+  const [isCleaning, setIsCleaning] = useState(false);
+  const [cleanResult, setCleanResult] = useState<string | null>(null);
+
+  const refresh = useCallback(() => { getStorageUsage().then(setUsage); }, []);
+  useEffect(refresh, [refresh]);
+
+  const updatePolicy = (patch: Partial<RetentionPolicy>) => {
+    const next = { ...policy, ...patch };
+    setPolicy(next);
+    saveRetentionPolicy(next);
+  };
+
+  const handleClean = async () => {
+    setIsCleaning(true);
+    const deleted = await applyRetention(policy, watchIds);
+    setCleanResult(deleted > 0 ? t('storage.cleaned', { count: deleted }) : t('storage.nothingToClean'));
+    setIsCleaning(false);
+    refresh();
+  };
+
+  const inputClass = "px-2 py-1.5 rounded-lg border border-gray-200 text-xs bg-white outline-none focus:border-blue-400";
+
+  return (
+    <div className="min-h-screen bg-gray-50 max-w-md mx-auto shadow-2xl overflow-hidden pb-10">
+      <div className="bg-white px-4 py-3 sticky top-0 z-10 border-b border-gray-100 flex items-center gap-3">
+        <button onClick={onBack} className="p-2 -ml-2 text-gray-600 hover:bg-gray-100 rounded-full">
+          <ArrowLeft className="w-6 h-6" />
+        </button>
+        <h1 className="text-base font-black text-slate-800 tracking-tight">{t('storage.title')}</h1>
+      </div>
+
+      <div className="p-4 space-y-4">
+        {!usage ? (
+          <div className="text-xs text-gray-400 text-center py-6">{t('storage.loading')}</div>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-3">
+              <div className="bg-white rounded-xl p-3 shadow-sm border border-gray-100">
+                <div className="text-xl font-black text-slate-800">{formatBytes(usage.usageBytes)}</div>
+                <div className="text-[10px] text-gray-400 uppercase">/ {formatBytes(usage.quotaBytes)}</div>
+              </div>
+              <div className="bg-white rounded-xl p-3 shadow-sm border border-gray-100">
+                <div className="text-xl font-black text-slate-800">{usage.matches}</div>
+                <div className="text-[10px] text-gray-400 uppercase">{t('storage.savedMatches')}</div>
+              </div>
+              <div className="bg-white rounded-xl p-3 shadow-sm border border-gray-100">
+                <div className="text-xl font-black text-slate-800">{usage.snapshots}</div>
+                <div className="text-[10px] text-gray-400 uppercase">{t('storage.snapshots')}</div>
+              </div>
+            </div>
+
+            <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100 text-xs text-gray-600 space-y-1">
+              <div className="flex justify-between">
+                <span>{t('storage.localStorage')}</span>
+                <span className="font-bold text-slate-800">{formatBytes(usage.localStorageBytes)} / {formatBytes(LOCAL_STORAGE_QUOTA)}</span>
+              </div>
+              <div className="h-1.5 w-full bg-gray-100 rounded-full overflow-hidden">
+                <div className="h-full bg-sky-500" style={{ width: `${Math.min(100, (usage.localStorageBytes / LOCAL_STORAGE_QUOTA) * 100)}%` }}></div>
+              </div>
+              <div className="flex justify-between pt-1">
+                <span>{t('storage.oldest')}</span>
+                <span className="font-bold text-slate-800">{usage.oldestUpdatedAt ? new Date(usage.oldestUpdatedAt).toLocaleDateString() : '-'}</span>
+              </div>
+            </div>
+
+            {usage.byLeague.length > 0 && (
+              <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100">
+                <h3 className="text-sm font-bold text-gray-700 mb-2 flex items-center gap-2"><HardDrive className="w-4 h-4 text-sky-500" />{t('storage.byLeague')}</h3>
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-gray-400 text-left">
+                      <th className="font-medium py-1">{t('ledger.group.league')}</th>
+                      <th className="font-medium text-right">{t('storage.matches')}</th>
+                      <th className="font-medium text-right">{t('storage.snapshots')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {usage.byLeague.map(row => (
+                      <tr key={row.league} className="border-t border-gray-100">
+                        <td className="py-1.5 text-gray-700 max-w-[180px] truncate">{row.league}</td>
+                        <td className="text-right text-gray-500">{row.matches}</td>
+                        <td className="text-right text-gray-500">{row.snapshots}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+
+        <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100 space-y-3">
+          <h3 className="text-sm font-bold text-gray-700">{t('storage.retention')}</h3>
+          <label className="text-xs text-gray-600 flex items-center justify-between gap-2">
+            {t('storage.maxAgeDays')}
+            <input
+              type="number"
+              min={1}
+              value={policy.maxAgeDays}
+              onChange={(e) => { const days = Number(e.target.value); if (days > 0) updatePolicy({ maxAgeDays: days }); }}
+              className={`${inputClass} w-20 text-right`}
+            />
+          </label>
+          <label className="text-xs text-gray-600 flex items-center gap-2">
+            <input type="checkbox" checked={policy.starredOnly} onChange={(e) => updatePolicy({ starredOnly: e.target.checked })} />
+            {t('storage.starredOnly')}
+          </label>
+          <p className="text-[11px] text-gray-400">{t('storage.appliedOnOpen')}</p>
+          <button onClick={handleClean} disabled={isCleaning} className="w-full bg-slate-800 text-white rounded-lg py-2 text-xs font-bold flex items-center justify-center gap-1.5 disabled:opacity-50">
+            <Trash2 className="w-3.5 h-3.5" /> {t('storage.cleanNow')}
+          </button>
+          {cleanResult && <div className="text-xs text-gray-500 text-center">{cleanResult}</div>}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,31 @@
+import React from 'react';
+import { ReferenceArea, ReferenceLine } from 'recharts';
+import { TimelineLayout } from '../services/matchClock';
+import { t } from '../services/i18n';
+
+/**
+ * Shared x-axis pieces for the minute charts. Points are plotted at `x` (a timeline position,
+ * see buildTimelineLayout) rather than the raw minute, so stoppage time gets its own room.
+ * Recharts only reads its own element types, so these are spread/called inline, not rendered as components.
+ */
+export const timelineAxisProps = (timeline: TimelineLayout) => ({
+  type: 'number' as const,
+  dataKey: 'x',
+  name: t('common.minute'),
+  domain: [0, timeline.end],
+  ticks: timeline.ticks,
+  tickFormatter: (x: number) => `${timeline.label(x)}'`,
+  tick: { fontSize: 10, fill: '#9ca3af' },
+  tickLine: false,
+  axisLine: { stroke: '#e5e7eb' },
+});
+
+// Shaded added-time segments and the half-time / full-time separators
+export const renderPeriodMarkers = (timeline: TimelineLayout, yAxisId: string) => [
+  ...timeline.addedSegments.map(segment => (
+    <ReferenceArea key={`added-${segment.from}`} yAxisId={yAxisId} x1={segment.from} x2={segment.to} fill="#f1f5f9" fillOpacity={0.8} />
+  )),
+  ...timeline.separators.map(separator => (
+    <ReferenceLine key={`period-${separator.x}`} yAxisId={yAxisId} x={separator.x} stroke="#94a3b8" label={{ value: separator.label, position: 'insideTopRight', fontSize: 9, fill: '#64748b' }} />
+  )),
+];
@@ -0,0 +1,56 @@
+import React from 'react';
+import { WatchedMatchSummary } from '../types';
+import { t } from '../services/i18n';
+import { Star, Flame, PauseCircle } from 'lucide-react';
+
+interface WatchlistPanelProps {
+  summaries: WatchedMatchSummary[];
+  watchCount: number;
+  pausedReason?: string | null; // Set while the API budget holds background monitoring back
+  onSelectMatch: (id: string) => void;
+}
+
+const probabilityColor = (level: WatchedMatchSummary['confidence']) =>
+  level === 'very_high' ? 'text-red-600' : level === 'high' ? 'text-orange-500' : level === 'medium' ? 'text-yellow-500' : 'text-gray-500';
+
+export const WatchlistPanel: React.FC<WatchlistPanelProps> = ({ summaries, watchCount, pausedReason, onSelectMatch }) => {
+  if (watchCount === 0) return null;
+
+  // Hottest match first
+  const ordered = [...summaries].sort((a, b) => b.probability - a.probability);
+
+  return (
+    <div className="bg-white rounded-xl p-3 shadow-sm border border-amber-100 mb-4">
+      <h2 className="text-xs font-bold text-amber-600 uppercase tracking-wider mb-2 flex items-center gap-1">
+        <Star className="w-3.5 h-3.5 fill-amber-400 text-amber-400" /> {t('watchlist.title')}
+      </h2>
+      {pausedReason && (
+        <div className="text-[10px] text-amber-700 bg-amber-50 rounded-md px-2 py-1 mb-2 flex items-center gap-1">
+          <PauseCircle className="w-3 h-3 flex-shrink-0" /> {t('watchlist.paused', { reason: pausedReason })}
+        </div>
+      )}
+      {ordered.length === 0 ? (
+        <div className="text-xs text-gray-400 text-center py-2">{t('watchlist.waiting')}</div>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {ordered.map(s => (
+            <button key={s.matchId} onClick={() => onSelectMatch(s.matchId)} className="w-full flex items-center justify-between py-2 text-left">
+              <div className="min-w-0 flex-grow pr-2">
+                <div className="text-sm font-bold text-gray-900 truncate">{s.home} <span className="font-mono text-gray-500">{s.ss}</span> {s.away}</div>
+                <div className="text-[10px] text-gray-400 flex gap-2">
+                  <span className="text-red-500 font-bold">{s.minute}'</span>
+                  <span>{t('dashboard.momentum')} {s.factors.apiMomentum.toFixed(1)}</span>
+                  <span>{t('dashboard.pressure')} {s.factors.pressure.toFixed(1)}</span>
+                </div>
+              </div>
+              <div className={`flex items-center gap-1 font-black text-lg ${probabilityColor(s.confidence)}`}>
+                {s.confidence === 'very_high' && <Flame className="w-4 h-4" />}
+                {s.probability}%
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
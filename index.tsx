@@ -15,3 +15,10 @@ root.render(
     <App />
   </React.StrictMode>
 );
+
+// Installable PWA: the service worker keeps the app shell available offline (public/sw.js)
+if ('serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => console.warn('Service worker registration failed:', error));
+  });
+}
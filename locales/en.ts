@@ -0,0 +1,539 @@
+import { MessageKey } from '../services/i18n';
+
+// English catalog; must have exactly the keys of locales/vi.ts
+export const en: Record<MessageKey, string> = {
+  // --- Shared ---
+  'common.delete': 'Delete',
+  'common.home': 'Home',
+  'common.away': 'Away',
+  'common.language': 'Language',
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.minute': 'Minute',
+  'confidence.low': 'low',
+  'confidence.medium': 'medium',
+  'confidence.high': 'high',
+  'confidence.very_high': 'very high',
+
+  // --- App ---
+  'app.title': 'Live Matches',
+  'app.betLedger': 'Bet ledger',
+  'app.accuracy': 'Prediction accuracy',
+  'app.apiUsage': 'API usage',
+  'app.storage': 'Storage',
+  'app.apiProfiles': 'API score formulas',
+  'app.aiModel': 'AI model',
+  'app.alertRules': 'Alert rules',
+  'app.notifications': 'Webhook notifications',
+  'app.sessions': 'Recorded sessions',
+  'app.refresh': 'Refresh',
+  'app.logout': 'Logout',
+  'app.recordedSessions': 'Recorded Sessions',
+  'app.import': 'Import',
+  'app.error': 'Error',
+  'app.errorHint': 'Please check the Worker configuration, or try again in a few minutes if this is a rate limit.',
+  'app.demoEmpty': 'Demo mode: no simulated matches found. The demo data may have failed to load.',
+  'app.b365Empty': 'No live matches found. Please check the Worker\'s B365_TOKEN or try again later.',
+  'app.providerEmpty': 'Data source "{provider}" has no matches.',
+  'app.rateLimited': 'The proxy rate limit was reached. Please check the Cloudflare Worker rate limiter settings and try again in 20-40 seconds.',
+  'app.unknownError': 'An unknown error occurred.',
+  'app.importOverwrite': 'This browser already keeps a recording or stats for {match}. Importing replaces them. Continue?',
+  'app.importFailed': 'Could not import the session bundle: {error}',
+
+  // --- Login ---
+  'login.title': 'Pro Analytics Access',
+  'login.subtitle': 'Choose a data source for real-time match data and analysis tools.',
+  'login.kind.fixtures': 'Demo',
+  'login.kind.session': 'Session',
+  'login.kind.http': 'Local HTTP',
+  'login.clientKey': 'Worker client key (optional)',
+  'login.b365Hint': 'The B365 token is configured on the Worker, not here.',
+  'login.fixturesHint': 'Static demo matches, no network access needed.',
+  'login.recordedSession': 'Recorded session...',
+  'login.loadFile': 'Or load a session file (.json)',
+  'login.badFile': 'Not a recorded session file: {error}',
+  'login.authenticate': 'Authenticate',
+  'login.connect': 'Connect',
+
+  // --- Session list ---
+  'sessions.empty': 'No recorded sessions yet. Open a live match to start recording.',
+  'sessions.snapshots': '{count} snapshots',
+  'sessions.delete': 'Delete session',
+
+  // --- Match list ---
+  'matchList.sort.hotness': 'Hottest',
+  'matchList.sort.minute': 'Minute',
+  'matchList.sort.league': 'League',
+  'matchList.score.all': 'Any score',
+  'matchList.score.level': 'Level',
+  'matchList.score.close': 'Within 1 goal',
+  'matchList.score.goalless': '0-0',
+  'matchList.loading': 'Loading live matches...',
+  'matchList.empty': 'No live matches found or check API Token.',
+  'matchList.search': 'Search team or league',
+  'matchList.clearSearch': 'Clear search',
+  'matchList.filters': 'Filters',
+  'matchList.minute': 'Minute',
+  'matchList.allLeagues': 'All leagues',
+  'matchList.favouritesOnly': 'Favourite leagues only',
+  'matchList.hideEsoccer': 'Hide esoccer',
+  'matchList.blockedLeagues': 'Blocked leagues',
+  'matchList.resetFilters': 'Reset filters',
+  'matchList.count': '{visible} of {total} matches',
+  'matchList.noneFit': 'No matches fit the current search and filters.',
+  'matchList.favourite': 'Favourite league',
+  'matchList.unfavourite': 'Unfavourite league',
+  'matchList.block': 'Block league',
+  'matchList.hotness': 'Hotness',
+  'matchList.watch': 'Add to watchlist',
+  'matchList.unwatch': 'Remove from watchlist',
+  'matchList.tapForAnalysis': 'Tap for Analysis',
+
+  // --- Dashboard ---
+  'dashboard.live': 'LIVE ANALYSIS',
+  'dashboard.replay': 'MATCH REPLAY',
+  'dashboard.tooltip.minute': 'Minute: {minute}\'',
+  'dashboard.tooltip.over': 'Over odds',
+  'dashboard.tooltip.home': 'Home odds',
+  'dashboard.homeApi': 'Home API',
+  'dashboard.awayApi': 'Away API',
+  'dashboard.market': 'Market',
+  'dashboard.lowOdds': 'Low odds',
+  'dashboard.highOdds': 'High odds',
+  'dashboard.shotOn': 'Shot on target at {minute}\'',
+  'dashboard.shotOff': 'Shot off target at {minute}\'',
+  'dashboard.localHeadline': 'Goal probability (local model)',
+  'dashboard.aiHeadline': 'AI goal probability · {model}',
+  'dashboard.confidence': 'Confidence:',
+  'dashboard.aiConfidence': 'AI confidence:',
+  'dashboard.localModel': 'Local model (5 minutes):',
+  'dashboard.factors': 'Traditional factors',
+  'dashboard.momentum': 'Momentum',
+  'dashboard.shotCluster': 'Shot cluster',
+  'dashboard.pressure': 'Pressure',
+  'dashboard.overChart': 'Over/Under market (1_3) & API timeline',
+  'dashboard.homeChart': 'Home odds (1_2) & API timeline',
+  'dashboard.ai.analyse': 'AI analysis',
+  'dashboard.ai.noKey': 'No API key is set for the AI model; the local model is used instead.',
+  'dashboard.ai.unavailable': 'AI analysis is unavailable.',
+  'dashboard.ai.error': 'AI call failed: {error}.',
+  'dashboard.ai.noDetails': 'Could not fetch the latest match details for the AI analysis.',
+  'dashboard.ai.manual': 'Manual',
+  'dashboard.ai.auto': 'Automatic: {triggers}',
+  'dashboard.ai.skipped': 'Skipped ({triggers}): {reason}',
+  'dashboard.ai.deferred': 'Waiting ({triggers}): {reason}',
+  'dashboard.ai.used': '{trigger} · {match}/{matchBudget} calls this match · {day}/{dayBudget} today',
+
+  // --- Match stats ---
+  'stats.attacks': 'Attacks',
+  'stats.dangerous': 'Dangerous',
+  'stats.onTarget': 'On target',
+  'stats.corners': 'Corners',
+
+  // --- Match events ---
+  'events.title': 'Match events',
+  'events.empty': 'No events recorded yet.',
+  'events.goal': 'Goal',
+  'events.yellowcard': 'Yellow card',
+  'events.redcard': 'Red card',
+  'events.corner': 'Corner',
+
+  // --- AI scheduler ---
+  'scheduler.trigger.goal': 'Goal',
+  'scheduler.trigger.redCard': 'Red card',
+  'scheduler.trigger.shotSpike': 'Shot-cluster spike',
+  'scheduler.trigger.overLineMove': 'Over/under line move',
+  'scheduler.trigger.minute70': 'Entering minute 70',
+  'scheduler.disabled': 'Automatic AI calls are off.',
+  'scheduler.noTrigger': 'No trigger fired.',
+  'scheduler.tooSoon': 'Less than {seconds}s since the previous call.',
+  'scheduler.matchBudget': 'All {budget} AI calls for this match are used.',
+  'scheduler.dayBudget': 'All {budget} AI calls for today are used.',
+  'scheduler.unchanged': 'Nothing changed since the previous prediction.',
+
+  // --- Local goal model ---
+  'goalModel.noMarket': 'No over/under odds yet, using the average goal rate.',
+  'goalModel.market': 'The over/under {line} market implies {goals} goals per 90 minutes.',
+  'goalModel.shotCluster': 'High shot cluster ({value}).',
+  'goalModel.momentum': 'API momentum rising sharply ({value}).',
+  'goalModel.pressure': 'Pressure from odds movement ({value}).',
+  'goalModel.redCard': 'There has been a red card.',
+  'goalModel.fewData': 'Little data or no odds yet, so confidence is lowered one step.',
+
+  // --- AI prompt ---
+  'prompt.intro': `You are a football match analyst with deep knowledge of match dynamics and betting markets.
+    Based on the following real-time match statistics, current score, odds and traditional analysis factors,
+    predict the probability of a goal being scored in the *next 5*, *10* and *15 minutes* and *from now until full time*,
+    the probability of each team scoring the next goal (or of no further goal), and the expected number of goals still to come.
+    The probabilities over time must not decrease (5 minutes ≤ 10 minutes ≤ 15 minutes ≤ full time).
+    Give the probabilities as percentages (0-100), with a confidence level and a short reason.
+    Write the reasoning in English.`,
+  'prompt.match': 'Match ID: {id}',
+  'prompt.minute': 'Current minute: {minute}',
+  'prompt.score': 'Score: {home}-{away}',
+  'prompt.teams': 'Home team: {home}, Away team: {away}',
+  'prompt.section.stats': 'Live statistics',
+  'prompt.section.odds': 'Latest odds',
+  'prompt.section.factors': 'Traditional analysis factors',
+  'prompt.section.teams': 'Pressure per team',
+  'prompt.section.output': 'Output format',
+  'prompt.section.repair': 'Previous reply was invalid',
+  'prompt.stats.attacks': 'Home attacks: {home}, Away attacks: {away}',
+  'prompt.stats.dangerous': 'Home dangerous attacks: {home}, Away dangerous attacks: {away}',
+  'prompt.stats.onTarget': 'Home shots on target: {home}, Away shots on target: {away}',
+  'prompt.stats.offTarget': 'Home shots off target: {home}, Away shots off target: {away}',
+  'prompt.stats.corners': 'Home corners: {home}, Away corners: {away}',
+  'prompt.stats.yellowcards': 'Home yellow cards: {home}, Away yellow cards: {away}',
+  'prompt.stats.redcards': 'Home red cards: {home}, Away red cards: {away}',
+  'prompt.apiScores': 'Home API score: {home}, Away API score: {away}',
+  'prompt.odds.over': 'Over/Under line (handicap): {handicap} (Over: {over}, Under: {under})',
+  'prompt.odds.home': 'Asian handicap: {handicap} (Home: {home}, Away: {away})',
+  'prompt.odds.none': 'No recent odds.',
+  'prompt.factors.momentum': 'API momentum (last 5 minutes): {value}',
+  'prompt.factors.shotCluster': 'Shot cluster (total shots in the last 5 minutes): {value}',
+  'prompt.factors.pressure': 'Pressure (from odds movement): {value}',
+  'prompt.teams.none': 'No per-team data.',
+  'prompt.teams.index': 'Pressure index (0-100, last 5 minutes): Home {home}, Away {away}',
+  'prompt.teams.window': '{label}: {dangerous} dangerous attacks, {shots} shots ({onTarget} on target), {corners} corners',
+  'prompt.teams.home5': 'Home, 5 minutes',
+  'prompt.teams.away5': 'Away, 5 minutes',
+  'prompt.teams.home10': 'Home, 10 minutes',
+  'prompt.teams.away10': 'Away, 10 minutes',
+  'prompt.output': `Output your prediction STRICTLY as JSON following this schema. Do NOT include any other text before or after the JSON.
+    confidence_level is one of: {levels}.`,
+  'prompt.repair': `Error: {error}
+    Answer again, with ONLY valid JSON following the schema and every required field present.`,
+
+  // --- AI reply validation ---
+  'validation.noJson': 'The reply contains no JSON.',
+  'validation.badJson': 'Invalid JSON: {error}',
+  'validation.missing': 'Missing {field}.',
+  'validation.outOfRange': '{field} is outside 0-100: {value}',
+  'validation.confidence': 'Invalid confidence_level: {value} (must be one of {levels})',
+  'validation.nextGoalZero': 'next_goal_home/away/none are all 0.',
+  'validation.negativeGoals': 'expected_remaining_goals is negative: {value}',
+
+  // --- Mock AI backend ---
+  'mock.reasoning': 'Mock: shot cluster {shots}, momentum {momentum}, pressure {pressure}.',
+
+  // --- Watchlist ---
+  'watchlist.title': 'Watchlist',
+  'watchlist.paused': 'Updates paused: {reason}',
+  'watchlist.waiting': 'Waiting for the next background update...',
+
+  // --- Probability ladder ---
+  'ladder.fullTime': 'Full time',
+  'ladder.nextGoal': 'Next goal',
+  'ladder.noGoal': 'No goal',
+  'ladder.expectedRemaining': 'Expected remaining goals',
+
+  // --- API errors ---
+  'api.unauthorized': 'Invalid Worker access key (401). Please check the key entered at login.',
+  'api.forbidden': 'Access denied (403). B365 or the proxy is blocking this request. Please check the Worker\'s B365_TOKEN or try again later.',
+  'api.rateLimited': 'The Cloudflare Worker rate limit was still hit after several retries. Please check the Worker\'s Rate Limiter settings (usually 1 request/20s) and try again in at least 20-40 seconds.',
+  'api.httpError': 'Connection error: {status}. Please check your network connection or the status of the Cloudflare Worker.',
+  'api.invalidJson': 'The API response is not valid JSON. Make sure the Worker\'s B365_TOKEN is correct and the Worker is running properly.',
+  'api.network': `Network or CORS error: the browser cannot reach the Cloudflare Worker. Please check the following:
+1. The Cloudflare Worker URL in \`services/api.ts\` is correct.
+2. Your Cloudflare Worker is deployed and running.
+3. Your internet connection is stable.
+4. No network blocker (e.g. VPN, firewall, browser extension) is interfering.`,
+  'api.failedStatus': 'The API returned a failure status.',
+
+  // --- Live stats ---
+  'liveStats.title': 'Live stats',
+  'liveStats.profile': 'API score: {name}',
+  'liveStats.homeHandicap': 'Home handicap',
+  'liveStats.overUnderLine': 'Over/Under line',
+  'liveStats.homeOdds': 'Home odds',
+  'liveStats.overOdds': 'Over odds',
+  'liveStats.homeApi': 'Home API',
+  'liveStats.awayApi': 'Away API',
+
+  // --- Replay ---
+  'replay.restart': 'Restart replay',
+  'replay.pause': 'Pause',
+  'replay.play': 'Play',
+
+  // --- Session export and import ---
+  'export.empty': 'There is no data to export yet.',
+  'export.title': 'Export analysis session',
+  'export.hint': 'JSON keeps the whole session and can be imported again; CSV splits each table out for spreadsheets.',
+  'export.json': 'Download JSON',
+  'export.csv': 'Download CSV',
+  'bundle.invalidJson': 'The file is not valid JSON.',
+  'bundle.notBundle': 'The file is not a session bundle from this app.',
+  'bundle.tooNew': 'Session bundle version {version} is newer than this app (supports up to {supported}).',
+  'bundle.noMatch': 'The session bundle has no match information.',
+  'bundle.noSnapshots': 'The session bundle has no recorded snapshots, so it cannot be replayed.',
+
+  // --- API usage ---
+  'apiUsage.dailyCapReached': 'Used {used}/{cap} API calls today.',
+  'apiUsage.hourlyCapReached': 'Used {used}/{cap} API calls in the last hour.',
+
+  // --- API score profiles ---
+  'profiles.default': 'Default',
+
+  // --- Momentum chart ---
+  'momentum.title': 'Pressure by team',
+  'momentum.indexLine1': 'Pressure index',
+  'momentum.indexLine2': 'last 5 minutes',
+  'momentum.homeWindow': 'Home {minutes}\'',
+  'momentum.awayWindow': 'Away {minutes}\'',
+  'momentum.dangerousAttacks': 'Dangerous attacks',
+  'momentum.shots': 'Shots',
+
+  // --- Implied market chart ---
+  'implied.title': 'Implied probability (margin removed)',
+  'implied.nextGoal': 'Chance of another goal',
+  'implied.expectedGoals': 'Expected further goals',
+  'implied.margin': 'Bookmaker margin',
+  'implied.over': 'Over (market)',
+  'implied.home': 'Home (market)',
+  'implied.overUnderMargin': 'Over/Under margin',
+
+  // --- Alert rules ---
+  'alerts.title': 'Alert rules',
+  'alerts.noRules': 'No rules yet.',
+  'alerts.enable': 'Enable',
+  'alerts.disable': 'Disable',
+  'alerts.and': 'AND',
+  'alerts.newRule': 'New rule',
+  'alerts.namePlaceholder': 'Rule name, e.g. Late pressure',
+  'alerts.window': 'Window (minutes)',
+  'alerts.operator.between': 'between',
+  'alerts.between': '{signal} between {from} and {to}',
+  'alerts.removeCondition': 'Remove condition',
+  'alerts.addCondition': 'Add condition',
+  'alerts.saveRule': 'Save rule',
+  'alerts.history': 'Alert history',
+  'alerts.noHistory': 'No alerts yet.',
+  'alerts.signal.minute': 'Minute',
+  'alerts.signal.apiMomentum': 'API momentum',
+  'alerts.signal.shotCluster': 'Shot cluster',
+  'alerts.signal.pressure': 'Pressure',
+  'alerts.signal.homePressure': 'Home pressure (0-100)',
+  'alerts.signal.awayPressure': 'Away pressure (0-100)',
+  'alerts.signal.pressureGap': 'Pressure gap (home - away)',
+  'alerts.signal.localProbability': 'Local probability (%)',
+  'alerts.signal.aiProbability': 'AI probability (%)',
+  'alerts.signal.totalGoals': 'Total goals',
+  'alerts.signal.goalDifference': 'Goal difference',
+  'alerts.signal.redCards': 'Total red cards',
+  'alerts.signal.overOdds': 'Over odds',
+  'alerts.signal.overOddsChange': 'Over odds change',
+  'alerts.signal.homeOddsChange': 'Home odds change',
+
+  // --- Discipline ---
+  'discipline.title': 'Betting discipline',
+  'discipline.item.signalRule': 'The signal comes from a saved alert rule',
+  'discipline.item.notChasing': 'Not betting to win back a loss',
+  'discipline.item.stakePlan': 'The stake is within the plan',
+  'discipline.item.priceValue': 'The price still has value, not chasing a price that has dropped',
+  'discipline.tilt.losses': 'Lost {losses} bets in a row.',
+  'discipline.tilt.stake': 'Stake {stake} is more than {multiple} times the usual ({usual}).',
+  'discipline.tilt.frequency': 'Logged {count} bets in {minutes} minutes.',
+  'discipline.reasonPlaceholder': 'Reason for overriding (kept for review)',
+  'discipline.locked': 'Betting locked · {remaining} left',
+  'discipline.lockedUntil': 'Locked until {time}: {reason}',
+  'discipline.takeBreak': 'Take a break',
+  'discipline.checkBefore': 'Check before logging: {summary}',
+  'discipline.logBet': 'Log bet',
+  'discipline.logAnyway': 'Log anyway',
+  'discipline.override.checklist': 'Checklist override',
+  'discipline.override.cooldown': 'Override lock',
+  'discipline.confirmClearOverrides': 'Clear the whole override log?',
+  'discipline.removeItem': 'Remove item',
+  'discipline.addItem': 'Add item',
+  'discipline.addItemPlaceholder': 'Add a checklist item',
+  'discipline.threshold.maxConsecutiveLosses': 'Max consecutive losses',
+  'discipline.threshold.maxStakeMultiple': 'Max stake (x usual)',
+  'discipline.threshold.maxBetsInWindow': 'Max bets in window',
+  'discipline.threshold.windowMinutes': 'Window (minutes)',
+  'discipline.threshold.cooldownMinutes': 'Lock duration (minutes)',
+  'discipline.overrideLog': 'Override log',
+  'discipline.noOverrides': 'No overrides yet.',
+
+  // --- Bets ---
+  'bets.signal.ai': 'AI',
+  'bets.signal.local': 'Local model',
+  'bets.signal.alert': 'Alert',
+  'bets.signal.manual': 'Manual',
+  'bets.result.win': 'Win',
+  'bets.result.halfWin': 'Half win',
+  'bets.result.push': 'Push',
+  'bets.result.halfLoss': 'Half loss',
+  'bets.result.loss': 'Loss',
+  'bets.side.home': 'Home',
+  'bets.side.away': 'Away',
+  'bets.side.over': 'Over',
+  'bets.side.under': 'Under',
+  'bets.slipTitle': 'Log a bet',
+  'bets.stake': 'Stake',
+  'bets.undo': 'Undo bet',
+  'ledger.title': 'Bet ledger',
+  'ledger.empty': 'No bets logged yet. Tap a price on the match screen to log a bet.',
+  'ledger.profit': 'Profit/loss',
+  'ledger.openCount': '{count} open',
+  'ledger.open': 'Open',
+  'ledger.unverified': "Unverified ({minute}' {ss})",
+  'ledger.unverifiedHint': 'The match is missing from the in-play list but is not known to have ended, so the last score seen may not be final. The bet stays open.',
+  'ledger.profitBy': 'Profit/loss by',
+  'ledger.group.match': 'Match',
+  'ledger.group.league': 'League',
+  'ledger.group.signal': 'Signal',
+  'ledger.bets': 'Bets',
+  'ledger.staked': 'Staked',
+  'ledger.allBets': 'All bets',
+  'ledger.confirmDelete': 'Delete this bet from the ledger?',
+  'ledger.deleteBet': 'Delete bet',
+
+  // --- Calibration report ---
+  'calibration.title': 'Prediction accuracy',
+  'calibration.clear': 'Clear journal',
+  'calibration.confirmClear': 'Clear the whole prediction journal?',
+  'calibration.intro': 'Each prediction is checked against the score: a goal within the next {minutes} minutes is a hit. The lower the Brier score the better (0 is perfect, 0.25 is the same as guessing 50%).',
+  'calibration.source.ai': 'AI',
+  'calibration.source.local': 'Local model',
+  'calibration.resolvedPending': '{resolved} resolved · {pending} pending',
+  'calibration.baseRate': 'Goal rate: {rate}',
+  'calibration.reliability': 'Reliability curve',
+  'calibration.predicted': 'Predicted',
+  'calibration.observed': 'Observed',
+  'calibration.byModel': 'By AI model',
+  'calibration.model': 'Model',
+  'calibration.resolved': 'Resolved',
+  'calibration.hitRateByConfidence': 'Hit rate by confidence',
+  'calibration.confidence': 'Confidence',
+
+  // --- Storage ---
+  'storage.title': 'Storage',
+  'storage.loading': 'Reading stored data...',
+  'storage.savedMatches': 'Saved matches',
+  'storage.snapshots': 'Snapshots',
+  'storage.localStorage': 'localStorage (settings, journals)',
+  'storage.oldest': 'Oldest match',
+  'storage.byLeague': 'By league',
+  'storage.matches': 'Matches',
+  'storage.retention': 'Retention policy',
+  'storage.maxAgeDays': 'Keep matches for (days)',
+  'storage.starredOnly': 'Keep starred matches only (others are deleted after 1 day)',
+  'storage.appliedOnOpen': 'The policy is applied every time the app opens.',
+  'storage.cleanNow': 'Clean up now',
+  'storage.cleaned': 'Deleted {count} matches.',
+  'storage.nothingToClean': 'No matches needed deleting.',
+
+  // --- API usage screen ---
+  'apiUsage.title': 'API calls',
+  'apiUsage.confirmClear': 'Clear the whole API call log?',
+  'apiUsage.pausedUntilBelow': 'The watchlist and AI analysis are paused until usage drops below the budget.',
+  'apiUsage.lastHour': 'Last hour (B365 calls)',
+  'apiUsage.today': 'Today (B365 calls)',
+  'apiUsage.projected': 'Projected for the day',
+  'apiUsage.cacheHitRate': 'Cache HIT rate (24h)',
+  'apiUsage.hourly': 'By hour (24h)',
+  'apiUsage.upstreamCalls': 'B365 calls',
+  'apiUsage.avgLatency': 'Average latency: {ms} ms',
+  'apiUsage.budget': 'Budget',
+  'apiUsage.budgetHint': 'Only calls that reach B365 count (cache HITs do not). Once the budget is reached, the watchlist and AI analysis pause.',
+  'apiUsage.perHour': 'Per hour',
+  'apiUsage.perDay': 'Per day',
+  'apiUsage.recent': 'Recent calls',
+  'apiUsage.noCalls': 'No calls yet.',
+  'apiUsage.time': 'Time',
+
+  // --- API score profiles screen ---
+  'profiles.title': 'API score formulas',
+  'profiles.use': 'Use this formula',
+  'profiles.active': 'In use',
+  'profiles.builtIn': 'Built-in formula',
+  'profiles.custom': 'Custom',
+  'profiles.copy': 'Copy',
+  'profiles.copyName': '{name} (copy)',
+  'profiles.builtInReadOnly': 'The built-in formula cannot be edited; copy it to try other weights.',
+  'profiles.appliesTo': 'Applies to the API chart, the live stats table and the momentum factor when a match is reopened.',
+  'profiles.compare': 'Compare on a saved match',
+  'profiles.noMatches': 'No match has a stats history yet.',
+  'profiles.weight.onTarget': 'On target (extra)',
+  'profiles.weight.yellowCards': 'Yellow cards',
+  'profiles.weight.redCards': 'Red cards',
+
+  // --- AI settings ---
+  'aiSettings.title': 'AI model',
+  'aiSettings.source': 'Prediction source',
+  'aiSettings.hint.gemini': 'Google Gemini. Leave the key empty to use the API_KEY built into the app.',
+  'aiSettings.hint.openai': 'A /chat/completions server, e.g. Ollama (http://localhost:11434/v1) or llama.cpp (http://localhost:8080/v1).',
+  'aiSettings.hint.mock': 'A fixed result computed from the factors, with no network call. Meant for development.',
+  'aiSettings.apiKey': 'API key',
+  'aiSettings.optional': 'Optional',
+  'aiSettings.keyStored': 'The key is stored in this browser (localStorage).',
+  'aiSettings.scheduler': 'Automatic AI calls',
+  'aiSettings.schedulerEnabled': 'Call the AI when something notable happens in the match',
+  'aiSettings.shotClusterThreshold': 'Shot cluster threshold',
+  'aiSettings.minGapSeconds': 'Minimum gap (seconds)',
+  'aiSettings.perMatchBudget': 'Calls per match',
+  'aiSettings.perDayBudget': 'Calls per day',
+  'aiSettings.usage': 'Used {used}/{budget} calls today. The limits also apply to manual taps; automatic calls are skipped when the data has not changed.',
+  'aiSettings.sampleHome': 'Team A',
+  'aiSettings.sampleAway': 'Team B',
+  'aiSettings.testing': 'Calling the model...',
+  'aiSettings.test': 'Try on a sample match',
+  'aiSettings.result.probability': 'Probability · confidence',
+  'aiSettings.result.horizons': '10\' · 15\' · full time',
+  'aiSettings.result.nextGoal': 'Next goal (home · away · none)',
+  'aiSettings.result.responseTime': 'Response time',
+  'aiSettings.result.invalid': 'No valid prediction was received (see the console for details).',
+
+  // --- Match clock ---
+  'clock.halfTime': 'HT',
+  'clock.fullTime': 'FT',
+  'clock.extraHalfTime': 'ET HT',
+  'clock.end': 'END',
+
+  // --- Data providers ---
+  'api.localFeedError': 'Local feed error: {status} ({url})',
+
+  // --- Offline ---
+  'offline.title': 'Offline',
+  'offline.reconnecting': 'Back online, refreshing…',
+  'offline.staleSince': 'stale since {time}',
+  'offline.noData': 'nothing saved for this yet',
+  'offline.watchPaused': 'the device is offline',
+  'offline.aiUnavailable': 'The AI needs a connection',
+
+  // --- Notifications ---
+  'notify.title': 'Webhook notifications',
+  'notify.intro': 'Posts a message to Telegram, Discord or a JSON webhook when the Dashboard records a highlight or an alert rule fires.',
+  'notify.noChannels': 'No channels yet. Add one below.',
+  'notify.hint.telegram': 'https://api.telegram.org/bot<token>/sendMessage',
+  'notify.hint.discord': 'https://discord.com/api/webhooks/<id>/<token>',
+  'notify.hint.json': 'Webhook URL, e.g. http://localhost:8789/test',
+  'notify.chatId': 'Chat ID',
+  'notify.delivery': 'Send through',
+  'notify.delivery.worker': 'Worker',
+  'notify.delivery.direct': 'Straight from the browser',
+  'notify.template': 'Message template',
+  'notify.placeholders': '{title} {match} {league} {minute} {score} {probability} {odds} {reasoning}',
+  'notify.defaultTemplate': `⚽ {title}
+{match} · {minute} · {score}
+Goal probability: {probability} · Odds: {odds}
+{reasoning}`,
+  'notify.filters': 'Filters',
+  'notify.filter.highlights': 'Highlights',
+  'notify.filter.fromLevel': '{level} and up',
+  'notify.filter.allAlerts': 'Alerts (every rule)',
+  'notify.filter.someAlerts': 'Alerts (selected rules)',
+  'notify.filter.minProbability': 'Minimum probability (%)',
+  'notify.filter.watchlistOnly': 'Starred matches only',
+  'notify.dedupeMinutes': 'Do not repeat the same news within (min)',
+  'notify.level.weak': 'Weak highlight',
+  'notify.level.medium': 'Medium highlight',
+  'notify.level.strong': 'Strong highlight',
+  'notify.test': 'Send test',
+  'notify.testSent': 'Sent',
+  'notify.testFailed': 'Failed: {error}',
+  'notify.noUrl': 'No webhook URL set',
+  'notify.sampleReasoning': 'Test message: the home side is pressing with a cluster of shots in the last 10 minutes.',
+  'notify.log': 'Sent messages',
+  'notify.noLog': 'Nothing sent yet.',
+};
@@ -0,0 +1,540 @@
+/**
+ * Vietnamese catalog, the reference for every other language (services/i18n.ts).
+ * Keys are grouped by screen or service; `{name}` marks a placeholder.
+ */
+export const vi = {
+  // --- Shared ---
+  'common.delete': 'Xóa',
+  'common.home': 'Đội nhà',
+  'common.away': 'Đội khách',
+  'common.language': 'Ngôn ngữ',
+  'common.cancel': 'Hủy',
+  'common.close': 'Đóng',
+  'common.minute': 'Phút',
+  'confidence.low': 'thấp',
+  'confidence.medium': 'trung bình',
+  'confidence.high': 'cao',
+  'confidence.very_high': 'rất cao',
+
+  // --- App ---
+  'app.title': 'Trận đấu trực tiếp',
+  'app.betLedger': 'Sổ cược',
+  'app.accuracy': 'Độ chính xác dự đoán',
+  'app.apiUsage': 'Mức dùng API',
+  'app.storage': 'Lưu trữ',
+  'app.apiProfiles': 'Công thức điểm API',
+  'app.aiModel': 'Mô hình AI',
+  'app.alertRules': 'Quy tắc cảnh báo',
+  'app.notifications': 'Thông báo webhook',
+  'app.sessions': 'Phiên đã ghi',
+  'app.refresh': 'Làm mới',
+  'app.logout': 'Đăng xuất',
+  'app.recordedSessions': 'Phiên đã ghi',
+  'app.import': 'Nhập',
+  'app.error': 'Lỗi',
+  'app.errorHint': 'Vui lòng kiểm tra cấu hình Worker hoặc thử lại sau vài phút nếu đây là lỗi giới hạn tần suất.',
+  'app.demoEmpty': 'Chế độ Demo: Không tìm thấy trận đấu giả lập. Có thể do lỗi tải dữ liệu demo.',
+  'app.b365Empty': 'Không tìm thấy trận đấu trực tiếp. Vui lòng kiểm tra cấu hình B365_TOKEN của Worker hoặc thử lại sau.',
+  'app.providerEmpty': 'Nguồn dữ liệu "{provider}" không có trận đấu nào.',
+  'app.rateLimited': 'Giới hạn tần suất của Proxy đã đạt. Vui lòng kiểm tra cấu hình Rate Limiter của Cloudflare Worker và thử lại sau 20-40 giây.',
+  'app.unknownError': 'Đã xảy ra lỗi không xác định.',
+  'app.importOverwrite': 'Trình duyệt này đã lưu bản ghi hoặc thống kê của {match}. Nhập gói sẽ thay thế chúng. Tiếp tục?',
+  'app.importFailed': 'Không thể nhập gói phiên: {error}',
+
+  // --- Login ---
+  'login.title': 'Truy cập Pro Analytics',
+  'login.subtitle': 'Chọn nguồn dữ liệu cho số liệu trận đấu thời gian thực và các công cụ phân tích.',
+  'login.kind.fixtures': 'Demo',
+  'login.kind.session': 'Phiên ghi',
+  'login.kind.http': 'HTTP nội bộ',
+  'login.clientKey': 'Khóa client của Worker (không bắt buộc)',
+  'login.b365Hint': 'Token B365 được cấu hình trên Worker, không nhập ở đây.',
+  'login.fixturesHint': 'Trận đấu demo cố định, không cần kết nối mạng.',
+  'login.recordedSession': 'Phiên đã ghi...',
+  'login.loadFile': 'Hoặc tải tệp phiên (.json)',
+  'login.badFile': 'Không phải tệp phiên đã ghi: {error}',
+  'login.authenticate': 'Xác thực',
+  'login.connect': 'Kết nối',
+
+  // --- Session list ---
+  'sessions.empty': 'Chưa có phiên nào được ghi. Mở một trận đang diễn ra để bắt đầu ghi.',
+  'sessions.snapshots': '{count} snapshot',
+  'sessions.delete': 'Xóa phiên',
+
+  // --- Match list ---
+  'matchList.sort.hotness': 'Sôi động nhất',
+  'matchList.sort.minute': 'Phút',
+  'matchList.sort.league': 'Giải đấu',
+  'matchList.score.all': 'Mọi tỷ số',
+  'matchList.score.level': 'Hòa',
+  'matchList.score.close': 'Cách biệt ≤ 1 bàn',
+  'matchList.score.goalless': '0-0',
+  'matchList.loading': 'Đang tải các trận đấu trực tiếp...',
+  'matchList.empty': 'Không có trận đấu trực tiếp nào hoặc hãy kiểm tra API Token.',
+  'matchList.search': 'Tìm đội hoặc giải đấu',
+  'matchList.clearSearch': 'Xóa tìm kiếm',
+  'matchList.filters': 'Bộ lọc',
+  'matchList.minute': 'Phút',
+  'matchList.allLeagues': 'Tất cả giải đấu',
+  'matchList.favouritesOnly': 'Chỉ giải đấu yêu thích',
+  'matchList.hideEsoccer': 'Ẩn esoccer',
+  'matchList.blockedLeagues': 'Giải đấu đã chặn',
+  'matchList.resetFilters': 'Đặt lại bộ lọc',
+  'matchList.count': '{visible} / {total} trận',
+  'matchList.noneFit': 'Không có trận nào khớp với tìm kiếm và bộ lọc hiện tại.',
+  'matchList.favourite': 'Thêm giải đấu yêu thích',
+  'matchList.unfavourite': 'Bỏ giải đấu yêu thích',
+  'matchList.block': 'Chặn giải đấu',
+  'matchList.hotness': 'Độ sôi động',
+  'matchList.watch': 'Thêm vào danh sách theo dõi',
+  'matchList.unwatch': 'Bỏ khỏi danh sách theo dõi',
+  'matchList.tapForAnalysis': 'Chạm để phân tích',
+
+  // --- Dashboard ---
+  'dashboard.live': 'PHÂN TÍCH TRỰC TIẾP',
+  'dashboard.replay': 'PHÁT LẠI TRẬN ĐẤU',
+  'dashboard.tooltip.minute': 'Phút: {minute}\'',
+  'dashboard.tooltip.over': 'Tỷ lệ Tài',
+  'dashboard.tooltip.home': 'Tỷ lệ Đội nhà',
+  'dashboard.homeApi': 'API Đội nhà',
+  'dashboard.awayApi': 'API Đội khách',
+  'dashboard.market': 'Thị trường',
+  'dashboard.lowOdds': 'Tỷ lệ thấp',
+  'dashboard.highOdds': 'Tỷ lệ cao',
+  'dashboard.shotOn': 'Sút trúng đích phút {minute}\'',
+  'dashboard.shotOff': 'Sút chệch đích phút {minute}\'',
+  'dashboard.localHeadline': 'Xác suất bàn thắng (mô hình nội bộ)',
+  'dashboard.aiHeadline': 'Xác suất bàn thắng AI · {model}',
+  'dashboard.confidence': 'Độ tin cậy:',
+  'dashboard.aiConfidence': 'Độ tin cậy AI:',
+  'dashboard.localModel': 'Mô hình nội bộ (5 phút):',
+  'dashboard.factors': 'Các yếu tố truyền thống',
+  'dashboard.momentum': 'Động lực',
+  'dashboard.shotCluster': 'Cụm sút',
+  'dashboard.pressure': 'Áp lực',
+  'dashboard.overChart': 'Thị trường Tài/Xỉu (1_3) & Dòng thời gian API',
+  'dashboard.homeChart': 'Tỷ lệ Đội nhà (1_2) & Dòng thời gian API',
+  'dashboard.ai.analyse': 'Phân tích AI',
+  'dashboard.ai.noKey': 'Chưa cấu hình khóa API cho mô hình AI, đang dùng mô hình nội bộ.',
+  'dashboard.ai.unavailable': 'Phân tích AI không khả dụng.',
+  'dashboard.ai.error': 'Lỗi khi gọi AI: {error}.',
+  'dashboard.ai.noDetails': 'Không thể lấy chi tiết trận đấu mới nhất cho phân tích AI.',
+  'dashboard.ai.manual': 'Thủ công',
+  'dashboard.ai.auto': 'Tự động: {triggers}',
+  'dashboard.ai.skipped': 'Bỏ qua ({triggers}): {reason}',
+  'dashboard.ai.deferred': 'Đang chờ ({triggers}): {reason}',
+  'dashboard.ai.used': '{trigger} · {match}/{matchBudget} lượt trận · {day}/{dayBudget} lượt hôm nay',
+
+  // --- Match stats ---
+  'stats.attacks': 'Tấn công',
+  'stats.dangerous': 'Nguy hiểm',
+  'stats.onTarget': 'Trúng đích',
+  'stats.corners': 'Phạt góc',
+
+  // --- Match events ---
+  'events.title': 'Diễn biến trận đấu',
+  'events.empty': 'Chưa ghi nhận sự kiện nào.',
+  'events.goal': 'Bàn thắng',
+  'events.yellowcard': 'Thẻ vàng',
+  'events.redcard': 'Thẻ đỏ',
+  'events.corner': 'Phạt góc',
+
+  // --- AI scheduler ---
+  'scheduler.trigger.goal': 'Bàn thắng',
+  'scheduler.trigger.redCard': 'Thẻ đỏ',
+  'scheduler.trigger.shotSpike': 'Cụm sút tăng vọt',
+  'scheduler.trigger.overLineMove': 'Kèo Tài/Xỉu đổi mức',
+  'scheduler.trigger.minute70': 'Vào phút 70',
+  'scheduler.disabled': 'Tự động gọi AI đang tắt.',
+  'scheduler.noTrigger': 'Không có sự kiện kích hoạt.',
+  'scheduler.tooSoon': 'Chưa đủ {seconds}s kể từ lần gọi trước.',
+  'scheduler.matchBudget': 'Đã dùng hết {budget} lượt AI cho trận này.',
+  'scheduler.dayBudget': 'Đã dùng hết {budget} lượt AI hôm nay.',
+  'scheduler.unchanged': 'Dữ liệu không đổi so với lần dự đoán trước.',
+
+  // --- Local goal model ---
+  'goalModel.noMarket': 'Chưa có tỷ lệ Tài/Xỉu, dùng tỷ lệ bàn thắng trung bình.',
+  'goalModel.market': 'Thị trường Tài/Xỉu {line} ngụ ý {goals} bàn/90 phút.',
+  'goalModel.shotCluster': 'Cụm sút cao ({value}).',
+  'goalModel.momentum': 'Động lực API tăng mạnh ({value}).',
+  'goalModel.pressure': 'Áp lực từ biến động tỷ lệ cược ({value}).',
+  'goalModel.redCard': 'Có thẻ đỏ trong trận.',
+  'goalModel.fewData': 'Dữ liệu còn ít hoặc chưa có tỷ lệ cược, độ tin cậy bị hạ một bậc.',
+
+  // --- AI prompt ---
+  'prompt.intro': `Bạn là một chuyên gia phân tích trận đấu bóng đá với kiến thức sâu sắc về động lực trận đấu và thị trường cá cược.
+    Dựa trên các số liệu thống kê trận đấu thời gian thực, tỷ số hiện tại, tỷ lệ cược và các yếu tố phân tích truyền thống sau đây,
+    hãy dự đoán xác suất có bàn thắng được ghi trong *5 phút*, *10 phút*, *15 phút tiếp theo* và *từ giờ đến hết trận*,
+    xác suất đội nào ghi bàn thắng tiếp theo (hoặc không còn bàn nào), và số bàn thắng kỳ vọng còn lại.
+    Các xác suất theo thời gian phải không giảm (5 phút ≤ 10 phút ≤ 15 phút ≤ hết trận).
+    Cung cấp các xác suất dưới dạng phần trăm (0-100), kèm mức độ tin cậy và một lý do ngắn gọn.
+    Phần lý do phải được viết bằng tiếng Việt.`,
+  'prompt.match': 'ID trận đấu: {id}',
+  'prompt.minute': 'Phút hiện tại: {minute}',
+  'prompt.score': 'Tỷ số: {home}-{away}',
+  'prompt.teams': 'Đội nhà: {home}, Đội khách: {away}',
+  'prompt.section.stats': 'Thống kê trực tiếp',
+  'prompt.section.odds': 'Tỷ lệ cược mới nhất',
+  'prompt.section.factors': 'Các yếu tố phân tích truyền thống',
+  'prompt.section.teams': 'Áp lực theo từng đội',
+  'prompt.section.output': 'Định dạng đầu ra',
+  'prompt.section.repair': 'Phản hồi trước không hợp lệ',
+  'prompt.stats.attacks': 'Tấn công của đội nhà: {home}, Tấn công của đội khách: {away}',
+  'prompt.stats.dangerous': 'Tấn công nguy hiểm của đội nhà: {home}, Tấn công nguy hiểm của đội khách: {away}',
+  'prompt.stats.onTarget': 'Sút trúng đích của đội nhà: {home}, Sút trúng đích của đội khách: {away}',
+  'prompt.stats.offTarget': 'Sút chệch đích của đội nhà: {home}, Sút chệch đích của đội khách: {away}',
+  'prompt.stats.corners': 'Phạt góc của đội nhà: {home}, Phạt góc của đội khách: {away}',
+  'prompt.stats.yellowcards': 'Thẻ vàng của đội nhà: {home}, Thẻ vàng của đội khách: {away}',
+  'prompt.stats.redcards': 'Thẻ đỏ của đội nhà: {home}, Thẻ đỏ của đội khách: {away}',
+  'prompt.apiScores': 'Điểm API đội nhà: {home}, Điểm API đội khách: {away}',
+  'prompt.odds.over': 'Tỷ lệ Kèo Tài/Xỉu (Handicap): {handicap} (Kèo Tài: {over}, Kèo Xỉu: {under})',
+  'prompt.odds.home': 'Tỷ lệ Kèo Châu Á (Handicap): {handicap} (Kèo Đội nhà: {home}, Kèo Đội khách: {away})',
+  'prompt.odds.none': 'Không có tỷ lệ cược mới nhất.',
+  'prompt.factors.momentum': 'Động lực API (5 phút gần nhất): {value}',
+  'prompt.factors.shotCluster': 'Cụm sút (tổng số cú sút 5 phút gần nhất): {value}',
+  'prompt.factors.pressure': 'Áp lực (từ biến động tỷ lệ cược): {value}',
+  'prompt.teams.none': 'Không có dữ liệu theo đội.',
+  'prompt.teams.index': 'Chỉ số áp lực (0-100, 5 phút gần nhất): Đội nhà {home}, Đội khách {away}',
+  'prompt.teams.window': '{label}: {dangerous} tấn công nguy hiểm, {shots} cú sút ({onTarget} trúng đích), {corners} phạt góc',
+  'prompt.teams.home5': 'Đội nhà 5 phút',
+  'prompt.teams.away5': 'Đội khách 5 phút',
+  'prompt.teams.home10': 'Đội nhà 10 phút',
+  'prompt.teams.away10': 'Đội khách 10 phút',
+  'prompt.output': `Xuất dự đoán của bạn TUYỆT ĐỐI theo định dạng JSON, tuân thủ schema sau. KHÔNG bao gồm bất kỳ văn bản nào khác trước hoặc sau JSON.
+    confidence_level là một trong: {levels}.`,
+  'prompt.repair': `Lỗi: {error}
+    Hãy trả lời lại, CHỈ bằng JSON hợp lệ theo schema, với đầy đủ các trường bắt buộc.`,
+
+  // --- AI reply validation ---
+  'validation.noJson': 'Phản hồi không chứa JSON.',
+  'validation.badJson': 'JSON không hợp lệ: {error}',
+  'validation.missing': 'Thiếu {field}.',
+  'validation.outOfRange': '{field} ngoài khoảng 0-100: {value}',
+  'validation.confidence': 'confidence_level không hợp lệ: {value} (phải là một trong {levels})',
+  'validation.nextGoalZero': 'next_goal_home/away/none đều bằng 0.',
+  'validation.negativeGoals': 'expected_remaining_goals âm: {value}',
+
+  // --- Mock AI backend ---
+  'mock.reasoning': 'Mock: cụm sút {shots}, động lực {momentum}, áp lực {pressure}.',
+
+  // --- Watchlist ---
+  'watchlist.title': 'Theo dõi',
+  'watchlist.paused': 'Tạm dừng cập nhật: {reason}',
+  'watchlist.waiting': 'Đang chờ lần cập nhật nền tiếp theo...',
+
+  // --- Probability ladder ---
+  'ladder.fullTime': 'Hết trận',
+  'ladder.nextGoal': 'Bàn thắng tiếp theo',
+  'ladder.noGoal': 'Không bàn',
+  'ladder.expectedRemaining': 'Bàn thắng kỳ vọng còn lại',
+
+  // --- API errors ---
+  'api.unauthorized': 'Khóa truy cập Worker không hợp lệ (401). Vui lòng kiểm tra lại khóa đã nhập khi đăng nhập.',
+  'api.forbidden': 'Lỗi truy cập (403). B365 hoặc Proxy đang chặn yêu cầu này. Vui lòng kiểm tra B365_TOKEN của Worker hoặc thử lại sau.',
+  'api.rateLimited': 'Giới hạn tần suất của Cloudflare Worker đã đạt sau nhiều lần thử. Vui lòng kiểm tra cấu hình Rate Limiter của Worker (thường là 1 yêu cầu/20s) và thử lại sau ít nhất 20-40 giây.',
+  'api.httpError': 'Lỗi kết nối: {status}. Vui lòng kiểm tra kết nối mạng của bạn hoặc trạng thái của Cloudflare Worker.',
+  'api.invalidJson': 'Phản hồi API không phải là JSON hợp lệ. Đảm bảo B365_TOKEN của Worker là chính xác và Worker hoạt động đúng.',
+  'api.network': `Lỗi mạng hoặc CORS: Trình duyệt không thể kết nối tới Cloudflare Worker. Vui lòng kiểm tra các điều sau:
+1. URL của Cloudflare Worker trong \`services/api.ts\` có chính xác không.
+2. Cloudflare Worker của bạn đã được triển khai (Deploy) và đang hoạt động.
+3. Kết nối internet của bạn ổn định.
+4. Không có phần mềm chặn mạng (ví dụ: VPN, tường lửa, tiện ích mở rộng trình duyệt) nào can thiệp.`,
+  'api.failedStatus': 'API đã trả về trạng thái thất bại.',
+
+  // --- Live stats ---
+  'liveStats.title': 'Thống kê trực tiếp',
+  'liveStats.profile': 'Điểm API: {name}',
+  'liveStats.homeHandicap': 'HDP Đội nhà',
+  'liveStats.overUnderLine': 'HDP Tài/Xỉu',
+  'liveStats.homeOdds': 'Tỷ lệ Đội nhà',
+  'liveStats.overOdds': 'Tỷ lệ Tài',
+  'liveStats.homeApi': 'API Đội nhà',
+  'liveStats.awayApi': 'API Đội khách',
+
+  // --- Replay ---
+  'replay.restart': 'Phát lại từ đầu',
+  'replay.pause': 'Tạm dừng',
+  'replay.play': 'Phát',
+
+  // --- Session export and import ---
+  'export.empty': 'Chưa có dữ liệu để xuất.',
+  'export.title': 'Xuất phiên phân tích',
+  'export.hint': 'JSON giữ toàn bộ phiên và có thể nhập lại; CSV tách từng bảng cho bảng tính.',
+  'export.json': 'Tải JSON',
+  'export.csv': 'Tải CSV',
+  'bundle.invalidJson': 'Tệp không phải JSON hợp lệ.',
+  'bundle.notBundle': 'Tệp không phải gói phiên phân tích của ứng dụng này.',
+  'bundle.tooNew': 'Gói phiên phiên bản {version} mới hơn ứng dụng (hỗ trợ đến {supported}).',
+  'bundle.noMatch': 'Gói phiên thiếu thông tin trận đấu.',
+  'bundle.noSnapshots': 'Gói phiên không có snapshot nào đã ghi nên không thể phát lại.',
+
+  // --- API usage ---
+  'apiUsage.dailyCapReached': 'Đã dùng {used}/{cap} lượt gọi API hôm nay.',
+  'apiUsage.hourlyCapReached': 'Đã dùng {used}/{cap} lượt gọi API trong giờ qua.',
+
+  // --- API score profiles ---
+  'profiles.default': 'Mặc định',
+
+  // --- Momentum chart ---
+  'momentum.title': 'Áp lực theo đội',
+  'momentum.indexLine1': 'Chỉ số áp lực',
+  'momentum.indexLine2': '5 phút gần nhất',
+  'momentum.homeWindow': 'Nhà {minutes}\'',
+  'momentum.awayWindow': 'Khách {minutes}\'',
+  'momentum.dangerousAttacks': 'Tấn công nguy hiểm',
+  'momentum.shots': 'Cú sút',
+
+  // --- Implied market chart ---
+  'implied.title': 'Xác suất ngụ ý (đã bỏ biên lợi nhuận)',
+  'implied.nextGoal': 'Khả năng còn bàn',
+  'implied.expectedGoals': 'Số bàn kỳ vọng thêm',
+  'implied.margin': 'Biên nhà cái',
+  'implied.over': 'Tài (theo kèo)',
+  'implied.home': 'Đội nhà (theo kèo)',
+  'implied.overUnderMargin': 'Biên Tài/Xỉu',
+
+  // --- Alert rules ---
+  'alerts.title': 'Quy tắc cảnh báo',
+  'alerts.noRules': 'Chưa có quy tắc nào.',
+  'alerts.enable': 'Bật',
+  'alerts.disable': 'Tắt',
+  'alerts.and': 'VÀ',
+  'alerts.newRule': 'Quy tắc mới',
+  'alerts.namePlaceholder': 'Tên quy tắc, ví dụ: Áp lực cuối trận',
+  'alerts.window': 'Cửa sổ (phút)',
+  'alerts.operator.between': 'trong khoảng',
+  'alerts.between': '{signal} từ {from} đến {to}',
+  'alerts.removeCondition': 'Bỏ điều kiện',
+  'alerts.addCondition': 'Thêm điều kiện',
+  'alerts.saveRule': 'Lưu quy tắc',
+  'alerts.history': 'Lịch sử cảnh báo',
+  'alerts.noHistory': 'Chưa có cảnh báo nào.',
+  'alerts.signal.minute': 'Phút',
+  'alerts.signal.apiMomentum': 'Động lực API',
+  'alerts.signal.shotCluster': 'Cụm sút',
+  'alerts.signal.pressure': 'Áp lực',
+  'alerts.signal.homePressure': 'Áp lực đội nhà (0-100)',
+  'alerts.signal.awayPressure': 'Áp lực đội khách (0-100)',
+  'alerts.signal.pressureGap': 'Chênh lệch áp lực (nhà - khách)',
+  'alerts.signal.localProbability': 'Xác suất nội bộ (%)',
+  'alerts.signal.aiProbability': 'Xác suất AI (%)',
+  'alerts.signal.totalGoals': 'Tổng bàn thắng',
+  'alerts.signal.goalDifference': 'Cách biệt tỷ số',
+  'alerts.signal.redCards': 'Tổng thẻ đỏ',
+  'alerts.signal.overOdds': 'Tỷ lệ Tài',
+  'alerts.signal.overOddsChange': 'Biến động tỷ lệ Tài',
+  'alerts.signal.homeOddsChange': 'Biến động tỷ lệ Đội nhà',
+
+  // --- Discipline ---
+  'discipline.title': 'Kỷ luật cược',
+  'discipline.item.signalRule': 'Tín hiệu đến từ một quy tắc cảnh báo đã lưu',
+  'discipline.item.notChasing': 'Không cược để gỡ lại khoản thua',
+  'discipline.item.stakePlan': 'Tiền cược nằm trong kế hoạch',
+  'discipline.item.priceValue': 'Tỷ lệ vẫn còn giá trị, không đuổi theo giá đã sụt',
+  'discipline.tilt.losses': 'Thua {losses} cược liên tiếp.',
+  'discipline.tilt.stake': 'Tiền cược {stake} cao hơn {multiple} lần mức thường ({usual}).',
+  'discipline.tilt.frequency': 'Đã ghi {count} cược trong {minutes} phút.',
+  'discipline.reasonPlaceholder': 'Lý do bỏ qua (sẽ được lưu lại để xem xét)',
+  'discipline.locked': 'Đang tạm khóa cược · còn {remaining}',
+  'discipline.lockedUntil': 'Đang khóa đến {time}: {reason}',
+  'discipline.takeBreak': 'Nghỉ một lát',
+  'discipline.checkBefore': 'Kiểm tra trước khi ghi: {summary}',
+  'discipline.logBet': 'Ghi cược',
+  'discipline.logAnyway': 'Ghi dù chưa đủ',
+  'discipline.override.checklist': 'Bỏ qua checklist',
+  'discipline.override.cooldown': 'Bỏ qua khóa',
+  'discipline.confirmClearOverrides': 'Xóa toàn bộ nhật ký bỏ qua?',
+  'discipline.removeItem': 'Xóa mục',
+  'discipline.addItem': 'Thêm mục',
+  'discipline.addItemPlaceholder': 'Thêm mục kiểm tra',
+  'discipline.threshold.maxConsecutiveLosses': 'Số trận thua liên tiếp tối đa',
+  'discipline.threshold.maxStakeMultiple': 'Tiền cược tối đa (x mức thường)',
+  'discipline.threshold.maxBetsInWindow': 'Số cược tối đa trong khung',
+  'discipline.threshold.windowMinutes': 'Khung thời gian (phút)',
+  'discipline.threshold.cooldownMinutes': 'Thời gian khóa (phút)',
+  'discipline.overrideLog': 'Nhật ký bỏ qua',
+  'discipline.noOverrides': 'Chưa bỏ qua lần nào.',
+
+  // --- Bets ---
+  'bets.signal.ai': 'AI',
+  'bets.signal.local': 'Mô hình nội bộ',
+  'bets.signal.alert': 'Cảnh báo',
+  'bets.signal.manual': 'Thủ công',
+  'bets.result.win': 'Thắng',
+  'bets.result.halfWin': 'Thắng nửa',
+  'bets.result.push': 'Hòa',
+  'bets.result.halfLoss': 'Thua nửa',
+  'bets.result.loss': 'Thua',
+  'bets.side.home': 'Nhà',
+  'bets.side.away': 'Khách',
+  'bets.side.over': 'Tài',
+  'bets.side.under': 'Xỉu',
+  'bets.slipTitle': 'Ghi cược',
+  'bets.stake': 'Tiền cược',
+  'bets.undo': 'Hủy cược',
+  'ledger.title': 'Sổ cược',
+  'ledger.empty': 'Chưa ghi cược nào. Chạm vào một tỷ lệ trong màn hình trận đấu để ghi cược.',
+  'ledger.profit': 'Lãi/lỗ',
+  'ledger.openCount': '{count} đang mở',
+  'ledger.open': 'Đang mở',
+  'ledger.unverified': "Chưa xác minh ({minute}' {ss})",
+  'ledger.unverifiedHint': 'Trận không còn trong danh sách trực tiếp nhưng chưa rõ đã kết thúc, nên tỉ số cuối cùng thấy được có thể chưa phải tỉ số chung cuộc. Cược vẫn để mở.',
+  'ledger.profitBy': 'Lãi/lỗ theo',
+  'ledger.group.match': 'Trận',
+  'ledger.group.league': 'Giải',
+  'ledger.group.signal': 'Tín hiệu',
+  'ledger.bets': 'Cược',
+  'ledger.staked': 'Vốn',
+  'ledger.allBets': 'Tất cả cược',
+  'ledger.confirmDelete': 'Xóa cược này khỏi sổ?',
+  'ledger.deleteBet': 'Xóa cược',
+
+  // --- Calibration report ---
+  'calibration.title': 'Độ chính xác dự đoán',
+  'calibration.clear': 'Xóa nhật ký',
+  'calibration.confirmClear': 'Xóa toàn bộ nhật ký dự đoán?',
+  'calibration.intro': 'Mỗi dự đoán được đối chiếu với tỷ số: có bàn thắng trong {minutes} phút tiếp theo là trúng. Điểm Brier càng thấp càng tốt (0 là hoàn hảo, 0.25 tương đương đoán 50%).',
+  'calibration.source.ai': 'AI',
+  'calibration.source.local': 'Mô hình nội bộ',
+  'calibration.resolvedPending': '{resolved} đã xác định · {pending} đang chờ',
+  'calibration.baseRate': 'Tỷ lệ có bàn: {rate}',
+  'calibration.reliability': 'Đường cong độ tin cậy',
+  'calibration.predicted': 'Dự đoán',
+  'calibration.observed': 'Thực tế',
+  'calibration.byModel': 'Theo mô hình AI',
+  'calibration.model': 'Mô hình',
+  'calibration.resolved': 'Đã xác định',
+  'calibration.hitRateByConfidence': 'Tỷ lệ trúng theo độ tin cậy',
+  'calibration.confidence': 'Độ tin cậy',
+
+  // --- Storage ---
+  'storage.title': 'Bộ nhớ',
+  'storage.loading': 'Đang đọc dữ liệu lưu trữ...',
+  'storage.savedMatches': 'Trận đã lưu',
+  'storage.snapshots': 'Snapshot',
+  'storage.localStorage': 'localStorage (cài đặt, nhật ký)',
+  'storage.oldest': 'Trận cũ nhất',
+  'storage.byLeague': 'Theo giải đấu',
+  'storage.matches': 'Trận',
+  'storage.retention': 'Chính sách lưu giữ',
+  'storage.maxAgeDays': 'Giữ trận trong (ngày)',
+  'storage.starredOnly': 'Chỉ giữ trận đã gắn sao (trận khác bị xóa sau 1 ngày)',
+  'storage.appliedOnOpen': 'Chính sách được áp dụng mỗi lần mở ứng dụng.',
+  'storage.cleanNow': 'Dọn dẹp ngay',
+  'storage.cleaned': 'Đã xóa {count} trận.',
+  'storage.nothingToClean': 'Không có trận nào cần xóa.',
+
+  // --- API usage screen ---
+  'apiUsage.title': 'Lượt gọi API',
+  'apiUsage.confirmClear': 'Xóa toàn bộ nhật ký gọi API?',
+  'apiUsage.pausedUntilBelow': 'Watchlist và phân tích AI tạm dừng cho đến khi xuống dưới hạn mức.',
+  'apiUsage.lastHour': 'Giờ qua (gọi B365)',
+  'apiUsage.today': 'Hôm nay (gọi B365)',
+  'apiUsage.projected': 'Dự kiến cả ngày',
+  'apiUsage.cacheHitRate': 'Tỷ lệ cache HIT (24h)',
+  'apiUsage.hourly': 'Theo giờ (24h)',
+  'apiUsage.upstreamCalls': 'Gọi B365',
+  'apiUsage.avgLatency': 'Độ trễ trung bình: {ms} ms',
+  'apiUsage.budget': 'Hạn mức',
+  'apiUsage.budgetHint': 'Chỉ tính lượt gọi tới B365 (không tính cache HIT). Khi đạt hạn mức, Watchlist và phân tích AI sẽ tạm dừng.',
+  'apiUsage.perHour': 'Mỗi giờ',
+  'apiUsage.perDay': 'Mỗi ngày',
+  'apiUsage.recent': 'Lượt gọi gần đây',
+  'apiUsage.noCalls': 'Chưa có lượt gọi nào.',
+  'apiUsage.time': 'Giờ',
+
+  // --- API score profiles screen ---
+  'profiles.title': 'Công thức điểm API',
+  'profiles.use': 'Dùng công thức này',
+  'profiles.active': 'Đang dùng',
+  'profiles.builtIn': 'Công thức gốc',
+  'profiles.custom': 'Tùy chỉnh',
+  'profiles.copy': 'Sao chép',
+  'profiles.copyName': '{name} (bản sao)',
+  'profiles.builtInReadOnly': 'Công thức gốc không sửa được, hãy sao chép để thử trọng số khác.',
+  'profiles.appliesTo': 'Áp dụng cho biểu đồ API, bảng thống kê trực tiếp và yếu tố động lực khi mở lại trận.',
+  'profiles.compare': 'So sánh trên trận đã lưu',
+  'profiles.noMatches': 'Chưa có trận nào có lịch sử thống kê.',
+  'profiles.weight.onTarget': 'Trúng đích (cộng thêm)',
+  'profiles.weight.yellowCards': 'Thẻ vàng',
+  'profiles.weight.redCards': 'Thẻ đỏ',
+
+  // --- AI settings ---
+  'aiSettings.title': 'Mô hình AI',
+  'aiSettings.source': 'Nguồn dự đoán',
+  'aiSettings.hint.gemini': 'Google Gemini. Để trống khóa để dùng API_KEY có sẵn trong bản build.',
+  'aiSettings.hint.openai': 'Máy chủ /chat/completions, ví dụ Ollama (http://localhost:11434/v1) hoặc llama.cpp (http://localhost:8080/v1).',
+  'aiSettings.hint.mock': 'Kết quả cố định tính từ các yếu tố, không gọi mạng. Dùng khi phát triển.',
+  'aiSettings.apiKey': 'Khóa API',
+  'aiSettings.optional': 'Không bắt buộc',
+  'aiSettings.keyStored': 'Khóa được lưu trong trình duyệt này (localStorage).',
+  'aiSettings.scheduler': 'Tự động gọi AI',
+  'aiSettings.schedulerEnabled': 'Gọi AI khi có sự kiện đáng chú ý trong trận',
+  'aiSettings.shotClusterThreshold': 'Ngưỡng cụm sút',
+  'aiSettings.minGapSeconds': 'Khoảng cách tối thiểu (giây)',
+  'aiSettings.perMatchBudget': 'Số lượt mỗi trận',
+  'aiSettings.perDayBudget': 'Số lượt mỗi ngày',
+  'aiSettings.usage': 'Đã dùng {used}/{budget} lượt hôm nay. Giới hạn áp dụng cho cả lần bấm tay; lần gọi tự động bị bỏ qua nếu dữ liệu không đổi.',
+  'aiSettings.sampleHome': 'Đội A',
+  'aiSettings.sampleAway': 'Đội B',
+  'aiSettings.testing': 'Đang gọi mô hình...',
+  'aiSettings.test': 'Thử với trận mẫu',
+  'aiSettings.result.probability': 'Xác suất · độ tin cậy',
+  'aiSettings.result.horizons': '10\' · 15\' · hết trận',
+  'aiSettings.result.nextGoal': 'Bàn tiếp theo (nhà · khách · không)',
+  'aiSettings.result.responseTime': 'Thời gian phản hồi',
+  'aiSettings.result.invalid': 'Không nhận được dự đoán hợp lệ (xem console để biết chi tiết).',
+
+  // --- Match clock ---
+  'clock.halfTime': 'HT',
+  'clock.fullTime': 'FT',
+  'clock.extraHalfTime': 'HT HP',
+  'clock.end': 'KT',
+
+  // --- Data providers ---
+  'api.localFeedError': 'Lỗi nguồn dữ liệu cục bộ: {status} ({url})',
+
+  // --- Offline ---
+  'offline.title': 'Mất kết nối',
+  'offline.reconnecting': 'Đã có mạng, đang tải lại…',
+  'offline.staleSince': 'dữ liệu cũ từ {time}',
+  'offline.noData': 'chưa có dữ liệu lưu cho mục này',
+  'offline.watchPaused': 'đang mất kết nối',
+  'offline.aiUnavailable': 'Cần kết nối mạng để gọi AI',
+
+  // --- Notifications ---
+  'notify.title': 'Thông báo webhook',
+  'notify.intro': 'Gửi tin nhắn tới Telegram, Discord hoặc một webhook JSON khi Dashboard ghi nhận điểm nóng hoặc một quy tắc cảnh báo kích hoạt.',
+  'notify.noChannels': 'Chưa có kênh nào. Thêm một kênh bên dưới.',
+  'notify.hint.telegram': 'https://api.telegram.org/bot<token>/sendMessage',
+  'notify.hint.discord': 'https://discord.com/api/webhooks/<id>/<token>',
+  'notify.hint.json': 'URL webhook, ví dụ http://localhost:8789/test',
+  'notify.chatId': 'Chat ID',
+  'notify.delivery': 'Gửi qua',
+  'notify.delivery.worker': 'Worker',
+  'notify.delivery.direct': 'Trực tiếp từ trình duyệt',
+  'notify.template': 'Mẫu tin nhắn',
+  'notify.placeholders': '{title} {match} {league} {minute} {score} {probability} {odds} {reasoning}',
+  'notify.defaultTemplate': `⚽ {title}
+{match} · {minute} · {score}
+Xác suất bàn thắng: {probability} · Kèo: {odds}
+{reasoning}`,
+  'notify.filters': 'Bộ lọc',
+  'notify.filter.highlights': 'Điểm nóng',
+  'notify.filter.fromLevel': 'từ mức {level}',
+  'notify.filter.allAlerts': 'Cảnh báo (mọi quy tắc)',
+  'notify.filter.someAlerts': 'Cảnh báo (các quy tắc đã chọn)',
+  'notify.filter.minProbability': 'Xác suất tối thiểu (%)',
+  'notify.filter.watchlistOnly': 'Chỉ các trận đã gắn sao',
+  'notify.dedupeMinutes': 'Không gửi lại cùng tin trong (phút)',
+  'notify.level.weak': 'Điểm nóng yếu',
+  'notify.level.medium': 'Điểm nóng trung bình',
+  'notify.level.strong': 'Điểm nóng mạnh',
+  'notify.test': 'Gửi thử',
+  'notify.testSent': 'Đã gửi',
+  'notify.testFailed': 'Lỗi: {error}',
+  'notify.noUrl': 'Chưa nhập URL webhook',
+  'notify.sampleReasoning': 'Tin nhắn thử: đội nhà dồn ép, nhiều cú sút trong 10 phút gần nhất.',
+  'notify.log': 'Tin đã gửi',
+  'notify.noLog': 'Chưa gửi tin nào.',
+};
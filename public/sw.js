@@ -0,0 +1,81 @@
+// Service worker: keeps the app shell available offline.
+//
+//   navigations          -> network first, the cached index.html when the network is gone
+//   /assets/*, /icons/*  -> cache first (Vite fingerprints asset names, so a cached file never goes stale)
+//   anything else        -> untouched; match data is cached by the app itself (services/offlineCache.ts)
+//
+// The asset list is read from index.html at install and again on every online navigation, so a new
+// build is picked up on the next visit and the assets it no longer references are dropped.
+// Bump SHELL_CACHE when this file's caching rules change.
+
+const SHELL_CACHE = 'pro-football-shell-v1';
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/icons/icon.svg', '/icons/icon-192.png', '/icons/icon-512.png', '/icons/apple-touch-icon.png'];
+
+const assetUrls = (html) => [...html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g)].map(match => match[1]);
+
+// Caches the assets a page references and forgets the ones from older builds
+const syncAssets = async (cache, html) => {
+  const current = assetUrls(html);
+  await cache.addAll(current);
+  const keys = await cache.keys();
+  await Promise.all(keys
+    .filter(request => new URL(request.url).pathname.startsWith('/assets/') && !current.includes(new URL(request.url).pathname))
+    .map(request => cache.delete(request)));
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.addAll(SHELL_URLS);
+    const page = await cache.match('/index.html');
+    if (page) await syncAssets(cache, await page.text());
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names.filter(name => name !== SHELL_CACHE).map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+const handleNavigation = async (request) => {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const html = await response.clone().text();
+      await cache.put('/index.html', response.clone());
+      syncAssets(cache, html).catch(error => console.warn('Could not cache app assets:', error));
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match('/index.html');
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+const handleStatic = async (request) => {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+  } else if (url.pathname.startsWith('/assets/') || url.pathname.startsWith('/icons/')) {
+    event.respondWith(handleStatic(request));
+  }
+});
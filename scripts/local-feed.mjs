@@ -0,0 +1,96 @@
+// Local stand-in for the B365 feed, used by the "Local HTTP" data provider.
+//
+//   node scripts/local-feed.mjs                    -> a simulated demo match that advances one minute per /inplay call
+//   node scripts/local-feed.mjs session.json       -> replays a recorded session file, one snapshot per /inplay call
+//   PORT=9000 node scripts/local-feed.mjs ...      -> listen on another port (default 8787)
+//
+// Routes mirror the Worker: GET /inplay and GET /odds?event_id=<id>, both returning B365-shaped JSON.
+import http from 'node:http';
+import { readFileSync } from 'node:fs';
+
+const PORT = Number(process.env.PORT || 8787);
+const sessionFile = process.argv[2];
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET,POST,OPTIONS',
+  'Access-Control-Allow-Headers': '*',
+};
+
+const createSessionFeed = (session) => {
+  let cursor = -1;
+  const latest = (key) => {
+    for (let i = Math.max(cursor, 0); i >= 0; i--) {
+      if (session.snapshots[i]?.[key]) return session.snapshots[i][key];
+    }
+    return null;
+  };
+  return {
+    inplay: () => {
+      cursor = Math.min(cursor + 1, session.snapshots.length - 1);
+      const details = latest('details');
+      return { success: 1, results: details ? [details] : [] };
+    },
+    odds: () => latest('odds') || { success: 1, results: { odds: { '1_2': [], '1_3': [] } } },
+  };
+};
+
+const createDemoFeed = () => {
+  let minute = 0;
+  const overOdds = [];
+  const homeOdds = [];
+  const stat = (perMinuteHome, perMinuteAway) => [String(Math.floor(minute * perMinuteHome)), String(Math.floor(minute * perMinuteAway))];
+  return {
+    inplay: () => {
+      minute = Math.min(minute + 1, 90);
+      const goals = Math.floor(minute / 35);
+      // Over/under line drifts down as time passes, with a small wobble
+      const over = (1.8 + Math.sin(minute / 3) * 0.08).toFixed(3);
+      overOdds.unshift({ id: `o${minute}`, over_od: over, under_od: (3.7 - Number(over)).toFixed(3), handicap: String(2.5 + goals), time_str: String(minute), add_time: String(Date.now() / 1000 | 0) });
+      homeOdds.unshift({ id: `h${minute}`, home_od: (1.9 + Math.cos(minute / 4) * 0.06).toFixed(3), away_od: '1.950', handicap: '-0.5', time_str: String(minute), add_time: String(Date.now() / 1000 | 0) });
+      return {
+        success: 1,
+        results: [{
+          id: 'local-1',
+          league: { name: 'Local Feed League' },
+          home: { name: 'Local Home FC' },
+          away: { name: 'Local Away FC' },
+          ss: `${goals}-0`,
+          time: String(minute),
+          timer: { tm: minute, ts: 0, tt: '1', ta: 0, md: minute > 45 ? 1 : 0 },
+          stats: {
+            attacks: stat(1.1, 0.9),
+            dangerous_attacks: stat(0.6, 0.45),
+            on_target: stat(0.08, 0.05),
+            off_target: stat(0.1, 0.07),
+            corners: stat(0.07, 0.04),
+            yellowcards: stat(0.02, 0.03),
+            redcards: ['0', '0'],
+          },
+        }],
+      };
+    },
+    odds: () => ({ success: 1, results: { odds: { '1_2': homeOdds, '1_3': overOdds } } }),
+  };
+};
+
+const feed = sessionFile ? createSessionFeed(JSON.parse(readFileSync(sessionFile, 'utf8'))) : createDemoFeed();
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, corsHeaders);
+    return res.end();
+  }
+  const send = (status, body) => {
+    res.writeHead(status, { ...corsHeaders, 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+  if (url.pathname === '/inplay') return send(200, feed.inplay());
+  if (url.pathname === '/odds') return send(200, feed.odds(url.searchParams.get('event_id')));
+  send(404, { success: 0, error: `Unknown route ${url.pathname}` });
+});
+
+server.listen(PORT, () => {
+  console.log(`Local feed listening on http://localhost:${PORT} (${sessionFile ? `session ${sessionFile}` : 'simulated demo match'})`);
+});
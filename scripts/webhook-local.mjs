@@ -0,0 +1,57 @@
+// Local stand-in for a Telegram/Discord webhook, for trying out notification channels.
+//
+//   node scripts/webhook-local.mjs                 -> listen on http://localhost:8789 and print every message
+//   STATUS=500 node scripts/webhook-local.mjs      -> answer every message with that status, to try failures
+//   PORT=9000 node scripts/webhook-local.mjs       -> listen on another port
+//
+// Any POST path works, so a channel can point straight at it (http://localhost:8789/any-name) or go
+// through `npm run worker:local`, which allows localhost webhooks. Telegram (`text`), Discord
+// (`content`) and plain JSON (`text`) payloads are all printed; GET /messages lists what arrived.
+import http from 'node:http';
+
+const PORT = Number(process.env.PORT || 8789);
+const STATUS = Number(process.env.STATUS || 200);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET,POST,OPTIONS',
+  'Access-Control-Allow-Headers': '*',
+};
+
+const messages = [];
+
+const readBody = async (req) => {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+const server = http.createServer(async (req, res) => {
+  const send = (status, body) => {
+    res.writeHead(status, { ...corsHeaders, 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, corsHeaders);
+    return res.end();
+  }
+  if (req.method === 'GET' && req.url === '/messages') return send(200, messages);
+  if (req.method !== 'POST') return send(405, { ok: false, description: 'POST a message' });
+
+  let payload;
+  try {
+    payload = JSON.parse(await readBody(req));
+  } catch (e) {
+    return send(400, { ok: false, description: 'Body is not JSON' });
+  }
+  const text = payload.text ?? payload.content ?? JSON.stringify(payload);
+  messages.push({ path: req.url, receivedAt: new Date().toISOString(), payload });
+  console.log(`--- ${req.url}${payload.chat_id ? ` (chat ${payload.chat_id})` : ''} -> ${STATUS}\n${text}\n`);
+  // Shaped like Telegram's answer; Discord clients only look at the status
+  if (STATUS >= 400) return send(STATUS, { ok: false, description: `Stand-in answering ${STATUS}` });
+  send(STATUS, { ok: true, result: { message_id: messages.length } });
+});
+
+server.listen(PORT, () => {
+  console.log(`Webhook stand-in listening on http://localhost:${PORT}${STATUS !== 200 ? ` (answering ${STATUS})` : ''}`);
+});
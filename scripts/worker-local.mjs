@@ -0,0 +1,90 @@
+// Runs worker.js under Node with in-memory KV namespaces and a stubbed B365 upstream.
+//
+//   npm run feed:local                 -> start the stand-in feed first (default http://localhost:8787)
+//   npm run worker:local               -> the Worker on http://localhost:8788, upstream = the local feed
+//   PROXY_URL=http://localhost:8788 npm run dev
+//
+// Environment: PORT (8788), UPSTREAM (http://localhost:8787), B365_TOKEN (local-token),
+// CLIENT_KEYS and RATE_LIMIT_PER_MINUTE as in the Worker, WEBHOOK_HOSTS (localhost, so POST /notify
+// reaches the webhook stand-in from `npm run webhook:local`).
+//
+// The stub only answers requests the Worker sends to api.b365api.com with the right token,
+// so anything that slips past the allowlist or token injection shows up as an error here.
+import http from 'node:http';
+import { handleRequest } from '../worker.js';
+
+const PORT = Number(process.env.PORT || 8788);
+const UPSTREAM = (process.env.UPSTREAM || 'http://localhost:8787').replace(/\/+$/, '');
+
+const env = {
+  B365_TOKEN: process.env.B365_TOKEN || 'local-token',
+  CLIENT_KEYS: process.env.CLIENT_KEYS || '',
+  RATE_LIMIT_PER_MINUTE: process.env.RATE_LIMIT_PER_MINUTE,
+  WEBHOOK_HOSTS: process.env.WEBHOOK_HOSTS || 'localhost,127.0.0.1',
+  B365_CACHE: createMemoryKV(),
+  B365_ARCHIVE: createMemoryKV(),
+};
+
+// Archiving runs after the response, as with waitUntil on Cloudflare
+const ctx = { waitUntil: (promise) => promise.catch(err => console.error('waitUntil failed:', err)) };
+
+function createMemoryKV() {
+  const entries = new Map();
+  return {
+    get: async (key) => {
+      const entry = entries.get(key);
+      if (!entry || entry.expiresAt < Date.now()) return null;
+      return entry.value;
+    },
+    put: async (key, value, options = {}) => {
+      const ttlMs = options.expirationTtl ? options.expirationTtl * 1000 : Infinity;
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+    },
+  };
+}
+
+const UPSTREAM_ROUTES = {
+  '/v3/events/inplay': () => `${UPSTREAM}/inplay`,
+  '/v2/event/odds': (params) => `${UPSTREAM}/odds?event_id=${encodeURIComponent(params.get('event_id') || '')}`,
+};
+
+const stubUpstream = async (targetUrl, init) => {
+  const url = new URL(targetUrl);
+  const route = UPSTREAM_ROUTES[url.pathname];
+  if (url.hostname !== 'api.b365api.com' || !route) {
+    console.error(`Stub upstream: unexpected request to ${url.hostname}${url.pathname}`);
+    return new Response(JSON.stringify({ success: 0, error: 'unexpected upstream request' }), { status: 404 });
+  }
+  if (url.searchParams.get('token') !== env.B365_TOKEN) {
+    return new Response(JSON.stringify({ success: 0, error: 'INVALID_TOKEN' }), { status: 403 });
+  }
+  console.log(`Stub upstream: ${url.pathname} -> ${route(url.searchParams)}`);
+  return fetch(route(url.searchParams), init);
+};
+
+const readBody = async (req) => {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  return Buffer.concat(chunks);
+};
+
+const server = http.createServer(async (req, res) => {
+  const request = new Request(`http://localhost:${PORT}${req.url}`, {
+    method: req.method,
+    headers: { ...req.headers, 'CF-Connecting-IP': req.socket.remoteAddress || 'local' },
+    body: req.method === 'GET' || req.method === 'HEAD' ? undefined : await readBody(req),
+  });
+  try {
+    const response = await handleRequest(request, env, ctx, stubUpstream);
+    res.writeHead(response.status, Object.fromEntries(response.headers));
+    res.end(Buffer.from(await response.arrayBuffer()));
+    console.log(`${req.method} ${req.url} -> ${response.status} ${response.headers.get('X-Proxy-Cache') || ''}`);
+  } catch (err) {
+    res.writeHead(500, { 'Content-Type': 'text/plain' });
+    res.end(String(err));
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Worker listening on http://localhost:${PORT} (upstream stub -> ${UPSTREAM})`);
+});
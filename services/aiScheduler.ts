@@ -0,0 +1,167 @@
+import { GoalPredictionInput } from './llmPrompt';
+import { MessageKey, t } from './i18n';
+
+/**
+ * AI SCHEDULER:
+ * Decides when the Dashboard asks the AI backend for a prediction on its own, instead of on a
+ * fixed interval or only when the TrendingUp button is tapped.
+ *
+ * A call is considered when something meaningful happened between two refreshes:
+ *   - goal / red card:    the score or red-card count went up
+ *   - shot spike:         the shot cluster crossed `shotClusterThreshold`
+ *   - over-line move:     the over/under line changed
+ *   - 70th minute:        the match entered the last 20 minutes
+ * A trigger that comes within `minGapSeconds` of the previous call for the match is deferred
+ * (`retry`): the Dashboard keeps it pending and asks again on later refreshes, so the gap delays
+ * calls instead of dropping them. It is skipped for good when the per-match or per-day budget is
+ * spent (a budget that frees up later should not answer a stale trigger) or when the prompt
+ * inputs are unchanged since the last prediction. Manual taps bypass triggers and the gap but
+ * still count against budgets.
+ *
+ * Settings live in localStorage under `aiSchedulerSettings`, usage under `aiSchedulerUsage`
+ * (reset at local midnight).
+ */
+const SETTINGS_KEY = 'aiSchedulerSettings';
+const USAGE_KEY = 'aiSchedulerUsage';
+
+export type AITrigger = 'goal' | 'redCard' | 'shotSpike' | 'overLineMove' | 'minute70';
+
+export const TRIGGER_LABELS: Record<AITrigger, MessageKey> = {
+  goal: 'scheduler.trigger.goal',
+  redCard: 'scheduler.trigger.redCard',
+  shotSpike: 'scheduler.trigger.shotSpike',
+  overLineMove: 'scheduler.trigger.overLineMove',
+  minute70: 'scheduler.trigger.minute70',
+};
+
+export interface AISchedulerSettings {
+  enabled: boolean;
+  triggers: Record<AITrigger, boolean>;
+  shotClusterThreshold: number;
+  minGapSeconds: number;
+  perMatchBudget: number;
+  perDayBudget: number;
+}
+
+export const DEFAULT_SCHEDULER_SETTINGS: AISchedulerSettings = {
+  enabled: true,
+  triggers: { goal: true, redCard: true, shotSpike: true, overLineMove: true, minute70: true },
+  shotClusterThreshold: 120,
+  minGapSeconds: 180,
+  perMatchBudget: 8,
+  perDayBudget: 40,
+};
+
+interface AISchedulerUsage {
+  day: string; // Local date the counts belong to
+  dayCount: number;
+  perMatch: Record<string, { count: number; lastCallAt: number; inputsKey: string }>;
+}
+
+// What the triggers compare between two refreshes
+export interface SchedulerObservation {
+  minute: number;
+  goals: number;
+  redCards: number;
+  shotCluster: number;
+  overLine: string | null;
+}
+
+export type ScheduleDecision = { run: true } | { run: false; reason: string; retry?: boolean };
+
+const loadJson = <T,>(key: string, fallback: T): T => {
+  const saved = localStorage.getItem(key);
+  if (!saved) return fallback;
+  try {
+    return { ...fallback, ...JSON.parse(saved) };
+  } catch (e) {
+    console.error(`Failed to parse ${key}:`, e);
+    return fallback;
+  }
+};
+
+export const loadSchedulerSettings = (): AISchedulerSettings => {
+  const settings = loadJson(SETTINGS_KEY, DEFAULT_SCHEDULER_SETTINGS);
+  return { ...settings, triggers: { ...DEFAULT_SCHEDULER_SETTINGS.triggers, ...settings.triggers } };
+};
+
+export const saveSchedulerSettings = (settings: AISchedulerSettings) => localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+
+const localDay = (now: number) => new Date(now).toLocaleDateString('sv-SE'); // YYYY-MM-DD
+
+const loadUsage = (now: number): AISchedulerUsage => {
+  const usage = loadJson<AISchedulerUsage>(USAGE_KEY, { day: localDay(now), dayCount: 0, perMatch: {} });
+  return usage.day === localDay(now) ? usage : { day: localDay(now), dayCount: 0, perMatch: {} };
+};
+
+export const getSchedulerUsage = (matchId: string, now = Date.now()) => {
+  const usage = loadUsage(now);
+  return { dayCount: usage.dayCount, matchCount: usage.perMatch[matchId]?.count || 0, lastCallAt: usage.perMatch[matchId]?.lastCallAt ?? null };
+};
+
+export const detectTriggers = (previous: SchedulerObservation | null, next: SchedulerObservation, settings: AISchedulerSettings): AITrigger[] => {
+  if (!previous) return [];
+  const fired: AITrigger[] = [];
+  if (next.goals > previous.goals) fired.push('goal');
+  if (next.redCards > previous.redCards) fired.push('redCard');
+  if (next.shotCluster >= settings.shotClusterThreshold && previous.shotCluster < settings.shotClusterThreshold) fired.push('shotSpike');
+  if (previous.overLine !== null && next.overLine !== null && next.overLine !== previous.overLine) fired.push('overLineMove');
+  if (previous.minute < 70 && next.minute >= 70) fired.push('minute70');
+  return fired.filter(trigger => settings.triggers[trigger]);
+};
+
+/**
+ * Fingerprint of what the model would be told. The minute is left out on purpose: the clock
+ * ticking on with nothing else changing is not worth a new call.
+ */
+export const inputsKey = (input: GoalPredictionInput): string => JSON.stringify([
+  input.homeScore,
+  input.awayScore,
+  input.stats,
+  input.latestOverOdds,
+  input.latestHomeOdds,
+  Math.round(input.apiMomentum),
+  Math.round(input.shotCluster),
+  Math.round(input.pressure),
+  input.teamPressure?.index,
+]);
+
+export const decideScheduledCall = (
+  matchId: string,
+  triggers: AITrigger[],
+  key: string,
+  settings: AISchedulerSettings = loadSchedulerSettings(),
+  now = Date.now(),
+): ScheduleDecision => {
+  if (!settings.enabled) return { run: false, reason: t('scheduler.disabled') };
+  if (triggers.length === 0) return { run: false, reason: t('scheduler.noTrigger') };
+  const usage = loadUsage(now);
+  const match = usage.perMatch[matchId];
+  if (match && now - match.lastCallAt < settings.minGapSeconds * 1000) {
+    return { run: false, reason: t('scheduler.tooSoon', { seconds: settings.minGapSeconds }), retry: true };
+  }
+  if ((match?.count || 0) >= settings.perMatchBudget) return { run: false, reason: t('scheduler.matchBudget', { budget: settings.perMatchBudget }) };
+  if (usage.dayCount >= settings.perDayBudget) return { run: false, reason: t('scheduler.dayBudget', { budget: settings.perDayBudget }) };
+  if (match && match.inputsKey === key) return { run: false, reason: t('scheduler.unchanged') };
+  return { run: true };
+};
+
+// Manual taps ignore triggers, gap and unchanged inputs, but not the budgets
+export const checkManualCall = (matchId: string, settings: AISchedulerSettings = loadSchedulerSettings(), now = Date.now()): ScheduleDecision => {
+  const usage = loadUsage(now);
+  if ((usage.perMatch[matchId]?.count || 0) >= settings.perMatchBudget) return { run: false, reason: t('scheduler.matchBudget', { budget: settings.perMatchBudget }) };
+  if (usage.dayCount >= settings.perDayBudget) return { run: false, reason: t('scheduler.dayBudget', { budget: settings.perDayBudget }) };
+  return { run: true };
+};
+
+export const recordAICall = (matchId: string, key: string, now = Date.now()) => {
+  const usage = loadUsage(now);
+  const previous = usage.perMatch[matchId];
+  usage.perMatch[matchId] = { count: (previous?.count || 0) + 1, lastCallAt: now, inputsKey: key };
+  usage.dayCount += 1;
+  try {
+    localStorage.setItem(USAGE_KEY, JSON.stringify(usage));
+  } catch (e) {
+    console.warn('Could not save AI scheduler usage (storage full?):', e);
+  }
+};
@@ -0,0 +1,196 @@
+import { AlertCondition, AlertHistoryEntry, AlertOperator, AlertRule, AlertSignal, PreGoalAnalysis } from '../types';
+import { OverOddsPoint, HomeOddsPoint } from './analysis';
+import { MessageKey, t } from './i18n';
+
+/**
+ * ALERT RULES:
+ * User-defined AND-rules over the signals the app already computes, e.g.
+ * "apiMomentum > 15 AND overOddsChange(3') < -0.1 AND minute between 60 and 85".
+ *
+ * Rules are evaluated on every refresh (Dashboard and watchlist). A rule fires when it
+ * becomes true for a match, not on every refresh while it stays true. Fired alerts go to
+ * the alert history and to every subscriber (the in-app toasts).
+ *
+ * Rules live in localStorage under `alertRules`, fired alerts under `alertHistory`.
+ */
+const RULES_KEY = 'alertRules';
+const HISTORY_KEY = 'alertHistory';
+const MAX_HISTORY = 500;
+
+export const SIGNAL_DEFINITIONS: Record<AlertSignal, { label: MessageKey; usesWindow?: boolean }> = {
+  minute: { label: 'alerts.signal.minute' },
+  apiMomentum: { label: 'alerts.signal.apiMomentum' },
+  shotCluster: { label: 'alerts.signal.shotCluster' },
+  pressure: { label: 'alerts.signal.pressure' },
+  homePressure: { label: 'alerts.signal.homePressure' },
+  awayPressure: { label: 'alerts.signal.awayPressure' },
+  pressureGap: { label: 'alerts.signal.pressureGap' },
+  localProbability: { label: 'alerts.signal.localProbability' },
+  aiProbability: { label: 'alerts.signal.aiProbability' },
+  totalGoals: { label: 'alerts.signal.totalGoals' },
+  goalDifference: { label: 'alerts.signal.goalDifference' },
+  redCards: { label: 'alerts.signal.redCards' },
+  overOdds: { label: 'alerts.signal.overOdds' },
+  overOddsChange: { label: 'alerts.signal.overOddsChange', usesWindow: true },
+  homeOddsChange: { label: 'alerts.signal.homeOddsChange', usesWindow: true },
+};
+
+export const OPERATORS: AlertOperator[] = ['>', '>=', '<', '<=', 'between'];
+
+// Everything a rule can look at for one match at one refresh
+export interface AlertSignalContext {
+  matchId: string;
+  home: string;
+  away: string;
+  ss: string;
+  minute: number;
+  factors: PreGoalAnalysis['factors'];
+  localProbability: number | null;
+  aiProbability: number | null;
+  redCards: number | null;
+  overOddsHistory: OverOddsPoint[];
+  homeOddsHistory: HomeOddsPoint[];
+}
+
+// --- Storage ---
+
+const loadJson = <T,>(key: string, fallback: T): T => {
+  const saved = localStorage.getItem(key);
+  if (!saved) return fallback;
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    console.error(`Failed to parse ${key}:`, e);
+    return fallback;
+  }
+};
+
+export const loadAlertRules = (): AlertRule[] => loadJson<AlertRule[]>(RULES_KEY, []);
+
+export const saveAlertRules = (rules: AlertRule[]) => localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+
+export const loadAlertHistory = (): AlertHistoryEntry[] => loadJson<AlertHistoryEntry[]>(HISTORY_KEY, []);
+
+export const clearAlertHistory = () => localStorage.removeItem(HISTORY_KEY);
+
+// --- Evaluation ---
+
+/**
+ * Change of the latest price within `window` minutes, on the latest line only:
+ * a line change moves the price by itself and would read as a huge swing.
+ */
+const priceChange = <T extends { minute: number; handicap: string }>(history: T[], price: (p: T) => number, window: number): number | null => {
+  if (history.length < 2) return null;
+  const latest = history[history.length - 1];
+  const start = history.find(p => p.handicap === latest.handicap && p.minute >= latest.minute - window);
+  if (!start || start === latest) return null;
+  return price(latest) - price(start);
+};
+
+export const evaluateSignal = (signal: AlertSignal, ctx: AlertSignalContext, window = 3): number | null => {
+  const [homeScore, awayScore] = (ctx.ss || '0-0').split('-').map(part => parseInt(part) || 0);
+  switch (signal) {
+    case 'minute': return ctx.minute;
+    case 'apiMomentum': return ctx.factors.apiMomentum;
+    case 'shotCluster': return ctx.factors.shotCluster;
+    case 'pressure': return ctx.factors.pressure;
+    case 'homePressure': return ctx.factors.homePressure ?? null;
+    case 'awayPressure': return ctx.factors.awayPressure ?? null;
+    case 'pressureGap':
+      return ctx.factors.homePressure === undefined || ctx.factors.awayPressure === undefined
+        ? null
+        : ctx.factors.homePressure - ctx.factors.awayPressure;
+    case 'localProbability': return ctx.localProbability;
+    case 'aiProbability': return ctx.aiProbability;
+    case 'totalGoals': return (homeScore || 0) + (awayScore || 0);
+    case 'goalDifference': return Math.abs((homeScore || 0) - (awayScore || 0));
+    case 'redCards': return ctx.redCards;
+    case 'overOdds': return ctx.overOddsHistory.length > 0 ? ctx.overOddsHistory[ctx.overOddsHistory.length - 1].over : null;
+    case 'overOddsChange': return priceChange(ctx.overOddsHistory, p => p.over, window);
+    case 'homeOddsChange': return priceChange(ctx.homeOddsHistory, p => p.home, window);
+    default: return null;
+  }
+};
+
+const compare = (value: number, condition: AlertCondition): boolean => {
+  switch (condition.operator) {
+    case '>': return value > condition.value;
+    case '>=': return value >= condition.value;
+    case '<': return value < condition.value;
+    case '<=': return value <= condition.value;
+    case 'between': return value >= condition.value && value <= (condition.value2 ?? condition.value);
+    default: return false;
+  }
+};
+
+// A signal that is not available (e.g. no odds yet) never satisfies a condition
+export const evaluateRule = (rule: AlertRule, ctx: AlertSignalContext): boolean =>
+  rule.conditions.length > 0 && rule.conditions.every(condition => {
+    const value = evaluateSignal(condition.signal, ctx, condition.window);
+    return value !== null && compare(value, condition);
+  });
+
+export const describeCondition = (condition: AlertCondition): string => {
+  const label = t(SIGNAL_DEFINITIONS[condition.signal].label);
+  const windowText = SIGNAL_DEFINITIONS[condition.signal].usesWindow ? ` (${condition.window ?? 3}')` : '';
+  if (condition.operator === 'between') return t('alerts.between', { signal: `${label}${windowText}`, from: condition.value, to: condition.value2 ?? condition.value });
+  return `${label}${windowText} ${condition.operator} ${condition.value}`;
+};
+
+// --- Firing ---
+
+type AlertListener = (alert: AlertHistoryEntry) => void;
+const listeners = new Set<AlertListener>();
+
+// Whether each match/rule pair was true at its last evaluation, so a rule fires once per episode
+const activeRules: Record<string, boolean> = {};
+
+export const subscribeToAlerts = (listener: AlertListener): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+/**
+ * Evaluates all enabled rules for one match and fires the ones that just became true.
+ * Returns the alerts fired by this call.
+ */
+export const evaluateAlertRules = (ctx: AlertSignalContext, rules: AlertRule[] = loadAlertRules()): AlertHistoryEntry[] => {
+  const fired: AlertHistoryEntry[] = [];
+  rules.filter(rule => rule.enabled).forEach(rule => {
+    const key = `${ctx.matchId}:${rule.id}`;
+    const isTrue = evaluateRule(rule, ctx);
+    const wasTrue = activeRules[key] || false;
+    activeRules[key] = isTrue;
+    if (!isTrue || wasTrue) return;
+
+    const signals: Partial<Record<AlertSignal, number>> = {};
+    rule.conditions.forEach(c => {
+      const value = evaluateSignal(c.signal, ctx, c.window);
+      if (value !== null) signals[c.signal] = value;
+    });
+    const firedAt = Date.now();
+    fired.push({
+      id: `${rule.id}-${ctx.matchId}-${firedAt}`,
+      ruleId: rule.id,
+      ruleName: rule.name,
+      matchId: ctx.matchId,
+      home: ctx.home,
+      away: ctx.away,
+      ss: ctx.ss,
+      minute: ctx.minute,
+      firedAt,
+      signals,
+    });
+  });
+
+  if (fired.length > 0) {
+    const history = [...loadAlertHistory(), ...fired].slice(-MAX_HISTORY);
+    try {
+      localStorage.setItem(HISTORY_KEY, JSON.stringify(history));
+    } catch (e) {
+      console.warn('Could not save alert history (storage full?):', e);
+    }
+    fired.forEach(alert => listeners.forEach(listener => listener(alert)));
+  }
+  return fired;
+};
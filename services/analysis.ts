@@ -0,0 +1,265 @@
+import { ApiScoreWeights, OddsData, PreGoalAnalysis, ProcessedStats } from '../types';
+import { parseLine } from './marketAnalytics';
+import { parseMinute } from './matchClock';
+import { activeApiWeights } from './apiScoreProfiles';
+
+/**
+ * TRADITIONAL FACTORS:
+ * Pure helpers shared by the Dashboard (prompt inputs, local model), the background watchlist
+ * monitor and anything else that needs the API score, the odds bubbles, the
+ * momentum/shot-cluster/pressure factors, or the per-team pressure index.
+ */
+
+// Stats keyed by match clock (services/matchClock.ts clockKey: 45+2 is 45.02), as kept per match in the match store
+export type StatsHistory = Record<number, ProcessedStats>;
+
+export const EMPTY_STATS: ProcessedStats = {
+  attacks: [0, 0],
+  dangerous_attacks: [0, 0],
+  on_target: [0, 0],
+  off_target: [0, 0],
+  corners: [0, 0],
+  yellowcards: [0, 0],
+  redcards: [0, 0],
+};
+
+// Weighted event count for one side; the active profile's weights unless others are given (e.g. to compare)
+export const calculateAPIScore = (stats: ProcessedStats | undefined, sideIndex: 0 | 1, weights: ApiScoreWeights = activeApiWeights()): number => {
+  if (!stats) return 0;
+  const onTarget = stats.on_target[sideIndex];
+  const offTarget = stats.off_target[sideIndex];
+  const shots = onTarget + offTarget;
+  return (shots * weights.shots)
+    + (onTarget * weights.onTarget)
+    + (stats.corners[sideIndex] * weights.corners)
+    + (stats.dangerous_attacks[sideIndex] * weights.dangerousAttacks)
+    + (stats.attacks[sideIndex] * weights.attacks)
+    + (stats.yellowcards[sideIndex] * weights.yellowCards)
+    + (stats.redcards[sideIndex] * weights.redCards);
+};
+
+const sortedMinutes = (statsHistory: StatsHistory) => Object.keys(statsHistory).map(Number).sort((a, b) => a - b);
+
+// Latest recorded stats at or before `minute`, falling back to the first sample
+const statsAtOrBefore = (statsHistory: StatsHistory, minute: number): ProcessedStats => {
+  const allTimes = sortedMinutes(statsHistory);
+  const pastTimes = allTimes.filter(t => t <= minute);
+  const pastTime = pastTimes.length > 0 ? Math.max(...pastTimes) : (allTimes[0] || 0);
+  return statsHistory[pastTime] || EMPTY_STATS;
+};
+
+// Change of the combined (home + away) API score over the last `window` minutes
+export const getAPIMomentumAt = (statsHistory: StatsHistory, currentStats: ProcessedStats | undefined, minute: number, window: number): number => {
+  if (!currentStats) return 0;
+  const currentTotal = calculateAPIScore(currentStats, 0) + calculateAPIScore(currentStats, 1);
+  const pastStats = statsAtOrBefore(statsHistory, Math.max(0, minute - window));
+  const pastTotal = calculateAPIScore(pastStats, 0) + calculateAPIScore(pastStats, 1);
+  return currentTotal - pastTotal;
+};
+
+// Shot totals (on target weighted 3.0, off target 1.0) of every sample in the last `window` minutes,
+// added up. This is the factor as the Dashboard always computed it, so its scale (and the thresholds
+// tuned on it) grows with the match and with the number of samples.
+export const getShotClusterScore = (statsHistory: StatsHistory, minute: number, window: number): number => {
+  const minT = Math.max(0, minute - window + 1);
+  return sortedMinutes(statsHistory)
+    .filter(t => t >= minT && t <= minute)
+    .reduce((score, t) => {
+      const s = statsHistory[t];
+      return score + (s.on_target[0] + s.on_target[1]) * 3.0 + (s.off_target[0] + s.off_target[1]) * 1.0;
+    }, 0);
+};
+
+// --- Per-Team Pressure ---
+// The factors above add both sides together; these keep them apart so we can tell who is pushing.
+
+export interface TeamWindowStats {
+  dangerousAttacks: number;
+  shots: number;
+  onTarget: number;
+  corners: number;
+}
+
+export interface TeamPressure {
+  window5: [TeamWindowStats, TeamWindowStats]; // [home, away], last 5 minutes
+  window10: [TeamWindowStats, TeamWindowStats]; // last 10 minutes
+  index: [number, number]; // 0-100 pressure index over the last 5 minutes
+}
+
+// Pressure index weights per event in the window; the raw sum saturates towards 100
+const PRESSURE_WEIGHTS = { dangerousAttacks: 1.0, onTarget: 4.0, offTarget: 2.0, corners: 2.5 };
+const PRESSURE_SCALE = 12; // A raw 12 (e.g. 5 dangerous attacks, a shot on target, a corner) reads as 63
+
+const teamWindow = (current: ProcessedStats, past: ProcessedStats, side: 0 | 1): TeamWindowStats => {
+  const delta = (key: keyof ProcessedStats) => Math.max(0, current[key][side] - past[key][side]);
+  return {
+    dangerousAttacks: delta('dangerous_attacks'),
+    shots: delta('on_target') + delta('off_target'),
+    onTarget: delta('on_target'),
+    corners: delta('corners'),
+  };
+};
+
+const pressureIndex = (w: TeamWindowStats): number => {
+  const raw = w.dangerousAttacks * PRESSURE_WEIGHTS.dangerousAttacks
+    + w.onTarget * PRESSURE_WEIGHTS.onTarget
+    + (w.shots - w.onTarget) * PRESSURE_WEIGHTS.offTarget
+    + w.corners * PRESSURE_WEIGHTS.corners;
+  return Math.round((1 - Math.exp(-raw / PRESSURE_SCALE)) * 100);
+};
+
+export const computeTeamPressure = (statsHistory: StatsHistory, currentStats: ProcessedStats | undefined, minute: number): TeamPressure => {
+  const current = currentStats || EMPTY_STATS;
+  const past5 = statsAtOrBefore(statsHistory, Math.max(0, minute - 5));
+  const past10 = statsAtOrBefore(statsHistory, Math.max(0, minute - 10));
+  const window5: TeamPressure['window5'] = [teamWindow(current, past5, 0), teamWindow(current, past5, 1)];
+  const window10: TeamPressure['window10'] = [teamWindow(current, past10, 0), teamWindow(current, past10, 1)];
+  return { window5, window10, index: [pressureIndex(window5[0]), pressureIndex(window5[1])] };
+};
+
+// Pressure index at every recorded minute, oldest first, for the momentum chart
+export const buildPressureSeries = (statsHistory: StatsHistory): { minute: number; home: number; away: number }[] =>
+  sortedMinutes(statsHistory).map(minute => {
+    const { index } = computeTeamPressure(statsHistory, statsHistory[minute], minute);
+    return { minute, home: index[0], away: index[1] };
+  });
+
+// --- Odds Histories & Market Bubbles ---
+
+// `minute` is the regular minute; `added` the stoppage minutes on top of it ("45+2" is 45 and 2)
+export interface OverOddsPoint { minute: number; added?: number; over: number; under: number; handicap: string; ss?: string }
+export interface HomeOddsPoint { minute: number; added?: number; home: number; away: number; handicap: string }
+
+// A chart bubble: green = stable price, yellow = price moving towards a goal, red = otherwise
+export interface MarketChartPoint {
+  minute: number;
+  added?: number;
+  handicap: number;
+  color: string;
+  colorName: 'red' | 'yellow' | 'green';
+  highlight: boolean; // Part of a run of three same-coloured bubbles within 5 minutes
+  over?: number;
+  under?: number;
+  home?: number;
+  away?: number;
+}
+
+// time_str is "67" or, in stoppage time, "45+2"
+const oddsClock = (timeStr: string): { minute: number; added?: number } => {
+  const clock = parseMinute(timeStr);
+  if (!clock) return { minute: 0 };
+  return clock.added > 0 ? { minute: clock.minute, added: clock.added } : { minute: clock.minute };
+};
+
+// 45+3 sorts before 46 and 90+5 before 91
+const byClock = (a: { minute: number; added?: number }, b: { minute: number; added?: number }) =>
+  (a.minute + (a.added || 0) / 100) - (b.minute + (b.added || 0) / 100);
+
+// Over/under (1_3) history from a raw odds response, oldest first; null when the market is missing
+export const toOverOddsHistory = (odds: OddsData): OverOddsPoint[] | null => {
+  const overMarkets = odds.results?.odds?.['1_3'];
+  if (!overMarkets) return null;
+  return overMarkets
+    .filter(m => m.time_str && m.over_od && m.under_od && m.handicap)
+    .map(m => ({ ...oddsClock(m.time_str!), over: parseFloat(m.over_od!), under: parseFloat(m.under_od!), handicap: m.handicap!, ss: m.ss }))
+    .sort(byClock);
+};
+
+// Asian handicap (1_2) history from a raw odds response, oldest first; null when the market is missing
+export const toHomeOddsHistory = (odds: OddsData): HomeOddsPoint[] | null => {
+  const homeMarkets = odds.results?.odds?.['1_2'];
+  if (!homeMarkets) return null;
+  return homeMarkets
+    .filter(m => m.time_str && m.home_od && m.away_od && m.handicap)
+    .map(m => ({ ...oddsClock(m.time_str!), home: parseFloat(m.home_od!), away: parseFloat(m.away_od!), handicap: m.handicap! }))
+    .sort(byClock);
+};
+
+const groupByHandicap = <T extends { handicap: string }>(points: T[]): Record<string, T[]> => {
+  const dataByHandicap: Record<string, T[]> = {};
+  points.forEach(p => {
+    if (!dataByHandicap[p.handicap]) dataByHandicap[p.handicap] = [];
+    dataByHandicap[p.handicap].push(p);
+  });
+  return dataByHandicap;
+};
+
+const markHighlightRuns = (coloredPoints: MarketChartPoint[]) => {
+  for (let i = 0; i <= coloredPoints.length - 3; i++) {
+    const [b1, b2, b3] = [coloredPoints[i], coloredPoints[i+1], coloredPoints[i+2]];
+    if (b3.minute - b1.minute < 5 && (b1.colorName === 'yellow' || b1.colorName === 'green') && b1.colorName === b2.colorName && b2.colorName === b3.colorName && !b1.highlight) {
+      b1.highlight = b2.highlight = b3.highlight = true;
+    }
+  }
+};
+
+export const buildOverMarketChartData = (oddsHistory: OverOddsPoint[]): MarketChartPoint[] => {
+  const finalData: MarketChartPoint[] = [];
+  const dataByHandicap = groupByHandicap(oddsHistory);
+  for (const handicapKey in dataByHandicap) {
+    const points = dataByHandicap[handicapKey];
+    const coloredPoints = points.map((point, index): MarketChartPoint => {
+      let color = '#f87171', colorName: MarketChartPoint['colorName'] = 'red';
+      if (index > 0) {
+        const diff = point.over - points[index - 1].over;
+        if (diff < -0.02) { color = '#facc15'; colorName = 'yellow'; }
+        else if (Math.abs(diff) <= 0.02) { color = '#4ade80'; colorName = 'green'; }
+      }
+      return { ...point, handicap: parseLine(point.handicap), color, colorName, highlight: false };
+    });
+    markHighlightRuns(coloredPoints);
+    finalData.push(...coloredPoints);
+  }
+  return finalData;
+};
+
+export const buildHomeMarketChartData = (homeOddsHistory: HomeOddsPoint[]): MarketChartPoint[] => {
+  const finalData: MarketChartPoint[] = [];
+  const dataByHandicap = groupByHandicap(homeOddsHistory);
+  for (const handicapKey in dataByHandicap) {
+    const points = dataByHandicap[handicapKey];
+    const coloredPoints = points.map((point, index): MarketChartPoint => {
+      let color = '#f87171', colorName: MarketChartPoint['colorName'] = 'red';
+      const handicapValue = parseLine(point.handicap);
+      if (index > 0) {
+        const diff = point.home - points[index - 1].home;
+        // The favourite's price falling (negative handicap) or the underdog's rising both point to home pressure
+        if (handicapValue < 0) {
+          if (diff < -0.02) { color = '#facc15'; colorName = 'yellow'; }
+          else if (Math.abs(diff) <= 0.02) { color = '#4ade80'; colorName = 'green'; }
+        } else {
+          if (diff > 0.02) { color = '#facc15'; colorName = 'yellow'; }
+          else if (Math.abs(diff) <= 0.02) { color = '#4ade80'; colorName = 'green'; }
+        }
+      }
+      return { ...point, handicap: handicapValue, color, colorName, highlight: false };
+    });
+    markHighlightRuns(coloredPoints);
+    finalData.push(...coloredPoints);
+  }
+  return finalData;
+};
+
+// Number of stable/falling odds bubbles in the last `range` minutes; highlighted runs count 1.6
+export const getBubbleIntensity = (chartData: MarketChartPoint[], minute: number, range: number): number => {
+  const minT = Math.max(0, minute - range);
+  return chartData.filter(b => b.minute >= minT && b.minute <= minute && (b.colorName === 'green' || b.colorName === 'yellow' || b.highlight))
+                  .reduce((acc, b) => acc + (b.highlight ? 1.6 : 1.0), 0);
+};
+
+export const computeFactors = (
+  statsHistory: StatsHistory,
+  currentStats: ProcessedStats | undefined,
+  minute: number,
+  marketChartData: MarketChartPoint[],
+  homeMarketChartData: MarketChartPoint[],
+): PreGoalAnalysis['factors'] => {
+  const teams = computeTeamPressure(statsHistory, currentStats, minute);
+  return {
+    apiMomentum: getAPIMomentumAt(statsHistory, currentStats, minute, 5),
+    shotCluster: getShotClusterScore(statsHistory, minute, 5),
+    pressure: getBubbleIntensity(marketChartData, minute, 3) + getBubbleIntensity(homeMarketChartData, minute, 3),
+    homePressure: teams.index[0],
+    awayPressure: teams.index[1],
+  };
+};
@@ -0,0 +1,92 @@
+import { ApiScoreProfile, ApiScoreWeights } from '../types';
+import { t } from './i18n';
+
+/**
+ * API SCORE PROFILES:
+ * Named weight sets for the API score, so other formulas can be tried without code changes.
+ * The active profile drives every API score in the app (charts, live stats, momentum factor,
+ * prompt inputs); the built-in profile is the original formula and stays as the fallback.
+ *
+ * Profiles live in localStorage under `apiScoreProfiles`, the active id under `activeApiScoreProfile`.
+ * The active weights are cached in memory because the score is computed for every recorded minute.
+ */
+const PROFILES_KEY = 'apiScoreProfiles';
+const ACTIVE_KEY = 'activeApiScoreProfile';
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+export const DEFAULT_API_WEIGHTS: ApiScoreWeights = {
+  shots: 1.0,
+  onTarget: 3.0,
+  corners: 0.7,
+  dangerousAttacks: 0.1,
+  attacks: 0,
+  yellowCards: 0,
+  redCards: 0,
+};
+
+// Named on every load, so the built-in profile follows the current language
+const defaultProfile = (): ApiScoreProfile => ({ id: DEFAULT_PROFILE_ID, name: t('profiles.default'), weights: DEFAULT_API_WEIGHTS, builtIn: true });
+
+let cachedWeights: ApiScoreWeights | null = null;
+
+const loadJson = <T,>(key: string, fallback: T): T => {
+  const saved = localStorage.getItem(key);
+  if (!saved) return fallback;
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    console.error(`Failed to parse ${key}:`, e);
+    return fallback;
+  }
+};
+
+// The built-in profile always comes first; stored profiles get any weight added since they were saved
+export const loadProfiles = (): ApiScoreProfile[] => [
+  defaultProfile(),
+  ...loadJson<ApiScoreProfile[]>(PROFILES_KEY, [])
+    .filter(p => p.id !== DEFAULT_PROFILE_ID)
+    .map(p => ({ ...p, weights: { ...DEFAULT_API_WEIGHTS, ...p.weights }, builtIn: false })),
+];
+
+export const saveProfiles = (profiles: ApiScoreProfile[]) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles.filter(p => !p.builtIn)));
+  cachedWeights = null;
+};
+
+export const loadActiveProfileId = (): string => localStorage.getItem(ACTIVE_KEY) || DEFAULT_PROFILE_ID;
+
+export const setActiveProfile = (id: string) => {
+  localStorage.setItem(ACTIVE_KEY, id);
+  cachedWeights = null;
+};
+
+// A deleted or unknown active id falls back to the built-in profile
+export const getActiveProfile = (): ApiScoreProfile => {
+  const id = loadActiveProfileId();
+  return loadProfiles().find(p => p.id === id) || defaultProfile();
+};
+
+export const activeApiWeights = (): ApiScoreWeights => {
+  if (!cachedWeights) cachedWeights = getActiveProfile().weights;
+  return cachedWeights;
+};
+
+export const createProfile = (profiles: ApiScoreProfile[], name: string, weights: ApiScoreWeights): ApiScoreProfile[] => {
+  const next = [...profiles, { id: `profile-${Date.now()}`, name, weights: { ...weights } }];
+  saveProfiles(next);
+  return next;
+};
+
+export const updateProfile = (profiles: ApiScoreProfile[], id: string, patch: Partial<Pick<ApiScoreProfile, 'name' | 'weights'>>): ApiScoreProfile[] => {
+  const next = profiles.map(p => (p.id === id && !p.builtIn ? { ...p, ...patch } : p));
+  saveProfiles(next);
+  return next;
+};
+
+export const deleteProfile = (profiles: ApiScoreProfile[], id: string): ApiScoreProfile[] => {
+  const next = profiles.filter(p => p.id !== id || p.builtIn);
+  saveProfiles(next);
+  if (loadActiveProfileId() === id) setActiveProfile(DEFAULT_PROFILE_ID);
+  return next;
+};
@@ -0,0 +1,125 @@
+import { ApiBudget, ApiCallRecord } from '../types';
+import { t } from './i18n';
+
+/**
+ * API USAGE:
+ * Every B365 request made through the proxy is recorded here (endpoint, event, X-Proxy-Cache,
+ * latency, status), so we can see what we spend per hour against the plan.
+ *
+ * Only calls the Worker could not answer from cache (MISS, or no header) reach B365 and count
+ * against the caps. Once a cap is reached, non-essential polling (the watchlist monitor and
+ * AI refreshes) pauses; the match list and the open Dashboard keep polling.
+ *
+ * The log lives in localStorage under `apiUsageLog` (last RETENTION_MS only), the caps under `apiBudget`.
+ */
+const LOG_KEY = 'apiUsageLog';
+const BUDGET_KEY = 'apiBudget';
+const RETENTION_MS = 48 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+export const DEFAULT_API_BUDGET: ApiBudget = { hourlyCap: 300, dailyCap: 3000 };
+
+export const loadApiUsage = (): ApiCallRecord[] => {
+  const saved = localStorage.getItem(LOG_KEY);
+  if (!saved) return [];
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    console.error('Failed to parse API usage log:', e);
+    return [];
+  }
+};
+
+export const clearApiUsage = () => localStorage.removeItem(LOG_KEY);
+
+export const recordApiCall = (record: ApiCallRecord) => {
+  const cutoff = record.timestamp - RETENTION_MS;
+  const log = [...loadApiUsage().filter(r => r.timestamp >= cutoff), record];
+  try {
+    localStorage.setItem(LOG_KEY, JSON.stringify(log));
+  } catch (e) {
+    console.warn('Could not save API usage log (storage full?):', e);
+  }
+};
+
+export const loadApiBudget = (): ApiBudget => {
+  const saved = localStorage.getItem(BUDGET_KEY);
+  if (!saved) return DEFAULT_API_BUDGET;
+  try {
+    return { ...DEFAULT_API_BUDGET, ...JSON.parse(saved) };
+  } catch (e) {
+    console.error('Failed to parse API budget:', e);
+    return DEFAULT_API_BUDGET;
+  }
+};
+
+export const saveApiBudget = (budget: ApiBudget) => localStorage.setItem(BUDGET_KEY, JSON.stringify(budget));
+
+// /history is served from the Worker's archive and never reaches B365
+const isUpstream = (r: ApiCallRecord) => r.endpoint !== 'history' && r.cache !== 'HIT' && r.status !== 0;
+
+const startOfDay = (now: number) => {
+  const d = new Date(now);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+export interface HourlyUsage {
+  hourStart: number;
+  hits: number;
+  misses: number; // Upstream calls, including ones without a cache header
+  errors: number; // Non-2xx or no response
+  avgLatencyMs: number;
+}
+
+export interface UsageSummary {
+  lastHourUpstream: number;
+  todayUpstream: number;
+  projectedDaily: number; // Today so far plus the last hour's rate over the rest of the day
+  cacheHitRate: number; // 0-1 over the last 24h, NaN without calls
+  avgLatencyMs: number; // Over the last 24h
+  hourly: HourlyUsage[]; // Last 24 hours, oldest first
+}
+
+export const summarizeApiUsage = (log: ApiCallRecord[], now = Date.now()): UsageSummary => {
+  const lastHour = log.filter(r => r.timestamp > now - HOUR_MS);
+  const dayStart = startOfDay(now);
+  const todayUpstream = log.filter(r => r.timestamp >= dayStart && isUpstream(r)).length;
+  const lastHourUpstream = lastHour.filter(isUpstream).length;
+  const hoursLeft = (dayStart + 24 * HOUR_MS - now) / HOUR_MS;
+
+  const currentHourStart = Math.floor(now / HOUR_MS) * HOUR_MS;
+  const hourly: HourlyUsage[] = [];
+  for (let i = 23; i >= 0; i--) {
+    const hourStart = currentHourStart - i * HOUR_MS;
+    const calls = log.filter(r => r.timestamp >= hourStart && r.timestamp < hourStart + HOUR_MS);
+    hourly.push({
+      hourStart,
+      hits: calls.filter(r => r.cache === 'HIT').length,
+      misses: calls.filter(isUpstream).length,
+      errors: calls.filter(r => r.status === 0 || r.status >= 400).length,
+      avgLatencyMs: calls.length > 0 ? Math.round(calls.reduce((sum, r) => sum + r.latencyMs, 0) / calls.length) : 0,
+    });
+  }
+
+  const lastDay = log.filter(r => r.timestamp > now - 24 * HOUR_MS);
+  return {
+    lastHourUpstream,
+    todayUpstream,
+    projectedDaily: Math.round(todayUpstream + lastHourUpstream * hoursLeft),
+    cacheHitRate: lastDay.length > 0 ? lastDay.filter(r => r.cache === 'HIT').length / lastDay.length : NaN,
+    avgLatencyMs: lastDay.length > 0 ? Math.round(lastDay.reduce((sum, r) => sum + r.latencyMs, 0) / lastDay.length) : 0,
+    hourly,
+  };
+};
+
+/**
+ * Why non-essential polling is paused right now, or null when it may run.
+ */
+export const getBudgetPauseReason = (now = Date.now()): string | null => {
+  const budget = loadApiBudget();
+  const { lastHourUpstream, todayUpstream } = summarizeApiUsage(loadApiUsage(), now);
+  if (todayUpstream >= budget.dailyCap) return t('apiUsage.dailyCapReached', { used: todayUpstream, cap: budget.dailyCap });
+  if (lastHourUpstream >= budget.hourlyCap) return t('apiUsage.hourlyCapReached', { used: lastHourUpstream, cap: budget.hourlyCap });
+  return null;
+};
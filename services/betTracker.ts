@@ -0,0 +1,170 @@
+import { Bet, BetResult, DataProviderKind, MatchInfo } from '../types';
+import { parseLine, splitLine } from './marketAnalytics';
+
+/**
+ * BET TRACKER:
+ * Bets logged from the Dashboard, settled automatically from the last score seen in play.
+ *
+ * Settlement follows Asian rules: a whole line refunds the stake on a tie (push), a quarter
+ * line splits the stake across the two neighbouring lines (half-win / half-loss). In-play Asian
+ * handicaps only count goals scored after the bet, so 1_2 bets use the score change since
+ * placement; over/under lines count the full score.
+ *
+ * A bet is settled from a snapshot with an ended status, or once its match, last seen in second-half
+ * stoppage time, has been missing from SETTLE_AFTER_MISSED_POLLS lists in a row and for at least
+ * SETTLE_GRACE_MS. Any other disappearance (a missed poll, a feed hiccup, an abandoned match) only
+ * flags the bet unverified: it stays open, and seeing the match again clears the flag.
+ * Only the provider a bet was logged on tracks it, so demo data, a recorded session or a local feed
+ * never flags or settles bets on real matches. Bets live in localStorage under `bets`.
+ */
+const BETS_KEY = 'bets';
+const FULL_TIME_MINUTE = 90;
+const SETTLE_AFTER_MISSED_POLLS = 3;
+const SETTLE_GRACE_MS = 10 * 60 * 1000;
+
+const parseScore = (ss: string | undefined): [number, number] => {
+  const [home, away] = (ss || '0-0').split('-').map(part => parseInt(part) || 0);
+  return [home || 0, away || 0];
+};
+
+export const loadBets = (): Bet[] => {
+  const saved = localStorage.getItem(BETS_KEY);
+  if (!saved) return [];
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    console.error('Failed to parse bets:', e);
+    return [];
+  }
+};
+
+const saveBets = (bets: Bet[]) => localStorage.setItem(BETS_KEY, JSON.stringify(bets));
+
+export const placeBet = (bet: Omit<Bet, 'id' | 'placedAt' | 'line'>): Bet => {
+  const homeLine = parseLine(bet.handicap);
+  const placed: Bet = {
+    ...bet,
+    id: `bet-${Date.now()}`,
+    placedAt: Date.now(),
+    line: bet.side === 'away' ? -homeLine : homeLine,
+  };
+  saveBets([...loadBets(), placed]);
+  return placed;
+};
+
+export const deleteBet = (id: string) => saveBets(loadBets().filter(b => b.id !== id));
+
+/**
+ * Result and profit of a bet given the final score. Each (half) stake is decided by the
+ * margin against its line: above wins, exactly on it pushes, below loses.
+ */
+export const settleBet = (bet: Bet, finalSs: string): { result: BetResult; profit: number } => {
+  const [finalHome, finalAway] = parseScore(finalSs);
+  const [startHome, startAway] = parseScore(bet.ssAtPlacement);
+  const totalGoals = finalHome + finalAway;
+  const goalDiff = (finalHome - startHome) - (finalAway - startAway);
+
+  const margin = (line: number) => {
+    switch (bet.side) {
+      case 'home': return goalDiff + line;
+      case 'away': return -goalDiff + line;
+      case 'over': return totalGoals - line;
+      case 'under': return line - totalGoals;
+    }
+  };
+
+  const lines = splitLine(bet.line);
+  const share = bet.stake / lines.length;
+  let profit = 0, wins = 0, losses = 0;
+  lines.forEach(line => {
+    const m = margin(line);
+    if (m > 0) { profit += share * (bet.price - 1); wins++; }
+    else if (m < 0) { profit -= share; losses++; }
+  });
+
+  let result: BetResult = 'push';
+  if (lines.length === 2 && wins === 1 && losses === 0) result = 'half-win';
+  else if (lines.length === 2 && losses === 1 && wins === 0) result = 'half-loss';
+  else if (wins > 0) result = 'win';
+  else if (losses > 0) result = 'loss';
+  return { result, profit: Math.round(profit * 100) / 100 };
+};
+
+const betProvider = (bet: Bet): DataProviderKind => bet.provider || 'b365';
+
+/**
+ * Follows open bets through the latest in-play list of `provider` and settles the ones whose match
+ * has finished. Returns the bets settled by this call.
+ */
+export const trackOpenBets = (events: MatchInfo[], provider: DataProviderKind, now = Date.now()): Bet[] => {
+  const bets = loadBets();
+  if (!bets.some(b => !b.settlement && betProvider(b) === provider)) return [];
+  const settled: Bet[] = [];
+
+  const settle = (bet: Bet, finalSs: string): Bet => {
+    const { unverified, missedPolls, ...open } = bet;
+    const settledBet: Bet = { ...open, settlement: { ...settleBet(bet, finalSs), finalSs, settledAt: now } };
+    settled.push(settledBet);
+    return settledBet;
+  };
+
+  const next = bets.map(bet => {
+    if (bet.settlement || betProvider(bet) !== provider) return bet;
+    const event = events.find(e => e.id === bet.matchId);
+    if (event) {
+      const minute = parseInt(event.timer?.tm?.toString() || event.time || '0');
+      const { unverified, missedPolls, ...open } = bet;
+      const seen: Bet = { ...open, lastSeen: { ss: event.ss || '0-0', minute, at: now, ended: event.time_status === '3' } };
+      return seen.lastSeen!.ended ? settle(seen, seen.lastSeen!.ss) : seen;
+    }
+    // An empty list says nothing about individual matches
+    if (events.length === 0 || !bet.lastSeen) return bet;
+    const missing: Bet = { ...bet, unverified: true, missedPolls: (bet.missedPolls || 0) + 1 };
+    const finished = bet.lastSeen.minute >= FULL_TIME_MINUTE
+      && missing.missedPolls! >= SETTLE_AFTER_MISSED_POLLS
+      && now - bet.lastSeen.at >= SETTLE_GRACE_MS;
+    return finished ? settle(bet, bet.lastSeen.ss) : missing;
+  });
+
+  saveBets(next);
+  return settled;
+};
+
+export interface LedgerRow {
+  key: string;
+  bets: number;
+  open: number;
+  staked: number; // Settled bets only
+  profit: number;
+  roi: number | null; // %, null with nothing settled
+}
+
+// P&L grouped by any bet property (match, league, signal...)
+export const buildLedger = (bets: Bet[], groupBy: (bet: Bet) => string): LedgerRow[] => {
+  const groups: Record<string, Bet[]> = {};
+  bets.forEach(bet => {
+    const key = groupBy(bet);
+    if (!groups[key]) groups[key] = [];
+    groups[key].push(bet);
+  });
+  return Object.entries(groups).map(([key, group]) => {
+    const settledBets = group.filter(b => b.settlement);
+    const staked = settledBets.reduce((sum, b) => sum + b.stake, 0);
+    const profit = Math.round(settledBets.reduce((sum, b) => sum + b.settlement!.profit, 0) * 100) / 100;
+    return {
+      key,
+      bets: group.length,
+      open: group.length - settledBets.length,
+      staked,
+      profit,
+      roi: staked > 0 ? Math.round((profit / staked) * 1000) / 10 : null,
+    };
+  }).sort((a, b) => b.profit - a.profit);
+};
+
+const STAKE_KEY = 'betDefaultStake';
+const DEFAULT_STAKE = 10;
+
+export const loadDefaultStake = (): number => Number(localStorage.getItem(STAKE_KEY)) || DEFAULT_STAKE;
+
+export const saveDefaultStake = (stake: number) => localStorage.setItem(STAKE_KEY, String(stake));
@@ -0,0 +1,161 @@
+import { DataProvider, DataProviderConfig, MatchInfo, MatchSession, OddsData } from '../types';
+import { getInPlayEvents, getMatchDetails, getMatchOdds, getMatchHistory } from './api';
+import { mockMatches, mockOdds } from './fixtures';
+import { t } from './i18n';
+import { reportNetworkFailure, withOfflineCache } from './offlineCache';
+
+/**
+ * DATA PROVIDERS:
+ * The app only ever talks to a DataProvider. Which one is used is chosen at login:
+ *  - b365:     the real feed, through the Cloudflare Worker proxy (services/api.ts), which holds the B365 token
+ *  - fixtures: static demo data, no network
+ *  - session:  a recorded match session (see services/sessionRecorder.ts) played forward one poll at a time
+ *  - http:     a local stand-in serving B365-shaped JSON on `/inplay` and `/odds?event_id=`
+ *              (run `npm run feed:local` for one)
+ * The two network providers are wrapped by withOfflineCache (services/offlineCache.ts) so the last
+ * known answers are served while the device is offline.
+ */
+const PROVIDER_CONFIG_KEY = 'data_provider';
+const LEGACY_TOKEN_KEY = 'b365_token';
+
+export const DEFAULT_LOCAL_FEED_URL = 'http://localhost:8787';
+
+// Live feeds report matches as they happen; demo data and recorded sessions only replay them
+export const isLiveProvider = (provider: DataProvider) => provider.kind === 'b365' || provider.kind === 'http';
+
+// Deep copies keep the fixtures and recorded sessions immutable for callers
+const deepCopy = <T,>(value: T): T => JSON.parse(JSON.stringify(value));
+const delay = <T,>(value: T, ms: number) => new Promise<T>(resolve => setTimeout(() => resolve(value), ms));
+
+export const createB365Provider = (clientKey?: string): DataProvider => withOfflineCache({
+  kind: 'b365',
+  label: 'B365',
+  getInPlayEvents: () => getInPlayEvents(clientKey),
+  getMatchDetails: (eventId) => getMatchDetails(clientKey, eventId),
+  getMatchOdds: (eventId) => getMatchOdds(clientKey, eventId),
+  getMatchHistory: (eventId) => getMatchHistory(clientKey, eventId),
+});
+
+export const createFixturesProvider = (): DataProvider => ({
+  kind: 'fixtures',
+  label: 'Demo',
+  getInPlayEvents: () => delay(deepCopy(mockMatches), 500),
+  getMatchDetails: (eventId) => delay(deepCopy(mockMatches).find(e => e.id === eventId) || null, 200),
+  getMatchOdds: () => delay(deepCopy(mockOdds), 100),
+});
+
+/**
+ * Plays a recorded session forward: every getMatchDetails call moves to the next snapshot,
+ * and odds follow the same cursor. Once the end is reached the last snapshot is repeated.
+ */
+export const createSessionProvider = (session: MatchSession): DataProvider => {
+  const snapshots = session.snapshots;
+  let cursor = -1; // Nothing consumed yet
+
+  const latestAtCursor = <T,>(pick: (index: number) => T | null): T | null => {
+    for (let i = cursor; i >= 0; i--) {
+      const value = pick(i);
+      if (value) return value;
+    }
+    return null;
+  };
+  const currentDetails = () => latestAtCursor(i => snapshots[i]?.details || null);
+
+  return {
+    kind: 'session',
+    label: `${session.home} vs ${session.away}`,
+    getInPlayEvents: async () => {
+      const details = currentDetails() || snapshots.find(s => s.details)?.details;
+      return details ? [deepCopy(details)] : [];
+    },
+    getMatchDetails: async (eventId) => {
+      cursor = Math.min(cursor + 1, snapshots.length - 1);
+      const details = currentDetails();
+      return details && details.id === eventId ? deepCopy(details) : null;
+    },
+    getMatchOdds: async () => {
+      const odds = latestAtCursor(i => snapshots[i]?.odds || null);
+      return odds ? deepCopy(odds) : null;
+    },
+  };
+};
+
+const fetchLocalFeed = async (url: string): Promise<any> => {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (error) {
+    reportNetworkFailure();
+    throw error;
+  }
+  if (!response.ok) {
+    throw new Error(t('api.localFeedError', { status: `${response.status} ${response.statusText}`, url }));
+  }
+  return response.json();
+};
+
+export const createHttpProvider = (baseUrl: string): DataProvider => {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  return withOfflineCache({
+    kind: 'http',
+    label: root,
+    getInPlayEvents: async () => {
+      const data = await fetchLocalFeed(`${root}/inplay`);
+      return data?.results || [];
+    },
+    getMatchDetails: async (eventId) => {
+      try {
+        const data = await fetchLocalFeed(`${root}/inplay`);
+        const results: MatchInfo[] = data?.results || [];
+        return results.find(e => e.id === eventId) || null;
+      } catch (error) {
+        console.error(`Failed to fetch match details for event ${eventId} from local feed:`, error);
+        return null;
+      }
+    },
+    getMatchOdds: async (eventId) => {
+      try {
+        const data: OddsData | null = await fetchLocalFeed(`${root}/odds?event_id=${encodeURIComponent(eventId)}`);
+        return data?.results ? data : null;
+      } catch (error) {
+        console.error(`Failed to fetch odds for event ${eventId} from local feed:`, error);
+        return null;
+      }
+    },
+  });
+};
+
+export const createProvider = (config: DataProviderConfig): DataProvider | null => {
+  switch (config.kind) {
+    case 'b365': return createB365Provider(config.clientKey);
+    case 'fixtures': return createFixturesProvider();
+    case 'http': return createHttpProvider(config.baseUrl || DEFAULT_LOCAL_FEED_URL);
+    default: return null; // Recorded sessions have to be picked again after a reload
+  }
+};
+
+export const loadProviderConfig = (): DataProviderConfig | null => {
+  const saved = localStorage.getItem(PROVIDER_CONFIG_KEY);
+  if (saved) {
+    try {
+      // Older versions stored the B365 token here; it now lives on the Worker only
+      const { token, ...config } = JSON.parse(saved);
+      if (token) localStorage.setItem(PROVIDER_CONFIG_KEY, JSON.stringify(config));
+      return config;
+    } catch (e) {
+      console.error('Failed to parse saved data provider:', e);
+    }
+  }
+  // Even older versions only stored the B365 token
+  return localStorage.getItem(LEGACY_TOKEN_KEY) ? { kind: 'b365' } : null;
+};
+
+export const saveProviderConfig = (config: DataProviderConfig | null) => {
+  localStorage.removeItem(LEGACY_TOKEN_KEY);
+  if (config && config.kind !== 'session') {
+    localStorage.setItem(PROVIDER_CONFIG_KEY, JSON.stringify(config));
+  } else {
+    localStorage.removeItem(PROVIDER_CONFIG_KEY);
+  }
+};
@@ -0,0 +1,155 @@
+import { Bet, ChecklistItem, Cooldown, DisciplineOverride, DisciplineSettings, TiltKind } from '../types';
+import { loadBets } from './betTracker';
+import { loadAlertHistory } from './alertRules';
+import { MessageKey, t } from './i18n';
+
+/**
+ * DISCIPLINE:
+ * A pre-bet gate. Before a bet is logged the user ticks a configurable checklist, and the
+ * recent bets are scanned for tilt: a run of losses, a stake well above the usual, or too many
+ * bets in a short window. Tilt starts a cooldown during which betting is locked.
+ *
+ * Both the checklist and the lockout can be overridden, but every override is logged with the
+ * user's reason so behaviour can be reviewed later. Only evidence newer than the last cooldown
+ * counts, so the same losing run does not lock the user out again once it has been served.
+ *
+ * Stored in localStorage under `disciplineSettings`, `disciplineCooldown` and `disciplineOverrides`.
+ */
+const SETTINGS_KEY = 'disciplineSettings';
+const COOLDOWN_KEY = 'disciplineCooldown';
+const OVERRIDES_KEY = 'disciplineOverrides';
+const MAX_OVERRIDES = 500;
+const RECENT_STAKES = 10;
+const ALERT_RECENCY_MS = 10 * 60 * 1000;
+
+// Auto-ticked when a saved alert rule fired for the match recently
+export const SIGNAL_RULE_ITEM_ID = 'signal-rule';
+
+// Built-in items are shown in the current language; the stored label only matters for items the user added
+const BUILT_IN_ITEM_LABELS: Record<string, MessageKey> = {
+  [SIGNAL_RULE_ITEM_ID]: 'discipline.item.signalRule',
+  'not-chasing': 'discipline.item.notChasing',
+  'stake-plan': 'discipline.item.stakePlan',
+  'price-value': 'discipline.item.priceValue',
+};
+
+export const DEFAULT_DISCIPLINE_SETTINGS: DisciplineSettings = {
+  checklist: Object.keys(BUILT_IN_ITEM_LABELS).map(id => ({ id, label: '', enabled: true })),
+  maxConsecutiveLosses: 3,
+  maxStakeMultiple: 2,
+  maxBetsInWindow: 4,
+  windowMinutes: 30,
+  cooldownMinutes: 30,
+};
+
+const loadJson = <T,>(key: string, fallback: T): T => {
+  const saved = localStorage.getItem(key);
+  if (!saved) return fallback;
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    console.error(`Failed to parse ${key}:`, e);
+    return fallback;
+  }
+};
+
+export const loadDisciplineSettings = (): DisciplineSettings =>
+  ({ ...DEFAULT_DISCIPLINE_SETTINGS, ...loadJson<Partial<DisciplineSettings>>(SETTINGS_KEY, {}) });
+
+export const saveDisciplineSettings = (settings: DisciplineSettings) => localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+
+export const enabledChecklist = (settings: DisciplineSettings): ChecklistItem[] => settings.checklist.filter(item => item.enabled);
+
+export const checklistItemLabel = (item: ChecklistItem): string =>
+  BUILT_IN_ITEM_LABELS[item.id] ? t(BUILT_IN_ITEM_LABELS[item.id]) : item.label;
+
+export const hasRecentAlert = (matchId: string, now = Date.now()) =>
+  loadAlertHistory().some(alert => alert.matchId === matchId && now - alert.firedAt < ALERT_RECENCY_MS);
+
+// --- Tilt Detection ---
+
+export interface TiltSignal {
+  kind: TiltKind;
+  message: string;
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Tilt patterns in `bets` (plus the stake about to be placed), ignoring anything before `since`.
+ */
+export const detectTilt = (bets: Bet[], pendingStake: number, settings: DisciplineSettings, since = 0, now = Date.now()): TiltSignal[] => {
+  const signals: TiltSignal[] = [];
+
+  const settled = bets.filter(b => b.settlement).sort((a, b) => b.settlement!.settledAt - a.settlement!.settledAt);
+  let losses = 0;
+  for (const bet of settled) {
+    if (bet.settlement!.settledAt <= since || bet.settlement!.profit >= 0) break;
+    losses++;
+  }
+  if (losses >= settings.maxConsecutiveLosses) {
+    signals.push({ kind: 'consecutive-losses', message: t('discipline.tilt.losses', { losses }) });
+  }
+
+  const recentStakes = [...bets].sort((a, b) => b.placedAt - a.placedAt).slice(0, RECENT_STAKES).map(b => b.stake);
+  if (recentStakes.length >= 3 && pendingStake > median(recentStakes) * settings.maxStakeMultiple) {
+    signals.push({ kind: 'stake-escalation', message: t('discipline.tilt.stake', { stake: pendingStake, multiple: settings.maxStakeMultiple, usual: median(recentStakes) }) });
+  }
+
+  const windowStart = Math.max(since, now - settings.windowMinutes * 60 * 1000);
+  const inWindow = bets.filter(b => b.placedAt > windowStart).length;
+  if (inWindow >= settings.maxBetsInWindow) {
+    signals.push({ kind: 'bet-frequency', message: t('discipline.tilt.frequency', { count: inWindow, minutes: settings.windowMinutes }) });
+  }
+
+  return signals;
+};
+
+// --- Cooldown ---
+
+export const loadCooldown = (): Cooldown | null => loadJson<Cooldown | null>(COOLDOWN_KEY, null);
+
+export const activeCooldown = (now = Date.now()): Cooldown | null => {
+  const cooldown = loadCooldown();
+  return cooldown && cooldown.until > now ? cooldown : null;
+};
+
+/**
+ * Runs the tilt check for a bet about to be placed. Fresh tilt starts a cooldown; returns
+ * the cooldown in force (new or already running) and the signals found.
+ */
+export const checkBeforeBet = (pendingStake: number, now = Date.now()): { cooldown: Cooldown | null; signals: TiltSignal[] } => {
+  const settings = loadDisciplineSettings();
+  const running = activeCooldown(now);
+  const previous = loadCooldown();
+  const signals = detectTilt(loadBets(), pendingStake, settings, previous?.until || 0, now);
+  if (running || signals.length === 0) return { cooldown: running, signals };
+
+  const cooldown: Cooldown = {
+    startedAt: now,
+    until: now + settings.cooldownMinutes * 60 * 1000,
+    reason: signals.map(s => s.message).join(' '),
+  };
+  localStorage.setItem(COOLDOWN_KEY, JSON.stringify(cooldown));
+  return { cooldown, signals };
+};
+
+// --- Overrides ---
+
+export const loadOverrides = (): DisciplineOverride[] => loadJson<DisciplineOverride[]>(OVERRIDES_KEY, []);
+
+export const recordOverride = (override: Omit<DisciplineOverride, 'id' | 'at'>) => {
+  const at = Date.now();
+  const entries = [...loadOverrides(), { ...override, id: `override-${at}`, at }].slice(-MAX_OVERRIDES);
+  try {
+    localStorage.setItem(OVERRIDES_KEY, JSON.stringify(entries));
+  } catch (e) {
+    console.warn('Could not save discipline override (storage full?):', e);
+  }
+};
+
+export const clearOverrides = () => localStorage.removeItem(OVERRIDES_KEY);
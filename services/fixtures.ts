@@ -0,0 +1,52 @@
+import { MatchInfo, OddsData } from '../types';
+
+// Static demo data served by the fixtures provider (services/dataProviders.ts).
+export const mockMatches: MatchInfo[] = [
+  {
+    id: "1",
+    league: { name: "Premier League - Demo" },
+    home: { name: "Manchester United" },
+    away: { name: "Liverpool" },
+    ss: "1-1",
+    time: "65",
+    timer: { tm: 65, ts: 0, tt: "1", ta: 0, md: 1 },
+    stats: {
+      attacks: ["60", "75"],
+      dangerous_attacks: ["35", "50"],
+      on_target: ["5", "8"],
+      off_target: ["4", "6"],
+      corners: ["3", "5"],
+      yellowcards: ["1", "2"],
+      redcards: ["0", "0"],
+    },
+  },
+  {
+    id: "2",
+    league: { name: "La Liga - Demo" },
+    home: { name: "Real Madrid" },
+    away: { name: "Barcelona" },
+    ss: "2-0",
+    time: "78",
+    timer: { tm: 78, ts: 0, tt: "1", ta: 0, md: 1 },
+    stats: {
+      attacks: ["80", "50"],
+      dangerous_attacks: ["60", "25"],
+      on_target: ["10", "2"],
+      off_target: ["7", "3"],
+      corners: ["8", "1"],
+      yellowcards: ["0", "3"],
+      redcards: ["0", "0"],
+    },
+  },
+];
+
+export const mockOdds: OddsData = {
+    results: {
+        odds: {
+            "1_2": [], // Mock for home/away odds
+            "1_3": [ // Mock for over/under odds
+                { id: '1', over_od: '1.85', under_od: '1.95', handicap: '2.5', time_str: '0', add_time: '0' }
+            ]
+        }
+    }
+};
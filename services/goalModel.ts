@@ -0,0 +1,119 @@
+import { ConfidenceLevel, GoalHorizons, LocalGoalPrediction, PreGoalAnalysis } from '../types';
+import { parseLine, removeMargin, impliedRemainingGoals } from './marketAnalytics';
+import { CONFIDENCE_LEVELS } from './predictionJournal';
+import { t } from './i18n';
+
+/**
+ * LOCAL GOAL MODEL:
+ * A deterministic, in-browser estimate of the probability of a goal in the next 5 minutes.
+ * It needs no API key and costs nothing, so the Dashboard runs it on every refresh and
+ * falls back to it whenever Gemini is unavailable.
+ *
+ * The model is a Poisson goal rate:
+ *  1. a baseline rate that rises over the match (~2.7 goals per 90'),
+ *  2. blended with the rate implied by the current over/under line when odds exist,
+ *  3. scaled by the traditional factors, score state and red cards.
+ */
+export interface GoalModelInput {
+  minute: number;
+  homeScore: number;
+  awayScore: number;
+  redCards: [number, number];
+  overLine: { handicap: string; over: number; under: number } | null;
+  factors: PreGoalAnalysis['factors'];
+  samples: number; // Number of stats snapshots behind the factors
+}
+
+const HORIZON_MINUTES = 5;
+const REGULATION_MINUTES = 90;
+const EXPECTED_STOPPAGE_MINUTES = 4;
+const MARKET_WEIGHT = 0.6;
+
+// Typical factor values in an ordinary spell of play; above these the rate goes up
+const TYPICAL_MOMENTUM = 5;
+const TYPICAL_SHOT_CLUSTER = 80; // Summed over the window's samples (services/analysis.ts)
+const TYPICAL_PRESSURE = 1;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Goals per minute in an average match, slightly higher late on
+const baselineRate = (minute: number) => 0.025 + 0.0002 * clamp(minute, 0, REGULATION_MINUTES);
+
+/**
+ * Goals per minute implied by the over/under market: the further goals the margin-free price
+ * implies on the current line (quarter and whole lines included), spread across the remaining time.
+ */
+const marketRate = (input: GoalModelInput): number | null => {
+  const line = input.overLine ? parseLine(input.overLine.handicap) : NaN;
+  const implied = input.overLine ? removeMargin(input.overLine.over, input.overLine.under) : null;
+  if (isNaN(line) || !implied) return null;
+  const goalsNeeded = line - (input.homeScore + input.awayScore);
+  const expectedRemaining = Math.max(0.05, impliedRemainingGoals(goalsNeeded, implied.probA) ?? 0);
+  const remainingMinutes = Math.max(REGULATION_MINUTES + EXPECTED_STOPPAGE_MINUTES - input.minute, HORIZON_MINUTES);
+  return expectedRemaining / remainingMinutes;
+};
+
+const factorMultiplier = (factors: PreGoalAnalysis['factors']) => {
+  const momentum = clamp(factors.apiMomentum, -10, 40) - TYPICAL_MOMENTUM;
+  const shots = clamp(factors.shotCluster, 0, 250) - TYPICAL_SHOT_CLUSTER;
+  const pressure = clamp(factors.pressure, 0, 8) - TYPICAL_PRESSURE;
+  return Math.exp(0.02 * momentum + 0.004 * shots + 0.08 * pressure);
+};
+
+const scoreStateMultiplier = (input: GoalModelInput) => {
+  const diff = Math.abs(input.homeScore - input.awayScore);
+  if (diff === 1 && input.minute >= 70) return 1.1; // Trailing side chases the equaliser
+  if (diff >= 3) return 0.85; // Decided games slow down
+  return 1.0;
+};
+
+/**
+ * The longer horizons for a constant per-minute goal rate. Horizons that run past the expected
+ * final whistle are cut there, so late on they all meet the full-time value.
+ */
+export const goalLadderFromRate = (rate: number, minute: number): { horizons: GoalHorizons; expectedRemainingGoals: number } => {
+  const remainingMinutes = Math.max(REGULATION_MINUTES + EXPECTED_STOPPAGE_MINUTES - minute, HORIZON_MINUTES);
+  const within = (minutes: number) => Math.round(clamp((1 - Math.exp(-rate * Math.min(minutes, remainingMinutes))) * 100, 1, 99));
+  return {
+    horizons: { m10: within(10), m15: within(15), full_time: within(remainingMinutes) },
+    expectedRemainingGoals: Math.round(rate * remainingMinutes * 100) / 100,
+  };
+};
+
+const confidenceFor = (probability: number, hasEnoughData: boolean): ConfidenceLevel => {
+  let index = probability >= 35 ? 3 : probability >= 25 ? 2 : probability >= 15 ? 1 : 0;
+  if (!hasEnoughData) index = Math.max(0, index - 1); // Few samples: don't shout
+  return CONFIDENCE_LEVELS[index];
+};
+
+export const predictLocalGoalProbability = (input: GoalModelInput): LocalGoalPrediction => {
+  const base = baselineRate(input.minute);
+  const market = marketRate(input);
+  const blendedRate = market === null ? base : MARKET_WEIGHT * market + (1 - MARKET_WEIGHT) * base;
+
+  const redCardMultiplier = 1 + 0.1 * (input.redCards[0] + input.redCards[1]);
+  const rate = blendedRate * factorMultiplier(input.factors) * scoreStateMultiplier(input) * redCardMultiplier;
+
+  const probability = Math.round(clamp((1 - Math.exp(-rate * HORIZON_MINUTES)) * 100, 1, 95));
+  const hasEnoughData = input.samples >= 3 && market !== null;
+
+  const reasons: string[] = [
+    market === null ? t('goalModel.noMarket') : t('goalModel.market', { line: input.overLine!.handicap, goals: (market * 90).toFixed(1) }),
+  ];
+  if (input.factors.shotCluster > TYPICAL_SHOT_CLUSTER * 2) reasons.push(t('goalModel.shotCluster', { value: input.factors.shotCluster.toFixed(1) }));
+  if (input.factors.apiMomentum > TYPICAL_MOMENTUM * 2) reasons.push(t('goalModel.momentum', { value: input.factors.apiMomentum.toFixed(1) }));
+  if (input.factors.pressure > TYPICAL_PRESSURE * 3) reasons.push(t('goalModel.pressure', { value: input.factors.pressure.toFixed(1) }));
+  if (input.redCards[0] + input.redCards[1] > 0) reasons.push(t('goalModel.redCard'));
+  if (!hasEnoughData) reasons.push(t('goalModel.fewData'));
+
+  const ladder = goalLadderFromRate(rate, input.minute);
+
+  return {
+    goal_probability: probability,
+    confidence_level: confidenceFor(probability, hasEnoughData),
+    reasoning: reasons.join(' '),
+    horizons: ladder.horizons,
+    expected_remaining_goals: ladder.expectedRemainingGoals,
+    goalRatePerMinute: rate,
+  };
+};
@@ -0,0 +1,68 @@
+import { ConfidenceLevel } from '../types';
+import { vi } from '../locales/vi';
+import { en } from '../locales/en';
+
+/**
+ * I18N:
+ * Every user-facing string, and the AI prompt, comes from one catalog per language in locales/.
+ * `vi` is the reference catalog: its keys define MessageKey, and `en` must have exactly the same
+ * keys (the type check enforces it).
+ *
+ * `t(key, params)` reads the current locale directly, so services can use it as well as
+ * components. Placeholders are written `{name}`. Switching language notifies subscribers; App
+ * re-renders the whole tree on a switch, so components need no hook of their own.
+ *
+ * The choice is kept in localStorage under `locale`.
+ */
+const LOCALE_KEY = 'locale';
+
+export type Locale = 'vi' | 'en';
+export type MessageKey = keyof typeof vi;
+
+export const LOCALES: { locale: Locale; label: string }[] = [
+  { locale: 'vi', label: 'VI' },
+  { locale: 'en', label: 'EN' },
+];
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { vi, en };
+
+const loadLocale = (): Locale => {
+  const saved = localStorage.getItem(LOCALE_KEY);
+  return saved === 'en' || saved === 'vi' ? saved : 'vi';
+};
+
+let current: Locale = loadLocale();
+// index.html ships the default; the saved choice applies before the first render
+if (typeof document !== 'undefined') document.documentElement.lang = current;
+const listeners = new Set<(locale: Locale) => void>();
+
+export const getLocale = (): Locale => current;
+
+export const setLocale = (locale: Locale) => {
+  if (locale === current) return;
+  current = locale;
+  localStorage.setItem(LOCALE_KEY, locale);
+  document.documentElement.lang = locale;
+  listeners.forEach(listener => listener(locale));
+};
+
+// Returns the unsubscribe function, so it can be handed straight back from a useEffect
+export const subscribeLocale = (listener: (locale: Locale) => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const t = (key: MessageKey, params?: Record<string, string | number>): string => {
+  const template = CATALOGS[current][key] ?? vi[key] ?? key;
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (placeholder, name) => (name in params ? String(params[name]) : placeholder));
+};
+
+const CONFIDENCE_KEYS: Record<ConfidenceLevel, MessageKey> = {
+  low: 'confidence.low',
+  medium: 'confidence.medium',
+  high: 'confidence.high',
+  very_high: 'confidence.very_high',
+};
+
+export const confidenceLabel = (level: ConfidenceLevel) => t(CONFIDENCE_KEYS[level]);
@@ -0,0 +1,227 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { AIPredictionResponse } from '../types';
+import { GoalPredictionInput, GOAL_PREDICTION_SCHEMA, buildGoalPrompt, buildRepairPrompt, validatePrediction } from './llmPrompt';
+import { goalLadderFromRate } from './goalModel';
+import { t } from './i18n';
+
+/**
+ * LLM PREDICTORS:
+ * The Dashboard only ever asks an LLMPredictor for a goal prediction. Which one is used is
+ * chosen in the AI settings screen:
+ *  - gemini: Google Gemini through @google/genai, with the schema enforced by the API
+ *  - openai: any OpenAI-compatible `/chat/completions` endpoint, e.g. a local llama.cpp server
+ *            (`llama-server --port 8080`, base URL http://localhost:8080/v1) or Ollama
+ *            (base URL http://localhost:11434/v1)
+ *  - mock:   deterministic answers computed from the inputs, no network; for development
+ *
+ * All three share the prompt and validation in services/llmPrompt.ts; a reply that fails validation
+ * is asked for once more with the error attached before the call gives up. The config lives in
+ * localStorage under `llmConfig`; a Gemini key built in through API_KEY is still used when
+ * no key was entered.
+ */
+const LLM_CONFIG_KEY = 'llmConfig';
+
+export type LLMBackendKind = 'gemini' | 'openai' | 'mock';
+
+export interface LLMConfig {
+  kind: LLMBackendKind;
+  model: string;
+  baseUrl?: string; // openai only
+  apiKey?: string; // gemini (overrides API_KEY) and openai (optional for local servers)
+  temperature: number;
+}
+
+export interface LLMPredictor {
+  kind: LLMBackendKind;
+  label: string; // e.g. "gemini · gemini-3-flash-preview", also stored with journal entries
+  isAvailable: () => boolean; // False when required settings (a key) are missing
+  predict: (input: GoalPredictionInput) => Promise<AIPredictionResponse | null>;
+}
+
+export const DEFAULT_MODELS: Record<LLMBackendKind, string> = {
+  gemini: 'gemini-3-flash-preview',
+  openai: 'llama3.1',
+  mock: 'mock',
+};
+
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+
+const DEFAULT_CONFIG: LLMConfig = { kind: 'gemini', model: DEFAULT_MODELS.gemini, temperature: 0.5 };
+
+export const loadLLMConfig = (): LLMConfig => {
+  const saved = localStorage.getItem(LLM_CONFIG_KEY);
+  if (!saved) return DEFAULT_CONFIG;
+  try {
+    return { ...DEFAULT_CONFIG, ...JSON.parse(saved) };
+  } catch (e) {
+    console.error('Failed to parse LLM config:', e);
+    return DEFAULT_CONFIG;
+  }
+};
+
+export const saveLLMConfig = (config: LLMConfig) => localStorage.setItem(LLM_CONFIG_KEY, JSON.stringify(config));
+
+// Attempts per prediction: the first answer plus one repair round
+const MAX_ATTEMPTS = 2;
+
+/**
+ * Asks `send` for a prediction until a reply validates. `send` returns the raw reply text, or
+ * null when the call itself failed; transport failures are not retried.
+ */
+const predictWithRepair = async (
+  label: string,
+  input: GoalPredictionInput,
+  includeSchema: boolean,
+  send: (prompt: string) => Promise<string | null>,
+): Promise<AIPredictionResponse | null> => {
+  let prompt = buildGoalPrompt(input, includeSchema);
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const raw = await send(prompt);
+    if (!raw) return null;
+    const result = validatePrediction(raw);
+    if (!('error' in result)) return result.prediction;
+    console.warn(`${label} returned an invalid prediction (attempt ${attempt}/${MAX_ATTEMPTS}): ${result.error}`, "Raw response:", raw);
+    prompt = buildRepairPrompt(input, raw, result.error, includeSchema);
+  }
+  console.error(`${label} gave no valid prediction after ${MAX_ATTEMPTS} attempts.`);
+  return null;
+};
+
+// --- Gemini ---
+
+// The shared JSON Schema in the SDK's own dialect (upper-case type names)
+const toGeminiSchema = (schema: any): any => {
+  const types: Record<string, Type> = { object: Type.OBJECT, integer: Type.INTEGER, string: Type.STRING, number: Type.NUMBER, boolean: Type.BOOLEAN };
+  const converted: any = { ...schema, type: types[schema.type] };
+  if (schema.enum) converted.enum = [...schema.enum];
+  if (schema.required) converted.required = [...schema.required];
+  if (schema.properties) {
+    converted.properties = Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]));
+    converted.propertyOrdering = Object.keys(schema.properties);
+  }
+  return converted;
+};
+
+export const createGeminiPredictor = (config: LLMConfig): LLMPredictor => {
+  const apiKey = config.apiKey || process.env.API_KEY;
+  const label = `gemini · ${config.model}`;
+  let client: GoogleGenAI | null = null;
+
+  return {
+    kind: 'gemini',
+    label,
+    isAvailable: () => !!apiKey,
+    predict: async (input) => {
+      if (!apiKey) {
+        console.error("No Gemini API key: enter one in the AI settings or build with API_KEY set.");
+        return null;
+      }
+      if (!client) client = new GoogleGenAI({ apiKey });
+      const gemini = client;
+      return predictWithRepair(label, input, false, async (prompt) => {
+        try {
+          const response = await gemini.models.generateContent({
+            model: config.model,
+            contents: [{ parts: [{ text: prompt }] }],
+            config: {
+              responseMimeType: "application/json",
+              responseSchema: toGeminiSchema(GOAL_PREDICTION_SCHEMA),
+              temperature: config.temperature,
+              topK: 40,
+              topP: 0.95,
+            },
+          });
+          return response.text?.trim() || null;
+        } catch (error) {
+          console.error("Gemini API call failed:", error);
+          return null;
+        }
+      });
+    },
+  };
+};
+
+// --- OpenAI-compatible ---
+
+export const createOpenAICompatiblePredictor = (config: LLMConfig): LLMPredictor => {
+  const root = (config.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+  const label = `openai · ${config.model}`;
+
+  return {
+    kind: 'openai',
+    label,
+    isAvailable: () => !!config.model,
+    predict: (input) => predictWithRepair(label, input, true, async (prompt) => {
+      try {
+        const response = await fetch(`${root}/chat/completions`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+          },
+          body: JSON.stringify({
+            model: config.model,
+            temperature: config.temperature,
+            messages: [{ role: 'user', content: prompt }],
+            // llama.cpp and Ollama constrain the output with this; servers that ignore it still get the schema in the prompt
+            response_format: { type: 'json_schema', json_schema: { name: 'goal_prediction', schema: GOAL_PREDICTION_SCHEMA } },
+          }),
+        });
+        if (!response.ok) {
+          console.error(`LLM endpoint error: ${response.status} ${response.statusText} (${root})`);
+          return null;
+        }
+        const data = await response.json();
+        return data?.choices?.[0]?.message?.content || null;
+      } catch (error) {
+        console.error("LLM endpoint call failed:", error);
+        return null;
+      }
+    }),
+  };
+};
+
+// --- Mock ---
+
+/**
+ * Same inputs, same answer: the probability follows shots, momentum and pressure with fixed
+ * weights, so UI work and replays do not depend on a model being reachable.
+ */
+export const createMockPredictor = (): LLMPredictor => ({
+  kind: 'mock',
+  label: 'mock',
+  isAvailable: () => true,
+  predict: async (input) => {
+    const teamIndex = input.teamPressure ? Math.max(...input.teamPressure.index) : 0;
+    const raw = 8 + input.shotCluster * 0.15 + Math.max(0, input.apiMomentum) * 0.6 + input.pressure * 2 + teamIndex * 0.2;
+    const probability = Math.max(1, Math.min(95, Math.round(raw)));
+    const confidence: AIPredictionResponse['confidence_level'] =
+      probability >= 60 ? 'very_high' : probability >= 40 ? 'high' : probability >= 20 ? 'medium' : 'low';
+    // The rest of the ladder follows from the 5' probability as a constant goal rate
+    const { horizons, expectedRemainingGoals } = goalLadderFromRate(-Math.log(1 - probability / 100) / 5, input.minute);
+    const homeShare = (Math.max(0, input.homeApi) + 1) / (Math.max(0, input.homeApi) + Math.max(0, input.awayApi) + 2);
+    const none = Math.round(Math.exp(-expectedRemainingGoals) * 100);
+    await new Promise(resolve => setTimeout(resolve, 300));
+    const result = validatePrediction(JSON.stringify({
+      goal_probability: probability,
+      goal_probability_10m: horizons.m10,
+      goal_probability_15m: horizons.m15,
+      goal_probability_full_time: horizons.full_time,
+      next_goal_home: Math.round((100 - none) * homeShare),
+      next_goal_away: Math.round((100 - none) * (1 - homeShare)),
+      next_goal_none: none,
+      expected_remaining_goals: expectedRemainingGoals,
+      confidence_level: confidence,
+      reasoning: t('mock.reasoning', { shots: input.shotCluster.toFixed(1), momentum: input.apiMomentum.toFixed(1), pressure: input.pressure.toFixed(1) }),
+    }));
+    return 'error' in result ? null : result.prediction;
+  },
+});
+
+export const createPredictor = (config: LLMConfig = loadLLMConfig()): LLMPredictor => {
+  switch (config.kind) {
+    case 'openai': return createOpenAICompatiblePredictor(config);
+    case 'mock': return createMockPredictor();
+    default: return createGeminiPredictor(config);
+  }
+};
@@ -0,0 +1,229 @@
+import { AIPredictionResponse, ProcessedStats } from '../types';
+import { TeamPressure, TeamWindowStats } from './analysis';
+import { CONFIDENCE_LEVELS, normalizeConfidence } from './predictionJournal';
+import { MessageKey, t } from './i18n';
+
+/**
+ * LLM PROMPT & VALIDATION:
+ * The one prompt and the one response schema shared by every LLM backend (services/llmPredictors.ts),
+ * so a prediction from Gemini, a local model or the mock can be compared like for like.
+ *
+ * Backends pass GOAL_PREDICTION_SCHEMA to whatever structured-output feature they have, but the
+ * answer is always checked by validatePrediction: smaller local models wrap JSON in prose or
+ * code fences, return numbers as strings, or invent confidence levels. Replies that cannot be
+ * repaired are asked for again with buildRepairPrompt.
+ */
+
+export interface GoalPredictionInput {
+  matchId: string;
+  minute: number;
+  homeTeam: string;
+  awayTeam: string;
+  homeScore: number;
+  awayScore: number;
+  stats: ProcessedStats | undefined;
+  homeApi: number;
+  awayApi: number;
+  latestOverOdds: { handicap: string; over: number; under: number } | null;
+  latestHomeOdds: { handicap: string; home: number; away: number } | null;
+  apiMomentum: number;
+  shotCluster: number;
+  pressure: number;
+  teamPressure: TeamPressure | null;
+}
+
+const probabilityField = (description: string) => ({ type: 'integer', description: `${description} Percent (0-100).` });
+
+// Plain JSON Schema; backends translate it to their own dialect where needed. Flat on purpose:
+// small local models get nested objects wrong far more often than extra top-level fields.
+// Descriptions are in English whatever the locale; the prompt says which language to reason in.
+export const GOAL_PREDICTION_SCHEMA = {
+  type: 'object',
+  properties: {
+    goal_probability: probabilityField('Probability of at least one goal in the next 5 minutes.'),
+    goal_probability_10m: probabilityField('Probability of at least one goal in the next 10 minutes.'),
+    goal_probability_15m: probabilityField('Probability of at least one goal in the next 15 minutes.'),
+    goal_probability_full_time: probabilityField('Probability of at least one more goal before full time.'),
+    next_goal_home: probabilityField('Probability that the home team scores the next goal.'),
+    next_goal_away: probabilityField('Probability that the away team scores the next goal.'),
+    next_goal_none: probabilityField('Probability of no further goal. The three next_goal values add up to 100.'),
+    expected_remaining_goals: {
+      type: 'number',
+      description: 'Expected number of goals still to come before full time (remaining xG), e.g. 0.8.',
+    },
+    confidence_level: {
+      type: 'string',
+      description: 'Confidence in this prediction.',
+      enum: CONFIDENCE_LEVELS,
+    },
+    reasoning: {
+      type: 'string',
+      description: 'A short, concise explanation of the prediction, in the language the prompt asks for.',
+    },
+  },
+  required: [
+    'goal_probability', 'goal_probability_10m', 'goal_probability_15m', 'goal_probability_full_time',
+    'next_goal_home', 'next_goal_away', 'next_goal_none', 'expected_remaining_goals', 'confidence_level',
+  ],
+} as const;
+
+const pair = (key: MessageKey, values: [number, number]) => t(key, { home: values[0], away: values[1] });
+
+const generateStatsText = (stats: ProcessedStats | undefined) => {
+  if (!stats) return "N/A";
+  return `
+      ${pair('prompt.stats.attacks', stats.attacks)}
+      ${pair('prompt.stats.dangerous', stats.dangerous_attacks)}
+      ${pair('prompt.stats.onTarget', stats.on_target)}
+      ${pair('prompt.stats.offTarget', stats.off_target)}
+      ${pair('prompt.stats.corners', stats.corners)}
+      ${pair('prompt.stats.yellowcards', stats.yellowcards)}
+      ${pair('prompt.stats.redcards', stats.redcards)}
+    `;
+};
+
+const generateOddsText = (
+  overOdds: GoalPredictionInput['latestOverOdds'],
+  homeOdds: GoalPredictionInput['latestHomeOdds'],
+) => {
+  let oddsText = "";
+  if (overOdds) {
+    oddsText += t('prompt.odds.over', { handicap: overOdds.handicap, over: overOdds.over, under: overOdds.under }) + '\n';
+  }
+  if (homeOdds) {
+    oddsText += t('prompt.odds.home', { handicap: homeOdds.handicap, home: homeOdds.home, away: homeOdds.away }) + '\n';
+  }
+  return oddsText || t('prompt.odds.none');
+};
+
+const generateTeamPressureText = (teams: TeamPressure | null) => {
+  if (!teams) return t('prompt.teams.none');
+  const windowText = (label: MessageKey, w: TeamWindowStats) =>
+    t('prompt.teams.window', { label: t(label), dangerous: w.dangerousAttacks, shots: w.shots, onTarget: w.onTarget, corners: w.corners });
+  return `
+      ${pair('prompt.teams.index', teams.index)}
+      ${windowText('prompt.teams.home5', teams.window5[0])}
+      ${windowText('prompt.teams.away5', teams.window5[1])}
+      ${windowText('prompt.teams.home10', teams.window10[0])}
+      ${windowText('prompt.teams.away10', teams.window10[1])}
+    `;
+};
+
+/**
+ * The prompt text, in the current locale; the reasoning is asked for in the same language.
+ * Backends without native schema support get the schema spelled out at the end (`includeSchema`),
+ * Gemini enforces it through the API instead.
+ */
+export const buildGoalPrompt = (input: GoalPredictionInput, includeSchema = false): string => `
+    ${t('prompt.intro')}
+
+    ${t('prompt.match', { id: input.matchId })}
+    ${t('prompt.minute', { minute: input.minute })}
+    ${t('prompt.score', { home: input.homeScore, away: input.awayScore })}
+    ${t('prompt.teams', { home: input.homeTeam, away: input.awayTeam })}
+
+    --- ${t('prompt.section.stats')} ---
+    ${generateStatsText(input.stats)}
+    ${t('prompt.apiScores', { home: input.homeApi.toFixed(1), away: input.awayApi.toFixed(1) })}
+
+    --- ${t('prompt.section.odds')} ---
+    ${generateOddsText(input.latestOverOdds, input.latestHomeOdds)}
+
+    --- ${t('prompt.section.factors')} ---
+    ${t('prompt.factors.momentum', { value: input.apiMomentum.toFixed(1) })}
+    ${t('prompt.factors.shotCluster', { value: input.shotCluster.toFixed(1) })}
+    ${t('prompt.factors.pressure', { value: input.pressure.toFixed(1) })}
+
+    --- ${t('prompt.section.teams')} ---
+    ${generateTeamPressureText(input.teamPressure)}
+
+    --- ${t('prompt.section.output')} ---
+    ${t('prompt.output', { levels: CONFIDENCE_LEVELS.join(', ') })}
+    ${includeSchema ? JSON.stringify(GOAL_PREDICTION_SCHEMA) : ''}
+  `;
+
+// The first {...} block of a reply, so fences and chatter around the JSON do not matter
+const extractJson = (text: string): string | null => {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  return start >= 0 && end > start ? text.slice(start, end + 1) : null;
+};
+
+export type PredictionValidation = { prediction: AIPredictionResponse } | { error: string };
+
+const PROBABILITY_FIELDS = [
+  'goal_probability', 'goal_probability_10m', 'goal_probability_15m', 'goal_probability_full_time',
+  'next_goal_home', 'next_goal_away', 'next_goal_none',
+] as const;
+
+const toNumber = (value: unknown): number =>
+  typeof value === 'string' ? parseFloat(value.replace('%', '')) : typeof value === 'number' ? value : NaN;
+
+/**
+ * Checks a raw model reply against GOAL_PREDICTION_SCHEMA. What has one obvious fix is repaired:
+ * numbers given as strings, all probabilities given as fractions, a confidence label in either
+ * language instead of the enum value, a ladder that goes down with a
+ * longer horizon (raised to the shorter one), next-goal shares not summing to 100 (rescaled) and a
+ * missing expected-goals figure (derived from the full-time probability). Missing probabilities,
+ * values outside 0-100 or an unknown confidence level are errors, for the backend to retry.
+ */
+export const validatePrediction = (raw: string): PredictionValidation => {
+  const json = extractJson(raw);
+  if (!json) return { error: t('validation.noJson') };
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    return { error: t('validation.badJson', { error: e instanceof Error ? e.message : String(e) }) };
+  }
+
+  const values: Record<string, number> = {};
+  for (const field of PROBABILITY_FIELDS) {
+    const value = toNumber(data[field]);
+    if (isNaN(value)) return { error: t('validation.missing', { field }) };
+    values[field] = value;
+  }
+  const scale = PROBABILITY_FIELDS.every(field => values[field] <= 1) ? 100 : 1;
+  for (const field of PROBABILITY_FIELDS) {
+    values[field] *= scale;
+    if (values[field] < 0 || values[field] > 100) return { error: t('validation.outOfRange', { field, value: values[field] }) };
+  }
+
+  const confidence = normalizeConfidence(data.confidence_level);
+  if (!confidence) return { error: t('validation.confidence', { value: String(data.confidence_level), levels: CONFIDENCE_LEVELS.join(', ') }) };
+
+  const m5 = Math.round(values.goal_probability);
+  const m10 = Math.max(m5, Math.round(values.goal_probability_10m));
+  const m15 = Math.max(m10, Math.round(values.goal_probability_15m));
+  const fullTime = Math.max(m15, Math.round(values.goal_probability_full_time));
+
+  const shareTotal = values.next_goal_home + values.next_goal_away + values.next_goal_none;
+  if (shareTotal <= 0) return { error: t('validation.nextGoalZero') };
+  const home = Math.round((values.next_goal_home / shareTotal) * 100);
+  const away = Math.min(100 - home, Math.round((values.next_goal_away / shareTotal) * 100));
+
+  let expectedGoals = toNumber(data.expected_remaining_goals);
+  if (isNaN(expectedGoals)) expectedGoals = fullTime >= 100 ? 3 : -Math.log(1 - fullTime / 100); // Poisson: P(≥1) = 1 - e^-λ
+  if (expectedGoals < 0) return { error: t('validation.negativeGoals', { value: expectedGoals }) };
+
+  return {
+    prediction: {
+      goal_probability: m5,
+      confidence_level: confidence,
+      reasoning: typeof data.reasoning === 'string' ? data.reasoning : undefined,
+      horizons: { m10, m15, full_time: fullTime },
+      next_goal: { home, away, none: 100 - home - away },
+      expected_remaining_goals: Math.round(expectedGoals * 100) / 100,
+    },
+  };
+};
+
+/**
+ * Follow-up prompt after an invalid reply: the original prompt plus what was wrong with the
+ * answer, so the model can correct it rather than start over.
+ */
+export const buildRepairPrompt = (input: GoalPredictionInput, raw: string, error: string, includeSchema = false): string => `${buildGoalPrompt(input, includeSchema)}
+    --- ${t('prompt.section.repair')} ---
+    ${raw.slice(0, 1500)}
+    ${t('prompt.repair', { error })}
+  `;
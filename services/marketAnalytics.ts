@@ -0,0 +1,154 @@
+import { HomeOddsPoint, OverOddsPoint } from './analysis';
+
+/**
+ * MARKET ANALYTICS:
+ * Turns raw decimal prices into margin-free implied probabilities and the bookmaker overround.
+ *
+ * Asian lines come as halves (2.5), wholes (3.0, stake refunded on exactly 3 goals) and
+ * quarters (2.25 = half the stake on 2.0 and half on 2.5; B365 may also send "2.0,2.5").
+ * A raw over price means something different on each kind of line, so the over/under market is
+ * also converted to the number of further goals the market expects (Poisson, pushes and split
+ * stakes included). That number, and the chance of at least one more goal derived from it, stay
+ * continuous when the line moves from 2.5 to 2.75.
+ */
+
+// "2.25", "-0.75", "2.0,2.5" or "-0.5,-1.0" -> the numeric line
+export const parseLine = (handicap: string): number => {
+  const parts = handicap.split(',').map(part => parseFloat(part)).filter(n => !isNaN(n));
+  if (parts.length === 0) return NaN;
+  return parts.reduce((sum, n) => sum + n, 0) / parts.length;
+};
+
+export const isQuarterLine = (line: number) => Math.abs((Math.abs(line) * 4) % 2 - 1) < 1e-9;
+
+// The one or two lines a stake is settled on: a quarter line splits the stake in half
+export const splitLine = (line: number): number[] => (isQuarterLine(line) ? [line - 0.25, line + 0.25] : [line]);
+
+export interface ImpliedPair {
+  probA: number; // 0-1, margin removed
+  probB: number;
+  overround: number; // 1/a + 1/b - 1, e.g. 0.05 for a 5% margin
+}
+
+// Proportional margin removal for a two-way market
+export const removeMargin = (priceA: number, priceB: number): ImpliedPair | null => {
+  if (!(priceA > 1) || !(priceB > 1)) return null;
+  const rawA = 1 / priceA;
+  const rawB = 1 / priceB;
+  const total = rawA + rawB;
+  return { probA: rawA / total, probB: rawB / total, overround: total - 1 };
+};
+
+const poisson = (k: number, mu: number) => {
+  let p = Math.exp(-mu);
+  for (let i = 1; i <= k; i++) p *= mu / i;
+  return p;
+};
+
+// Win and loss weight of an over bet on `remainingLine` further goals; pushes count as neither
+const overSettlement = (remainingLine: number, mu: number) => {
+  let win = 0, lose = 0;
+  const lines = splitLine(remainingLine);
+  lines.forEach(line => {
+    const share = 1 / lines.length;
+    let atOrBelow = 0;
+    for (let k = 0; k <= Math.floor(line); k++) atOrBelow += poisson(k, mu);
+    const push = Number.isInteger(line) && line >= 0 ? poisson(line, mu) : 0;
+    win += share * (1 - atOrBelow);
+    lose += share * (atOrBelow - push);
+  });
+  return { win, lose };
+};
+
+// Margin-free over probability a Poisson(mu) goal count implies for this line (win share, pushes excluded)
+const modelOverShare = (remainingLine: number, mu: number) => {
+  const { win, lose } = overSettlement(remainingLine, mu);
+  return win + lose > 0 ? win / (win + lose) : 0.5;
+};
+
+const MAX_REMAINING_GOALS = 8;
+
+/**
+ * Further goals the over/under market expects, from the line still to beat and the
+ * margin-free over probability. Null when the line is already settled.
+ */
+export const impliedRemainingGoals = (remainingLine: number, overProbability: number): number | null => {
+  if (remainingLine <= 0 || !(overProbability > 0 && overProbability < 1)) return null;
+  let low = 0, high = MAX_REMAINING_GOALS;
+  for (let i = 0; i < 50; i++) {
+    const mid = (low + high) / 2;
+    if (modelOverShare(remainingLine, mid) < overProbability) low = mid; else high = mid;
+  }
+  return (low + high) / 2;
+};
+
+export interface ImpliedOverPoint {
+  minute: number;
+  added?: number; // Stoppage minutes, as on the odds point
+  line: number;
+  overProbability: number; // %, margin removed, on the line quoted at the time
+  overround: number; // %
+  expectedGoals: number | null; // Further goals the market expects
+  nextGoalProbability: number | null; // %, chance of at least one more goal; comparable across lines
+  lineChanged: boolean; // First point on a new line
+}
+
+export interface ImpliedHomePoint {
+  minute: number;
+  added?: number;
+  line: number;
+  homeProbability: number; // %, margin removed, on the quoted handicap
+  overround: number; // %
+  lineChanged: boolean;
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+const totalGoals = (ss: string) => ss.split('-').reduce((sum, part) => sum + (parseInt(part) || 0), 0);
+
+/**
+ * Implied series for the over/under market, oldest first. The quoted line counts goals already
+ * scored, so each point needs the score at the time: its own `ss` when the feed sent one,
+ * otherwise `goalsAt(minute)`.
+ */
+export const buildImpliedOverSeries = (history: OverOddsPoint[], goalsAt: (minute: number) => number): ImpliedOverPoint[] => {
+  const series: ImpliedOverPoint[] = [];
+  history.forEach(point => {
+    const implied = removeMargin(point.over, point.under);
+    const line = parseLine(point.handicap);
+    if (!implied || isNaN(line)) return;
+    const goals = point.ss ? totalGoals(point.ss) : goalsAt(point.minute);
+    const expectedGoals = impliedRemainingGoals(line - goals, implied.probA);
+    const previous = series[series.length - 1];
+    series.push({
+      minute: point.minute,
+      added: point.added,
+      line,
+      overProbability: round1(implied.probA * 100),
+      overround: round1(implied.overround * 100),
+      expectedGoals: expectedGoals === null ? null : Math.round(expectedGoals * 100) / 100,
+      nextGoalProbability: expectedGoals === null ? null : round1((1 - Math.exp(-expectedGoals)) * 100),
+      lineChanged: !!previous && previous.line !== line,
+    });
+  });
+  return series;
+};
+
+export const buildImpliedHomeSeries = (history: HomeOddsPoint[]): ImpliedHomePoint[] => {
+  const series: ImpliedHomePoint[] = [];
+  history.forEach(point => {
+    const implied = removeMargin(point.home, point.away);
+    const line = parseLine(point.handicap);
+    if (!implied || isNaN(line)) return;
+    const previous = series[series.length - 1];
+    series.push({
+      minute: point.minute,
+      added: point.added,
+      line,
+      homeProbability: round1(implied.probA * 100),
+      overround: round1(implied.overround * 100),
+      lineChanged: !!previous && previous.line !== line,
+    });
+  });
+  return series;
+};
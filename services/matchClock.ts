@@ -0,0 +1,179 @@
+import { MatchInfo } from '../types';
+import { MessageKey, t } from './i18n';
+
+/**
+ * MATCH CLOCK:
+ * Match periods made explicit, so charts and labels stop assuming a 0-90 line.
+ *
+ * A clock is the period, the regular minute (capped at the period's end) and the added
+ * minutes beyond it: "45+2" is { period: '1H', minute: 45, added: 2 }. Provider timers give
+ * `tm` (minute), `tt` ('1' while the clock runs), `ta` (announced added time) and `md`
+ * (0 first half, 1 second half, 2/3 extra time); odds carry strings like "67" or "90+4".
+ *
+ * The timeline layout turns clocks into x positions: every period gets its regular length
+ * plus as much stoppage room as was actually observed (or announced), and extra time only
+ * appears once it has been seen.
+ */
+
+export type MatchPeriod = '1H' | '2H' | 'ET1' | 'ET2';
+
+interface PeriodDefinition {
+  key: MatchPeriod;
+  start: number;
+  end: number;
+  endLabel: MessageKey; // Separator drawn after the period when another one follows
+}
+
+export const PERIODS: PeriodDefinition[] = [
+  { key: '1H', start: 0, end: 45, endLabel: 'clock.halfTime' },
+  { key: '2H', start: 45, end: 90, endLabel: 'clock.fullTime' },
+  { key: 'ET1', start: 90, end: 105, endLabel: 'clock.extraHalfTime' },
+  { key: 'ET2', start: 105, end: 120, endLabel: 'clock.end' },
+];
+
+export interface MatchClock {
+  period: MatchPeriod;
+  minute: number;
+  added: number;
+}
+
+const periodIndex = (period: MatchPeriod) => PERIODS.findIndex(p => p.key === period);
+
+// A plain minute belongs to the period whose (start, end] holds it: 45 is still the first half
+export const periodOfMinute = (minute: number): MatchPeriod =>
+  (PERIODS.find(p => minute <= p.end) || PERIODS[PERIODS.length - 1]).key;
+
+export const clockAt = (minute: number, added = 0): MatchClock => ({ period: periodOfMinute(minute), minute, added });
+
+/**
+ * Numeric key of a clock for minute-keyed histories (stats): added minutes stay inside their
+ * period as hundredths, so 45+2 is 45.02 and sorts before the second half's 46, and 90+3 stays
+ * in the second half instead of reading as extra time. Whole-minute keys are plain clocks.
+ */
+export const clockKey = (clock: MatchClock): number => clock.minute + Math.min(clock.added, 99) / 100;
+
+export const clockFromKey = (key: number): MatchClock => {
+  const minute = Math.floor(key);
+  return clockAt(minute, Math.round((key - minute) * 100));
+};
+
+/** "45+2", "90+4'", "67", "67:30" or a number; null when there is no minute in it. */
+export const parseMinute = (value: string | number | undefined | null): MatchClock | null => {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'number') return Number.isFinite(value) ? clockAt(Math.max(0, Math.floor(value))) : null;
+  const match = value.trim().match(/^(\d+)(?:\s*\+\s*(\d+))?/);
+  if (!match) return null;
+  return clockAt(parseInt(match[1]), match[2] ? parseInt(match[2]) : 0);
+};
+
+// Stoppage beyond the announced added time that is still believed before `md` is distrusted
+const MAX_UNANNOUNCED_ADDED = 10;
+
+/**
+ * The live clock of a match. `md` decides the period when the provider sends it; a minute past
+ * the period's end is then stoppage time rather than the next period. A minute far beyond the
+ * period's end and its announced added time means `md` is stale or wrong, and the minute alone
+ * decides the period.
+ */
+export const clockFromTimer = (match: MatchInfo): MatchClock => {
+  const timer = match.timer;
+  if (!timer) return parseMinute(match.time) || clockAt(0);
+  const tm = Number(timer.tm) || 0;
+  const period = PERIODS[Number(timer.md)];
+  if (!period || tm > period.end + announcedAddedTime(match) + MAX_UNANNOUNCED_ADDED) return clockAt(tm);
+  if (tm > period.end) return { period: period.key, minute: period.end, added: tm - period.end };
+  return { period: period.key, minute: Math.max(tm, period.start), added: 0 };
+};
+
+// Added time announced for the current period (the board shown at the end of the half)
+export const announcedAddedTime = (match: MatchInfo): number => Number(match.timer?.ta) || 0;
+
+// Clock stopped at the end of a half (tt '0'), before the next one starts
+export const isBreak = (match: MatchInfo): boolean => {
+  if (!match.timer || match.timer.tt !== '0') return false;
+  const clock = clockFromTimer(match);
+  const period = PERIODS[periodIndex(clock.period)];
+  return clock.minute >= period.end && clock.period !== 'ET2';
+};
+
+export const formatClock = (clock: MatchClock): string =>
+  clock.added > 0 ? `${clock.minute}+${clock.added}'` : `${clock.minute}'`;
+
+// Header label: "HT" during the break, otherwise the running clock
+export const formatMatchClock = (match: MatchInfo): string => {
+  const clock = clockFromTimer(match);
+  if (isBreak(match)) return t(PERIODS[periodIndex(clock.period)].endLabel);
+  return formatClock(clock);
+};
+
+// --- Timeline Layout ---
+
+export interface TimelineSegment {
+  period: MatchPeriod;
+  from: number;       // x where the period starts
+  regularEnd: number; // x of the period's last regular minute
+  to: number;         // x where its stoppage time ends
+}
+
+export interface TimelineLayout {
+  segments: TimelineSegment[];
+  end: number;
+  ticks: number[];
+  separators: { x: number; label: string }[];
+  addedSegments: { from: number; to: number }[];
+  toX: (clock: MatchClock) => number;
+  minuteToX: (minute: number, added?: number) => number; // Without `added`, `minute` may be a clockKey
+  label: (x: number) => string;
+}
+
+/**
+ * Lays out the periods the given clocks touch (always both halves). `announced` reserves room
+ * for added time that has been shown on the board but not played yet.
+ */
+export const buildTimelineLayout = (clocks: MatchClock[], announced?: { period: MatchPeriod; minutes: number }): TimelineLayout => {
+  const lastIndex = Math.max(1, ...clocks.map(c => periodIndex(c.period)), announced ? periodIndex(announced.period) : 0);
+  const segments: TimelineSegment[] = [];
+  let cursor = 0;
+  PERIODS.slice(0, lastIndex + 1).forEach(period => {
+    const observed = Math.max(0, ...clocks.filter(c => c.period === period.key).map(c => c.added));
+    const stoppage = Math.max(observed, announced?.period === period.key ? announced.minutes : 0);
+    const regularEnd = cursor + (period.end - period.start);
+    segments.push({ period: period.key, from: cursor, regularEnd, to: regularEnd + stoppage });
+    cursor = regularEnd + stoppage;
+  });
+
+  const definition = (segment: TimelineSegment) => PERIODS[periodIndex(segment.period)];
+
+  const toX = (clock: MatchClock) => {
+    const segment = segments.find(s => s.period === clock.period) || segments[segments.length - 1];
+    const period = definition(segment);
+    const regular = Math.min(Math.max(clock.minute, period.start), period.end) - period.start;
+    return segment.from + regular + Math.min(clock.added, segment.to - segment.regularEnd);
+  };
+
+  const label = (x: number) => {
+    const segment = segments.find(s => x <= s.to) || segments[segments.length - 1];
+    const period = definition(segment);
+    if (x <= segment.regularEnd) return `${Math.round(period.start + x - segment.from)}`;
+    return `${period.end}+${Math.round(x - segment.regularEnd)}`;
+  };
+
+  // Every 15 regular minutes; a period's start is the previous period's separator instead
+  const ticks = [0, ...segments.flatMap(segment => {
+    const period = definition(segment);
+    const regular: number[] = [];
+    for (let minute = period.start + 15; minute <= period.end; minute += 15) regular.push(segment.from + minute - period.start);
+    return regular;
+  })];
+
+  return {
+    segments,
+    end: cursor,
+    ticks,
+    separators: segments.slice(0, -1).map(segment => ({ x: segment.to, label: t(definition(segment).endLabel) })),
+    addedSegments: segments.filter(s => s.to > s.regularEnd).map(s => ({ from: s.regularEnd, to: s.to })),
+    toX,
+    minuteToX: (minute, added) => toX(added === undefined ? clockFromKey(minute) : clockAt(minute, added)),
+    label,
+  };
+};
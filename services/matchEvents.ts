@@ -0,0 +1,54 @@
+import { MatchEvent, MatchEventType, MatchInfo } from '../types';
+import { parseStats } from './api';
+import { clockFromTimer } from './matchClock';
+
+/**
+ * MATCH EVENTS:
+ * The feed has no incident list, so goals, cards and corners are derived from the
+ * difference between consecutive MatchInfo snapshots: goals from `ss`, the rest from
+ * the cumulative stats. Decreases (e.g. a disallowed goal) are ignored.
+ */
+const parseScore = (ss: string | undefined): [number, number] => {
+  const [home, away] = (ss || '0-0').split('-').map(part => parseInt(part) || 0);
+  return [home || 0, away || 0];
+};
+
+const STAT_EVENTS: { key: 'yellowcards' | 'redcards' | 'corners'; type: MatchEventType }[] = [
+  { key: 'yellowcards', type: 'yellowcard' },
+  { key: 'redcards', type: 'redcard' },
+  { key: 'corners', type: 'corner' },
+];
+
+export const diffSnapshots = (prev: MatchInfo, next: MatchInfo): MatchEvent[] => {
+  // The timer's period tells stoppage time (45+2) apart from the next period's minutes
+  const { minute, added } = clockFromTimer(next);
+  const events: MatchEvent[] = [];
+  const push = (type: MatchEventType, deltas: [number, number]) => {
+    (['home', 'away'] as const).forEach((team, side) => {
+      for (let i = 0; i < deltas[side]; i++) events.push({ minute, added, team, type });
+    });
+  };
+
+  const prevScore = parseScore(prev.ss);
+  const nextScore = parseScore(next.ss);
+  push('goal', [nextScore[0] - prevScore[0], nextScore[1] - prevScore[1]]);
+
+  // Stats can be missing in a snapshot; only diff when both sides have them
+  if (prev.stats && next.stats) {
+    const prevStats = parseStats(prev.stats);
+    const nextStats = parseStats(next.stats);
+    STAT_EVENTS.forEach(({ key, type }) => {
+      push(type, [nextStats[key][0] - prevStats[key][0], nextStats[key][1] - prevStats[key][1]]);
+    });
+  }
+  return events;
+};
+
+// Events in chronological order from an ordered list of snapshots of one match
+export const deriveMatchEvents = (snapshots: MatchInfo[]): MatchEvent[] => {
+  const events: MatchEvent[] = [];
+  for (let i = 1; i < snapshots.length; i++) {
+    events.push(...diffSnapshots(snapshots[i - 1], snapshots[i]));
+  }
+  return events;
+};
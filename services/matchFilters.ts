@@ -0,0 +1,162 @@
+import { MatchInfo } from '../types';
+import { parseStats } from './api';
+
+/**
+ * MATCH LIST FILTERS:
+ * Search, filters, sorting and league preferences for the live match list, plus a "hotness"
+ * score so the busy matches rise to the top when 100+ games are in play.
+ *
+ * Hotness only uses what the in-play list already carries (no extra API calls):
+ *   - pace:      combined dangerous attacks per minute, saturating at 2/min   (up to 50)
+ *   - shots:     combined shots on target, saturating at 12                    (up to 30)
+ *   - closeness: level 20, one goal apart 12, two apart 3                     (up to 20)
+ *
+ * League preferences (`leaguePreferences`) and the last filters and sort (`matchListFilters`)
+ * are kept in localStorage. Esoccer used to be dropped inside getInPlayEvents; it is now an
+ * ordinary filter that is on by default.
+ */
+const PREFERENCES_KEY = 'leaguePreferences';
+const FILTERS_KEY = 'matchListFilters';
+
+export type ScoreState = 'all' | 'level' | 'close' | 'goalless';
+export type MatchSort = 'hotness' | 'minute' | 'league';
+
+export interface MatchListFilters {
+  query: string;
+  minMinute: number;
+  maxMinute: number;
+  scoreState: ScoreState;
+  league: string; // '' for every league
+  favouritesOnly: boolean;
+  hideEsoccer: boolean;
+  sort: MatchSort;
+}
+
+export interface LeaguePreferences {
+  favourites: string[];
+  blocked: string[];
+}
+
+export const DEFAULT_FILTERS: MatchListFilters = {
+  query: '',
+  minMinute: 0,
+  maxMinute: 120,
+  scoreState: 'all',
+  league: '',
+  favouritesOnly: false,
+  hideEsoccer: true,
+  sort: 'hotness',
+};
+
+const loadJson = <T,>(key: string, fallback: T): T => {
+  const saved = localStorage.getItem(key);
+  if (!saved) return fallback;
+  try {
+    return { ...fallback, ...JSON.parse(saved) };
+  } catch (e) {
+    console.error(`Failed to parse ${key}:`, e);
+    return fallback;
+  }
+};
+
+// The search text is not restored: a stale query hiding every match is confusing
+export const loadFilters = (): MatchListFilters => ({ ...loadJson(FILTERS_KEY, DEFAULT_FILTERS), query: '' });
+
+export const saveFilters = (filters: MatchListFilters) => {
+  const { query, ...rest } = filters;
+  localStorage.setItem(FILTERS_KEY, JSON.stringify(rest));
+};
+
+export const loadLeaguePreferences = (): LeaguePreferences => loadJson(PREFERENCES_KEY, { favourites: [], blocked: [] });
+
+const saveLeaguePreferences = (prefs: LeaguePreferences) => localStorage.setItem(PREFERENCES_KEY, JSON.stringify(prefs));
+
+// Favourite and blocked are exclusive: marking one removes the other
+export const toggleFavouriteLeague = (prefs: LeaguePreferences, league: string): LeaguePreferences => {
+  const next = prefs.favourites.includes(league)
+    ? { ...prefs, favourites: prefs.favourites.filter(l => l !== league) }
+    : { favourites: [...prefs.favourites, league], blocked: prefs.blocked.filter(l => l !== league) };
+  saveLeaguePreferences(next);
+  return next;
+};
+
+export const toggleBlockedLeague = (prefs: LeaguePreferences, league: string): LeaguePreferences => {
+  const next = prefs.blocked.includes(league)
+    ? { ...prefs, blocked: prefs.blocked.filter(l => l !== league) }
+    : { blocked: [...prefs.blocked, league], favourites: prefs.favourites.filter(l => l !== league) };
+  saveLeaguePreferences(next);
+  return next;
+};
+
+// --- Hotness ---
+
+const matchMinute = (m: MatchInfo) => parseInt(m.timer?.tm?.toString() || m.time || '0') || 0;
+
+const goals = (m: MatchInfo): [number, number] => {
+  const [home, away] = (m.ss || '0-0').split('-').map(part => parseInt(part) || 0);
+  return [home || 0, away || 0];
+};
+
+export const isEsoccer = (m: MatchInfo) => m.league.name.toLowerCase().includes('esoccer');
+
+export const hotnessScore = (match: MatchInfo): number => {
+  const minute = matchMinute(match);
+  const stats = parseStats(match.stats);
+  const dangerousPerMinute = minute > 0 ? (stats.dangerous_attacks[0] + stats.dangerous_attacks[1]) / minute : 0;
+  const onTarget = stats.on_target[0] + stats.on_target[1];
+  const [home, away] = goals(match);
+  const difference = Math.abs(home - away);
+
+  const pace = Math.min(1, dangerousPerMinute / 2) * 50;
+  const shots = Math.min(1, onTarget / 12) * 30;
+  const closeness = difference === 0 ? 20 : difference === 1 ? 12 : difference === 2 ? 3 : 0;
+  return Math.round(pace + shots + closeness);
+};
+
+// --- Filtering & Sorting ---
+
+const matchesScoreState = (match: MatchInfo, state: ScoreState) => {
+  const [home, away] = goals(match);
+  switch (state) {
+    case 'level': return home === away;
+    case 'close': return Math.abs(home - away) <= 1;
+    case 'goalless': return home === 0 && away === 0;
+    default: return true;
+  }
+};
+
+export const filterMatches = (events: MatchInfo[], filters: MatchListFilters, prefs: LeaguePreferences): MatchInfo[] => {
+  const query = filters.query.trim().toLowerCase();
+  return events.filter(match => {
+    if (prefs.blocked.includes(match.league.name)) return false;
+    if (filters.hideEsoccer && isEsoccer(match)) return false;
+    if (filters.favouritesOnly && !prefs.favourites.includes(match.league.name)) return false;
+    if (filters.league && match.league.name !== filters.league) return false;
+    const minute = matchMinute(match);
+    if (minute < filters.minMinute || minute > filters.maxMinute) return false;
+    if (!matchesScoreState(match, filters.scoreState)) return false;
+    if (query) {
+      const haystack = `${match.home.name} ${match.away.name} ${match.league.name}`.toLowerCase();
+      if (!haystack.includes(query)) return false;
+    }
+    return true;
+  });
+};
+
+/**
+ * Favourite leagues first, then by the chosen key. Hotness and minute sort descending
+ * (busiest / latest first), league alphabetically with the hottest match first inside it.
+ */
+export const sortMatches = (events: MatchInfo[], sort: MatchSort, prefs: LeaguePreferences, hotness: Map<string, number>): MatchInfo[] => {
+  const favourite = (m: MatchInfo) => (prefs.favourites.includes(m.league.name) ? 0 : 1);
+  const hot = (m: MatchInfo) => hotness.get(m.id) || 0;
+  return [...events].sort((a, b) => {
+    const byFavourite = favourite(a) - favourite(b);
+    if (byFavourite !== 0) return byFavourite;
+    switch (sort) {
+      case 'minute': return matchMinute(b) - matchMinute(a);
+      case 'league': return a.league.name.localeCompare(b.league.name) || hot(b) - hot(a);
+      default: return hot(b) - hot(a);
+    }
+  });
+};
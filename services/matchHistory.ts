@@ -0,0 +1,46 @@
+import { MatchHistory, OddsData, OddsItem } from '../types';
+import { parseStats } from './api';
+import { StatsHistory } from './analysis';
+
+/**
+ * MATCH HISTORY:
+ * B365's odds endpoint only returns a trailing window of updates, so the Dashboard keeps every
+ * odds item it has seen for the match and merges each new response into it. On open, that set
+ * is seeded from the Worker's archive (GET /history), so everyone sees the same full timeline.
+ */
+
+const itemKey = (item: OddsItem) => item.id || `${item.time_str}|${item.add_time}|${item.handicap}`;
+
+const mergeItems = (existing: OddsItem[], incoming: OddsItem[]): OddsItem[] => {
+  const byKey = new Map(existing.map(item => [itemKey(item), item]));
+  incoming.forEach(item => byKey.set(itemKey(item), item));
+  return [...byKey.values()];
+};
+
+// Union of two odds responses, market by market; newer items win on the same id
+export const mergeOddsData = (base: OddsData | null, incoming: OddsData): OddsData => {
+  if (!base) return incoming;
+  const baseOdds = base.results?.odds;
+  const incomingOdds = incoming.results?.odds;
+  return {
+    results: {
+      odds: {
+        '1_2': mergeItems(baseOdds?.['1_2'] || [], incomingOdds?.['1_2'] || []),
+        '1_3': mergeItems(baseOdds?.['1_3'] || [], incomingOdds?.['1_3'] || []),
+      },
+    },
+  };
+};
+
+export const historyToOddsData = (history: MatchHistory): OddsData => ({
+  results: { odds: { '1_2': history.odds['1_2'] || [], '1_3': history.odds['1_3'] || [] } },
+});
+
+// Fills the minutes missing from the local stats history; what this browser recorded itself wins
+export const mergeArchivedStats = (history: MatchHistory, local: StatsHistory): StatsHistory => {
+  const merged: StatsHistory = {};
+  Object.entries(history.stats || {}).forEach(([minute, snapshot]) => {
+    merged[Number(minute)] = parseStats(snapshot.stats);
+  });
+  return { ...merged, ...local };
+};
@@ -0,0 +1,414 @@
+import { AllHighlights, MatchInfo, ProcessedStats, RetentionPolicy, SessionSnapshot, StoredMatch } from '../types';
+
+/**
+ * MATCH STORE:
+ * Per-match data (stats history, chart highlights and recorded session snapshots) lives in
+ * IndexedDB instead of one localStorage key per match, which used to fill the 5MB quota.
+ *
+ * Database `pro-football`:
+ *   - `matches`   one StoredMatch per match, keyed by matchId, indexed by `updatedAt` and `league`
+ *   - `snapshots` one row per recorded poll ({ matchId, ...SessionSnapshot }), indexed by `matchId`
+ *   - `lastKnown` the last good provider response per key (`inplay`, `details:<id>`, `odds:<id>`),
+ *                 served while offline (services/offlineCache.ts), indexed by `savedAt`
+ *
+ * The schema is versioned: SCHEMA_UPGRADES[n] takes the database from version n to n + 1, so a
+ * new version only appends an upgrade step. On first open, the old `statsHistory_<id>`,
+ * `highlights_<id>` and `session_<id>` localStorage keys are copied in and then removed.
+ *
+ * A retention policy (localStorage `storageRetention`) deletes matches nobody will look at again.
+ * Like the localStorage code before it, storage failures are logged and never break the analysis.
+ */
+const DB_NAME = 'pro-football';
+const MATCHES = 'matches';
+const SNAPSHOTS = 'snapshots';
+const LAST_KNOWN = 'lastKnown';
+const RETENTION_KEY = 'storageRetention';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SCHEMA_UPGRADES: ((db: IDBDatabase) => void)[] = [
+  // v1
+  (db) => {
+    const matches = db.createObjectStore(MATCHES, { keyPath: 'matchId' });
+    matches.createIndex('updatedAt', 'updatedAt');
+    matches.createIndex('league', 'league');
+    const snapshots = db.createObjectStore(SNAPSHOTS, { autoIncrement: true });
+    snapshots.createIndex('matchId', 'matchId');
+  },
+  // v2
+  (db) => {
+    db.createObjectStore(LAST_KNOWN, { keyPath: 'key' }).createIndex('savedAt', 'savedAt');
+  },
+];
+
+export const SCHEMA_VERSION = SCHEMA_UPGRADES.length;
+
+export const DEFAULT_RETENTION: RetentionPolicy = { maxAgeDays: 30, starredOnly: false };
+
+type MatchMeta = Pick<StoredMatch, 'matchId' | 'league' | 'home' | 'away'>;
+type StoredSnapshot = SessionSnapshot & { matchId: string };
+
+export const matchMeta = (match: MatchInfo): MatchMeta => ({
+  matchId: match.id,
+  league: match.league.name,
+  home: match.home.name,
+  away: match.away.name,
+});
+
+const request = <T,>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+const emptyMatch = (meta: MatchMeta, now: number): StoredMatch => ({
+  ...meta,
+  createdAt: now,
+  updatedAt: now,
+  statsHistory: {},
+  highlights: { overUnder: [], homeOdds: [] },
+  snapshotCount: 0,
+});
+
+// Keeps known team/league names when a caller (e.g. the localStorage migration) has none
+const withMeta = (record: StoredMatch, meta: MatchMeta): StoredMatch => ({
+  ...record,
+  league: meta.league || record.league,
+  home: meta.home || record.home,
+  away: meta.away || record.away,
+});
+
+// --- Opening & Migration ---
+
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+  if (typeof indexedDB === 'undefined') {
+    reject(new Error('IndexedDB is not available'));
+    return;
+  }
+  const req = indexedDB.open(DB_NAME, SCHEMA_VERSION);
+  req.onupgradeneeded = (event) => {
+    for (let version = event.oldVersion; version < SCHEMA_VERSION; version++) SCHEMA_UPGRADES[version](req.result);
+  };
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+  req.onblocked = () => console.warn('Match store upgrade is waiting for other tabs to close.');
+});
+
+const LEGACY_PREFIXES = ['statsHistory_', 'highlights_', 'session_'];
+const LEGACY_SESSION_INDEX_KEY = 'recordedSessions';
+
+const parseLegacy = (key: string) => {
+  try {
+    return JSON.parse(localStorage.getItem(key) || 'null');
+  } catch (e) {
+    console.error(`Failed to parse legacy key ${key}:`, e);
+    return null;
+  }
+};
+
+/**
+ * Copies the per-match localStorage keys into the store, then deletes them. Keys are only
+ * removed once their transaction has committed, so an interrupted run is simply retried.
+ */
+const migrateFromLocalStorage = async (db: IDBDatabase): Promise<void> => {
+  const legacyKeys = Object.keys(localStorage).filter(key => LEGACY_PREFIXES.some(prefix => key.startsWith(prefix)));
+  if (legacyKeys.length === 0) return;
+
+  const matchIds = new Set(legacyKeys.map(key => key.slice(key.indexOf('_') + 1)));
+  const now = Date.now();
+  for (const matchId of matchIds) {
+    const session = parseLegacy(`session_${matchId}`);
+    const statsHistory = parseLegacy(`statsHistory_${matchId}`);
+    const highlights = parseLegacy(`highlights_${matchId}`);
+    const meta: MatchMeta = { matchId, league: session?.league || '', home: session?.home || '', away: session?.away || '' };
+
+    const tx = db.transaction([MATCHES, SNAPSHOTS], 'readwrite');
+    const record = withMeta(emptyMatch(meta, session?.updatedAt || now), meta);
+    if (statsHistory) record.statsHistory = statsHistory;
+    if (highlights) record.highlights = highlights;
+    if (session?.snapshots?.length) {
+      session.snapshots.forEach((snapshot: SessionSnapshot) => tx.objectStore(SNAPSHOTS).add({ ...snapshot, matchId }));
+      record.createdAt = session.startedAt;
+      record.snapshotCount = session.snapshots.length;
+      record.sessionStartedAt = session.startedAt;
+      record.sessionUpdatedAt = session.updatedAt;
+    }
+    tx.objectStore(MATCHES).put(record);
+    await transactionDone(tx);
+    LEGACY_PREFIXES.forEach(prefix => localStorage.removeItem(`${prefix}${matchId}`));
+  }
+  localStorage.removeItem(LEGACY_SESSION_INDEX_KEY);
+  console.log(`Migrated ${matchIds.size} matches from localStorage to IndexedDB.`);
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const getDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = openDatabase().then(async db => {
+      try {
+        await migrateFromLocalStorage(db);
+      } catch (e) {
+        console.error('localStorage migration failed, will retry on next start:', e);
+      }
+      return db;
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// --- Matches ---
+
+export const loadMatch = async (matchId: string): Promise<StoredMatch | null> => {
+  try {
+    const db = await getDb();
+    return (await request<StoredMatch | undefined>(db.transaction(MATCHES).objectStore(MATCHES).get(matchId))) || null;
+  } catch (e) {
+    console.error(`Failed to load stored match ${matchId}:`, e);
+    return null;
+  }
+};
+
+export const listMatches = async (): Promise<StoredMatch[]> => {
+  try {
+    const db = await getDb();
+    return await request<StoredMatch[]>(db.transaction(MATCHES).objectStore(MATCHES).getAll());
+  } catch (e) {
+    console.error('Failed to list stored matches:', e);
+    return [];
+  }
+};
+
+// Read-modify-write of one match record in a single transaction
+const updateMatch = async (meta: MatchMeta, update: (record: StoredMatch, tx: IDBTransaction) => void, extraStores: string[] = []): Promise<void> => {
+  const db = await getDb();
+  const tx = db.transaction([MATCHES, ...extraStores], 'readwrite');
+  const done = transactionDone(tx);
+  const store = tx.objectStore(MATCHES);
+  const now = Date.now();
+  const existing = await request<StoredMatch | undefined>(store.get(meta.matchId));
+  const record = withMeta(existing || emptyMatch(meta, now), meta);
+  update(record, tx);
+  record.updatedAt = now;
+  store.put(record);
+  await done;
+};
+
+export const saveStatsHistory = async (meta: MatchMeta, statsHistory: Record<number, ProcessedStats>): Promise<void> => {
+  try {
+    await updateMatch(meta, record => { record.statsHistory = statsHistory; });
+  } catch (e) {
+    console.warn(`Could not save stats history for match ${meta.matchId}:`, e);
+  }
+};
+
+export const saveHighlights = async (meta: MatchMeta, highlights: AllHighlights): Promise<void> => {
+  try {
+    await updateMatch(meta, record => { record.highlights = highlights; });
+  } catch (e) {
+    console.warn(`Could not save highlights for match ${meta.matchId}:`, e);
+  }
+};
+
+// Deletes the match record and all of its snapshots
+export const deleteMatch = async (matchId: string): Promise<void> => {
+  const db = await getDb();
+  const tx = db.transaction([MATCHES, SNAPSHOTS], 'readwrite');
+  const done = transactionDone(tx);
+  tx.objectStore(MATCHES).delete(matchId);
+  const keys = await request(tx.objectStore(SNAPSHOTS).index('matchId').getAllKeys(IDBKeyRange.only(matchId)));
+  keys.forEach(key => tx.objectStore(SNAPSHOTS).delete(key));
+  await done;
+};
+
+// --- Snapshots ---
+
+export const appendSnapshot = async (meta: MatchMeta, snapshot: SessionSnapshot): Promise<void> => {
+  try {
+    await updateMatch(meta, (record, tx) => {
+      tx.objectStore(SNAPSHOTS).add({ ...snapshot, matchId: meta.matchId });
+      record.snapshotCount += 1;
+      record.sessionStartedAt = record.sessionStartedAt || snapshot.timestamp;
+      record.sessionUpdatedAt = snapshot.timestamp;
+    }, [SNAPSHOTS]);
+  } catch (e) {
+    console.warn(`Could not record snapshot for match ${meta.matchId}:`, e);
+  }
+};
+
+export const loadSnapshots = async (matchId: string): Promise<SessionSnapshot[]> => {
+  try {
+    const db = await getDb();
+    const rows = await request<StoredSnapshot[]>(db.transaction(SNAPSHOTS).objectStore(SNAPSHOTS).index('matchId').getAll(IDBKeyRange.only(matchId)));
+    return rows.map(({ matchId: _, ...snapshot }) => snapshot).sort((a, b) => a.timestamp - b.timestamp);
+  } catch (e) {
+    console.error(`Failed to load snapshots for match ${matchId}:`, e);
+    return [];
+  }
+};
+
+/**
+ * Replaces every snapshot of a match (imported sessions). Passing an empty list deletes the
+ * recording but keeps the match's stats history and highlights.
+ */
+export const replaceSnapshots = async (meta: MatchMeta, snapshots: SessionSnapshot[]): Promise<void> => {
+  const db = await getDb();
+  const tx = db.transaction([MATCHES, SNAPSHOTS], 'readwrite');
+  const done = transactionDone(tx);
+  const snapshotStore = tx.objectStore(SNAPSHOTS);
+  const keys = await request(snapshotStore.index('matchId').getAllKeys(IDBKeyRange.only(meta.matchId)));
+  keys.forEach(key => snapshotStore.delete(key));
+  snapshots.forEach(snapshot => snapshotStore.add({ ...snapshot, matchId: meta.matchId }));
+
+  const matchStore = tx.objectStore(MATCHES);
+  const now = Date.now();
+  const existing = await request<StoredMatch | undefined>(matchStore.get(meta.matchId));
+  if (!existing && snapshots.length === 0) {
+    await done;
+    return;
+  }
+  const record = withMeta(existing || emptyMatch(meta, now), meta);
+  const timestamps = snapshots.map(s => s.timestamp);
+  record.snapshotCount = snapshots.length;
+  record.sessionStartedAt = timestamps.length > 0 ? Math.min(...timestamps) : undefined;
+  record.sessionUpdatedAt = timestamps.length > 0 ? Math.max(...timestamps) : undefined;
+  record.updatedAt = now;
+  matchStore.put(record);
+  await done;
+};
+
+// --- Last Known Responses ---
+
+export interface LastKnown<T> {
+  key: string;
+  value: T;
+  savedAt: number;
+}
+
+export const saveLastKnown = async <T,>(key: string, value: T, now = Date.now()): Promise<void> => {
+  try {
+    const db = await getDb();
+    const tx = db.transaction(LAST_KNOWN, 'readwrite');
+    tx.objectStore(LAST_KNOWN).put({ key, value, savedAt: now });
+    await transactionDone(tx);
+  } catch (e) {
+    console.warn(`Could not save last known ${key}:`, e);
+  }
+};
+
+export const loadLastKnown = async <T,>(key: string): Promise<LastKnown<T> | null> => {
+  try {
+    const db = await getDb();
+    return (await request<LastKnown<T> | undefined>(db.transaction(LAST_KNOWN).objectStore(LAST_KNOWN).get(key))) || null;
+  } catch (e) {
+    console.error(`Failed to load last known ${key}:`, e);
+    return null;
+  }
+};
+
+// Live data older than a day is of no use offline
+const pruneLastKnown = async (before: number): Promise<void> => {
+  const db = await getDb();
+  const tx = db.transaction(LAST_KNOWN, 'readwrite');
+  const done = transactionDone(tx);
+  const keys = await request(tx.objectStore(LAST_KNOWN).index('savedAt').getAllKeys(IDBKeyRange.upperBound(before)));
+  keys.forEach(key => tx.objectStore(LAST_KNOWN).delete(key));
+  await done;
+};
+
+// --- Retention ---
+
+export const loadRetentionPolicy = (): RetentionPolicy => {
+  const saved = localStorage.getItem(RETENTION_KEY);
+  if (!saved) return DEFAULT_RETENTION;
+  try {
+    return { ...DEFAULT_RETENTION, ...JSON.parse(saved) };
+  } catch (e) {
+    console.error('Failed to parse retention policy:', e);
+    return DEFAULT_RETENTION;
+  }
+};
+
+export const saveRetentionPolicy = (policy: RetentionPolicy) => localStorage.setItem(RETENTION_KEY, JSON.stringify(policy));
+
+/**
+ * Deletes matches the policy no longer keeps. Anything updated in the last day survives
+ * `starredOnly`, so a match being analysed right now is never pulled from under the Dashboard.
+ * Offline copies older than a day go too. Returns the number of matches deleted.
+ */
+export const applyRetention = async (policy: RetentionPolicy, starredIds: string[], now = Date.now()): Promise<number> => {
+  const expired = (await listMatches()).filter(record => {
+    const age = now - record.updatedAt;
+    if (age > policy.maxAgeDays * DAY_MS) return true;
+    return policy.starredOnly && age > DAY_MS && !starredIds.includes(record.matchId);
+  });
+  for (const record of expired) {
+    try {
+      await deleteMatch(record.matchId);
+    } catch (e) {
+      console.warn(`Could not delete match ${record.matchId} during retention:`, e);
+    }
+  }
+  try {
+    await pruneLastKnown(now - DAY_MS);
+  } catch (e) {
+    console.warn('Could not prune last known responses during retention:', e);
+  }
+  return expired.length;
+};
+
+// --- Usage ---
+
+export interface LeagueUsage {
+  league: string;
+  matches: number;
+  snapshots: number;
+}
+
+export interface StorageUsage {
+  matches: number;
+  snapshots: number;
+  oldestUpdatedAt: number | null;
+  byLeague: LeagueUsage[];
+  usageBytes: number | null; // navigator.storage.estimate(), whole origin
+  quotaBytes: number | null;
+  localStorageBytes: number; // What is still in localStorage (UTF-16, 2 bytes per char)
+}
+
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+  const records = await listMatches();
+  let snapshots = 0;
+  try {
+    const db = await getDb();
+    snapshots = await request(db.transaction(SNAPSHOTS).objectStore(SNAPSHOTS).count());
+  } catch (e) {
+    console.error('Failed to count snapshots:', e);
+  }
+
+  const leagues = new Map<string, LeagueUsage>();
+  records.forEach(record => {
+    const league = record.league || '—';
+    const row = leagues.get(league) || { league, matches: 0, snapshots: 0 };
+    row.matches += 1;
+    row.snapshots += record.snapshotCount;
+    leagues.set(league, row);
+  });
+
+  const estimate = navigator.storage?.estimate ? await navigator.storage.estimate().catch(() => null) : null;
+  const localStorageBytes = Object.keys(localStorage).reduce((sum, key) => sum + (key.length + (localStorage.getItem(key)?.length || 0)) * 2, 0);
+
+  return {
+    matches: records.length,
+    snapshots,
+    oldestUpdatedAt: records.length > 0 ? Math.min(...records.map(r => r.updatedAt)) : null,
+    byLeague: [...leagues.values()].sort((a, b) => b.matches - a.matches),
+    usageBytes: estimate?.usage ?? null,
+    quotaBytes: estimate?.quota ?? null,
+    localStorageBytes,
+  };
+};
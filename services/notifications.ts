@@ -0,0 +1,347 @@
+import { AlertHistoryEntry, AlertSignal, Highlight, MatchInfo } from '../types';
+import { OverOddsPoint, HomeOddsPoint } from './analysis';
+import { relayWebhook } from './api';
+import { SIGNAL_DEFINITIONS } from './alertRules';
+import { loadProviderConfig } from './dataProviders';
+import { loadWatchlist } from './watchlist';
+import { MessageKey, t } from './i18n';
+
+/**
+ * NOTIFICATIONS:
+ * Posts a message to webhook channels (Telegram, Discord or any JSON endpoint) when the Dashboard
+ * records a highlight or an alert rule fires, so a signal is not missed while nobody looks at
+ * the chart. Only live feeds (B365, Local HTTP) notify; demo data and recorded sessions do not.
+ *
+ * Each channel has:
+ *   - a template:  `{title}`, `{match}`, `{league}`, `{minute}`, `{score}`, `{probability}`,
+ *                  `{odds}` and `{reasoning}` are filled in; empty means the built-in template
+ *   - a filter:    which highlights (from a level up) and which alert rules it wants, a minimum
+ *                  probability, optionally starred matches only
+ *   - a dedupe window: the same highlight level or rule for the same match is sent at most once
+ *                  per window; failed sends do not count, so they are retried on the next refresh
+ *   - a delivery:  through the Worker's `POST /notify` (services/api.ts relayWebhook), or straight
+ *                  from the browser when the endpoint allows it (Telegram, the local stand-in)
+ *
+ * Channels live in localStorage under `notificationChannels`, sent and failed messages under
+ * `notificationLog`.
+ */
+const CHANNELS_KEY = 'notificationChannels';
+const LOG_KEY = 'notificationLog';
+const MAX_LOG = 200;
+
+export type ChannelFormat = 'telegram' | 'discord' | 'json';
+export type ChannelDelivery = 'worker' | 'direct';
+
+export const FORMAT_LABELS: Record<ChannelFormat, string> = {
+  telegram: 'Telegram',
+  discord: 'Discord',
+  json: 'JSON',
+};
+
+// Longest message each service accepts
+const MAX_TEXT_LENGTH: Record<ChannelFormat, number> = { telegram: 4096, discord: 2000, json: 8000 };
+
+export interface NotificationFilter {
+  highlights: boolean;
+  minLevel: Highlight['level'];
+  alerts: boolean;
+  ruleIds: string[]; // Empty means every rule
+  minProbability: number; // 0 lets events without a probability through too
+  watchlistOnly: boolean;
+}
+
+export interface NotificationChannel {
+  id: string;
+  name: string;
+  enabled: boolean;
+  format: ChannelFormat;
+  url: string; // Telegram: https://api.telegram.org/bot<token>/sendMessage
+  chatId: string; // Telegram only
+  delivery: ChannelDelivery;
+  template: string;
+  dedupeMinutes: number;
+  filter: NotificationFilter;
+}
+
+export const DEFAULT_FILTER: NotificationFilter = {
+  highlights: true,
+  minLevel: 'strong',
+  alerts: true,
+  ruleIds: [],
+  minProbability: 0,
+  watchlistOnly: false,
+};
+
+export const newChannel = (format: ChannelFormat): NotificationChannel => ({
+  id: `channel-${Date.now()}`,
+  name: FORMAT_LABELS[format],
+  enabled: true,
+  format,
+  url: '',
+  chatId: '',
+  delivery: 'worker',
+  template: '',
+  dedupeMinutes: 15,
+  filter: DEFAULT_FILTER,
+});
+
+// What a message is about, whatever triggered it
+export interface NotificationEvent {
+  kind: 'highlight' | 'alert';
+  dedupeKey: string; // Same key within a channel's window = same news
+  matchId: string;
+  title: string;
+  home: string;
+  away: string;
+  league: string;
+  minute: number;
+  ss: string;
+  probability: number | null;
+  level: Highlight['level'] | null; // Highlights only
+  ruleId: string | null; // Alerts only
+  over: { handicap: string; price: number } | null;
+  homeHandicap: { handicap: string; price: number } | null; // Asian handicap, home price
+  reasoning: string;
+}
+
+export interface NotificationLogEntry {
+  id: string;
+  channelId: string;
+  channelName: string;
+  dedupeKey: string;
+  matchId: string;
+  title: string;
+  sentAt: number;
+  ok: boolean;
+  error?: string;
+}
+
+// --- Storage ---
+
+const loadJson = <T,>(key: string, fallback: T): T => {
+  const saved = localStorage.getItem(key);
+  if (!saved) return fallback;
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    console.error(`Failed to parse ${key}:`, e);
+    return fallback;
+  }
+};
+
+export const loadChannels = (): NotificationChannel[] =>
+  loadJson<NotificationChannel[]>(CHANNELS_KEY, []).map(channel => ({ ...channel, filter: { ...DEFAULT_FILTER, ...channel.filter } }));
+
+export const saveChannels = (channels: NotificationChannel[]) => localStorage.setItem(CHANNELS_KEY, JSON.stringify(channels));
+
+export const loadNotificationLog = (): NotificationLogEntry[] => loadJson<NotificationLogEntry[]>(LOG_KEY, []);
+
+export const clearNotificationLog = () => localStorage.removeItem(LOG_KEY);
+
+const appendLog = (entry: NotificationLogEntry) => {
+  try {
+    localStorage.setItem(LOG_KEY, JSON.stringify([...loadNotificationLog(), entry].slice(-MAX_LOG)));
+  } catch (e) {
+    console.warn('Could not save notification log (storage full?):', e);
+  }
+};
+
+// --- Events ---
+
+const LEVEL_RANK: Record<Highlight['level'], number> = { weak: 1, medium: 2, strong: 3 };
+
+export const LEVEL_LABELS: Record<Highlight['level'], MessageKey> = {
+  weak: 'notify.level.weak',
+  medium: 'notify.level.medium',
+  strong: 'notify.level.strong',
+};
+
+const latestOf = <T,>(history: T[]): T | null => (history.length > 0 ? history[history.length - 1] : null);
+
+export const highlightEvent = (
+  match: MatchInfo,
+  minute: number,
+  level: Highlight['level'],
+  probability: number,
+  reasoning: string,
+  overOddsHistory: OverOddsPoint[],
+  homeOddsHistory: HomeOddsPoint[],
+): NotificationEvent => {
+  const over = latestOf(overOddsHistory);
+  const home = latestOf(homeOddsHistory);
+  return {
+    kind: 'highlight',
+    dedupeKey: `${match.id}:highlight:${level}`,
+    matchId: match.id,
+    title: t(LEVEL_LABELS[level]),
+    home: match.home.name,
+    away: match.away.name,
+    league: match.league?.name || '',
+    minute,
+    ss: match.ss || '0-0',
+    probability,
+    level,
+    ruleId: null,
+    over: over ? { handicap: over.handicap, price: over.over } : null,
+    homeHandicap: home ? { handicap: home.handicap, price: home.home } : null,
+    reasoning,
+  };
+};
+
+// Alerts carry only the signals their rule looked at; those stand in for the reasoning
+export const alertEvent = (alert: AlertHistoryEntry): NotificationEvent => {
+  const signals = Object.entries(alert.signals) as [AlertSignal, number][];
+  return {
+    kind: 'alert',
+    dedupeKey: `${alert.matchId}:alert:${alert.ruleId}`,
+    matchId: alert.matchId,
+    title: alert.ruleName,
+    home: alert.home,
+    away: alert.away,
+    league: '',
+    minute: alert.minute,
+    ss: alert.ss,
+    probability: alert.signals.aiProbability ?? alert.signals.localProbability ?? null,
+    level: null,
+    ruleId: alert.ruleId,
+    over: alert.signals.overOdds !== undefined ? { handicap: '', price: alert.signals.overOdds } : null,
+    homeHandicap: null,
+    reasoning: signals.map(([signal, value]) => `${t(SIGNAL_DEFINITIONS[signal].label)}: ${Math.round(value * 100) / 100}`).join(', '),
+  };
+};
+
+// --- Formatting ---
+
+const formatOdds = (event: NotificationEvent): string => {
+  const parts: string[] = [];
+  if (event.over) parts.push(`O${event.over.handicap} @${event.over.price.toFixed(2)}`);
+  if (event.homeHandicap) parts.push(`H${event.homeHandicap.handicap} @${event.homeHandicap.price.toFixed(2)}`);
+  return parts.length > 0 ? parts.join(' · ') : '-';
+};
+
+export const renderTemplate = (template: string, event: NotificationEvent): string => {
+  const values: Record<string, string> = {
+    title: event.title,
+    match: `${event.home} - ${event.away}`,
+    league: event.league,
+    minute: `${event.minute}'`,
+    score: event.ss,
+    probability: event.probability === null ? '-' : `${Math.round(event.probability)}%`,
+    odds: formatOdds(event),
+    reasoning: event.reasoning,
+  };
+  return (template.trim() || t('notify.defaultTemplate'))
+    .replace(/\{(\w+)\}/g, (placeholder, name) => (name in values ? values[name] : placeholder))
+    .trim();
+};
+
+const buildPayload = (channel: NotificationChannel, text: string, event: NotificationEvent): unknown => {
+  const clipped = text.slice(0, MAX_TEXT_LENGTH[channel.format]);
+  switch (channel.format) {
+    case 'telegram': return { chat_id: channel.chatId, text: clipped, disable_web_page_preview: true };
+    case 'discord': return { content: clipped };
+    default: return { text: clipped, event };
+  }
+};
+
+// --- Sending ---
+
+export const passesFilter = (channel: NotificationChannel, event: NotificationEvent, watchIds: string[] = loadWatchlist()): boolean => {
+  const { filter } = channel;
+  if (event.kind === 'highlight' && (!filter.highlights || !event.level || LEVEL_RANK[event.level] < LEVEL_RANK[filter.minLevel])) return false;
+  if (event.kind === 'alert' && (!filter.alerts || (filter.ruleIds.length > 0 && !filter.ruleIds.includes(event.ruleId || '')))) return false;
+  if (filter.minProbability > 0 && (event.probability === null || event.probability < filter.minProbability)) return false;
+  if (filter.watchlistOnly && !watchIds.includes(event.matchId)) return false;
+  return true;
+};
+
+const isDuplicate = (channel: NotificationChannel, event: NotificationEvent, log: NotificationLogEntry[], now: number) =>
+  log.some(entry => entry.ok && entry.channelId === channel.id && entry.dedupeKey === event.dedupeKey && now - entry.sentAt < channel.dedupeMinutes * 60000);
+
+// Sends still on their way, so two refreshes in quick succession do not both send
+const inFlight = new Set<string>();
+
+const post = async (channel: NotificationChannel, payload: unknown) => {
+  if (channel.delivery === 'worker') {
+    await relayWebhook(channel.url, payload, loadProviderConfig()?.clientKey);
+    return;
+  }
+  const response = await fetch(channel.url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+};
+
+/**
+ * Sends one message to one channel and logs the outcome. Filters and dedupe are the caller's
+ * business, so the settings screen can use it for test messages.
+ */
+export const sendToChannel = async (channel: NotificationChannel, event: NotificationEvent): Promise<NotificationLogEntry> => {
+  const sentAt = Date.now();
+  const entry: NotificationLogEntry = {
+    id: `${channel.id}-${sentAt}`,
+    channelId: channel.id,
+    channelName: channel.name,
+    dedupeKey: event.dedupeKey,
+    matchId: event.matchId,
+    title: event.title,
+    sentAt,
+    ok: true,
+  };
+  try {
+    if (!channel.url.trim()) throw new Error(t('notify.noUrl'));
+    await post(channel, buildPayload(channel, renderTemplate(channel.template, event), event));
+  } catch (error) {
+    entry.ok = false;
+    entry.error = error instanceof Error ? error.message : String(error);
+    console.warn(`Notification to ${channel.name} failed:`, error);
+  }
+  appendLog(entry);
+  return entry;
+};
+
+/**
+ * Sends an event to every enabled channel whose filter wants it and that has not sent the same
+ * news within its dedupe window. Returns what was attempted.
+ */
+export const notify = async (event: NotificationEvent, channels: NotificationChannel[] = loadChannels()): Promise<NotificationLogEntry[]> => {
+  const now = Date.now();
+  const log = loadNotificationLog();
+  const watchIds = loadWatchlist();
+  const targets = channels.filter(channel =>
+    channel.enabled
+    && passesFilter(channel, event, watchIds)
+    && !isDuplicate(channel, event, log, now)
+    && !inFlight.has(`${channel.id}:${event.dedupeKey}`));
+
+  return Promise.all(targets.map(async channel => {
+    const key = `${channel.id}:${event.dedupeKey}`;
+    inFlight.add(key);
+    try {
+      return await sendToChannel(channel, event);
+    } finally {
+      inFlight.delete(key);
+    }
+  }));
+};
+
+// A made-up strong highlight for the settings screen's test button
+export const sampleEvent = (): NotificationEvent => ({
+  kind: 'highlight',
+  dedupeKey: 'test',
+  matchId: 'test',
+  title: t(LEVEL_LABELS.strong),
+  home: t('aiSettings.sampleHome'),
+  away: t('aiSettings.sampleAway'),
+  league: '',
+  minute: 67,
+  ss: '0-0',
+  probability: 72,
+  level: 'strong',
+  ruleId: null,
+  over: { handicap: '0.5', price: 1.85 },
+  homeHandicap: { handicap: '-0.25', price: 1.9 },
+  reasoning: t('notify.sampleReasoning'),
+});
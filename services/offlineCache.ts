@@ -0,0 +1,98 @@
+import { DataProvider } from '../types';
+import { loadLastKnown, saveLastKnown } from './matchStore';
+
+/**
+ * OFFLINE CACHE:
+ * Keeps the app usable on a flaky mobile connection. Providers that go over the network are
+ * wrapped by withOfflineCache: every good answer (the in-play list, and per match the last
+ * MatchInfo and odds) is kept in the match store, and while the device is offline the last known
+ * answer is served instead, together with the time it was fetched.
+ *
+ * "Offline" means navigator.onLine is false, or the live call hit a network failure (reported by
+ * the fetch code through reportNetworkFailure), which also covers a connection that claims to be
+ * up but drops every request. Only while navigator.onLine is false is no request attempted; after
+ * a failed request every call tries the network again, and the first live answer ends the outage.
+ * Polling should therefore only pause on isDeviceOffline, not on isOffline.
+ *
+ * Subscribers see the connection state and since when the data on screen is stale; the `online`
+ * event is passed on straight away so polling can resume without waiting for its next tick.
+ */
+export interface ConnectionStatus {
+  offline: boolean;
+  staleSince: number | null; // Fetch time of the oldest cached answer served since going offline
+}
+
+type ConnectionListener = (status: ConnectionStatus) => void;
+
+let status: ConnectionStatus = { offline: typeof navigator !== 'undefined' && navigator.onLine === false, staleSince: null };
+let networkFailures = 0;
+const listeners = new Set<ConnectionListener>();
+
+const setStatus = (next: ConnectionStatus) => {
+  if (next.offline === status.offline && next.staleSince === status.staleSince) return;
+  status = next;
+  listeners.forEach(listener => listener(status));
+};
+
+export const getConnectionStatus = (): ConnectionStatus => status;
+
+export const isOffline = () => status.offline;
+
+// The browser knows there is no connection: requests would fail without reaching the network
+export const isDeviceOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+export const subscribeConnection = (listener: ConnectionListener): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// Called by the fetch code when a request never got a response
+export const reportNetworkFailure = () => { networkFailures++; };
+
+if (typeof window !== 'undefined') {
+  // Back online: polling resumes, the stale marker stays until a live answer arrives
+  window.addEventListener('online', () => setStatus({ ...status, offline: false }));
+  window.addEventListener('offline', () => setStatus({ ...status, offline: true }));
+}
+
+const markLive = () => setStatus({ offline: false, staleSince: null });
+
+const markStale = (savedAt: number | null) => setStatus({
+  offline: true,
+  staleSince: savedAt === null ? status.staleSince : Math.min(savedAt, status.staleSince ?? savedAt),
+});
+
+/**
+ * Runs one live call and remembers its answer, or serves the last known one when the call could
+ * not reach the network. `fallback` is what an offline call returns when nothing was ever cached.
+ */
+const cachedCall = async <T,>(key: string, live: () => Promise<T>, fallback: T): Promise<T> => {
+  if (!isDeviceOffline()) {
+    const failuresBefore = networkFailures;
+    let failure: unknown = null;
+    let value: T | undefined;
+    try {
+      value = await live();
+    } catch (error) {
+      failure = error;
+    }
+    if (networkFailures === failuresBefore) {
+      if (failure) throw failure;
+      markLive();
+      // An empty answer is not worth keeping over the last good one
+      if (value !== null && !(Array.isArray(value) && value.length === 0)) saveLastKnown(key, value);
+      return value as T;
+    }
+  }
+
+  const cached = await loadLastKnown<T>(key);
+  markStale(cached ? cached.savedAt : null);
+  return cached ? cached.value : fallback;
+};
+
+export const withOfflineCache = (provider: DataProvider): DataProvider => ({
+  ...provider,
+  getInPlayEvents: () => cachedCall('inplay', () => provider.getInPlayEvents(), []),
+  getMatchDetails: (eventId) => cachedCall(`details:${eventId}`, () => provider.getMatchDetails(eventId), null),
+  getMatchOdds: (eventId) => cachedCall(`odds:${eventId}`, () => provider.getMatchOdds(eventId), null),
+});
@@ -0,0 +1,168 @@
+import { ConfidenceLevel, MatchInfo, PredictionJournalEntry, PredictionSource } from '../types';
+
+/**
+ * PREDICTION JOURNAL:
+ * Every goal prediction (Gemini or the local model) is logged with its inputs, then resolved
+ * automatically from later `ss` changes: a goal within HORIZON_MINUTES counts as a hit,
+ * reaching the end of the horizon without one counts as a miss.
+ *
+ * The journal lives in localStorage under `predictionJournal` and is capped at MAX_ENTRIES.
+ */
+const JOURNAL_KEY = 'predictionJournal';
+const MAX_ENTRIES = 5000;
+export const PREDICTION_HORIZON_MINUTES = 5;
+
+export const CONFIDENCE_LEVELS: ConfidenceLevel[] = ['low', 'medium', 'high', 'very_high'];
+
+// Labels confidence used to be stored and answered with, in either language
+const CONFIDENCE_ALIASES: Record<string, ConfidenceLevel> = {
+  'thấp': 'low', 'trung bình': 'medium', 'cao': 'high', 'rất cao': 'very_high',
+  'very high': 'very_high', 'very-high': 'very_high',
+};
+
+/**
+ * The language-neutral level for a stored or model-given value: the enum itself, the old
+ * Vietnamese labels (journal entries and recordings made before the enum) or an English label.
+ * Null for anything else.
+ */
+export const normalizeConfidence = (value: unknown): ConfidenceLevel | null => {
+  if (typeof value !== 'string') return null;
+  const key = value.trim().toLowerCase();
+  if ((CONFIDENCE_LEVELS as string[]).includes(key)) return key as ConfidenceLevel;
+  return CONFIDENCE_ALIASES[key] || null;
+};
+
+const totalGoals = (ss: string | undefined) =>
+  (ss || '0-0').split('-').reduce((sum, part) => sum + (parseInt(part) || 0), 0);
+
+export const loadJournal = (): PredictionJournalEntry[] => {
+  const saved = localStorage.getItem(JOURNAL_KEY);
+  if (!saved) return [];
+  try {
+    const entries: PredictionJournalEntry[] = JSON.parse(saved);
+    return entries.map(e => ({ ...e, confidence: normalizeConfidence(e.confidence) || 'low' }));
+  } catch (e) {
+    console.error('Failed to parse prediction journal:', e);
+    return [];
+  }
+};
+
+const saveJournal = (entries: PredictionJournalEntry[]) => {
+  try {
+    localStorage.setItem(JOURNAL_KEY, JSON.stringify(entries.slice(-MAX_ENTRIES)));
+  } catch (e) {
+    console.warn('Could not save prediction journal (storage full?):', e);
+  }
+};
+
+export const clearJournal = () => localStorage.removeItem(JOURNAL_KEY);
+
+// Adds entries from elsewhere (imported bundles), skipping ids the journal already has
+export const mergeJournalEntries = (incoming: PredictionJournalEntry[]): void => {
+  const entries = loadJournal();
+  const known = new Set(entries.map(e => e.id));
+  const added = incoming
+    .filter(e => !known.has(e.id))
+    .map(e => ({ ...e, confidence: normalizeConfidence(e.confidence) || 'low' }));
+  if (added.length === 0) return;
+  saveJournal([...entries, ...added].sort((a, b) => a.createdAt - b.createdAt));
+};
+
+/**
+ * Logs a prediction. The local model runs on every refresh, so only one entry per
+ * match, source and minute is kept.
+ */
+export const logPrediction = (entry: Omit<PredictionJournalEntry, 'id' | 'createdAt' | 'outcome'>): void => {
+  const entries = loadJournal();
+  const duplicate = entries.some(e => e.matchId === entry.matchId && e.source === entry.source && e.minute === entry.minute);
+  if (duplicate) return;
+  const createdAt = Date.now();
+  entries.push({ ...entry, id: `${entry.matchId}-${entry.source}-${createdAt}`, createdAt });
+  saveJournal(entries);
+};
+
+// Resolves the open entries of one match against its current minute and score. Returns true if anything changed.
+const resolveEntries = (entries: PredictionJournalEntry[], matchId: string, minute: number, ss: string): boolean => {
+  let changed = false;
+  const goals = totalGoals(ss);
+  entries.forEach(entry => {
+    if (entry.outcome || entry.matchId !== matchId || !minute) return;
+    const horizonEnd = entry.minute + PREDICTION_HORIZON_MINUTES;
+    if (goals > totalGoals(entry.scoreAtPrediction)) {
+      entry.outcome = { goal: minute <= horizonEnd, resolvedAt: Date.now(), resolvedMinute: minute };
+      changed = true;
+    } else if (minute > horizonEnd) {
+      entry.outcome = { goal: false, resolvedAt: Date.now(), resolvedMinute: minute };
+      changed = true;
+    }
+  });
+  return changed;
+};
+
+const matchMinute = (m: MatchInfo) => parseInt(m.timer?.tm?.toString() || m.time || '0');
+
+// Resolves every match in one pass, e.g. after each poll of the in-play list
+export const resolvePredictions = (matches: MatchInfo[]): void => {
+  const entries = loadJournal();
+  if (!entries.some(e => !e.outcome)) return;
+  let changed = false;
+  matches.forEach(m => {
+    if (resolveEntries(entries, m.id, matchMinute(m), m.ss)) changed = true;
+  });
+  if (changed) saveJournal(entries);
+};
+
+// --- Calibration Report ---
+
+export interface ReliabilityBin {
+  from: number; // Lower bound of the predicted probability bin (0-100)
+  predicted: number; // Mean predicted probability in the bin (0-100)
+  observed: number; // Observed goal rate in the bin (0-100)
+  count: number;
+}
+
+export interface SourceReport {
+  source: PredictionSource;
+  resolved: number;
+  pending: number;
+  brierScore: number | null; // Mean squared error of the probability, 0 is perfect
+  baseRate: number | null; // Share of resolved predictions followed by a goal (0-100)
+  bins: ReliabilityBin[];
+  byConfidence: { level: ConfidenceLevel; count: number; hitRate: number | null }[];
+}
+
+const BIN_SIZE = 10;
+
+export const buildSourceReport = (entries: PredictionJournalEntry[], source: PredictionSource): SourceReport => {
+  const ofSource = entries.filter(e => e.source === source);
+  const resolved = ofSource.filter(e => e.outcome);
+  const outcome = (e: PredictionJournalEntry) => (e.outcome!.goal ? 1 : 0);
+
+  const brierScore = resolved.length === 0 ? null :
+    resolved.reduce((sum, e) => sum + Math.pow(e.probability / 100 - outcome(e), 2), 0) / resolved.length;
+  const baseRate = resolved.length === 0 ? null :
+    (resolved.reduce((sum, e) => sum + outcome(e), 0) / resolved.length) * 100;
+
+  const bins: ReliabilityBin[] = [];
+  for (let from = 0; from < 100; from += BIN_SIZE) {
+    const inBin = resolved.filter(e => e.probability >= from && (e.probability < from + BIN_SIZE || (from + BIN_SIZE === 100 && e.probability === 100)));
+    if (inBin.length === 0) continue;
+    bins.push({
+      from,
+      predicted: inBin.reduce((sum, e) => sum + e.probability, 0) / inBin.length,
+      observed: (inBin.reduce((sum, e) => sum + outcome(e), 0) / inBin.length) * 100,
+      count: inBin.length,
+    });
+  }
+
+  const byConfidence = CONFIDENCE_LEVELS.map(level => {
+    const atLevel = resolved.filter(e => e.confidence === level);
+    return {
+      level,
+      count: atLevel.length,
+      hitRate: atLevel.length === 0 ? null : (atLevel.reduce((sum, e) => sum + outcome(e), 0) / atLevel.length) * 100,
+    };
+  });
+
+  return { source, resolved: resolved.length, pending: ofSource.length - resolved.length, brierScore, baseRate, bins, byConfidence };
+};
@@ -0,0 +1,235 @@
+import { AllHighlights, MatchInfo, MatchSession, PreGoalAnalysis, PredictionJournalEntry, ProcessedStats } from '../types';
+import {
+  StatsHistory, OverOddsPoint, HomeOddsPoint, calculateAPIScore, computeFactors,
+  buildOverMarketChartData, buildHomeMarketChartData,
+} from './analysis';
+import { loadSession, saveSession } from './sessionRecorder';
+import { t } from './i18n';
+import { loadJournal, mergeJournalEntries } from './predictionJournal';
+import { loadMatch, saveStatsHistory, saveHighlights } from './matchStore';
+
+/**
+ * SESSION BUNDLES:
+ * Everything the Dashboard knows about one match, in one file that can leave the browser:
+ * the recorded snapshots (enough to replay the match), the stats and odds histories, the API
+ * scores and factors computed from them, the chart highlights and every logged prediction.
+ *
+ * The JSON bundle carries `format` and `version` so older files can still be read when the
+ * shape changes. The CSV export flattens the same data into one table per file for spreadsheets.
+ * Importing writes the bundle back into the same match store the Dashboard uses.
+ */
+export const BUNDLE_FORMAT = 'pro-football-session';
+export const BUNDLE_VERSION = 1;
+
+export interface ApiScorePoint {
+  minute: number;
+  home: number;
+  away: number;
+}
+
+export type FactorPoint = PreGoalAnalysis['factors'] & { minute: number };
+
+export interface SessionBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: number;
+  match: { id: string; league: string; home: string; away: string };
+  session: MatchSession | null; // Raw snapshots, replayable
+  statsHistory: StatsHistory;
+  apiScores: ApiScorePoint[];
+  factors: FactorPoint[];
+  odds: { overUnder: OverOddsPoint[]; handicap: HomeOddsPoint[] };
+  highlights: AllHighlights;
+  predictions: PredictionJournalEntry[];
+}
+
+export interface DashboardState {
+  match: MatchInfo;
+  statsHistory: StatsHistory;
+  oddsHistory: OverOddsPoint[];
+  homeOddsHistory: HomeOddsPoint[];
+  highlights: AllHighlights;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export const buildSessionBundle = async (state: DashboardState): Promise<SessionBundle> => {
+  const { match, statsHistory, oddsHistory, homeOddsHistory, highlights } = state;
+  const minutes = Object.keys(statsHistory).map(Number).sort((a, b) => a - b);
+  const marketChartData = buildOverMarketChartData(oddsHistory);
+  const homeMarketChartData = buildHomeMarketChartData(homeOddsHistory);
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: Date.now(),
+    match: { id: match.id, league: match.league.name, home: match.home.name, away: match.away.name },
+    session: await loadSession(match.id),
+    statsHistory,
+    apiScores: minutes.map(minute => ({
+      minute,
+      home: calculateAPIScore(statsHistory[minute], 0),
+      away: calculateAPIScore(statsHistory[minute], 1),
+    })),
+    factors: minutes.map(minute => {
+      const { apiMomentum, shotCluster, pressure, homePressure, awayPressure } = computeFactors(statsHistory, statsHistory[minute], minute, marketChartData, homeMarketChartData);
+      return { minute, apiMomentum: round2(apiMomentum), shotCluster: round2(shotCluster), pressure: round2(pressure), homePressure, awayPressure };
+    }),
+    odds: { overUnder: oddsHistory, handicap: homeOddsHistory },
+    highlights,
+    predictions: loadJournal().filter(e => e.matchId === match.id),
+  };
+};
+
+/**
+ * Reads a bundle file. Throws with a message fit for the UI when the file is not a bundle,
+ * comes from a newer version of the app, or has no snapshots to replay.
+ */
+export const parseSessionBundle = (text: string): SessionBundle => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error(t('bundle.invalidJson'));
+  }
+  if (!data || data.format !== BUNDLE_FORMAT || typeof data.version !== 'number') {
+    throw new Error(t('bundle.notBundle'));
+  }
+  if (data.version > BUNDLE_VERSION) {
+    throw new Error(t('bundle.tooNew', { version: data.version, supported: BUNDLE_VERSION }));
+  }
+  if (!data.match?.id) throw new Error(t('bundle.noMatch'));
+  if (!(data.session?.snapshots?.length > 0)) throw new Error(t('bundle.noSnapshots'));
+  return {
+    ...data,
+    session: data.session || null,
+    statsHistory: data.statsHistory || {},
+    apiScores: data.apiScores || [],
+    factors: data.factors || [],
+    odds: { overUnder: data.odds?.overUnder || [], handicap: data.odds?.handicap || [] },
+    highlights: { overUnder: data.highlights?.overUnder || [], homeOdds: data.highlights?.homeOdds || [] },
+    predictions: data.predictions || [],
+  };
+};
+
+// Whether importing the bundle would replace a recording or stats already kept for the same match
+export const bundleOverwritesMatch = async (bundle: SessionBundle): Promise<boolean> => {
+  const stored = await loadMatch(bundle.match.id);
+  return !!stored && (stored.snapshotCount > 0 || Object.keys(stored.statsHistory).length > 0);
+};
+
+/**
+ * Restores a bundle into the match store: the recorded session (replaces any session of the
+ * same match), the Dashboard's stats history and highlights, and the predictions not yet
+ * in the journal.
+ */
+export const importSessionBundle = async (bundle: SessionBundle): Promise<void> => {
+  const meta = { matchId: bundle.match.id, league: bundle.match.league, home: bundle.match.home, away: bundle.match.away };
+  if (bundle.session) await saveSession({ ...bundle.session, matchId: meta.matchId });
+  if (Object.keys(bundle.statsHistory).length > 0) await saveStatsHistory(meta, bundle.statsHistory);
+  if (bundle.highlights.overUnder.length > 0 || bundle.highlights.homeOdds.length > 0) await saveHighlights(meta, bundle.highlights);
+  mergeJournalEntries(bundle.predictions);
+};
+
+// --- CSV ---
+
+const csvCell = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (header: string[], rows: unknown[][]): string =>
+  [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+
+const STAT_KEYS: (keyof ProcessedStats)[] = ['attacks', 'dangerous_attacks', 'on_target', 'off_target', 'corners', 'yellowcards', 'redcards'];
+
+/**
+ * One CSV per table, keyed by file name. Tables without rows are left out.
+ */
+export const bundleToCsvFiles = (bundle: SessionBundle): Record<string, string> => {
+  const files: Record<string, string> = {};
+  const minutes = Object.keys(bundle.statsHistory).map(Number).sort((a, b) => a - b);
+
+  if (minutes.length > 0) {
+    const scores = new Map(bundle.apiScores.map(p => [p.minute, p]));
+    const factors = new Map(bundle.factors.map(p => [p.minute, p]));
+    files['stats.csv'] = toCsv(
+      ['minute', ...STAT_KEYS.flatMap(k => [`${k}_home`, `${k}_away`]), 'api_home', 'api_away', 'api_momentum', 'shot_cluster', 'pressure', 'home_pressure', 'away_pressure'],
+      minutes.map(minute => {
+        const stats = bundle.statsHistory[minute];
+        return [
+          minute,
+          ...STAT_KEYS.flatMap(k => stats[k]),
+          scores.get(minute)?.home,
+          scores.get(minute)?.away,
+          factors.get(minute)?.apiMomentum,
+          factors.get(minute)?.shotCluster,
+          factors.get(minute)?.pressure,
+          factors.get(minute)?.homePressure,
+          factors.get(minute)?.awayPressure,
+        ];
+      })
+    );
+  }
+
+  if (bundle.odds.overUnder.length > 0) {
+    files['odds_over_under.csv'] = toCsv(
+      ['minute', 'added', 'line', 'over', 'under', 'score'],
+      bundle.odds.overUnder.map(p => [p.minute, p.added || 0, p.handicap, p.over, p.under, p.ss])
+    );
+  }
+
+  if (bundle.odds.handicap.length > 0) {
+    files['odds_handicap.csv'] = toCsv(
+      ['minute', 'added', 'line', 'home', 'away'],
+      bundle.odds.handicap.map(p => [p.minute, p.added || 0, p.handicap, p.home, p.away])
+    );
+  }
+
+  if (bundle.predictions.length > 0) {
+    files['predictions.csv'] = toCsv(
+      ['created_at', 'minute', 'source', 'score', 'probability', 'confidence', 'api_momentum', 'shot_cluster', 'pressure', 'home_api', 'away_api', 'over_line', 'goal', 'resolved_minute', 'reasoning'],
+      bundle.predictions.map(e => [
+        new Date(e.createdAt).toISOString(),
+        e.minute,
+        e.source,
+        e.scoreAtPrediction,
+        e.probability,
+        e.confidence,
+        e.inputs.factors.apiMomentum,
+        e.inputs.factors.shotCluster,
+        e.inputs.factors.pressure,
+        e.inputs.homeApi,
+        e.inputs.awayApi,
+        e.inputs.overLine?.handicap,
+        e.outcome ? (e.outcome.goal ? 1 : 0) : '',
+        e.outcome?.resolvedMinute,
+        e.reasoning,
+      ])
+    );
+  }
+
+  const highlights = [
+    ...bundle.highlights.overUnder.map(h => ['over_under', h.minute, h.level, h.label]),
+    ...bundle.highlights.homeOdds.map(h => ['handicap', h.minute, h.level, h.label]),
+  ];
+  if (highlights.length > 0) files['highlights.csv'] = toCsv(['chart', 'minute', 'level', 'label'], highlights);
+
+  return files;
+};
+
+// --- Files ---
+
+// "Home-vs-Away_<id>", safe as a file name; callers add the suffix
+export const bundleBaseName = (bundle: SessionBundle) =>
+  `${bundle.match.home}-vs-${bundle.match.away}_${bundle.match.id}`.replace(/[^\w-]+/g, '_');
+
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,67 @@
+import { MatchInfo, OddsData, PreGoalAnalysis, MatchSession, MatchSessionSummary, SessionSnapshot, StoredMatch } from '../types';
+import { listMatches, loadMatch, loadSnapshots, appendSnapshot, replaceSnapshots, matchMeta } from './matchStore';
+import { normalizeConfidence } from './predictionJournal';
+
+/**
+ * SESSION RECORDING:
+ * Every live poll in the Dashboard stores the raw getMatchDetails/getMatchOdds
+ * responses with a timestamp, so a finished match can be replayed later through
+ * the exact same code path that processed it live.
+ *
+ * Snapshots are kept in the match store (IndexedDB, one row per poll); the match
+ * record carries the snapshot count so the list can be shown without loading them.
+ */
+
+const toSummary = (record: StoredMatch): MatchSessionSummary => ({
+  matchId: record.matchId,
+  league: record.league,
+  home: record.home,
+  away: record.away,
+  startedAt: record.sessionStartedAt || record.createdAt,
+  updatedAt: record.sessionUpdatedAt || record.updatedAt,
+  snapshotCount: record.snapshotCount,
+});
+
+export const listSessions = async (): Promise<MatchSessionSummary[]> => {
+  const records = await listMatches();
+  return records
+    .filter(record => record.snapshotCount > 0)
+    .map(toSummary)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadSession = async (matchId: string): Promise<MatchSession | null> => {
+  const record = await loadMatch(matchId);
+  if (!record || record.snapshotCount === 0) return null;
+  // Recordings made before the confidence enum carry the old Vietnamese labels
+  const snapshots = (await loadSnapshots(matchId)).map(snapshot => (snapshot.analysis
+    ? { ...snapshot, analysis: { ...snapshot.analysis, level: normalizeConfidence(snapshot.analysis.level) || 'low' } }
+    : snapshot));
+  return { ...toSummary(record), snapshotCount: snapshots.length, snapshots };
+};
+
+// Removes the recording only; the match's stats history and highlights stay
+export const deleteSession = (matchId: string): Promise<void> =>
+  replaceSnapshots({ matchId, league: '', home: '', away: '' }, []);
+
+// Stores a whole session as-is (imported bundles); replaces any session of the same match
+export const saveSession = (session: MatchSession): Promise<void> =>
+  replaceSnapshots({ matchId: session.matchId, league: session.league, home: session.home, away: session.away }, session.snapshots);
+
+/**
+ * Appends one raw snapshot to the session of `match`, creating the session on first use.
+ * Storage errors are logged and swallowed by the match store so that recording can never
+ * break live analysis.
+ */
+export const recordSnapshot = (
+  match: MatchInfo,
+  details: MatchInfo | null,
+  odds: OddsData | null,
+  analysis?: PreGoalAnalysis,
+): Promise<void> => {
+  if (!details && !odds && !analysis) return Promise.resolve();
+
+  const snapshot: SessionSnapshot = { timestamp: Date.now(), details, odds };
+  if (analysis) snapshot.analysis = analysis;
+  return appendSnapshot(matchMeta(match), snapshot);
+};
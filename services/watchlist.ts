@@ -0,0 +1,144 @@
+import { DataProvider, MatchInfo, WatchedMatchSummary } from '../types';
+import { parseStats } from './api';
+import {
+  StatsHistory, computeFactors, toOverOddsHistory, toHomeOddsHistory,
+  buildOverMarketChartData, buildHomeMarketChartData, OverOddsPoint, HomeOddsPoint,
+} from './analysis';
+import { predictLocalGoalProbability } from './goalModel';
+import { evaluateAlertRules } from './alertRules';
+import { loadMatch, saveStatsHistory, matchMeta } from './matchStore';
+import { clockFromTimer, clockKey } from './matchClock';
+
+/**
+ * WATCHLIST:
+ * Starred matches keep being analysed in the background while the user looks at something else.
+ *
+ * Stats come for free: every poll of the in-play list already carries them, so each cycle
+ * appends them to the same match-store stats history the Dashboard uses. Odds need one
+ * call per match, so only ONE watched match has its odds refreshed per cycle (round-robin);
+ * the provider's own rate limiting (e.g. enforceRateLimit for B365) spaces those calls out.
+ */
+const WATCHLIST_KEY = 'watchlist';
+
+interface WatchedOdds {
+  over: OverOddsPoint[];
+  home: HomeOddsPoint[];
+  fetchedAt: number;
+}
+
+// In-memory only: odds are refetched in full on every call anyway
+const watchedOdds: Record<string, WatchedOdds> = {};
+let oddsCursor = 0;
+
+export const loadWatchlist = (): string[] => {
+  const saved = localStorage.getItem(WATCHLIST_KEY);
+  if (!saved) return [];
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    console.error('Failed to parse watchlist:', e);
+    return [];
+  }
+};
+
+export const toggleWatched = (watchIds: string[], matchId: string): string[] => {
+  const next = watchIds.includes(matchId) ? watchIds.filter(id => id !== matchId) : [...watchIds, matchId];
+  localStorage.setItem(WATCHLIST_KEY, JSON.stringify(next));
+  return next;
+};
+
+const matchMinute = (m: MatchInfo) => parseInt(m.timer?.tm?.toString() || m.time || '0');
+
+/**
+ * Folds the match's current stats into its history (unless the Dashboard owns it right now)
+ * and computes the factors and local probability from what is known.
+ */
+const summarizeMatch = async (match: MatchInfo, ownsHistory: boolean): Promise<WatchedMatchSummary> => {
+  const minute = matchMinute(match);
+  const currentStats = parseStats(match.stats);
+  const statsHistory: StatsHistory = (await loadMatch(match.id))?.statsHistory || {};
+  if (ownsHistory && match.timer?.tm && match.stats) {
+    statsHistory[clockKey(clockFromTimer(match))] = currentStats;
+    await saveStatsHistory(matchMeta(match), statsHistory);
+  }
+
+  const odds = watchedOdds[match.id];
+  const factors = computeFactors(
+    statsHistory,
+    currentStats,
+    minute,
+    buildOverMarketChartData(odds?.over || []),
+    buildHomeMarketChartData(odds?.home || []),
+  );
+  const [homeScore, awayScore] = (match.ss || '0-0').split('-').map(part => parseInt(part) || 0);
+  const latestOver = odds && odds.over.length > 0 ? odds.over[odds.over.length - 1] : null;
+  const prediction = predictLocalGoalProbability({
+    minute,
+    homeScore: homeScore || 0,
+    awayScore: awayScore || 0,
+    redCards: currentStats.redcards,
+    overLine: latestOver,
+    factors,
+    samples: Object.keys(statsHistory).length,
+  });
+
+  // The open match is alerted on by the Dashboard, which has the fuller picture
+  if (ownsHistory) {
+    evaluateAlertRules({
+      matchId: match.id,
+      home: match.home.name,
+      away: match.away.name,
+      ss: match.ss || '0-0',
+      minute,
+      factors,
+      localProbability: prediction.goal_probability,
+      aiProbability: null,
+      redCards: currentStats.redcards[0] + currentStats.redcards[1],
+      overOddsHistory: odds?.over || [],
+      homeOddsHistory: odds?.home || [],
+    });
+  }
+
+  return {
+    matchId: match.id,
+    league: match.league.name,
+    home: match.home.name,
+    away: match.away.name,
+    ss: match.ss || '0-0',
+    minute,
+    factors,
+    probability: prediction.goal_probability,
+    confidence: prediction.confidence_level,
+    updatedAt: Date.now(),
+    oddsUpdatedAt: odds?.fetchedAt,
+  };
+};
+
+/**
+ * One background cycle over the latest in-play list. `activeMatchId` is the match open in the
+ * Dashboard: it polls its own odds and owns its stats history, so it is only summarised here.
+ */
+export const monitorWatchlist = async (
+  provider: DataProvider,
+  events: MatchInfo[],
+  watchIds: string[],
+  activeMatchId: string | null,
+): Promise<WatchedMatchSummary[]> => {
+  const watched = events.filter(e => watchIds.includes(e.id));
+
+  const oddsCandidates = watched.filter(m => m.id !== activeMatchId);
+  if (oddsCandidates.length > 0) {
+    const target = oddsCandidates[oddsCursor % oddsCandidates.length];
+    oddsCursor++;
+    const odds = await provider.getMatchOdds(target.id);
+    if (odds) {
+      watchedOdds[target.id] = {
+        over: toOverOddsHistory(odds) || watchedOdds[target.id]?.over || [],
+        home: toHomeOddsHistory(odds) || watchedOdds[target.id]?.home || [],
+        fetchedAt: Date.now(),
+      };
+    }
+  }
+
+  return Promise.all(watched.map(m => summarizeMatch(m, m.id !== activeMatchId)));
+};
@@ -8,6 +8,7 @@ export interface MatchInfo {
   ss: string; // Score string "1-0"
   time: string; // "45"
   timer?: { tm: number; ts: number; tt: string; ta: number; md: number };
+  time_status?: string; // "1" in play, "3" ended
   stats?: Record<string, string[]>; // "attacks": ["10", "5"]
 }
 
@@ -29,6 +30,7 @@ export interface OddsItem {
   over_od?: string;
   under_od?: string;
   handicap?: string;
+  ss?: string; // Score when the price was quoted (in-play odds)
   time_str: string;
   add_time: string;
 }
@@ -49,22 +51,329 @@ export interface ChartPoint {
   handicap?: number;
 }
 
+// Language-neutral confidence; shown through the `confidence.*` catalog entries
+export type ConfidenceLevel = 'low' | 'medium' | 'high' | 'very_high';
+
 export interface PreGoalAnalysis {
   score: number;
-  // Fix: Update level type to match AI's Vietnamese output
-  level: 'thấp' | 'trung bình' | 'cao' | 'rất cao';
+  level: ConfidenceLevel;
   factors: {
     apiMomentum: number;
     shotCluster: number;
     pressure: number;
+    // Per-team pressure index (0-100, last 5 minutes); absent on entries saved before it existed
+    homePressure?: number;
+    awayPressure?: number;
   };
   reasoning?: string; // Added for AI explanation
+  // Probability ladder; absent on snapshots recorded before multi-horizon predictions
+  horizons?: GoalHorizons;
+  nextGoal?: NextGoalOdds;
+  expectedRemainingGoals?: number;
+}
+
+// Probability (0-100) of at least one goal over horizons longer than the headline 5 minutes
+export interface GoalHorizons {
+  m10: number;
+  m15: number;
+  full_time: number;
+}
+
+// Who scores next (0-100 each, summing to 100); `none` is no further goal
+export interface NextGoalOdds {
+  home: number;
+  away: number;
+  none: number;
 }
 
 // New interface for AI prediction response
 export interface AIPredictionResponse {
-  goal_probability: number; // 0-100
-  // Fix: Update confidence_level type to match AI's Vietnamese output
-  confidence_level: 'thấp' | 'trung bình' | 'cao' | 'rất cao';
+  goal_probability: number; // 0-100, next 5 minutes
+  confidence_level: ConfidenceLevel;
   reasoning?: string; // Optional explanation from AI
+  horizons?: GoalHorizons;
+  next_goal?: NextGoalOdds; // AI backends only, the local model has no per-team view
+  expected_remaining_goals?: number;
+}
+
+// Output of the in-browser goal model (services/goalModel.ts), same shape as the AI response
+export interface LocalGoalPrediction extends AIPredictionResponse {
+  goalRatePerMinute: number;
+}
+
+// Minutes the Dashboard marked on its charts when the goal probability ran high
+export interface Highlight {
+  minute: number;
+  level: 'weak' | 'medium' | 'strong';
+  label: string;
+}
+
+export interface AllHighlights {
+  overUnder: Highlight[];
+  homeOdds: Highlight[];
+}
+
+// A raw provider response captured during a live poll, replayable later.
+export interface SessionSnapshot {
+  timestamp: number; // Date.now() when the snapshot was captured
+  details: MatchInfo | null;
+  odds: OddsData | null;
+  analysis?: PreGoalAnalysis; // Present when the poll produced an AI prediction
+}
+
+export interface MatchSessionSummary {
+  matchId: string;
+  league: string;
+  home: string;
+  away: string;
+  startedAt: number;
+  updatedAt: number;
+  snapshotCount: number;
+}
+
+export interface MatchSession extends MatchSessionSummary {
+  snapshots: SessionSnapshot[];
+}
+
+export type DataProviderKind = 'b365' | 'fixtures' | 'session' | 'http';
+
+// Source of live match data. Components only talk to this, never to a concrete feed.
+export interface DataProvider {
+  kind: DataProviderKind;
+  label: string;
+  getInPlayEvents(): Promise<MatchInfo[]>;
+  getMatchDetails(eventId: string): Promise<MatchInfo | null>;
+  getMatchOdds(eventId: string): Promise<OddsData | null>;
+  getMatchHistory?(eventId: string): Promise<MatchHistory | null>; // Only sources with a server-side archive
+}
+
+// Everything the Worker archived for one event (GET /history?event_id=)
+export interface MatchHistory {
+  eventId: string;
+  updatedAt: number;
+  odds: OddsData['results']['odds']; // Same item shape as /odds, merged over time, newest first
+  stats: Record<string, { ss?: string; stats: Record<string, string[]> }>; // Keyed by match minute
+}
+
+// Serializable choice made at login; recorded-session providers are not persisted.
+export interface DataProviderConfig {
+  kind: DataProviderKind;
+  clientKey?: string; // b365: optional Worker client key (the B365 token itself stays on the Worker)
+  baseUrl?: string; // http
+}
+
+export type PredictionSource = 'gemini' | 'local';
+
+// One logged goal prediction, resolved once the 5-minute horizon has played out
+export interface PredictionJournalEntry {
+  id: string;
+  matchId: string;
+  source: PredictionSource;
+  model?: string; // LLM backend and model for AI entries, e.g. "openai · llama3.1"
+  createdAt: number;
+  minute: number;
+  scoreAtPrediction: string; // `ss` when the prediction was made
+  inputs: {
+    factors: PreGoalAnalysis['factors'];
+    overLine: { handicap: string; over: number; under: number } | null;
+    homeApi: number;
+    awayApi: number;
+  };
+  probability: number; // 0-100
+  confidence: ConfidenceLevel;
+  reasoning?: string;
+  outcome?: {
+    goal: boolean; // A goal came within the horizon
+    resolvedAt: number;
+    resolvedMinute: number;
+  };
+}
+
+export type MatchEventType = 'goal' | 'yellowcard' | 'redcard' | 'corner';
+
+// An incident derived from the difference between two consecutive MatchInfo snapshots
+export interface MatchEvent {
+  minute: number;
+  added?: number; // Stoppage minutes beyond `minute`, as in a MatchClock
+  team: 'home' | 'away';
+  type: MatchEventType;
+}
+
+// Latest background analysis of a starred match (services/watchlist.ts)
+export interface WatchedMatchSummary {
+  matchId: string;
+  league: string;
+  home: string;
+  away: string;
+  ss: string;
+  minute: number;
+  factors: PreGoalAnalysis['factors'];
+  probability: number; // Local model, next 5 minutes
+  confidence: ConfidenceLevel;
+  updatedAt: number;
+  oddsUpdatedAt?: number;
+}
+
+export type AlertSignal =
+  | 'minute'
+  | 'apiMomentum'
+  | 'shotCluster'
+  | 'pressure'
+  | 'homePressure'
+  | 'awayPressure'
+  | 'pressureGap' // Home minus away pressure index
+  | 'localProbability'
+  | 'aiProbability'
+  | 'totalGoals'
+  | 'goalDifference'
+  | 'redCards'
+  | 'overOdds'
+  | 'overOddsChange' // Change of the over price on the current line within `window` minutes
+  | 'homeOddsChange'; // Change of the home price on the current handicap within `window` minutes
+
+export type AlertOperator = '>' | '>=' | '<' | '<=' | 'between';
+
+export interface AlertCondition {
+  signal: AlertSignal;
+  operator: AlertOperator;
+  value: number;
+  value2?: number; // Upper bound for 'between'
+  window?: number; // Minutes, for the *Change signals
+}
+
+// All conditions must hold (AND)
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  conditions: AlertCondition[];
+}
+
+export interface AlertHistoryEntry {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  matchId: string;
+  home: string;
+  away: string;
+  ss: string;
+  minute: number;
+  firedAt: number;
+  signals: Partial<Record<AlertSignal, number>>; // Values of the signals the rule used
+}
+
+export type ApiEndpoint = 'inplay' | 'odds' | 'history';
+
+// One request through the proxy (retries are separate records)
+export interface ApiCallRecord {
+  timestamp: number;
+  endpoint: ApiEndpoint;
+  eventId?: string;
+  cache: 'HIT' | 'MISS' | null; // X-Proxy-Cache; null when the proxy did not say (or the call failed)
+  latencyMs: number;
+  status: number; // 0 when the request never got a response
+}
+
+// Caps count upstream calls only: cache HITs do not touch the B365 quota
+export interface ApiBudget {
+  hourlyCap: number;
+  dailyCap: number;
+}
+
+export type BetMarket = '1_2' | '1_3'; // Asian handicap | over/under
+export type BetSide = 'home' | 'away' | 'over' | 'under';
+export type BetSignal = 'gemini' | 'local' | 'alert' | 'manual'; // What prompted the bet
+export type BetResult = 'win' | 'half-win' | 'push' | 'half-loss' | 'loss';
+
+export interface Bet {
+  id: string;
+  matchId: string;
+  league: string;
+  home: string;
+  away: string;
+  market: BetMarket;
+  handicap: string; // As quoted, for the home side on 1_2
+  line: number; // Numeric line for the chosen side (away on 1_2 is the negated home handicap)
+  side: BetSide;
+  price: number;
+  stake: number;
+  minute: number;
+  ssAtPlacement: string;
+  signal: BetSignal;
+  provider?: DataProviderKind; // Feed the bet was logged on; only that feed settles it (missing on older bets: b365)
+  placedAt: number;
+  lastSeen?: { ss: string; minute: number; at: number; ended?: boolean }; // Latest in-play state, until settled
+  unverified?: boolean; // Missing from the in-play list without being known to have ended
+  missedPolls?: number; // In-play lists in a row the match was missing from
+  settlement?: { result: BetResult; profit: number; finalSs: string; settledAt: number };
+}
+
+export interface ChecklistItem {
+  id: string;
+  label: string;
+  enabled: boolean;
+}
+
+export interface DisciplineSettings {
+  checklist: ChecklistItem[];
+  maxConsecutiveLosses: number;
+  maxStakeMultiple: number; // Stake above this multiple of the recent median counts as escalation
+  maxBetsInWindow: number;
+  windowMinutes: number;
+  cooldownMinutes: number;
+}
+
+export type TiltKind = 'consecutive-losses' | 'stake-escalation' | 'bet-frequency';
+
+export interface Cooldown {
+  startedAt: number;
+  until: number;
+  reason: string;
+}
+
+export interface DisciplineOverride {
+  id: string;
+  at: number;
+  matchId: string;
+  kind: 'checklist' | 'cooldown';
+  detail: string; // Unchecked items or the cooldown reason
+  reason: string; // The user's own justification
+}
+
+// Everything kept for one match in IndexedDB (services/matchStore.ts); snapshots live in their own store
+export interface StoredMatch {
+  matchId: string;
+  league: string;
+  home: string;
+  away: string;
+  createdAt: number;
+  updatedAt: number;
+  statsHistory: Record<number, ProcessedStats>;
+  highlights: AllHighlights;
+  snapshotCount: number;
+  sessionStartedAt?: number; // First recorded snapshot
+  sessionUpdatedAt?: number; // Latest recorded snapshot
+}
+
+export interface RetentionPolicy {
+  maxAgeDays: number; // Matches not updated for longer are deleted
+  starredOnly: boolean; // Also delete matches that are not on the watchlist (after a day's grace)
+}
+
+// Weight per event in the API score (services/apiScoreProfiles.ts); applied to each team's own counts
+export interface ApiScoreWeights {
+  shots: number; // On + off target
+  onTarget: number; // On top of the shot weight
+  corners: number;
+  dangerousAttacks: number;
+  attacks: number;
+  yellowCards: number;
+  redCards: number;
+}
+
+export interface ApiScoreProfile {
+  id: string;
+  name: string;
+  weights: ApiScoreWeights;
+  builtIn?: boolean; // The original formula; can be copied but not edited or deleted
 }
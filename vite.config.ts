@@ -8,5 +8,7 @@ export default defineConfig({
   // Define process.env.API_KEY for client-side access, as required by @google/genai
   define: {
     'process.env.API_KEY': JSON.stringify(process.env.API_KEY),
+    // Optional override of the Worker proxy URL, e.g. the local one from `npm run worker:local`
+    'process.env.PROXY_URL': JSON.stringify(process.env.PROXY_URL),
   },
 })
\ No newline at end of file
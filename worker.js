@@ -1,74 +1,307 @@
-export default {
-  async fetch(request, env) {
-    const url = new URL(request.url);
-    const targetUrl = url.searchParams.get('target');
+// Proxy B365 cho ứng dụng.
+//
+// Client chỉ gọi các route logic, không bao giờ gửi URL hay token B365:
+//   GET /inplay                 -> v3/events/inplay?sport_id=1
+//   GET /odds?event_id=<id>     -> v2/event/odds?event_id=<id>
+//   GET /history?event_id=<id>  -> toàn bộ lịch sử tỷ lệ cược và thống kê đã lưu của trận (không gọi B365)
+//   POST /notify                -> chuyển tiếp { url, body } tới một webhook (Telegram/Discord...) thuộc WEBHOOK_HOSTS
+//
+// Cấu hình (wrangler):
+//   B365_TOKEN             secret, token B365 (`wrangler secret put B365_TOKEN`)
+//   B365_CACHE             KV namespace dùng làm cache 60s
+//   B365_ARCHIVE           tuỳ chọn, KV namespace lưu lâu dài lịch sử tỷ lệ cược/thống kê theo trận
+//   CLIENT_KEYS            tuỳ chọn, danh sách khóa client cách nhau bởi dấu phẩy (header X-Client-Key)
+//   RATE_LIMIT_PER_MINUTE  tuỳ chọn, số yêu cầu tối đa mỗi client mỗi phút (mặc định 10)
+//   RATE_LIMITER           tuỳ chọn, binding Rate Limiting của Cloudflare; nếu không có thì đếm trong bộ nhớ
+//   WEBHOOK_HOSTS          tuỳ chọn, danh sách host webhook được phép, cách nhau bởi dấu phẩy
+//                          (mặc định api.telegram.org, discord.com, discordapp.com)
+//
+// Chạy thử cục bộ với upstream giả: `npm run worker:local` (xem scripts/worker-local.mjs).
 
-    if (!targetUrl) {
-      return new Response('Missing target URL', { status: 400 });
-    }
+const B365_API_BASE = 'https://api.b365api.com';
+const ALLOWED_HOSTS = ['api.b365api.com'];
+const CACHE_TTL_SECONDS = 60;
+const RATE_WINDOW_MS = 60 * 1000;
+const DEFAULT_RATE_LIMIT_PER_MINUTE = 10;
+const ARCHIVE_INDEX_KEY = 'archive:index';
+const ARCHIVE_TTL_SECONDS = 3 * 24 * 60 * 60;
+const ARCHIVE_TRACK_MS = 3 * 60 * 60 * 1000; // Trận không được mở lại trong 3 giờ thì ngừng lưu thống kê
+const ARCHIVED_MARKETS = ['1_2', '1_3'];
+const DEFAULT_WEBHOOK_HOSTS = ['api.telegram.org', 'discord.com', 'discordapp.com'];
+const MAX_NOTIFY_BODY_BYTES = 8 * 1024;
 
-    // Tạo key duy nhất dựa trên URL (loại bỏ ký tự đặc biệt)
-    const cacheKey = btoa(targetUrl).substring(0, 64);
-    
-    // 1. Kiểm tra cache trong KV
-    const cachedResponse = await env.B365_CACHE.get(cacheKey);
-
-    const corsHeaders = {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET,HEAD,POST,OPTIONS',
-      'Access-Control-Max-Age': '86400',
-    };
-
-    if (request.method === 'OPTIONS') {
-      return new Response(null, {
-        headers: { 
-          ...corsHeaders, 
-          'Access-Control-Allow-Headers': request.headers.get('Access-Control-Request-Headers') || '' 
-        }
-      });
-    }
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET,POST,OPTIONS',
+  'Access-Control-Max-Age': '86400',
+  // Cho phép trình duyệt đọc X-Proxy-Cache để thống kê lượt gọi API
+  'Access-Control-Expose-Headers': 'X-Proxy-Cache',
+};
+
+const jsonError = (status, message, extraHeaders = {}) =>
+  new Response(JSON.stringify({ success: 0, error: message }), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json', ...extraHeaders },
+  });
+
+// Route logic -> { path, params, cacheKey } của B365, hoặc null nếu không hỗ trợ
+const resolveRoute = (url) => {
+  if (url.pathname === '/inplay') {
+    return { path: '/v3/events/inplay', params: { sport_id: '1' }, cacheKey: 'inplay' };
+  }
+  if (url.pathname === '/odds') {
+    const eventId = url.searchParams.get('event_id');
+    if (!eventId || !/^[\w-]+$/.test(eventId)) return null;
+    return { path: '/v2/event/odds', params: { event_id: eventId }, cacheKey: `odds:${eventId}`, eventId };
+  }
+  return null;
+};
+
+// --- Lưu trữ lịch sử ---
+// Mỗi trận một khóa `history:<id>` trong B365_ARCHIVE:
+//   { eventId, updatedAt, odds: { '1_2': [...], '1_3': [...] }, stats: { '<phút>': { ss, stats } } }
+// Tỷ lệ cược được lưu mỗi lần /odds gọi B365 thật; thống kê lấy từ /inplay cho các trận
+// đã có người mở tỷ lệ cược gần đây (danh sách trong `archive:index`), để không ghi KV cho mọi trận.
+// Hai lần ghi cùng lúc có thể làm mất một bản cập nhật; lần gọi sau sẽ bổ sung lại.
+
+const historyKey = (eventId) => `history:${eventId}`;
+
+const loadJson = async (kv, key, fallback) => {
+  const saved = await kv.get(key);
+  if (!saved) return fallback;
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    return fallback;
+  }
+};
+
+const emptyHistory = (eventId) => ({ eventId, updatedAt: 0, odds: { '1_2': [], '1_3': [] }, stats: {} });
+
+// Gộp các mục tỷ lệ cược theo id, sắp xếp theo thời điểm cập nhật
+const mergeOddsItems = (existing, incoming) => {
+  const byId = new Map(existing.map(item => [item.id || `${item.time_str}|${item.add_time}|${item.handicap}`, item]));
+  incoming.forEach(item => byId.set(item.id || `${item.time_str}|${item.add_time}|${item.handicap}`, item));
+  return [...byId.values()].sort((a, b) => Number(b.add_time || 0) - Number(a.add_time || 0));
+};
+
+const archiveOdds = async (env, eventId, body) => {
+  const data = JSON.parse(body);
+  const odds = data?.results?.odds;
+  if (!odds) return;
+  const history = await loadJson(env.B365_ARCHIVE, historyKey(eventId), emptyHistory(eventId));
+  ARCHIVED_MARKETS.forEach(market => {
+    history.odds[market] = mergeOddsItems(history.odds[market] || [], odds[market] || []);
+  });
+  history.updatedAt = Date.now();
+  await env.B365_ARCHIVE.put(historyKey(eventId), JSON.stringify(history), { expirationTtl: ARCHIVE_TTL_SECONDS });
+
+  const index = await loadJson(env.B365_ARCHIVE, ARCHIVE_INDEX_KEY, {});
+  index[eventId] = Date.now();
+  await env.B365_ARCHIVE.put(ARCHIVE_INDEX_KEY, JSON.stringify(index));
+};
+
+const archiveStats = async (env, body) => {
+  const data = JSON.parse(body);
+  const index = await loadJson(env.B365_ARCHIVE, ARCHIVE_INDEX_KEY, {});
+  const now = Date.now();
+  const tracked = Object.keys(index).filter(id => now - index[id] < ARCHIVE_TRACK_MS);
+  if (tracked.length !== Object.keys(index).length) {
+    await env.B365_ARCHIVE.put(ARCHIVE_INDEX_KEY, JSON.stringify(Object.fromEntries(tracked.map(id => [id, index[id]]))));
+  }
+
+  const events = (data?.results || []).filter(e => tracked.includes(e.id) && e.timer?.tm && e.stats);
+  await Promise.all(events.map(async (event) => {
+    const history = await loadJson(env.B365_ARCHIVE, historyKey(event.id), emptyHistory(event.id));
+    history.stats[event.timer.tm] = { ss: event.ss, stats: event.stats };
+    history.updatedAt = now;
+    await env.B365_ARCHIVE.put(historyKey(event.id), JSON.stringify(history), { expirationTtl: ARCHIVE_TTL_SECONDS });
+  }));
+};
+
+const archiveResponse = (env, route, body) => {
+  if (!env.B365_ARCHIVE) return Promise.resolve();
+  return (route.eventId ? archiveOdds(env, route.eventId, body) : archiveStats(env, body))
+    .catch(err => console.error('Archive error:', err.message));
+};
+
+const handleHistory = async (env, url) => {
+  const eventId = url.searchParams.get('event_id');
+  if (!eventId || !/^[\w-]+$/.test(eventId)) {
+    return jsonError(400, 'Missing or invalid event_id');
+  }
+  const history = env.B365_ARCHIVE ? await loadJson(env.B365_ARCHIVE, historyKey(eventId), null) : null;
+  return new Response(JSON.stringify({ success: 1, results: history }), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+};
+
+// --- Thông báo webhook ---
+// Worker chỉ chuyển tiếp: nội dung tin nhắn do ứng dụng định dạng (services/notifications.ts).
+// Chỉ gửi tới host trong WEBHOOK_HOSTS để Worker không thành proxy mở.
 
-    // 2. Nếu có cache, trả về ngay lập tức
-    if (cachedResponse) {
-      return new Response(cachedResponse, {
-        headers: { 
-          ...corsHeaders, 
-          'Content-Type': 'application/json',
-          'X-Proxy-Cache': 'HIT' // Đánh dấu là lấy từ cache
-        },
-      });
+const handleNotify = async (request, env) => {
+  let payload;
+  try {
+    payload = await request.json();
+  } catch (e) {
+    return jsonError(400, 'Invalid JSON body');
+  }
+
+  let target;
+  try {
+    target = new URL(payload?.url);
+  } catch (e) {
+    return jsonError(400, 'Missing or invalid webhook url');
+  }
+  const allowedHosts = env.WEBHOOK_HOSTS
+    ? env.WEBHOOK_HOSTS.split(',').map(h => h.trim()).filter(Boolean)
+    : DEFAULT_WEBHOOK_HOSTS;
+  if (!['https:', 'http:'].includes(target.protocol) || !allowedHosts.includes(target.hostname)) {
+    return jsonError(403, 'Webhook host not allowed');
+  }
+  const body = JSON.stringify(payload.body ?? {});
+  if (body.length > MAX_NOTIFY_BODY_BYTES) {
+    return jsonError(413, 'Notification body too large');
+  }
+
+  try {
+    const response = await fetch(target.toString(), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body,
+    });
+    if (!response.ok) {
+      // Không trả lại URL webhook: URL của Telegram chứa token bot
+      const detail = (await response.text()).slice(0, 200);
+      return jsonError(502, `Webhook answered ${response.status}: ${detail}`);
     }
+    return new Response(JSON.stringify({ success: 1, status: response.status }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (err) {
+    return jsonError(502, 'Webhook error: ' + err.message);
+  }
+};
+
+// Đếm trong bộ nhớ của isolate: chỉ gần đúng khi Worker chạy trên nhiều isolate,
+// nên dùng binding RATE_LIMITER khi triển khai thật.
+const rateWindows = new Map();
+
+const isRateLimited = async (env, clientId) => {
+  if (env.RATE_LIMITER) {
+    const { success } = await env.RATE_LIMITER.limit({ key: clientId });
+    return !success;
+  }
+  const limit = Number(env.RATE_LIMIT_PER_MINUTE) || DEFAULT_RATE_LIMIT_PER_MINUTE;
+  const now = Date.now();
+  const window = rateWindows.get(clientId);
+  if (!window || now - window.start >= RATE_WINDOW_MS) {
+    rateWindows.set(clientId, { start: now, count: 1 });
+    return false;
+  }
+  window.count++;
+  return window.count > limit;
+};
+
+/**
+ * `upstreamFetch` chỉ được thay khi chạy thử cục bộ; URL gửi đi vẫn phải qua ALLOWED_HOSTS.
+ */
+export const handleRequest = async (request, env, ctx, upstreamFetch = fetch) => {
+  if (request.method === 'OPTIONS') {
+    return new Response(null, {
+      headers: {
+        ...corsHeaders,
+        'Access-Control-Allow-Headers': request.headers.get('Access-Control-Request-Headers') || '',
+      },
+    });
+  }
+  const url = new URL(request.url);
+  const isNotify = url.pathname === '/notify';
+  if (request.method !== (isNotify ? 'POST' : 'GET')) {
+    return jsonError(405, 'Method not allowed');
+  }
+
+  const route = resolveRoute(url);
+  if (!route && url.pathname !== '/history' && !isNotify) {
+    return jsonError(404, 'Unknown route. Use /inplay, /odds?event_id=<id>, /history?event_id=<id> or POST /notify');
+  }
+
+  // 1. Xác thực client (nếu có cấu hình CLIENT_KEYS)
+  const clientKey = request.headers.get('X-Client-Key') || '';
+  const allowedKeys = (env.CLIENT_KEYS || '').split(',').map(k => k.trim()).filter(Boolean);
+  if (allowedKeys.length > 0 && !allowedKeys.includes(clientKey)) {
+    return jsonError(401, 'Invalid client key');
+  }
+
+  // 2. Giới hạn tần suất theo client: theo khóa nếu có, nếu không theo IP.
+  //    Thông báo có hạn mức riêng để không làm chậm việc lấy dữ liệu trận.
+  const clientId = clientKey || request.headers.get('CF-Connecting-IP') || 'anonymous';
+  if (await isRateLimited(env, isNotify ? `notify:${clientId}` : clientId)) {
+    return jsonError(429, 'Rate limit exceeded', { 'Retry-After': String(RATE_WINDOW_MS / 1000) });
+  }
+
+  if (isNotify) {
+    return handleNotify(request, env);
+  }
+  if (!route) {
+    return handleHistory(env, url);
+  }
 
-    // 3. Nếu chưa có cache, gọi API thật
-    try {
-      const response = await fetch(targetUrl, {
-        method: request.method,
-        headers: {
-            'Accept': 'application/json',
-            // Thêm các header cần thiết của B365 tại đây nếu cần
-        },
-        redirect: 'follow',
-      });
-
-      const data = await response.text();
-
-      // Chỉ lưu vào cache nếu API trả về thành công (status 200)
-      if (response.ok) {
-        // expirationTtl: 60 (giây) = Hạn chế 1 phút gọi 1 lần
-        await env.B365_CACHE.put(cacheKey, data, { expirationTtl: 60 });
-      }
-
-      return new Response(data, {
-        status: response.status,
-        headers: { 
-          ...corsHeaders, 
-          'Content-Type': 'application/json',
-          'X-Proxy-Cache': 'MISS' // Đánh dấu là gọi API thật
-        },
-      });
-
-    } catch (err) {
-      return new Response('Proxy Error: ' + err.message, { status: 500 });
+  if (!env.B365_TOKEN) {
+    return jsonError(500, 'B365_TOKEN is not configured');
+  }
+
+  // 3. Kiểm tra cache trong KV. Khóa cache không chứa token.
+  const cachedResponse = await env.B365_CACHE.get(route.cacheKey);
+  if (cachedResponse) {
+    return new Response(cachedResponse, {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/json',
+        'X-Proxy-Cache': 'HIT', // Đánh dấu là lấy từ cache
+      },
+    });
+  }
+
+  // 4. Nếu chưa có cache, gọi API thật với token phía server
+  const targetUrl = new URL(route.path, B365_API_BASE);
+  if (!ALLOWED_HOSTS.includes(targetUrl.hostname)) {
+    return jsonError(403, 'Upstream host not allowed');
+  }
+  Object.entries(route.params).forEach(([key, value]) => targetUrl.searchParams.set(key, value));
+  targetUrl.searchParams.set('token', env.B365_TOKEN);
+
+  try {
+    const response = await upstreamFetch(targetUrl.toString(), {
+      method: 'GET',
+      headers: { 'Accept': 'application/json' },
+      redirect: 'follow',
+    });
+
+    const data = await response.text();
+
+    // Chỉ lưu vào cache nếu API trả về thành công (status 200)
+    if (response.ok) {
+      await env.B365_CACHE.put(route.cacheKey, data, { expirationTtl: CACHE_TTL_SECONDS });
+      // Lưu lịch sử sau khi trả lời, không làm chậm client
+      ctx.waitUntil(archiveResponse(env, route, data));
     }
-  },
-};
\ No newline at end of file
+
+    return new Response(data, {
+      status: response.status,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/json',
+        'X-Proxy-Cache': 'MISS', // Đánh dấu là gọi API thật
+      },
+    });
+  } catch (err) {
+    // Không trả lại URL upstream: nó chứa token
+    return jsonError(502, 'Proxy Error: ' + err.message);
+  }
+};
+
+export default {
+  fetch: (request, env, ctx) => handleRequest(request, env, ctx),
+};